@@ -0,0 +1,15 @@
+import type { ChartAnnotation } from "../types";
+
+/**
+ * One annotation of every kind, shared by the adapter snapshot tests.
+ */
+export const ANNOTATION_FIXTURES: ChartAnnotation[] = [
+    { kind: 'trendLine', role: 'trend', points: [[0, 1], [10, 21]] },
+    { kind: 'trendLine', role: 'alternativeModel', label: 'exponential', points: [[0, 1], [5, 7.39], [10, 54.6]] },
+    { kind: 'band', role: 'confidence', points: [[0, 0.5, 2.5], [5, 10.5, 11.5], [10, 20.25, 21.75]] },
+    { kind: 'point', role: 'outlier', x: 4, y: 30 },
+    { kind: 'verticalMarker', role: 'changePoint', label: 'Trend break', x: 6 },
+    { kind: 'region', role: 'highlight', x: [2, 3] },
+    { kind: 'region', role: 'highlight', label: 'Launch week', x: [7, 8], y: [10, 20] },
+    { kind: 'label', role: 'note', x: 4, y: 30, text: 'Outage' }
+];
@@ -0,0 +1,27 @@
+import type { AnnotationAdapterOptions, AnnotationRole, AnnotationStyle } from "./types";
+
+/**
+ * The default style of each annotation role, using the Tableau 10 palette shared by Vega-Lite and many other tools.
+ * Spread a role's default into `styles` to change one property, e.g. `{ trend: { ...ROLE_STYLES.trend, dashed: true } }`.
+ */
+export const ROLE_STYLES: Record<AnnotationRole, AnnotationStyle> = {
+    trend: { color: '#1f77b4', opacity: 1, dashed: false },
+    segment: { color: '#1f77b4', opacity: 1, dashed: false },
+    alternativeModel: { color: '#9467bd', opacity: 1, dashed: true },
+    confidence: { color: '#1f77b4', opacity: 0.25, dashed: false },
+    prediction: { color: '#1f77b4', opacity: 0.1, dashed: false },
+    outlier: { color: '#d62728', opacity: 1, dashed: false },
+    influential: { color: '#ff7f0e', opacity: 1, dashed: false },
+    changePoint: { color: '#7f7f7f', opacity: 1, dashed: true },
+    crossing: { color: '#2ca02c', opacity: 1, dashed: true },
+    highlight: { color: '#ff7f0e', opacity: 0.15, dashed: false },
+    note: { color: '#333333', opacity: 1, dashed: false }
+};
+
+/**
+ * The default options of `toVegaLiteLayers` and `toEChartsMarks`: a quantitative x-axis and the `ROLE_STYLES`.
+ */
+export const DEFAULT_ADAPTER_OPTIONS: AnnotationAdapterOptions = {
+    xType: 'quantitative',
+    styles: {}
+};
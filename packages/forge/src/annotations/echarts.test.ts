@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { toEChartsMarks } from "./echarts";
+import { ANNOTATION_FIXTURES } from "./__fixtures__/annotations";
+
+describe("toEChartsMarks", () => {
+    it("should convert every kind of annotation into marks and band series", () => {
+        expect(toEChartsMarks({}, ANNOTATION_FIXTURES)).toMatchSnapshot();
+    });
+
+    it("should draw a curve as consecutive markLine segments", () => {
+        const marks = toEChartsMarks({}, [ANNOTATION_FIXTURES[1]]);
+
+        expect(marks.markLine.data).toHaveLength(2);
+        expect(marks.markLine.data[1]).toEqual([
+            { name: 'exponential', coord: [5, 7.39], lineStyle: { color: '#9467bd', type: 'dashed' } },
+            { coord: [10, 54.6] }
+        ]);
+    });
+
+    it("should stack a band's width on its lower bound", () => {
+        const { series } = toEChartsMarks({}, [ANNOTATION_FIXTURES[2]]);
+
+        expect(series.map((s) => s.data)).toEqual([
+            [[0, 0.5], [5, 10.5], [10, 20.25]],
+            [[0, 2], [5, 1], [10, 1.5]]
+        ]);
+        expect(series[0].stack).toBe(series[1].stack);
+    });
+
+    it("should return empty marks for no annotations", () => {
+        expect(toEChartsMarks({}, [])).toEqual({
+            markLine: { symbol: ['none', 'none'], data: [] },
+            markArea: { data: [] },
+            markPoint: { data: [] },
+            series: []
+        });
+    });
+});
@@ -0,0 +1,107 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_ADAPTER_OPTIONS, ROLE_STYLES } from "./const";
+import type { AnnotationAdapterOptions, ChartAnnotation, EChartsLineStyle, EChartsMarks } from "./types";
+
+/**
+ * @function toEChartsMarks
+ * @description Converts chart annotations into ECharts `markLine`, `markArea` and `markPoint` options.
+ * Trend lines become markLine segments, vertical markers markLine `xAxis` lines, regions markArea rectangles,
+ * and points and labels markPoint entries. Bands have no mark equivalent, so each becomes a pair of stacked
+ * line series in `series`. Styles follow each annotation's role.
+ * @param {Partial<AnnotationAdapterOptions>} options - Optional overrides for the role styles. ECharts takes the
+ * x-axis type from the chart, so `xType` is not used.
+ * @param {ChartAnnotation[]} annotations - The annotations to convert, e.g. from `GeneratedInsight.annotations`.
+ * @returns {EChartsMarks} Marks to assign to the annotated data series, and extra series to append to the chart.
+ * @example
+ * const marks = toEChartsMarks({}, insight.annotations ?? []);
+ * const option = {
+ *     series: [{ type: 'scatter', data, markLine: marks.markLine, markArea: marks.markArea, markPoint: marks.markPoint }, ...marks.series]
+ * };
+ */
+export const toEChartsMarks = curry((
+    suppliedOptions: Partial<AnnotationAdapterOptions>,
+    annotations: ChartAnnotation[]
+): EChartsMarks => {
+    const options: AnnotationAdapterOptions = { ...DEFAULT_ADAPTER_OPTIONS, ...suppliedOptions };
+    const marks: EChartsMarks = {
+        markLine: { symbol: ['none', 'none'], data: [] },
+        markArea: { data: [] },
+        markPoint: { data: [] },
+        series: []
+    };
+
+    annotations.forEach((annotation, index) => {
+        const { color, opacity, dashed } = options.styles[annotation.role] ?? ROLE_STYLES[annotation.role];
+        const lineStyle: EChartsLineStyle = { color, type: dashed ? 'dashed' : 'solid' };
+        const name = annotation.label !== undefined ? { name: annotation.label } : {};
+
+        switch (annotation.kind) {
+            case 'trendLine':
+                for (let i = 1; i < annotation.points.length; i++) {
+                    marks.markLine.data.push([
+                        { ...name, coord: annotation.points[i - 1], lineStyle },
+                        { coord: annotation.points[i] }
+                    ]);
+                }
+                break;
+            case 'band': {
+                const stack = `${annotation.role}-${index}`;
+                marks.series.push(
+                    {
+                        type: 'line',
+                        data: annotation.points.map(([x, lower]) => [x, lower]),
+                        stack,
+                        symbol: 'none',
+                        silent: true,
+                        lineStyle: { opacity: 0 }
+                    },
+                    {
+                        type: 'line',
+                        ...name,
+                        data: annotation.points.map(([x, lower, upper]) => [x, upper - lower]),
+                        stack,
+                        symbol: 'none',
+                        silent: true,
+                        lineStyle: { opacity: 0 },
+                        areaStyle: { color, opacity }
+                    }
+                );
+                break;
+            }
+            case 'point':
+                marks.markPoint.data.push({
+                    ...name,
+                    coord: [annotation.x, annotation.y],
+                    symbolSize: 12,
+                    itemStyle: { color },
+                    label: { show: false }
+                });
+                break;
+            case 'verticalMarker':
+                marks.markLine.data.push({ ...name, xAxis: annotation.x, lineStyle });
+                break;
+            case 'region':
+                marks.markArea.data.push([
+                    {
+                        ...name,
+                        xAxis: annotation.x[0],
+                        ...(annotation.y ? { yAxis: annotation.y[0] } : {}),
+                        itemStyle: { color, opacity }
+                    },
+                    { xAxis: annotation.x[1], ...(annotation.y ? { yAxis: annotation.y[1] } : {}) }
+                ]);
+                break;
+            case 'label':
+                marks.markPoint.data.push({
+                    ...name,
+                    coord: [annotation.x, annotation.y],
+                    symbolSize: 0,
+                    itemStyle: { color },
+                    label: { show: true, formatter: annotation.text }
+                });
+                break;
+        }
+    });
+
+    return marks;
+});
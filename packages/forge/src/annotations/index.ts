@@ -0,0 +1,4 @@
+export * from "./vegaLite";
+export * from "./echarts";
+export * from "./const";
+export * from "./types";
@@ -0,0 +1,19 @@
+import type { AnnotationPoint } from "./types";
+
+/**
+ * The number of points at which a curve is sampled for its chart annotation.
+ */
+const CURVE_SAMPLES = 50;
+
+/**
+ * Sample a fitted curve at evenly spaced x-values from `first` to `last`, both included, for a trend line annotation.
+ *
+ * @param {(x: number) => AnnotationPoint} predict - The fitted curve, returning `[x, y]`.
+ * @param {number} first - The smallest x-value.
+ * @param {number} last - The largest x-value.
+ * @returns {AnnotationPoint[]} The sampled points, in ascending order of x.
+ */
+export const sampleCurve = (predict: (x: number) => AnnotationPoint, first: number, last: number): AnnotationPoint[] =>
+    Array.from({ length: CURVE_SAMPLES }, (_, i) =>
+        predict(i === CURVE_SAMPLES - 1 ? last : first + (i * (last - first)) / (CURVE_SAMPLES - 1))
+    );
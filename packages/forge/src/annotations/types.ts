@@ -0,0 +1,225 @@
+/**
+ * A position in the data space of the chart, `[x, y]`. Time axes use epoch milliseconds for x.
+ */
+export type AnnotationPoint = [number, number];
+
+/**
+ * What an annotation means, independent of how it is drawn. Adapters style annotations by their role, so that,
+ * for example, every outlier is drawn the same way whichever insight flagged it.
+ */
+export type AnnotationRole =
+    | 'trend'
+    | 'segment'
+    | 'alternativeModel'
+    | 'confidence'
+    | 'prediction'
+    | 'outlier'
+    | 'influential'
+    | 'changePoint'
+    | 'crossing'
+    | 'highlight'
+    | 'note';
+
+/**
+ * The properties shared by every annotation.
+ */
+export interface AnnotationBase {
+    /**
+     * The meaning of the annotation, used to style it.
+     */
+    role: AnnotationRole;
+    /**
+     * Optional text to show with the annotation, e.g. in a tooltip or legend.
+     */
+    label?: string;
+}
+
+/**
+ * A fitted line or curve through the given points, in ascending order of x. A straight line has two points.
+ */
+export interface TrendLineAnnotation extends AnnotationBase {
+    kind: 'trendLine';
+    points: AnnotationPoint[];
+}
+
+/**
+ * A shaded band between a lower and an upper curve, such as a confidence or prediction band.
+ * Each point is `[x, lower, upper]`, in ascending order of x.
+ */
+export interface BandAnnotation extends AnnotationBase {
+    kind: 'band';
+    points: [number, number, number][];
+}
+
+/**
+ * A single data point to highlight, such as an outlier.
+ */
+export interface PointAnnotation extends AnnotationBase {
+    kind: 'point';
+    x: number;
+    y: number;
+}
+
+/**
+ * A vertical line across the whole chart at `x`, such as a change point.
+ */
+export interface VerticalMarkerAnnotation extends AnnotationBase {
+    kind: 'verticalMarker';
+    x: number;
+}
+
+/**
+ * A shaded rectangle spanning `x` from start to end, and `y` from lower to upper.
+ * When `y` is omitted the region spans the full height of the chart.
+ */
+export interface RegionAnnotation extends AnnotationBase {
+    kind: 'region';
+    x: [number, number];
+    y?: [number, number];
+}
+
+/**
+ * A text label anchored at a point in data space.
+ */
+export interface LabelAnnotation extends AnnotationBase {
+    kind: 'label';
+    x: number;
+    y: number;
+    text: string;
+}
+
+/**
+ * A structured instruction for decorating a chart, in data-space coordinates.
+ * Use `toVegaLiteLayers` or `toEChartsMarks` to render annotations with a charting library.
+ */
+export type ChartAnnotation =
+    | TrendLineAnnotation
+    | BandAnnotation
+    | PointAnnotation
+    | VerticalMarkerAnnotation
+    | RegionAnnotation
+    | LabelAnnotation;
+
+/**
+ * How an annotation role is drawn.
+ */
+export interface AnnotationStyle {
+    /**
+     * A CSS colour.
+     */
+    color: string;
+    /**
+     * The opacity of filled shapes, between 0 and 1.
+     */
+    opacity: number;
+    /**
+     * Whether lines are dashed.
+     */
+    dashed: boolean;
+}
+
+/**
+ * Options for the chart adapters.
+ */
+export interface AnnotationAdapterOptions {
+    /**
+     * The scale of the x-axis. Use `temporal` when x-values are epoch milliseconds.
+     */
+    xType: 'quantitative' | 'temporal';
+    /**
+     * Overrides for the styles of individual roles.
+     */
+    styles: Partial<Record<AnnotationRole, AnnotationStyle>>;
+}
+
+/**
+ * A Vega-Lite encoding channel.
+ */
+export interface VegaLiteChannel {
+    field: string;
+    type: 'quantitative' | 'temporal' | 'nominal';
+}
+
+/**
+ * A Vega-Lite layer that draws one annotation, with its data inlined. Add it to the `layer` array of a chart
+ * whose x and y scales match the annotation's data space.
+ */
+export interface VegaLiteLayer {
+    description?: string;
+    data: { values: Record<string, number | string>[] };
+    mark: {
+        type: 'line' | 'area' | 'point' | 'rule' | 'rect' | 'text';
+        color: string;
+        opacity?: number;
+        strokeDash?: number[];
+        filled?: boolean;
+        size?: number;
+        align?: 'left' | 'center' | 'right';
+        dy?: number;
+    };
+    encoding: Partial<Record<'x' | 'x2' | 'y' | 'y2' | 'text', VegaLiteChannel>>;
+}
+
+/**
+ * The line style of an ECharts mark.
+ */
+export interface EChartsLineStyle {
+    color: string;
+    type: 'solid' | 'dashed';
+}
+
+/**
+ * One entry of an ECharts `markLine.data` array: a vertical line at `xAxis`, or a segment between two coordinates.
+ */
+export type EChartsMarkLineItem =
+    | { name?: string; xAxis: number; lineStyle: EChartsLineStyle }
+    | [
+        { name?: string; coord: AnnotationPoint; lineStyle: EChartsLineStyle },
+        { coord: AnnotationPoint }
+    ];
+
+/**
+ * One entry of an ECharts `markArea.data` array: the opposite corners of a rectangle. A corner without `yAxis`
+ * extends to the edge of the chart.
+ */
+export type EChartsMarkAreaItem = [
+    { name?: string; xAxis: number; yAxis?: number; itemStyle: { color: string; opacity: number } },
+    { xAxis: number; yAxis?: number }
+];
+
+/**
+ * One entry of an ECharts `markPoint.data` array. Labels are drawn as points with no symbol.
+ */
+export interface EChartsMarkPointItem {
+    name?: string;
+    coord: AnnotationPoint;
+    symbolSize: number;
+    itemStyle: { color: string };
+    label: { show: boolean; formatter?: string };
+}
+
+/**
+ * An ECharts line series, used for bands, which have no mark equivalent. A band is drawn as two stacked series:
+ * an invisible lower bound and the band's width, filled.
+ */
+export interface EChartsSeries {
+    type: 'line';
+    name?: string;
+    data: AnnotationPoint[];
+    stack: string;
+    symbol: 'none';
+    silent: boolean;
+    lineStyle: { opacity: number };
+    areaStyle?: { color: string; opacity: number };
+}
+
+/**
+ * Annotations converted to ECharts options. Assign `markLine`, `markArea` and `markPoint` to the data series the
+ * annotations belong to, and append `series` to the chart's series.
+ */
+export interface EChartsMarks {
+    markLine: { symbol: ['none', 'none']; data: EChartsMarkLineItem[] };
+    markArea: { data: EChartsMarkAreaItem[] };
+    markPoint: { data: EChartsMarkPointItem[] };
+    series: EChartsSeries[];
+}
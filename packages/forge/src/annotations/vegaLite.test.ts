@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { toVegaLiteLayers } from "./vegaLite";
+import { ROLE_STYLES } from "./const";
+import { ANNOTATION_FIXTURES } from "./__fixtures__/annotations";
+
+describe("toVegaLiteLayers", () => {
+    it("should convert every kind of annotation into a layer", () => {
+        expect(toVegaLiteLayers({}, ANNOTATION_FIXTURES)).toMatchSnapshot();
+    });
+
+    it("should encode x as temporal for time axes", () => {
+        const [layer] = toVegaLiteLayers({ xType: 'temporal' }, [{ kind: 'verticalMarker', role: 'changePoint', x: 1709251200000 }]);
+
+        expect(layer.encoding.x).toEqual({ field: 'x', type: 'temporal' });
+        expect(layer.data.values).toEqual([{ x: 1709251200000 }]);
+    });
+
+    it("should apply style overrides by role", () => {
+        const styles = { outlier: { color: 'purple', opacity: 1, dashed: true } };
+        const [layer] = toVegaLiteLayers({ styles }, [{ kind: 'point', role: 'outlier', x: 1, y: 2 }]);
+
+        expect(layer.mark.color).toBe('purple');
+    });
+
+    it("should extend a default role style", () => {
+        const styles = { trend: { ...ROLE_STYLES.trend, dashed: true } };
+        const [layer] = toVegaLiteLayers({ styles }, [{ kind: 'trendLine', role: 'trend', points: [[0, 1], [1, 2]] }]);
+
+        expect(layer.mark).toMatchObject({ color: ROLE_STYLES.trend.color, strokeDash: expect.any(Array) });
+    });
+
+    it("should return no layers for no annotations", () => {
+        expect(toVegaLiteLayers({}, [])).toEqual([]);
+    });
+});
@@ -0,0 +1,87 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_ADAPTER_OPTIONS, ROLE_STYLES } from "./const";
+import type { AnnotationAdapterOptions, ChartAnnotation, VegaLiteChannel, VegaLiteLayer } from "./types";
+
+const DASH = [6, 4];
+
+/**
+ * @function toVegaLiteLayers
+ * @description Converts chart annotations into Vega-Lite layers, one per annotation, each with its data inlined.
+ * Trend lines become `line` marks, bands `area` marks, points `point` marks, vertical markers `rule` marks,
+ * regions `rect` marks and labels `text` marks, styled by their role.
+ * @param {Partial<AnnotationAdapterOptions>} options - Optional overrides for the x-axis type and role styles.
+ * @param {ChartAnnotation[]} annotations - The annotations to convert, e.g. from `GeneratedInsight.annotations`.
+ * @returns {VegaLiteLayer[]} Layers to append to the `layer` array of a layered Vega-Lite chart, in the same order.
+ * @example
+ * const layers = toVegaLiteLayers({ xType: 'temporal' }, insights.flatMap((insight) => insight.annotations ?? []));
+ * const spec = { layer: [dataLayer, ...layers] };
+ */
+export const toVegaLiteLayers = curry((
+    suppliedOptions: Partial<AnnotationAdapterOptions>,
+    annotations: ChartAnnotation[]
+): VegaLiteLayer[] => {
+    const options: AnnotationAdapterOptions = { ...DEFAULT_ADAPTER_OPTIONS, ...suppliedOptions };
+    const x = (field: string): VegaLiteChannel => ({ field, type: options.xType });
+    const y = (field: string): VegaLiteChannel => ({ field, type: 'quantitative' });
+
+    return annotations.map((annotation): VegaLiteLayer => {
+        const { color, opacity, dashed } = options.styles[annotation.role] ?? ROLE_STYLES[annotation.role];
+        const strokeDash = dashed ? { strokeDash: DASH } : {};
+        const description = annotation.label !== undefined ? { description: annotation.label } : {};
+
+        switch (annotation.kind) {
+            case 'trendLine':
+                return {
+                    ...description,
+                    data: { values: annotation.points.map(([px, py]) => ({ x: px, y: py })) },
+                    mark: { type: 'line', color, ...strokeDash },
+                    encoding: { x: x('x'), y: y('y') }
+                };
+            case 'band':
+                return {
+                    ...description,
+                    data: { values: annotation.points.map(([px, lower, upper]) => ({ x: px, lower, upper })) },
+                    mark: { type: 'area', color, opacity },
+                    encoding: { x: x('x'), y: y('lower'), y2: y('upper') }
+                };
+            case 'point':
+                return {
+                    ...description,
+                    data: { values: [{ x: annotation.x, y: annotation.y }] },
+                    mark: { type: 'point', color, filled: true, size: 80 },
+                    encoding: { x: x('x'), y: y('y') }
+                };
+            case 'verticalMarker':
+                return {
+                    ...description,
+                    data: { values: [{ x: annotation.x }] },
+                    mark: { type: 'rule', color, ...strokeDash },
+                    encoding: { x: x('x') }
+                };
+            case 'region':
+                return {
+                    ...description,
+                    data: {
+                        values: [{
+                            x: annotation.x[0],
+                            x2: annotation.x[1],
+                            ...(annotation.y ? { y: annotation.y[0], y2: annotation.y[1] } : {})
+                        }]
+                    },
+                    mark: { type: 'rect', color, opacity },
+                    encoding: {
+                        x: x('x'),
+                        x2: x('x2'),
+                        ...(annotation.y ? { y: y('y'), y2: y('y2') } : {})
+                    }
+                };
+            case 'label':
+                return {
+                    ...description,
+                    data: { values: [{ x: annotation.x, y: annotation.y, text: annotation.text }] },
+                    mark: { type: 'text', color, align: 'left', dy: -8 },
+                    encoding: { x: x('x'), y: y('y'), text: { field: 'text', type: 'nominal' } }
+                };
+        }
+    });
+});
@@ -0,0 +1,13 @@
+import { compareSlopes } from "@facta/stats";
+import type { NamedSeries, SeriesComparison } from "../types";
+
+/**
+ * Compare the slopes of the series without rounding, as `seriesComparisonInsights` does, shared by the comparison tests.
+ */
+export const compare = (series: NamedSeries[]): SeriesComparison => {
+    const result = compareSlopes({ precision: Infinity }, series.map(({ data }) => data));
+    if (!result.ok) {
+        throw new Error("Expected successful result");
+    }
+    return { series, result };
+};
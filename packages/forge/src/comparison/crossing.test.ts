@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import type { DataPoint } from "@facta/stats";
+import { crossingInsight } from "./crossing";
+import { compare } from "./__fixtures__/compare";
+
+const shift = (data: DataPoint[], by: number): DataPoint[] => data.map(([x, y]) => [x, y + by]);
+
+describe("crossingInsight", () => {
+    // A: y = 4x + 5.9, B: y = 2x + 10.1, crossing at x = 2.1.
+    const regionA: DataPoint[] = [[1, 10], [2, 14], [3, 17.5], [4, 22], [5, 26]];
+    const regionB: DataPoint[] = [[1, 12], [2, 14], [3, 16.5], [4, 18], [5, 20]];
+
+    it("should project where the lines will cross beyond the data", () => {
+        const insight = crossingInsight({}, compare([{ name: 'A', data: regionA }, { name: 'B', data: shift(regionB, 10) }]));
+
+        expect(insight).not.toBeNull();
+        expect(insight!.type).toBe('SeriesCrossing');
+        expect(insight!.summary).toBe('If current trends continue, A and B are projected to cross at x ≈ 7.1.');
+        expect(insight!.importance).toBe(0.7);
+        expect(insight!.data).toMatchObject({ first: 'A', second: 'B', projected: true });
+        expect((insight!.data as { x: number }).x).toBeCloseTo(7.1, 10);
+        expect((insight!.data as { y: number }).y).toBeCloseTo(34.3, 10);
+    });
+
+    it("should mark the crossing on the chart", () => {
+        const insight = crossingInsight({}, compare([{ name: 'A', data: regionA }, { name: 'B', data: shift(regionB, 10) }]));
+        const { x, y } = insight!.data as { x: number; y: number };
+
+        expect(insight!.annotations).toEqual([
+            { kind: 'verticalMarker', role: 'crossing', x, label: 'x ≈ 7.1' },
+            { kind: 'point', role: 'highlight', x, y, label: 'x ≈ 7.1' }
+        ]);
+    });
+
+    it("should narrate a crossing within the data as having happened", () => {
+        const insight = crossingInsight({}, compare([{ name: 'A', data: regionA }, { name: 'B', data: regionB }]));
+
+        expect(insight!.summary).toBe('A and B crossed at x ≈ 2.1.');
+        expect(insight!.importance).toBe(0.5);
+        expect(insight!.data).toMatchObject({ projected: false });
+    });
+
+    it("should describe lines that met before the data as moving apart", () => {
+        const insight = crossingInsight({}, compare([{ name: 'A', data: regionA }, { name: 'B', data: shift(regionB, -10) }]));
+
+        expect(insight!.summary).toBe('A and B are moving further apart.');
+        expect(insight!.annotations).toBeUndefined();
+    });
+
+    it("should format the crossing for the locale", () => {
+        const insight = crossingInsight({ locale: 'de' }, compare([{ name: 'A', data: regionA }, { name: 'B', data: shift(regionB, 10) }]));
+
+        expect(insight!.summary).toContain('x ≈ 7,1');
+    });
+
+    it("should take the marker label from the message catalog", () => {
+        const options = { locale: 'de', messages: { 'comparison.crossingLabel': 'Schnittpunkt bei {x}' } };
+        const insight = crossingInsight(options, compare([{ name: 'A', data: regionA }, { name: 'B', data: shift(regionB, 10) }]));
+
+        expect(insight!.annotations!.map((annotation) => annotation.label)).toEqual(['Schnittpunkt bei 7,1', 'Schnittpunkt bei 7,1']);
+    });
+
+    it("should return null when the slopes do not differ significantly", () => {
+        const lower: DataPoint[] = [[1, 1], [2, 2.2], [3, 2.9], [4, 4.1], [5, 5]];
+        const upper: DataPoint[] = [[1, 3.1], [2, 3.9], [3, 5.2], [4, 5.8], [5, 7.1]];
+
+        expect(crossingInsight({}, compare([{ name: 'Lower', data: lower }, { name: 'Upper', data: upper }]))).toBeNull();
+    });
+
+    it("should test the adjusted p-value when one is given", () => {
+        const comparison = compare([{ name: 'A', data: regionA }, { name: 'B', data: shift(regionB, 10) }]);
+
+        expect(crossingInsight({}, { ...comparison, pValue: 0.2 })).toBeNull();
+        expect(crossingInsight({}, { ...comparison, pValue: 0.01 })!.data).toMatchObject({ pValue: 0.01 });
+    });
+
+        it("should return null for more than two series", () => {
+        const comparison = compare([{ name: 'A', data: regionA }, { name: 'B', data: regionB }, { name: 'C', data: shift(regionB, 5) }]);
+
+        expect(crossingInsight({}, comparison)).toBeNull();
+    });
+});
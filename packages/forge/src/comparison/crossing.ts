@@ -0,0 +1,66 @@
+import { curry } from "@facta/fp";
+import type { GeneratedInsight } from "../types";
+import type { SeriesComparison, SeriesComparisonOptions } from "./types";
+import { createTranslator, formatNumber } from "../i18n/translate";
+import { DEFAULT_LOCALE } from "../i18n/const";
+import { confidenceFromPValue } from "../ranking/score";
+
+/**
+ * @function crossingInsight
+ * @description Narrates where the trend lines of two series cross, such as a slower-growing series that is projected
+ * to be overtaken. A crossing within the data's x range is described as having happened, one beyond it as projected
+ * if current trends continue, and one before it as the series moving further apart. The crossing is marked with a
+ * vertical marker and a highlighted point, except when the series are moving apart.
+ * @param {SeriesComparisonOptions} options - Configuration options for insight generation.
+ * @param {SeriesComparison} comparison - Two series and the result of @facta/stats `compareSlopes` for them, computed
+ * without rounding (`precision: Infinity`) so that the crossing is not moved by rounding of small slopes.
+ * @returns {GeneratedInsight | null} An insight describing the crossing, or null if there are not exactly two series
+ * or the difference between their slopes is not statistically significant. The p-value tested is `comparison.pValue`
+ * when it is set, e.g. adjusted for multiple comparisons, otherwise that of `comparison.result`.
+ */
+export const crossingInsight = curry((options: SeriesComparisonOptions, comparison: SeriesComparison): GeneratedInsight | null => {
+    const { series, result } = comparison;
+    const pValue = comparison.pValue ?? result.difference?.pValue ?? result.pValue;
+
+    if (series.length !== 2 || !(pValue < (options.pValueSignificanceLevel ?? 0.05))) {
+        return null;
+    }
+
+    const [first, second] = result.slopes;
+    if (first.m === second.m) {
+        return null;
+    }
+
+    const translate = createTranslator(options);
+    const x = (second.b - first.b) / (first.m - second.m);
+    const y = first.m * x + first.b;
+    const xs = series.flatMap(({ data }) => data.map(([value]) => value));
+    const names = { first: series[0].name, second: series[1].name };
+
+    const base = {
+        type: 'SeriesCrossing',
+        category: 'trend' as const,
+        confidence: confidenceFromPValue(pValue),
+        data: { x, y, ...names, pValue }
+    };
+
+    if (x < Math.min(...xs)) {
+        return { ...base, summary: translate('comparison.diverging', names), importance: 0.4 };
+    }
+
+    const projected = x > Math.max(...xs);
+    // Crossings are rounded to three significant figures for narration, e.g. 12.345 to 12.3.
+    const rounded = formatNumber(options.locale ?? DEFAULT_LOCALE, x, { maximumSignificantDigits: 3 });
+    const label = translate('comparison.crossingLabel', { x: rounded });
+
+    return {
+        ...base,
+        summary: translate(projected ? 'comparison.projectedCross' : 'comparison.crossed', { ...names, x: rounded }),
+        importance: projected ? 0.7 : 0.5,
+        data: { ...base.data, projected },
+        annotations: [
+            { kind: 'verticalMarker', role: 'crossing', x, label },
+            { kind: 'point', role: 'highlight', x, y, label }
+        ]
+    };
+});
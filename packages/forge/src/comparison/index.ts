@@ -0,0 +1,4 @@
+export * from "./series";
+export * from "./slopes";
+export * from "./crossing";
+export * from "./types";
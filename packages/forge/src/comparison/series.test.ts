@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import type { DataPoint } from "@facta/stats";
+import { seriesComparisonInsights } from "./series";
+
+describe("seriesComparisonInsights", () => {
+    const regionA: DataPoint[] = [[1, 10], [2, 14], [3, 17.5], [4, 22], [5, 26]];
+    const regionB: DataPoint[] = [[1, 22], [2, 24], [3, 26.5], [4, 28], [5, 30]];
+    const regionC: DataPoint[] = [[1, 3], [2, 5.5], [3, 6], [4, 8.5], [5, 9]];
+
+    it("should compare the slopes of two series and project where they cross", () => {
+        const output = seriesComparisonInsights({}, [{ name: 'Region A', data: regionA }, { name: 'Region B', data: regionB }]);
+
+        if (!output.ok) {
+            throw new Error("Expected successful result");
+        }
+        expect(output.insights.map((insight) => insight.summary)).toEqual([
+            'Region A is growing about twice as fast as Region B. The difference between their trends is statistically significant (p < 0.05).',
+            'If current trends continue, Region A and Region B are projected to cross at x ≈ 7.1.'
+        ]);
+    });
+
+    it("should look for a crossing between each pair of several series whose slopes differ", () => {
+        const output = seriesComparisonInsights({}, [
+            { name: 'A', data: regionA },
+            { name: 'B', data: regionB },
+            { name: 'C', data: regionC }
+        ]);
+
+        if (!output.ok) {
+            throw new Error("Expected successful result");
+        }
+        // B (2 per unit) and C (1.5 per unit) are too noisy to tell apart, so only the pairs with A have a crossing.
+        expect(output.insights.map((insight) => insight.type)).toEqual(['SlopeComparison', 'SeriesCrossing', 'SeriesCrossing']);
+        expect(output.insights.slice(1).map((insight) => insight.data)).toMatchObject([
+            { first: 'A', second: 'B' },
+            { first: 'A', second: 'C' }
+        ]);
+    });
+
+    it("should adjust the pairwise p-values of several series for multiple comparisons", () => {
+        const output = seriesComparisonInsights({}, [
+            { name: 'A', data: regionA },
+            { name: 'B', data: regionB },
+            { name: 'C', data: regionC }
+        ]);
+
+        if (!output.ok) {
+            throw new Error("Expected successful result");
+        }
+        // Holm's method multiplies the smallest of the three pairwise p-values (A–B, 2.37e-6) by 3 and the next (A–C,
+        // 2.50e-5) by 2.
+        const [ab, ac] = output.insights.slice(1).map((insight) => (insight.data as { pValue: number }).pValue);
+        expect(ab).toBeCloseTo(3 * 2.3733e-6, 9);
+        expect(ac).toBeCloseTo(2 * 2.5043e-5, 8);
+    });
+
+    it("should count pairs that cannot be compared in the multiple comparison adjustment", () => {
+        // A and B lie exactly on their lines, so the A–B comparison fails. Counted in the family, it makes Holm's method
+        // multiply B–C's p-value (0.00245) by 3 and A–C's (0.0465) by 2, which is no longer significant.
+        const output = seriesComparisonInsights({}, [
+            { name: 'A', data: [[1, 1], [2, 3], [3, 5], [4, 7], [5, 9]] },
+            { name: 'B', data: [[1, 2], [2, 2.5], [3, 3], [4, 3.5], [5, 4]] },
+            { name: 'C', data: regionC }
+        ]);
+
+        if (!output.ok) {
+            throw new Error("Expected successful result");
+        }
+        const crossings = output.insights.filter((insight) => insight.type === 'SeriesCrossing');
+        expect(crossings.map((insight) => insight.data)).toMatchObject([{ first: 'B', second: 'C' }]);
+        expect((crossings[0].data as { pValue: number }).pValue).toBeCloseTo(3 * 0.0024523, 6);
+    });
+
+    it("should not round small slopes away", () => {
+        // A grows by 0.004 per unit and B by 0.001, crossing at x ≈ 16.7; both would round to 0 at 2 decimal places.
+        const wobble = [0.0004, -0.0003, 0.0002, -0.0004, 0.0001];
+        const line = (m: number, b: number): DataPoint[] =>
+            Array.from({ length: 20 }, (_, i) => [i + 1, m * (i + 1) + b + wobble[i % wobble.length]]);
+        const output = seriesComparisonInsights({}, [{ name: 'A', data: line(0.004, 1) }, { name: 'B', data: line(0.001, 1.05) }]);
+
+        if (!output.ok) {
+            throw new Error("Expected successful result");
+        }
+        expect(output.insights.map((insight) => insight.summary)).toEqual([
+            'A is growing about 4 times as fast as B. The difference between their trends is statistically significant (p < 0.05).',
+            'A and B crossed at x ≈ 16.7.'
+        ]);
+    });
+
+    it("should only describe parallel series as similar", () => {
+        const output = seriesComparisonInsights({}, [
+            { name: 'Lower', data: [[1, 1], [2, 2.2], [3, 2.9], [4, 4.1], [5, 5]] },
+            { name: 'Upper', data: [[1, 3.1], [2, 3.9], [3, 5.2], [4, 5.8], [5, 7.1]] }
+        ]);
+
+        expect(output).toMatchObject({ ok: true, insights: [{ type: 'SlopeComparison', data: { significant: false } }] });
+    });
+
+    it("should rank and group the insights when ranking options are set", () => {
+        const output = seriesComparisonInsights({ ranking: { limit: 1 } }, [{ name: 'A', data: regionA }, { name: 'B', data: regionB }]);
+
+        if (!output.ok) {
+            throw new Error("Expected successful result");
+        }
+        expect(output.insights.map((insight) => insight.type)).toEqual(['SlopeComparison']);
+        expect(output.groups).toEqual([{ category: 'trend', insights: output.insights }]);
+    });
+
+    it("should return a user-friendly error when a series is too short", () => {
+        const output = seriesComparisonInsights({}, [{ name: 'A', data: regionA }, { name: 'B', data: [[1, 2], [2, 3]] }]);
+
+        expect(output).toMatchObject({ ok: false, originalErrorType: 'InsufficientData' });
+    });
+
+    it("should return a user-friendly error for a single series", () => {
+        const output = seriesComparisonInsights({}, [{ name: 'A', data: regionA }]);
+
+        expect(output).toMatchObject({ ok: false, originalErrorType: 'InvalidInput' });
+    });
+});
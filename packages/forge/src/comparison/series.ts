@@ -0,0 +1,96 @@
+import { compareSlopes } from "@facta/stats";
+import type { GeneratedInsight, InsightResultError, InsightResultSuccess } from "../types";
+import type { NamedSeries, SeriesComparison, SeriesComparisonOptions } from "./types";
+import { regressionError } from "../regression/regressionError";
+import { rankInsights } from "../ranking/rank";
+import { slopeComparisonInsight } from "./slopes";
+import { crossingInsight } from "./crossing";
+
+export type SeriesComparisonOutput = InsightResultSuccess | InsightResultError;
+
+/**
+ * Slopes are compared without rounding, so that small rates, such as 0.004 per unit, are not rounded to zero before
+ * they are narrated. Numbers are rounded when they are formatted for the text.
+ */
+const EXACT = { precision: Infinity };
+
+/**
+ * Adjust p-values for multiple comparisons by Holm's step-down method, which controls the family-wise error rate like
+ * Bonferroni but rejects more often. The adjusted p-values are in the same order as `pValues`.
+ */
+const holmAdjust = (pValues: number[]): number[] => {
+    const order = pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+    const adjusted = new Array<number>(pValues.length);
+    let running = 0;
+    order.forEach((index, rank) => {
+        running = Math.max(running, Math.min(1, (pValues.length - rank) * pValues[index]));
+        adjusted[index] = running;
+    });
+    return adjusted;
+};
+
+/**
+ * Compare every pair of series on its own, so that each crossing is tested against the two series involved. With more
+ * than two series, the pairwise p-values are adjusted by Holm's method so that testing every pair does not inflate the
+ * chance of narrating a spurious crossing. Pairs whose comparison fails are counted in the adjustment but not returned.
+ */
+const pairComparisons = (comparison: SeriesComparison): SeriesComparison[] => {
+    if (comparison.series.length === 2) {
+        return [comparison];
+    }
+    const pairs = comparison.series.flatMap((first, i) => comparison.series.slice(i + 1).map((second) => ({
+        series: [first, second],
+        result: compareSlopes(EXACT, [first.data, second.data])
+    })));
+    // A pair that cannot be compared, e.g. two series lying exactly on their lines, still counts towards the size of
+    // the family, with a p-value of 1, so that leaving it out does not weaken the adjustment of the others.
+    const adjusted = holmAdjust(pairs.map(({ result }) => (result.ok ? result.difference?.pValue ?? result.pValue : 1)));
+    return pairs.flatMap(({ series, result }, i) => (result.ok ? [{ series, result, pValue: adjusted[i] }] : []));
+};
+
+/**
+ * @function seriesComparisonInsights
+ * @description Generates insights comparing the trends of several named series, such as sales by region.
+ * A line is fitted to each series and @facta/stats `compareSlopes` tests whether they trend at the same rate, giving
+ * insights such as "Region A is growing about twice as fast as Region B" and, for each pair of series whose slopes
+ * differ significantly, where their lines cross, e.g. "the lines are projected to cross at x ≈ 14.5". With more than
+ * two series, the pairwise tests behind the crossings are adjusted for multiple comparisons by Holm's method.
+ * @param {SeriesComparisonOptions} options - Configuration options for the insights.
+ * @param {NamedSeries[]} series - Two or more named series, each with at least three data points.
+ * @returns {SeriesComparisonOutput} A discriminant union containing either an array of insights or a user-friendly error.
+ * With `options.ranking`, the insights are ranked, filtered and grouped by `rankInsights`.
+ * @example
+ * const output = seriesComparisonInsights({}, [
+ *     { name: 'Region A', data: regionA },
+ *     { name: 'Region B', data: regionB }
+ * ]);
+ */
+export function seriesComparisonInsights(
+    options: SeriesComparisonOptions,
+    series: NamedSeries[]
+): SeriesComparisonOutput {
+    const result = compareSlopes(EXACT, series.map(({ data }) => data));
+    if (!result.ok) {
+        return regressionError(result, options);
+    }
+
+    const comparison: SeriesComparison = { series, result };
+    const insights = [
+        slopeComparisonInsight(options, comparison),
+        ...pairComparisons(comparison).map((pair) => crossingInsight(options, pair))
+    ].filter((insight): insight is GeneratedInsight => insight !== null);
+
+    if (!options.ranking) {
+        return {
+            ok: true,
+            insights
+        };
+    }
+
+    const ranked = rankInsights(options, insights);
+    return {
+        ok: true,
+        insights: ranked.insights,
+        groups: ranked.groups
+    };
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import type { DataPoint } from "@facta/stats";
+import { slopeComparisonInsight } from "./slopes";
+import { compare } from "./__fixtures__/compare";
+
+const negate = (data: DataPoint[]): DataPoint[] => data.map(([x, y]) => [x, -y]);
+
+describe("slopeComparisonInsight", () => {
+    // Region A grows by 4 a month and Region B by 2.
+    const regionA: DataPoint[] = [[1, 10], [2, 14], [3, 17.5], [4, 22], [5, 26]];
+    const regionB: DataPoint[] = [[1, 12], [2, 14], [3, 16.5], [4, 18], [5, 20]];
+
+    it("should narrate a series growing about twice as fast as another", () => {
+        const insight = slopeComparisonInsight({}, compare([{ name: 'Region A', data: regionA }, { name: 'Region B', data: regionB }]));
+
+        expect(insight.type).toBe('SlopeComparison');
+        expect(insight.category).toBe('trend');
+        expect(insight.summary).toBe(
+            'Region A is growing about twice as fast as Region B. The difference between their trends is statistically significant (p < 0.05).'
+        );
+        expect(insight.importance).toBe(0.8);
+        expect(insight.confidence).toBeGreaterThan(0.99);
+        expect(insight.data).toMatchObject({
+            slopes: [
+                { name: 'Region A', m: expect.closeTo(4, 10), b: expect.closeTo(5.9, 10) },
+                { name: 'Region B', m: expect.closeTo(2, 10), b: expect.closeTo(10.1, 10) }
+            ],
+            commonSlope: expect.closeTo(3, 10),
+            df: [1, 6],
+            significant: true,
+            difference: { estimate: expect.closeTo(2, 10) }
+        });
+    });
+
+    it("should order the series by how fast they change, whatever the input order", () => {
+        const insight = slopeComparisonInsight({}, compare([{ name: 'B', data: regionB }, { name: 'A', data: regionA }]));
+
+        expect(insight.summary).toMatch(/^A is growing about twice as fast as B\./);
+    });
+
+    it("should narrate small differences as a percentage and large ones as a multiple", () => {
+        const steady: DataPoint[] = [[1, 10], [2, 13.1], [3, 15.9], [4, 19.1], [5, 22]];
+        const slowest: DataPoint[] = [[1, 3], [2, 5.5], [3, 6], [4, 8.5], [5, 9]];
+
+        expect(slopeComparisonInsight({}, compare([{ name: 'A', data: regionA }, { name: 'C', data: steady }])).summary)
+            .toMatch(/^A is growing about 33% faster than C\./);
+        expect(slopeComparisonInsight({ locale: 'de' }, compare([{ name: 'A', data: regionA }, { name: 'C', data: steady }])).summary)
+            .toMatch(/^A is growing about 33\s% faster than C\./);
+        expect(slopeComparisonInsight({}, compare([{ name: 'A', data: regionA }, { name: 'D', data: slowest }])).summary)
+            .toMatch(/^A is growing about 2\.7 times as fast as D\./);
+    });
+
+    it("should describe a series with no slope as flat rather than infinitely slower", () => {
+        const level: DataPoint[] = [[1, 5], [2, 5], [3, 5], [4, 5], [5, 5], [6, 5]];
+        const insight = slopeComparisonInsight({}, compare([{ name: 'A', data: [[1, 0], [2, 1.5], [3, 2]] }, { name: 'Level', data: level }]));
+
+        expect(insight.summary).toMatch(/^A is growing while Level is flat\./);
+    });
+
+    it("should compare the fastest and slowest of several series", () => {
+        const slowest: DataPoint[] = [[1, 3], [2, 5.5], [3, 6], [4, 8.5], [5, 9]];
+        const insight = slopeComparisonInsight({}, compare([
+            { name: 'B', data: regionB },
+            { name: 'D', data: slowest },
+            { name: 'A', data: regionA }
+        ]));
+
+        expect(insight.summary).toMatch(/^A is growing about 2\.7 times as fast as D\./);
+        expect(insight.data).toMatchObject({ df: [2, 9] });
+        expect(insight.data).not.toHaveProperty('difference');
+    });
+
+    it("should narrate declining series, and series moving in opposite directions", () => {
+        const declining = compare([{ name: 'A', data: negate(regionA) }, { name: 'B', data: negate(regionB) }]);
+        const opposite = compare([{ name: 'A', data: regionA }, { name: 'B', data: negate(regionB) }]);
+
+        expect(slopeComparisonInsight({}, declining).summary).toMatch(/^A is declining about twice as fast as B\./);
+        expect(slopeComparisonInsight({}, opposite).summary).toMatch(/^A is growing while B is declining\./);
+    });
+
+    it("should narrate a series changing while another is flat", () => {
+        const flat: DataPoint[] = [[1, 5], [2, 6], [3, 4], [4, 6], [5, 5]];
+
+        expect(slopeComparisonInsight({}, compare([{ name: 'Flat', data: flat }, { name: 'A', data: regionA }])).summary)
+            .toMatch(/^A is growing while Flat is flat\./);
+        expect(slopeComparisonInsight({}, compare([{ name: 'Flat', data: flat }, { name: 'A', data: negate(regionA) }])).summary)
+            .toMatch(/^A is declining while Flat is flat\./);
+    });
+
+    it("should describe slopes that do not differ significantly as similar", () => {
+        const lower: DataPoint[] = [[1, 1], [2, 2.2], [3, 2.9], [4, 4.1], [5, 5]];
+        const upper: DataPoint[] = [[1, 3.1], [2, 3.9], [3, 5.2], [4, 5.8], [5, 7.1]];
+        const insight = slopeComparisonInsight({}, compare([{ name: 'Lower', data: lower }, { name: 'Upper', data: upper }]));
+
+        expect(insight.summary).toBe(
+            'The series are changing at a similar rate; the difference between their trends is not statistically significant (p > 0.05).'
+        );
+        expect(insight.importance).toBe(0.3);
+        expect(insight.data).toMatchObject({ significant: false });
+    });
+
+    it("should emit a labelled trend line for each series across its x range", () => {
+        const insight = slopeComparisonInsight({}, compare([{ name: 'Region A', data: regionA }, { name: 'Region B', data: regionB }]));
+        const point = (x: number, y: number) => [x, expect.closeTo(y, 10)];
+
+        expect(insight.annotations).toEqual([
+            { kind: 'trendLine', role: 'trend', label: 'Region A', points: [point(1, 9.9), point(5, 25.9)] },
+            { kind: 'trendLine', role: 'trend', label: 'Region B', points: [point(1, 12.1), point(5, 20.1)] }
+        ]);
+    });
+
+    it("should localise the text", () => {
+        const insight = slopeComparisonInsight({
+            messages: { 'comparison.fasterTwice': '{faster} wächst etwa doppelt so schnell wie {slower}.', 'comparison.significant': '' }
+        }, compare([{ name: 'A', data: regionA }, { name: 'B', data: regionB }]));
+
+        expect(insight.summary).toMatch(/^A wächst etwa doppelt so schnell wie B\./);
+    });
+});
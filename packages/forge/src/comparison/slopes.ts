@@ -0,0 +1,127 @@
+import { curry } from "@facta/fp";
+import type { SlopeEstimate } from "@facta/stats";
+import type { GeneratedInsight } from "../types";
+import type { ChartAnnotation } from "../annotations/types";
+import type { NamedSeries, SeriesComparison, SeriesComparisonOptions } from "./types";
+import type { Translate } from "../i18n/types";
+import { createTranslator, formatNumber } from "../i18n/translate";
+import { DEFAULT_LOCALE } from "../i18n/const";
+import { confidenceFromPValue } from "../ranking/score";
+
+/**
+ * The ratio of two slopes below which the faster series is narrated as a percentage faster, e.g. "about 20% faster",
+ * rather than a multiple, which would round to "about 1 times as fast".
+ */
+const PERCENT_RATIO_LIMIT = 1.5;
+
+/**
+ * Describe how the series with the steepest and shallowest slopes differ. A series whose own trend is not
+ * statistically significant, or whose slope is exactly zero, is described as flat.
+ */
+const describeDifference = (
+    translate: Translate,
+    locale: string,
+    significanceLevel: number,
+    [steepest, steepestSlope]: [NamedSeries, SlopeEstimate],
+    [shallowest, shallowestSlope]: [NamedSeries, SlopeEstimate]
+): string => {
+    const steepestFlat = !(steepestSlope.pValueM < significanceLevel);
+    const shallowestFlat = !(shallowestSlope.pValueM < significanceLevel);
+    if (steepestFlat !== shallowestFlat) {
+        const [changing, changingSlope, flat] = steepestFlat
+            ? [shallowest, shallowestSlope, steepest]
+            : [steepest, steepestSlope, shallowest];
+        const direction = translate(changingSlope.m > 0 ? 'direction.growing' : 'direction.declining');
+        return translate('comparison.oneFlat', { changing: changing.name, flat: flat.name, direction });
+    }
+    if (steepestSlope.m > 0 && shallowestSlope.m < 0) {
+        return translate('comparison.opposite', { growing: steepest.name, declining: shallowest.name });
+    }
+
+    // Both series move in the same direction; the faster one is the one with the larger gradient in magnitude.
+    const growing = steepestSlope.m > 0;
+    const [faster, fasterSlope, slower, slowerSlope] = growing
+        ? [steepest, steepestSlope, shallowest, shallowestSlope]
+        : [shallowest, shallowestSlope, steepest, steepestSlope];
+    const direction = translate(growing ? 'direction.growing' : 'direction.declining');
+    // A series with no slope at all has no speed to compare against, so it is described as flat rather than the other
+    // being infinitely faster.
+    if (slowerSlope.m === 0) {
+        return translate('comparison.oneFlat', { changing: faster.name, flat: slower.name, direction });
+    }
+
+    const ratio = Math.abs(fasterSlope.m / slowerSlope.m);
+    const params = { faster: faster.name, slower: slower.name, direction };
+
+    if (ratio < PERCENT_RATIO_LIMIT) {
+        const percent = formatNumber(locale, ratio - 1, { style: 'percent', maximumSignificantDigits: 2 });
+        return translate('comparison.fasterPercent', { ...params, percent });
+    }
+    if (Number(ratio.toPrecision(2)) === 2) {
+        return translate('comparison.fasterTwice', params);
+    }
+    return translate('comparison.fasterTimes', { ...params, ratio: formatNumber(locale, ratio, { maximumSignificantDigits: 2 }) });
+};
+
+/**
+ * @function slopeComparisonInsight
+ * @description Compares how fast several series are changing, e.g. "Region A is growing about twice as fast as
+ * Region B". The series with the steepest and shallowest slopes are compared, using their unrounded slopes so that
+ * small rates are not rounded away; when the ANCOVA test finds no significant difference between the slopes, the
+ * series are described as changing at a similar rate instead.
+ * @param {SeriesComparisonOptions} options - Configuration options for insight generation.
+ * @param {SeriesComparison} comparison - The series and the result of @facta/stats `compareSlopes` for them, computed
+ * without rounding (`precision: Infinity`).
+ * @returns {GeneratedInsight} An insight comparing the trends, annotated with a trend line for each series across its
+ * x range, labelled with the series' name.
+ */
+export const slopeComparisonInsight = curry((options: SeriesComparisonOptions, comparison: SeriesComparison): GeneratedInsight => {
+    const { series, result } = comparison;
+    const significanceLevel = options.pValueSignificanceLevel ?? 0.05;
+    const translate = createTranslator(options);
+    const significant = result.pValue < significanceLevel;
+
+    let summary = translate('comparison.similar', { level: significanceLevel });
+    if (significant) {
+        const ordered = series
+            .map((named, i): [NamedSeries, SlopeEstimate] => [named, result.slopes[i]])
+            .sort(([, a], [, b]) => b.m - a.m);
+        const difference = describeDifference(
+            translate,
+            options.locale ?? DEFAULT_LOCALE,
+            significanceLevel,
+            ordered[0],
+            ordered[ordered.length - 1]
+        );
+        summary = `${difference} ${translate('comparison.significant', { level: significanceLevel })}`;
+    }
+
+    const annotations = series.map(({ name, data }, i): ChartAnnotation => {
+        const { m, b } = result.slopes[i];
+        const xs = data.map(([x]) => x);
+        return {
+            kind: 'trendLine',
+            role: 'trend',
+            label: name,
+            points: [Math.min(...xs), Math.max(...xs)].map((x): [number, number] => [x, m * x + b])
+        };
+    });
+
+    return {
+        summary,
+        type: 'SlopeComparison',
+        category: 'trend',
+        importance: significant ? 0.8 : 0.3,
+        confidence: confidenceFromPValue(result.pValue),
+        data: {
+            slopes: series.map(({ name }, i) => ({ name, ...result.slopes[i] })),
+            commonSlope: result.commonSlope,
+            statistic: result.statistic,
+            df: result.df,
+            pValue: result.pValue,
+            significant,
+            ...(result.difference ? { difference: result.difference } : {})
+        },
+        annotations
+    };
+});
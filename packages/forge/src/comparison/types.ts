@@ -0,0 +1,46 @@
+import type { DataPoint, SlopeComparisonSuccess } from "@facta/stats";
+import type { LocalisationOptions } from "../i18n/types";
+import type { InsightRankingOptions } from "../ranking/types";
+
+/**
+ * A series of data points with the name it is referred to by in insight text, e.g. `Region A`.
+ */
+export interface NamedSeries {
+    name: string;
+    data: DataPoint[];
+}
+
+/**
+ * The series being compared together with the result of testing whether their slopes differ.
+ */
+export interface SeriesComparison {
+    /**
+     * The series, in input order.
+     */
+    series: NamedSeries[];
+    /**
+     * The result of @facta/stats `compareSlopes` for the series; `slopes` are in the same order as `series`.
+     */
+    result: SlopeComparisonSuccess;
+    /**
+     * The p-value of the difference between the slopes, adjusted for multiple comparisons by Holm's method, when the
+     * comparison is one of several pairwise comparisons. When omitted, the p-value from `result` is used.
+     */
+    pValue?: number;
+}
+
+/**
+ * Options controlling the generation of insights comparing several series. `locale` and `messages` localise the text
+ * of the insights.
+ */
+export interface SeriesComparisonOptions extends LocalisationOptions {
+    /**
+     * The p-value below which a difference in slopes is described as statistically significant. Defaults to 0.05.
+     */
+    pValueSignificanceLevel?: number;
+    /**
+     * Rank the insights by importance and confidence, leave out redundant ones, and group them by category.
+     * When omitted, every insight is returned in the order it was generated.
+     */
+    ranking?: Partial<InsightRankingOptions>;
+}
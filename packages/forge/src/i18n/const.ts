@@ -0,0 +1,112 @@
+import type { MessageCatalog } from "./types";
+
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * The length of a day in milliseconds, for x-values that are times in epoch milliseconds.
+ */
+export const DAY_MILLISECONDS = 86_400_000;
+
+/**
+ * The default English catalog.
+ */
+export const DEFAULT_MESSAGES: MessageCatalog = {
+    'trend.positive': 'There is a positive linear trend. As X increases, Y tends to increase.',
+    'trend.negative': 'There is a negative linear trend. As X increases, Y tends to decrease.',
+    'trend.none': 'There is no significant linear trend. Y remains relatively constant as X changes.',
+    'trend.increasingRate': 'There is a positive linear trend. Y increases by about {rate} per {unit}.',
+    'trend.decreasingRate': 'There is a negative linear trend. Y decreases by about {rate} per {unit}.',
+    'trend.significant': 'The trend is statistically significant (p < {level}).',
+    'trend.notSignificant': 'The trend is not statistically significant (p > {level}).',
+    'unit.millisecond': 'millisecond',
+    'unit.second': 'second',
+    'unit.minute': 'minute',
+    'unit.hour': 'hour',
+    'unit.day': 'day',
+    'unit.week': 'week',
+    'unit.month': 'month',
+    'unit.year': 'year',
+    'correlation.strong': 'There is a strong linear correlation (R-squared: {rSquared}), indicating the model explains a large portion of the variance.',
+    'correlation.moderate': 'There is a moderate linear correlation (R-squared: {rSquared}).',
+    'correlation.weak': 'There is a weak linear correlation (R-squared: {rSquared}), suggesting the linear model may not be the best fit or other factors are at play.',
+    'missing.dropped': {
+        one: '{count} point was excluded due to missing values.',
+        other: '{count} points were excluded due to missing values.'
+    },
+    'missing.imputed': {
+        one: '{count} point was filled in by {method}.',
+        other: '{count} points were filled in by {method}.'
+    },
+    'imputation.mean': 'the average value',
+    'imputation.linear': 'interpolating between their neighbours',
+    'imputation.forwardFill': 'carrying the previous value forward',
+    'outliers.found': {
+        one: '{count} point stands out from the trend: {points}.',
+        other: '{count} points stand out from the trend: {points}.'
+    },
+    'outliers.none': 'No points stand out from the trend.',
+    'outliers.influential': {
+        one: 'The point at {points} has a strong influence on the trend line; consider checking the trend without it.',
+        other: 'The points at {points} have a strong influence on the trend line; consider checking the trend without them.'
+    },
+    'outliers.point': 'x = {x} (y = {y})',
+    'seasonality.strong': 'There is a strong seasonal pattern that repeats every {period} points (seasonal strength: {strength}).',
+    'seasonality.moderate': 'There is a moderate seasonal pattern that repeats every {period} points (seasonal strength: {strength}).',
+    'seasonality.weak': 'There is at most a weak seasonal pattern repeating every {period} points (seasonal strength: {strength}).',
+    'seasonality.phase': 'x = {values}',
+    'seasonality.peaks': 'Values tend to peak at {peak} and dip at {trough}.',
+    'seasonality.rSquaredCaveat': 'A straight trend line treats this pattern as noise, so R-squared understates how predictable the data is.',
+    'trendBreak.changed': 'The trend changed at {where}.',
+    'trendBreak.location': 'x = {x}',
+    'trendBreak.firstPhase': 'From x = {from} to {to} it was {trend}',
+    'trendBreak.phase': 'from x = {from} to {to} it was {trend}',
+    'trendBreak.rising': 'rising (+{rate} per unit of x)',
+    'trendBreak.falling': 'falling ({rate} per unit of x)',
+    'trendBreak.risingPerDay': 'rising (+{rate} per day)',
+    'trendBreak.fallingPerDay': 'falling ({rate} per day)',
+    'trendBreak.flat': 'flat',
+    'modelSelection.much': '{model} model fits much better than linear (AIC {deltaAic} lower, R² {rSquared} vs {linearRSquared}): {shape}.',
+    'modelSelection.noticeably': '{model} model fits noticeably better than linear (AIC {deltaAic} lower, R² {rSquared} vs {linearRSquared}): {shape}.',
+    'model.linear': 'A linear',
+    'model.exponential': 'An exponential',
+    'model.logarithmic': 'A logarithmic',
+    'model.power': 'A power',
+    'model.polynomial': 'A polynomial',
+    'model.theilSen': 'A Theil–Sen',
+    'model.huber': 'A Huber',
+    'shape.linear': 'y changes by a constant amount per unit of x',
+    'shape.exponential': 'y changes by a constant percentage per unit of x',
+    'shape.logarithmic': 'the change in y slows as x grows',
+    'shape.power': 'y scales with a power of x',
+    'shape.polynomial': 'the trend curves rather than following a straight line',
+    'shape.theilSen': 'a straight line fitted robustly to outliers',
+    'shape.huber': 'a straight line fitted robustly to outliers',
+    'assumptions.positiveAutocorrelation': 'Neighbouring points sit on the same side of the trend line (Durbin–Watson: {durbinWatson}), so the trend may be less certain than its p-value suggests. A cycle or a change in trend may be missing from the model.',
+    'assumptions.negativeAutocorrelation': "Neighbouring points alternate above and below the trend line (Durbin–Watson: {durbinWatson}), so the trend's p-value may be unreliable.",
+    'assumptions.heteroscedasticity': 'The scatter around the trend line changes with X (p < {level}), so the confidence bands are unreliable. A log scale may describe the data better.',
+    'assumptions.nonNormal': 'The scatter around the trend line is not normally distributed (p < {level}), so the p-value and confidence bands are approximate. Check for outliers or a skewed metric.',
+    'list.and': '{items} and {last}',
+    'comparison.fasterPercent': '{faster} is {direction} about {percent} faster than {slower}.',
+    'comparison.fasterTwice': '{faster} is {direction} about twice as fast as {slower}.',
+    'comparison.fasterTimes': '{faster} is {direction} about {ratio} times as fast as {slower}.',
+    'comparison.opposite': '{growing} is growing while {declining} is declining.',
+    'comparison.oneFlat': '{changing} is {direction} while {flat} is flat.',
+    'comparison.significant': 'The difference between their trends is statistically significant (p < {level}).',
+    'comparison.similar': 'The series are changing at a similar rate; the difference between their trends is not statistically significant (p > {level}).',
+    'comparison.crossed': '{first} and {second} crossed at x ≈ {x}.',
+    'comparison.projectedCross': 'If current trends continue, {first} and {second} are projected to cross at x ≈ {x}.',
+    'comparison.diverging': '{first} and {second} are moving further apart.',
+    'comparison.crossingLabel': 'x ≈ {x}',
+    'direction.growing': 'growing',
+    'direction.declining': 'declining',
+    'error.insufficientData.message': 'Unable to calculate trend: Not enough data points.',
+    'error.insufficientData.helpText': 'Linear regression requires at least two distinct data points. Please provide more data.',
+    'error.invalidInput.message': 'Invalid data provided.',
+    'error.invalidInput.helpText': "Ensure your data only contains valid numerical values (e.g., no 'null', 'undefined', or non-numeric strings).",
+    'error.convergenceFailure.message': 'Unable to calculate trend: The robust fit did not settle on a stable result.',
+    'error.convergenceFailure.helpText': 'The data may contain too many extreme values for a robust fit. Try a standard linear trend or review the data for errors.',
+    'error.rankDeficient.message': 'Unable to separate the effects of the chosen factors.',
+    'error.rankDeficient.helpText': 'Two or more factors move together exactly (for example, one is a multiple of another). Remove one of the overlapping factors and try again.',
+    'error.unexpected.message': 'An unexpected error occurred during linear regression calculation.',
+    'error.unexpected.helpText': 'Please contact support with the details of the data you were trying to analyze.'
+};
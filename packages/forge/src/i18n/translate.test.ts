@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { createTranslator, formatNumber } from "./translate";
+
+describe("createTranslator", () => {
+    it("should use the default English catalog", () => {
+        const translate = createTranslator({});
+
+        expect(translate('trend.positive')).toBe('There is a positive linear trend. As X increases, Y tends to increase.');
+    });
+
+    it("should substitute parameters, formatting numbers for the locale", () => {
+        const english = createTranslator({});
+        const german = createTranslator({ locale: 'de' });
+
+        expect(english('trend.significant', { level: 0.05 })).toBe('The trend is statistically significant (p < 0.05).');
+        expect(german('trend.significant', { level: 0.05 })).toBe('The trend is statistically significant (p < 0,05).');
+        expect(english('trend.increasingRate', { rate: 1200, unit: 'week' })).toBe('There is a positive linear trend. Y increases by about 1,200 per week.');
+    });
+
+    it("should choose the plural form from the count", () => {
+        const translate = createTranslator({});
+
+        expect(translate('missing.dropped', { count: 1 })).toBe('1 point was excluded due to missing values.');
+        expect(translate('missing.dropped', { count: 3 })).toBe('3 points were excluded due to missing values.');
+    });
+
+    it("should follow the plural rules of the locale, falling back to other", () => {
+        const translate = createTranslator({
+            locale: 'pl',
+            messages: { 'missing.dropped': { one: '{count} punkt', few: '{count} punkty', other: '{count} punktów' } }
+        });
+
+        expect([1, 3, 5, 22].map((count) => translate('missing.dropped', { count }))).toEqual([
+            '1 punkt', '3 punkty', '5 punktów', '22 punkty'
+        ]);
+    });
+
+    it("should let overrides replace individual templates", () => {
+        const translate = createTranslator({ messages: { 'trend.none': 'Flat.' } });
+
+        expect(translate('trend.none')).toBe('Flat.');
+        expect(translate('trend.negative')).toContain('negative linear trend');
+    });
+
+    it("should leave placeholders without a parameter in place", () => {
+        const translate = createTranslator({ messages: { 'trend.none': 'Flat since {date}.' } });
+
+        expect(translate('trend.none')).toBe('Flat since {date}.');
+    });
+});
+
+describe("formatNumber", () => {
+    it("should format numbers for the locale", () => {
+        expect(formatNumber('en', 1234.5)).toBe('1,234.5');
+        expect(formatNumber('de', 1234.5)).toBe('1.234,5');
+        expect(formatNumber('fr', 0.85, { minimumFractionDigits: 2 })).toBe('0,85');
+    });
+});
@@ -0,0 +1,91 @@
+import { DAY_MILLISECONDS, DEFAULT_LOCALE, DEFAULT_MESSAGES } from "./const";
+import type { LocalisationOptions, MessageCatalog, MessageParams, Translate } from "./types";
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * @function formatNumber
+ * @description Formats a number for a locale with `Intl.NumberFormat`, e.g. 0.85 as `0.85` in English and `0,85` in German.
+ * @param {string} locale - A BCP 47 language tag.
+ * @param {number} value - The number to format.
+ * @param {Intl.NumberFormatOptions} [format] - Formatting options, e.g. `{ minimumFractionDigits: 2, maximumFractionDigits: 2 }`
+ * for a fixed two decimal places. Defaults to at most three decimal places.
+ * @returns {string} The formatted number.
+ */
+export const formatNumber = (locale: string, value: number, format: Intl.NumberFormatOptions = {}): string =>
+    new Intl.NumberFormat(locale, format).format(value);
+
+/**
+ * @function formatDate
+ * @description Formats epoch milliseconds as a UTC date for a locale with `Intl.DateTimeFormat`, e.g. `Mar 1, 2024`
+ * in English and `01.03.2024` in German. A time of day other than midnight is included, e.g. `Mar 1, 2024, 6:00 AM`.
+ * @param {string} locale - A BCP 47 language tag.
+ * @param {number} value - The time in epoch milliseconds.
+ * @returns {string} The formatted date.
+ */
+export const formatDate = (locale: string, value: number): string =>
+    new Intl.DateTimeFormat(locale, {
+        dateStyle: 'medium',
+        ...(value % DAY_MILLISECONDS === 0 ? {} : { timeStyle: 'short' }),
+        timeZone: 'UTC'
+    }).format(value);
+
+/**
+ * @function formatX
+ * @description Formats an x-value for the text of an insight: as a date when x is a time in epoch milliseconds,
+ * otherwise as a number with at most three decimal places.
+ * @param {string} locale - A BCP 47 language tag.
+ * @param {'quantitative' | 'temporal'} xType - Whether x-values are numbers or times in epoch milliseconds.
+ * @param {number} value - The x-value.
+ * @returns {string} The formatted x-value.
+ */
+export const formatX = (locale: string, xType: 'quantitative' | 'temporal', value: number): string =>
+    xType === 'temporal' ? formatDate(locale, value) : formatNumber(locale, value, { maximumFractionDigits: 3 });
+
+/**
+ * @function createTranslator
+ * @description Creates a function that formats messages from the default English catalog, overridden by
+ * `options.messages`, for `options.locale`. Placeholders such as `{rate}` are replaced by the matching parameter;
+ * numbers are formatted with `Intl.NumberFormat`, and the `count` parameter selects the plural form of plural templates
+ * with `Intl.PluralRules`. A placeholder without a parameter is left as it is.
+ * @param {LocalisationOptions} options - The locale and any template overrides.
+ * @returns {Translate} A function of a message key and its parameters.
+ * @throws {RangeError} If `options.locale` is not a valid language tag.
+ * @example
+ * const translate = createTranslator({ locale: 'de', messages: { 'missing.dropped': { one: '{count} Punkt fehlt.', other: '{count} Punkte fehlen.' } } });
+ * translate('missing.dropped', { count: 3 }); // "3 Punkte fehlen."
+ */
+export const createTranslator = (options: LocalisationOptions): Translate => {
+    const locale = options.locale ?? DEFAULT_LOCALE;
+    const messages: MessageCatalog = { ...DEFAULT_MESSAGES, ...options.messages };
+    const numbers = new Intl.NumberFormat(locale);
+    const plurals = new Intl.PluralRules(locale);
+
+    return (key, params: MessageParams = {}) => {
+        const template = messages[key];
+        const { count } = params;
+        const text = typeof template === 'string'
+            ? template
+            : template[typeof count === 'number' ? plurals.select(count) : 'other'] ?? template.other;
+
+        return text.replace(PLACEHOLDER, (placeholder, name: string) => {
+            const value = params[name];
+            if (value === undefined) {
+                return placeholder;
+            }
+            return typeof value === 'number' ? numbers.format(value) : value;
+        });
+    };
+};
+
+/**
+ * @function formatList
+ * @description Joins items into a list with the localised `list.and` template, e.g. `a, b and c` in English.
+ * @param {Translate} translate - A translator from `createTranslator`.
+ * @param {string[]} items - The items, already formatted.
+ * @returns {string} The list, or the single item when there is only one.
+ */
+export const formatList = (translate: Translate, items: string[]): string =>
+    items.length <= 1
+        ? items.join('')
+        : translate('list.and', { items: items.slice(0, -1).join(', '), last: items[items.length - 1] });
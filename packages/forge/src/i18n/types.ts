@@ -0,0 +1,133 @@
+/**
+ * The keys of every message in the catalog. Keys are grouped by the insight that uses them.
+ */
+export type MessageKey =
+    | 'trend.positive'
+    | 'trend.negative'
+    | 'trend.none'
+    | 'trend.increasingRate'
+    | 'trend.decreasingRate'
+    | 'trend.significant'
+    | 'trend.notSignificant'
+    | 'unit.millisecond'
+    | 'unit.second'
+    | 'unit.minute'
+    | 'unit.hour'
+    | 'unit.day'
+    | 'unit.week'
+    | 'unit.month'
+    | 'unit.year'
+    | 'correlation.strong'
+    | 'correlation.moderate'
+    | 'correlation.weak'
+    | 'missing.dropped'
+    | 'missing.imputed'
+    | 'imputation.mean'
+    | 'imputation.linear'
+    | 'imputation.forwardFill'
+    | 'outliers.found'
+    | 'outliers.none'
+    | 'outliers.influential'
+    | 'outliers.point'
+    | 'seasonality.strong'
+    | 'seasonality.moderate'
+    | 'seasonality.weak'
+    | 'seasonality.phase'
+    | 'seasonality.peaks'
+    | 'seasonality.rSquaredCaveat'
+    | 'trendBreak.changed'
+    | 'trendBreak.location'
+    | 'trendBreak.firstPhase'
+    | 'trendBreak.phase'
+    | 'trendBreak.rising'
+    | 'trendBreak.falling'
+    | 'trendBreak.risingPerDay'
+    | 'trendBreak.fallingPerDay'
+    | 'trendBreak.flat'
+    | 'modelSelection.much'
+    | 'modelSelection.noticeably'
+    | 'model.linear'
+    | 'model.exponential'
+    | 'model.logarithmic'
+    | 'model.power'
+    | 'model.polynomial'
+    | 'model.theilSen'
+    | 'model.huber'
+    | 'shape.linear'
+    | 'shape.exponential'
+    | 'shape.logarithmic'
+    | 'shape.power'
+    | 'shape.polynomial'
+    | 'shape.theilSen'
+    | 'shape.huber'
+    | 'assumptions.positiveAutocorrelation'
+    | 'assumptions.negativeAutocorrelation'
+    | 'assumptions.heteroscedasticity'
+    | 'assumptions.nonNormal'
+    | 'list.and'
+    | 'comparison.fasterPercent'
+    | 'comparison.fasterTwice'
+    | 'comparison.fasterTimes'
+    | 'comparison.opposite'
+    | 'comparison.oneFlat'
+    | 'comparison.significant'
+    | 'comparison.similar'
+    | 'comparison.crossed'
+    | 'comparison.projectedCross'
+    | 'comparison.diverging'
+    | 'comparison.crossingLabel'
+    | 'direction.growing'
+    | 'direction.declining'
+    | 'error.insufficientData.message'
+    | 'error.insufficientData.helpText'
+    | 'error.invalidInput.message'
+    | 'error.invalidInput.helpText'
+    | 'error.convergenceFailure.message'
+    | 'error.convergenceFailure.helpText'
+    | 'error.rankDeficient.message'
+    | 'error.rankDeficient.helpText'
+    | 'error.unexpected.message'
+    | 'error.unexpected.helpText';
+
+/**
+ * A message that depends on a number, with one template per plural category of the locale, such as `one` and
+ * `other` in English, or `one`, `few`, `many` and `other` in Polish. The category is chosen from the `count`
+ * parameter; `other` is used for any category without a template.
+ */
+export type PluralTemplate = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * A message with `{name}` placeholders, e.g. `"Y increases by about {rate} per {unit}."`, or a plural template.
+ */
+export type MessageTemplate = string | PluralTemplate;
+
+/**
+ * A complete set of messages for one language.
+ */
+export type MessageCatalog = Record<MessageKey, MessageTemplate>;
+
+/**
+ * The values substituted for a message's placeholders. Numbers are formatted for the locale; strings are inserted
+ * as they are. `count` also selects the plural form.
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Options for localising insight text.
+ */
+export interface LocalisationOptions {
+    /**
+     * A BCP 47 language tag, such as `en-GB` or `de`, used to format numbers and choose plural forms.
+     * Defaults to `en`.
+     */
+    locale?: string;
+    /**
+     * Templates that replace those of the default English catalog, e.g. a full German catalog or a single reworded message.
+     */
+    messages?: Partial<MessageCatalog>;
+}
+
+/**
+ * Formats the message with the given key, substituting its parameters.
+ */
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
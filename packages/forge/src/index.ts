@@ -1,2 +1,8 @@
 
-export * from './linear';
+export * from './annotations';
+export * from './comparison';
+export * from './i18n';
+export * from './ranking';
+export * from './registry';
+export * from './regression';
+export * from './types';
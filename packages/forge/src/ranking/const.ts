@@ -0,0 +1,14 @@
+import type { InsightRankingOptions } from "./types";
+import { DEFAULT_REDUNDANCY_RULES } from "./rules";
+
+/**
+ * The importance and confidence assumed for insights that do not state them, such as those of custom generators.
+ */
+export const DEFAULT_SCORE = 0.5;
+
+export const DEFAULT_RANKING_OPTIONS: InsightRankingOptions = {
+    limit: Infinity,
+    minImportance: 0,
+    suppressRedundant: true,
+    rules: DEFAULT_REDUNDANCY_RULES
+};
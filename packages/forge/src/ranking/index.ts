@@ -0,0 +1,4 @@
+export * from "./rank";
+export * from "./score";
+export * from "./rules";
+export * from "./types";
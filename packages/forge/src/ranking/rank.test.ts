@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { rankInsights } from "./rank";
+import type { GeneratedInsight } from "../types";
+
+const insight = (type: string, importance: number, confidence: number, extra: Partial<GeneratedInsight> = {}): GeneratedInsight => ({
+    type,
+    summary: `${type} insight`,
+    importance,
+    confidence,
+    ...extra
+});
+
+const noTrend = insight('TrendDescription', 0.3, 0.6, { category: 'trend', data: { m: 0.1, b: 2, significant: false } });
+const weakCorrelation = insight('CorrelationStrength', 0.26, 0.7, { category: 'fit', data: { rSquared: 0.1 } });
+const seasonality = insight('Seasonality', 0.8, 0.8, { category: 'pattern', data: { seasonalStrength: 0.8 } });
+const autocorrelation = insight('AutocorrelatedResiduals', 0.5, 0.9, { category: 'diagnostics', data: { direction: 'positive' } });
+const outliers = insight('OutlierDetection', 0.7, 0.9, { category: 'dataQuality' });
+
+describe("rankInsights", () => {
+    it("should order insights by importance weighted by confidence", () => {
+        const { insights } = rankInsights({}, [noTrend, outliers, seasonality]);
+
+        expect(insights.map((i) => i.type)).toEqual(['Seasonality', 'OutlierDetection', 'TrendDescription']);
+    });
+
+    it("should suppress a weak correlation alongside a summary with no significant trend", () => {
+        const { insights, suppressed } = rankInsights({}, [noTrend, weakCorrelation]);
+
+        expect(insights).toEqual([noTrend]);
+        expect(suppressed).toEqual([weakCorrelation]);
+    });
+
+    it("should keep the correlation when the trend is significant or the correlation is not weak", () => {
+        const trend = { ...noTrend, data: { m: 2, b: 1, significant: true } };
+        const moderate = { ...weakCorrelation, data: { rSquared: 0.5 } };
+
+        expect(rankInsights({}, [trend, weakCorrelation]).insights).toHaveLength(2);
+        expect(rankInsights({}, [noTrend, moderate]).insights).toHaveLength(2);
+        expect(rankInsights({ rSquaredThresholdWeak: 0.05 }, [noTrend, weakCorrelation]).insights).toHaveLength(2);
+    });
+
+    it("should suppress autocorrelation explained by a seasonal pattern", () => {
+        const { insights } = rankInsights({}, [autocorrelation, seasonality]);
+
+        expect(insights).toEqual([seasonality]);
+    });
+
+    it("should suppress repeated insights, keeping the first", () => {
+        const repeat = { ...outliers, importance: 0.9 };
+        const { insights, suppressed } = rankInsights({}, [outliers, repeat]);
+
+        expect(insights).toEqual([outliers]);
+        expect(suppressed).toEqual([repeat]);
+    });
+
+    it("should keep redundant insights when suppression is off", () => {
+        const { insights } = rankInsights({ ranking: { suppressRedundant: false } }, [noTrend, weakCorrelation]);
+
+        expect(insights).toHaveLength(2);
+    });
+
+    it("should apply custom redundancy rules", () => {
+        const rules = [{ redundant: 'OutlierDetection', coveredBy: 'Seasonality' }];
+        const { insights } = rankInsights({ ranking: { rules } }, [outliers, seasonality, noTrend, weakCorrelation]);
+
+        // The custom rules replace the built-in ones, so the weak correlation is kept.
+        expect(insights.map((i) => i.type)).toEqual(['Seasonality', 'CorrelationStrength', 'TrendDescription']);
+    });
+
+    it("should return the top-N insights above the minimum importance", () => {
+        const all = [noTrend, outliers, seasonality, autocorrelation];
+
+        expect(rankInsights({ ranking: { limit: 2 } }, all).insights.map((i) => i.type)).toEqual(['Seasonality', 'OutlierDetection']);
+        expect(rankInsights({ ranking: { minImportance: 0.6, suppressRedundant: false } }, all).insights).toEqual([seasonality, outliers]);
+        expect(rankInsights({ ranking: { limit: 2 } }, all).suppressed).toEqual([autocorrelation, noTrend]);
+    });
+
+    it("should group the kept insights by category, most important group first", () => {
+        const trendBreak = insight('TrendBreak', 0.8, 0.5, { category: 'trend' });
+        const custom = insight('Custom', 0.5, 0.5);
+        const { groups } = rankInsights({}, [noTrend, outliers, trendBreak, custom]);
+
+        expect(groups).toEqual([
+            { category: 'dataQuality', insights: [outliers] },
+            { category: 'trend', insights: [trendBreak, noTrend] },
+            { category: 'other', insights: [custom] }
+        ]);
+    });
+
+    it("should treat insights without scores as middling and keep their order on ties", () => {
+        const first = { type: 'A', summary: 'a' };
+        const second = { type: 'B', summary: 'b' };
+
+        expect(rankInsights({}, [first, second, insight('C', 0.1, 1)]).insights).toEqual([first, second, insight('C', 0.1, 1)]);
+    });
+});
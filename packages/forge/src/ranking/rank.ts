@@ -0,0 +1,70 @@
+import { curry } from "@facta/fp";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import type { InsightCategory, InsightGroup, InsightRankingOptions, RankedInsights } from "./types";
+import { DEFAULT_RANKING_OPTIONS, DEFAULT_SCORE } from "./const";
+
+/**
+ * The weight by which insights are ranked: their importance discounted by how confident the statistics behind them are.
+ */
+const weight = (insight: GeneratedInsight): number =>
+    (insight.importance ?? DEFAULT_SCORE) * (insight.confidence ?? DEFAULT_SCORE);
+
+/**
+ * Whether an insight repeats an earlier one, or is made redundant by another under one of the rules.
+ */
+const isRedundant = (
+    insight: GeneratedInsight,
+    index: number,
+    insights: GeneratedInsight[],
+    options: LinearInsightGenerationOptions,
+    ranking: InsightRankingOptions
+): boolean => {
+    const repeated = insights.some((other, i) => i < index && other.type === insight.type && other.summary === insight.summary);
+    return repeated || ranking.rules.some((rule) =>
+        rule.redundant === insight.type &&
+        insights.some((other) => other !== insight && other.type === rule.coveredBy && (rule.applies?.(insight, other, options) ?? true))
+    );
+};
+
+/**
+ * @function rankInsights
+ * @description Orders insights by importance weighted by confidence, leaves out redundant and unimportant ones, keeps
+ * at most `limit`, and groups the rest by category. Insights that do not state an importance or confidence are
+ * treated as middling (0.5), and those without a category as `other`. Insights of equal weight keep their order.
+ * @param {LinearInsightGenerationOptions} options - Configuration options, whose `ranking` controls the limit,
+ * the minimum importance and the redundancy rules. Thresholds such as `rSquaredThresholdWeak` are passed to the rules.
+ * @param {GeneratedInsight[]} insights - The insights to rank.
+ * @returns {RankedInsights} The insights kept, most important first, their groups, and the insights left out.
+ * @example
+ * const { insights, groups } = rankInsights({ ranking: { limit: 3 } }, allInsights);
+ */
+export const rankInsights = curry((options: LinearInsightGenerationOptions, insights: GeneratedInsight[]): RankedInsights => {
+    const ranking: InsightRankingOptions = { ...DEFAULT_RANKING_OPTIONS, ...options.ranking };
+    const ordered = insights
+        .map((insight, index) => ({ insight, redundant: ranking.suppressRedundant && isRedundant(insight, index, insights, options, ranking) }))
+        .sort((a, b) => weight(b.insight) - weight(a.insight));
+
+    const kept: GeneratedInsight[] = [];
+    const suppressed: GeneratedInsight[] = [];
+    for (const { insight, redundant } of ordered) {
+        const important = (insight.importance ?? DEFAULT_SCORE) >= ranking.minImportance;
+        if (redundant || !important || kept.length >= ranking.limit) {
+            suppressed.push(insight);
+        } else {
+            kept.push(insight);
+        }
+    }
+
+    const groups: InsightGroup[] = [];
+    for (const insight of kept) {
+        const category: InsightCategory = insight.category ?? 'other';
+        const group = groups.find((existing) => existing.category === category);
+        if (group) {
+            group.insights.push(insight);
+        } else {
+            groups.push({ category, insights: [insight] });
+        }
+    }
+
+    return { insights: kept, groups, suppressed };
+});
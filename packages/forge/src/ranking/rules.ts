@@ -0,0 +1,28 @@
+import type { RedundancyRule } from "./types";
+
+/**
+ * The built-in redundancy rules.
+ * - A weak correlation adds nothing to a summary saying there is no significant trend.
+ * - Autocorrelated residuals are explained by a seasonal pattern or a change in trend, when either is reported.
+ */
+export const DEFAULT_REDUNDANCY_RULES: RedundancyRule[] = [
+    {
+        redundant: 'CorrelationStrength',
+        coveredBy: 'TrendDescription',
+        applies: (correlation, trend, options) =>
+            trend.data?.significant === false &&
+            typeof correlation.data?.rSquared === 'number' &&
+            correlation.data.rSquared < (options.rSquaredThresholdWeak ?? 0.3)
+    },
+    {
+        redundant: 'AutocorrelatedResiduals',
+        coveredBy: 'Seasonality',
+        applies: (_autocorrelation, seasonality) =>
+            typeof seasonality.data?.seasonalStrength === 'number' && seasonality.data.seasonalStrength >= 0.3
+    },
+    {
+        redundant: 'AutocorrelatedResiduals',
+        coveredBy: 'TrendBreak',
+        applies: (autocorrelation) => autocorrelation.data?.direction === 'positive'
+    }
+];
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { clampScore, confidenceFromPValue, confidenceFromSampleSize } from "./score";
+
+describe("clampScore", () => {
+    it("should clamp scores to the range 0 to 1", () => {
+        expect([-0.5, 0.25, 1.5, NaN].map(clampScore)).toEqual([0, 0.25, 1, 0]);
+    });
+});
+
+describe("confidenceFromPValue", () => {
+    it("should give 1 - p, or 0 for an unknown p-value", () => {
+        expect(confidenceFromPValue(0.01)).toBeCloseTo(0.99);
+        expect(confidenceFromPValue(1)).toBe(0);
+        expect(confidenceFromPValue(NaN)).toBe(0);
+    });
+});
+
+describe("confidenceFromSampleSize", () => {
+    it("should grow towards 1 with the number of points", () => {
+        expect(confidenceFromSampleSize(4)).toBe(0.5);
+        expect(confidenceFromSampleSize(25)).toBeCloseTo(0.8);
+        expect(confidenceFromSampleSize(100)).toBeCloseTo(0.9);
+        expect(confidenceFromSampleSize(0)).toBe(0);
+    });
+});
@@ -0,0 +1,21 @@
+/**
+ * Clamp a score to the range 0 to 1, treating NaN as 0.
+ */
+export const clampScore = (value: number): number => (isNaN(value) ? 0 : Math.min(1, Math.max(0, value)));
+
+/**
+ * @function confidenceFromPValue
+ * @description Derives a confidence score from a p-value, as `1 - p`, so a p-value of 0.01 gives a confidence of 0.99.
+ * @param {number} pValue - The p-value of the test behind the insight.
+ * @returns {number} A confidence between 0 and 1, or 0 if the p-value is unknown (NaN).
+ */
+export const confidenceFromPValue = (pValue: number): number => (isNaN(pValue) ? 0 : clampScore(1 - pValue));
+
+/**
+ * @function confidenceFromSampleSize
+ * @description Derives a confidence score from the number of points an insight rests on, as `1 - 1/√n`:
+ * 0.5 for 4 points, 0.8 for 25 points and 0.9 for 100 points.
+ * @param {number} n - The number of data points.
+ * @returns {number} A confidence between 0 and 1.
+ */
+export const confidenceFromSampleSize = (n: number): number => (n > 0 ? clampScore(1 - 1 / Math.sqrt(n)) : 0);
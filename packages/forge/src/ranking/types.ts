@@ -0,0 +1,79 @@
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+
+/**
+ * The broad kind of an insight, used to group insights for display.
+ * - `trend`: the direction and rate of the trend, and changes in it.
+ * - `fit`: how well a model describes the data, and which model fits best.
+ * - `pattern`: structure beyond the trend, such as seasonality.
+ * - `dataQuality`: missing values, outliers and influential points.
+ * - `diagnostics`: warnings about the assumptions behind p-values and bands.
+ * - `other`: insights without a category, such as those of custom generators.
+ */
+export type InsightCategory = 'trend' | 'fit' | 'pattern' | 'dataQuality' | 'diagnostics' | 'other';
+
+/**
+ * A rule under which one insight adds nothing to another, e.g. a weak correlation alongside a summary that already
+ * says there is no trend.
+ */
+export interface RedundancyRule {
+    /**
+     * The type of the insight that is suppressed.
+     */
+    redundant: string;
+    /**
+     * The type of the insight that makes it redundant.
+     */
+    coveredBy: string;
+    /**
+     * Whether the rule applies to this pair of insights. Defaults to always.
+     */
+    applies?: (redundant: GeneratedInsight, coveredBy: GeneratedInsight, options: LinearInsightGenerationOptions) => boolean;
+}
+
+/**
+ * Options for ranking, filtering and grouping insights.
+ */
+export interface InsightRankingOptions {
+    /**
+     * The greatest number of insights to return, the most important first. Defaults to all.
+     */
+    limit: number;
+    /**
+     * Insights whose importance is below this are left out. Defaults to 0.
+     */
+    minImportance: number;
+    /**
+     * Whether to leave out insights made redundant by others, and repeated insights. Defaults to true.
+     */
+    suppressRedundant: boolean;
+    /**
+     * The rules that decide which insights are redundant. Defaults to `DEFAULT_REDUNDANCY_RULES`.
+     */
+    rules: RedundancyRule[];
+}
+
+/**
+ * The insights of one category, the most important first.
+ */
+export interface InsightGroup {
+    category: InsightCategory;
+    insights: GeneratedInsight[];
+}
+
+/**
+ * The outcome of ranking a list of insights.
+ */
+export interface RankedInsights {
+    /**
+     * The insights kept, the most important first.
+     */
+    insights: GeneratedInsight[];
+    /**
+     * The kept insights grouped by category. Groups are ordered by their most important insight.
+     */
+    groups: InsightGroup[];
+    /**
+     * The insights left out as redundant, below `minImportance` or beyond `limit`.
+     */
+    suppressed: GeneratedInsight[];
+}
@@ -0,0 +1,63 @@
+import type { DataPoint, RegressionSuccess } from "@facta/stats";
+import type { LinearInsightGenerationOptions } from "../types";
+import type { InsightGeneratorOutput, InsightRegistry } from "./types";
+import { createInsightRegistry } from "./registry";
+import { regressionSummary } from "../regression/summary";
+import { correlationStrength } from "../regression/correlation";
+import { missingDataInsight } from "../regression/missingData";
+import { outlierInsight } from "../regression/outliers";
+import { seasonalityInsight } from "../regression/seasonality";
+import { trendBreakInsight } from "../regression/trendBreak";
+import { modelSelectionInsight } from "../regression/modelSelection";
+import { assumptionWarnings } from "../regression/assumptions";
+
+const hasData = (options: LinearInsightGenerationOptions): boolean => options.data !== undefined;
+
+/**
+ * Whether the result is an ordinary least squares line. For other methods `m` is the slope in a linearised space or
+ * the linear term of a polynomial, and R² is not that of a linear correlation, so the trend description and
+ * correlation strength would misdescribe the fit.
+ */
+const isLinear = (_options: LinearInsightGenerationOptions, result: RegressionSuccess): boolean => result.method === 'linear';
+
+/**
+ * Whether the points are provided and the result is an ordinary least squares line. The insights that examine the
+ * scatter around the trend fit such a line to `options.data` themselves, so for a robust, weighted or curved fit
+ * they would describe a different model from the one being narrated.
+ */
+const hasLinearFit = (options: LinearInsightGenerationOptions, result: RegressionSuccess): boolean =>
+    hasData(options) && result.method === 'linear';
+
+/**
+ * Adapt an insight of the data points to a generator of the regression result, reading the points from `options.data`.
+ * The x-values are written as dates when the result was fitted against time, unless `options.xType` says otherwise.
+ */
+const fromData = (insight: (options: LinearInsightGenerationOptions, data: DataPoint[]) => InsightGeneratorOutput) =>
+    (options: LinearInsightGenerationOptions, result: RegressionSuccess): InsightGeneratorOutput =>
+        options.data
+            ? insight({ ...options, xType: options.xType ?? (result.unit !== undefined ? 'temporal' : 'quantitative') }, options.data)
+            : null;
+
+/**
+ * Explain that a curve fits better than a straight line, unless that curve is the model the result already fits.
+ */
+const modelSelection = (options: LinearInsightGenerationOptions, result: RegressionSuccess): InsightGeneratorOutput => {
+    const insight = options.data ? modelSelectionInsight(options, options.data) : null;
+    return insight?.data?.best === result.method ? null : insight;
+};
+
+/**
+ * The built-in linear regression insights, in their default order. The trend description and correlation strength
+ * apply to a `linear` result. Insights that inspect individual points only apply when `options.data` is provided;
+ * outliers, seasonality, trend breaks and assumption warnings also require a `linear` result.
+ */
+export const DEFAULT_INSIGHT_REGISTRY: InsightRegistry = createInsightRegistry([
+    { type: 'TrendDescription', priority: 100, isApplicable: isLinear, generate: regressionSummary },
+    { type: 'CorrelationStrength', priority: 90, isApplicable: isLinear, generate: correlationStrength },
+    { type: 'MissingData', priority: 80, generate: missingDataInsight },
+    { type: 'OutlierDetection', priority: 70, isApplicable: hasLinearFit, generate: fromData(outlierInsight) },
+    { type: 'Seasonality', priority: 60, isApplicable: hasLinearFit, generate: fromData(seasonalityInsight) },
+    { type: 'TrendBreak', priority: 50, isApplicable: hasLinearFit, generate: fromData(trendBreakInsight) },
+    { type: 'ModelSelection', priority: 40, isApplicable: hasData, generate: modelSelection },
+    { type: 'AssumptionWarnings', priority: 30, isApplicable: hasLinearFit, generate: fromData(assumptionWarnings) }
+]);
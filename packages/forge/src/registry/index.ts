@@ -0,0 +1,4 @@
+export * from "./registry";
+export * from "./pipeline";
+export * from "./defaults";
+export * from "./types";
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import type { RegressionSuccess } from "@facta/stats";
+import { runInsightPipeline } from "./pipeline";
+import { configureInsight, createInsightRegistry } from "./registry";
+import type { InsightGeneratorDefinition } from "./types";
+
+const result: RegressionSuccess = {
+    ok: true,
+    m: 2,
+    b: 1,
+    coefficients: [2, 1],
+    rSquared: 0.9,
+    method: "linear",
+    points: [[1, 3], [2, 5]],
+    predict: (x: number) => [x, 2 * x + 1]
+};
+
+const note = (type: string, priority: number): InsightGeneratorDefinition => ({
+    type,
+    priority,
+    generate: () => ({ type, summary: `${type} insight` })
+});
+
+describe("runInsightPipeline", () => {
+    it("should run generators from the highest priority down, keeping registration order for ties", () => {
+        const registry = createInsightRegistry([note('Low', 1), note('High', 10), note('AlsoLow', 1)]);
+
+        const { insights } = runInsightPipeline(registry, {}, result);
+
+        expect(insights.map((insight) => insight.type)).toEqual(['High', 'Low', 'AlsoLow']);
+    });
+
+    it("should skip disabled and inapplicable generators", () => {
+        const registry = createInsightRegistry([
+            note('Kept', 1),
+            { ...note('Disabled', 1), enabled: false },
+            { ...note('NeedsData', 1), isApplicable: (options) => options.data !== undefined }
+        ]);
+
+        expect(runInsightPipeline(registry, {}, result).insights.map((insight) => insight.type)).toEqual(['Kept']);
+        expect(runInsightPipeline(registry, { data: [[1, 3]] }, result).insights).toHaveLength(2);
+    });
+
+    it("should flatten generators that produce several insights and drop those that produce none", () => {
+        const registry = createInsightRegistry([
+            { type: 'Many', generate: () => [{ type: 'A', summary: 'a' }, { type: 'B', summary: 'b' }] },
+            { type: 'None', generate: () => null }
+        ]);
+
+        expect(runInsightPipeline(registry, {}, result).insights.map((insight) => insight.type)).toEqual(['A', 'B']);
+    });
+
+    it("should merge each generator's options over the orchestrator's", () => {
+        const registry = createInsightRegistry([{
+            type: 'Threshold',
+            options: { rSquaredThresholdStrong: 0.95 },
+            generate: (options) => ({ type: 'Threshold', summary: `${options.rSquaredThresholdStrong},${options.rSquaredThresholdWeak}` })
+        }]);
+
+        const { insights } = runInsightPipeline(registry, { rSquaredThresholdStrong: 0.7, rSquaredThresholdWeak: 0.2 }, result);
+
+        expect(insights[0].summary).toBe('0.95,0.2');
+    });
+
+    it("should record a failing generator and run the others", () => {
+        const registry = createInsightRegistry([
+            note('Before', 3),
+            { type: 'Broken', priority: 2, generate: () => { throw new Error('Division by zero'); } },
+            { type: 'BrokenCheck', priority: 2, isApplicable: () => { throw 'bad state'; }, generate: () => null },
+            note('After', 1)
+        ]);
+
+        const { insights, failures } = runInsightPipeline(registry, {}, result);
+
+        expect(insights.map((insight) => insight.type)).toEqual(['Before', 'After']);
+        expect(failures).toEqual([
+            { type: 'Broken', message: 'Division by zero' },
+            { type: 'BrokenCheck', message: 'bad state' }
+        ]);
+    });
+
+    it("should produce nothing from an empty or fully disabled registry", () => {
+        const registry = configureInsight('Only', { enabled: false }, createInsightRegistry([note('Only', 1)]));
+
+        expect(runInsightPipeline({}, {}, result)).toEqual({ insights: [], failures: [] });
+        expect(runInsightPipeline(registry, {}, result)).toEqual({ insights: [], failures: [] });
+    });
+});
@@ -0,0 +1,61 @@
+import { curry, pipe } from "@facta/fp";
+import type { RegressionSuccess } from "@facta/stats";
+import type { LinearInsightGenerationOptions } from "../types";
+import type { InsightGenerator, InsightPipelineResult, InsightRegistry } from "./types";
+
+type InsightStep = (state: InsightPipelineResult) => InsightPipelineResult;
+
+const start: InsightStep = (state) => state;
+
+/**
+ * Turn a generator into a pipeline step that appends its insights. A generator that throws, in its applicability
+ * check or while generating, is recorded as a failure and the step passes the state on unchanged.
+ */
+const toStep = (
+    generator: InsightGenerator,
+    suppliedOptions: LinearInsightGenerationOptions,
+    result: RegressionSuccess
+): InsightStep => (state) => {
+    const options: LinearInsightGenerationOptions = { ...suppliedOptions, ...generator.options };
+    try {
+        if (!generator.isApplicable(options, result)) {
+            return state;
+        }
+        const output = generator.generate(options, result);
+        if (output === null) {
+            return state;
+        }
+        return { ...state, insights: [...state.insights, ...(Array.isArray(output) ? output : [output])] };
+    } catch (error) {
+        return {
+            ...state,
+            failures: [...state.failures, { type: generator.type, message: error instanceof Error ? error.message : String(error) }]
+        };
+    }
+};
+
+/**
+ * @function runInsightPipeline
+ * @description Runs the enabled generators of a registry over a regression result, highest priority first, composing
+ * them into a single pipeline with `pipe`. Each generator receives the orchestrator's options merged with its own,
+ * and is skipped when it does not apply. A generator that throws does not stop the others; it is reported in `failures`.
+ * @param {InsightRegistry} registry - The generators to run.
+ * @param {LinearInsightGenerationOptions} options - Configuration options for insight generation.
+ * @param {RegressionSuccess} result - The successful result from @facta/stats regression.
+ * @returns {InsightPipelineResult} The insights in order, and the generators that failed.
+ * @example
+ * const { insights, failures } = runInsightPipeline(DEFAULT_INSIGHT_REGISTRY, { data }, linear({}, data));
+ */
+export const runInsightPipeline = curry((
+    registry: InsightRegistry,
+    options: LinearInsightGenerationOptions,
+    result: RegressionSuccess
+): InsightPipelineResult => {
+    // Array.prototype.sort is stable, so generators of equal priority keep their registration order.
+    const steps = Object.values(registry)
+        .filter((generator) => generator.enabled)
+        .sort((a, b) => b.priority - a.priority)
+        .map((generator) => toStep(generator, options, result));
+
+    return pipe(start, ...steps)({ insights: [], failures: [] });
+});
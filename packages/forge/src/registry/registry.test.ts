@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { configureInsight, createInsightRegistry, registerInsight, unregisterInsight } from "./registry";
+import { DEFAULT_INSIGHT_REGISTRY } from "./defaults";
+import type { RegressionSuccess } from "@facta/stats";
+
+const result: RegressionSuccess = {
+    ok: true,
+    m: 2,
+    b: 1,
+    coefficients: [2, 1],
+    rSquared: 0.9,
+    method: "linear",
+    points: [[1, 3], [2, 5]],
+    predict: (x: number) => [x, 2 * x + 1]
+};
+
+const note = (summary: string) => () => ({ type: 'Note', summary });
+
+describe("createInsightRegistry", () => {
+    it("should key generators by type and fill in defaults", () => {
+        const registry = createInsightRegistry([{ type: 'Note', generate: note('a') }]);
+
+        expect(Object.keys(registry)).toEqual(['Note']);
+        expect(registry.Note).toMatchObject({ type: 'Note', priority: 0, enabled: true, options: {} });
+        expect(registry.Note.isApplicable({}, result)).toBe(true);
+    });
+
+    it("should let a later definition replace an earlier one of the same type", () => {
+        const registry = createInsightRegistry([
+            { type: 'Note', generate: note('a') },
+            { type: 'Note', priority: 5, generate: note('b') }
+        ]);
+
+        expect(Object.keys(registry)).toEqual(['Note']);
+        expect(registry.Note.priority).toBe(5);
+    });
+});
+
+describe("registerInsight", () => {
+    it("should add a generator without changing the original registry", () => {
+        const registry = registerInsight({ type: 'ChurnRisk', priority: 95, generate: note('c') }, DEFAULT_INSIGHT_REGISTRY);
+
+        expect(registry.ChurnRisk.priority).toBe(95);
+        expect(DEFAULT_INSIGHT_REGISTRY.ChurnRisk).toBeUndefined();
+        expect(Object.keys(registry)).toHaveLength(Object.keys(DEFAULT_INSIGHT_REGISTRY).length + 1);
+    });
+});
+
+describe("unregisterInsight", () => {
+    it("should remove the generator of a type", () => {
+        const registry = unregisterInsight('Seasonality', DEFAULT_INSIGHT_REGISTRY);
+
+        expect(registry.Seasonality).toBeUndefined();
+        expect(DEFAULT_INSIGHT_REGISTRY.Seasonality).toBeDefined();
+    });
+});
+
+describe("configureInsight", () => {
+    it("should change the settings of a registered generator", () => {
+        const disable = configureInsight('Seasonality', { enabled: false });
+        const registry = configureInsight('OutlierDetection', { priority: 200, options: { outlierZScoreThreshold: 2 } }, disable(DEFAULT_INSIGHT_REGISTRY));
+
+        expect(registry.Seasonality.enabled).toBe(false);
+        expect(registry.OutlierDetection).toMatchObject({ priority: 200, options: { outlierZScoreThreshold: 2 } });
+        expect(registry.OutlierDetection.generate).toBe(DEFAULT_INSIGHT_REGISTRY.OutlierDetection.generate);
+    });
+
+    it("should leave the registry unchanged for an unknown type", () => {
+        expect(configureInsight('Unknown', { enabled: false }, DEFAULT_INSIGHT_REGISTRY)).toBe(DEFAULT_INSIGHT_REGISTRY);
+    });
+});
@@ -0,0 +1,73 @@
+import { curry } from "@facta/fp";
+import type { InsightGenerator, InsightGeneratorDefinition, InsightGeneratorSettings, InsightRegistry } from "./types";
+
+const withDefaults = (definition: InsightGeneratorDefinition): InsightGenerator => ({
+    priority: 0,
+    enabled: true,
+    isApplicable: () => true,
+    options: {},
+    ...definition
+});
+
+/**
+ * @function createInsightRegistry
+ * @description Creates a registry from a list of generator definitions. A later definition of the same type replaces an earlier one.
+ * @param {InsightGeneratorDefinition[]} definitions - The generators to register.
+ * @returns {InsightRegistry} The new registry.
+ * @example
+ * const registry = createInsightRegistry([
+ *     { type: 'ChurnRisk', priority: 95, generate: (options, result) => result.m < 0 ? { type: 'ChurnRisk', summary: 'Usage is falling.' } : null }
+ * ]);
+ */
+export const createInsightRegistry = (definitions: InsightGeneratorDefinition[]): InsightRegistry =>
+    definitions.reduce<InsightRegistry>((registry, definition) => registerInsight(definition, registry), {});
+
+/**
+ * @function registerInsight
+ * @description Adds a generator to a registry, replacing any generator of the same type.
+ * @param {InsightGeneratorDefinition} definition - The generator to register.
+ * @param {InsightRegistry} registry - The registry to add it to.
+ * @returns {InsightRegistry} A new registry including the generator.
+ * @example
+ * const registry = registerInsight({ type: 'Forecast', priority: 85, generate: forecastInsight }, DEFAULT_INSIGHT_REGISTRY);
+ */
+export const registerInsight = curry((definition: InsightGeneratorDefinition, registry: InsightRegistry): InsightRegistry => {
+    const { [definition.type]: _replaced, ...others } = registry;
+    return { ...others, [definition.type]: withDefaults(definition) };
+});
+
+/**
+ * @function unregisterInsight
+ * @description Removes the generator of a type from a registry.
+ * @param {string} type - The type of the generator to remove.
+ * @param {InsightRegistry} registry - The registry to remove it from.
+ * @returns {InsightRegistry} A new registry without the generator. The registry is unchanged if it has no generator of that type.
+ */
+export const unregisterInsight = curry((type: string, registry: InsightRegistry): InsightRegistry => {
+    const { [type]: _removed, ...others } = registry;
+    return others;
+});
+
+/**
+ * @function configureInsight
+ * @description Changes the priority, enabled state or options of a registered generator, e.g. to disable a
+ * built-in insight or move it earlier.
+ * @param {string} type - The type of the generator to change.
+ * @param {InsightGeneratorSettings} settings - The settings to change. `options` replace the generator's existing options.
+ * @param {InsightRegistry} registry - The registry containing the generator.
+ * @returns {InsightRegistry} A new registry with the generator changed. The registry is unchanged if it has no generator of that type.
+ * @example
+ * const quiet = configureInsight('Seasonality', { enabled: false }, DEFAULT_INSIGHT_REGISTRY);
+ * const outliersFirst = configureInsight('OutlierDetection', { priority: 200, options: { outlierZScoreThreshold: 2.5 } }, quiet);
+ */
+export const configureInsight = curry((
+    type: string,
+    settings: InsightGeneratorSettings,
+    registry: InsightRegistry
+): InsightRegistry => {
+    const generator = registry[type];
+    if (!generator) {
+        return registry;
+    }
+    return { ...registry, [type]: { ...generator, ...settings } };
+});
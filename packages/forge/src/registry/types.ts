@@ -0,0 +1,80 @@
+import type { RegressionSuccess } from "@facta/stats";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+
+/**
+ * What a generator produces: one insight, several insights, or none.
+ */
+export type InsightGeneratorOutput = GeneratedInsight | GeneratedInsight[] | null;
+
+/**
+ * A registered insight generator.
+ */
+export interface InsightGenerator {
+    /**
+     * The key of the generator in the registry, usually the `type` of the insight it produces, e.g. `TrendDescription`.
+     * Registering a generator with the same type replaces the existing one.
+     */
+    type: string;
+    /**
+     * Generators with a higher priority run first, so their insights come first. Generators with the same priority
+     * run in the order they were registered.
+     */
+    priority: number;
+    /**
+     * Whether the generator runs.
+     */
+    enabled: boolean;
+    /**
+     * Whether the generator applies to this result, e.g. only when `options.data` is provided. The generator is
+     * skipped when this returns false.
+     */
+    isApplicable: (options: LinearInsightGenerationOptions, result: RegressionSuccess) => boolean;
+    /**
+     * Produces the insight from the regression result.
+     */
+    generate: (options: LinearInsightGenerationOptions, result: RegressionSuccess) => InsightGeneratorOutput;
+    /**
+     * Options for this generator only, merged over the options passed to the orchestrator.
+     */
+    options: Partial<LinearInsightGenerationOptions>;
+}
+
+/**
+ * A generator to register. Only `type` and `generate` are required; by default a generator is enabled,
+ * always applicable, has no options of its own and a priority of 0, so it runs after the built-in insights.
+ */
+export type InsightGeneratorDefinition = Pick<InsightGenerator, 'type' | 'generate'> &
+    Partial<Omit<InsightGenerator, 'type' | 'generate'>>;
+
+/**
+ * The insight generators available to an orchestrator, keyed by type. Registries are immutable; the functions that
+ * change them return a new registry.
+ */
+export type InsightRegistry = Readonly<Record<string, InsightGenerator>>;
+
+/**
+ * The settings of a registered generator that can be changed without replacing it.
+ */
+export type InsightGeneratorSettings = Partial<Pick<InsightGenerator, 'priority' | 'enabled' | 'options'>>;
+
+/**
+ * A generator that threw instead of producing an insight.
+ */
+export interface InsightFailure {
+    /**
+     * The type of the generator that failed.
+     */
+    type: string;
+    /**
+     * The message of the error it threw.
+     */
+    message: string;
+}
+
+/**
+ * The insights produced by running a registry's generators, and any generators that failed.
+ */
+export interface InsightPipelineResult {
+    insights: GeneratedInsight[];
+    failures: InsightFailure[];
+}
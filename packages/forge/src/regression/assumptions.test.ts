@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { createRandom } from "@facta/stats";
+import type { DataPoint } from "@facta/stats";
+import { assumptionWarnings } from "./assumptions";
+
+describe("assumptionWarnings", () => {
+    const wobble = [0.3, -0.2, 0.1, -0.4, 0.2, 0, -0.1, 0.4, -0.3, 0.15, -0.05];
+
+    it("should return no warnings for a well-behaved trend", () => {
+        const random = createRandom(1);
+        const steady: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, 3 * t + random.normal()]);
+
+        expect(assumptionWarnings({}, steady)).toEqual([]);
+    });
+
+    it("should warn about autocorrelated residuals", () => {
+        const cyclical: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, t + 5 * Math.sin(t / 4)]);
+        const warnings = assumptionWarnings({}, cyclical);
+        const warning = warnings.find((insight) => insight.type === 'AutocorrelatedResiduals');
+
+        expect(warning?.summary).toMatch(/^Neighbouring points sit on the same side of the trend line \(Durbin–Watson: 0\.\d+\)/);
+        expect(warning?.data).toMatchObject({ direction: 'positive' });
+    });
+
+    it("should warn when the scatter grows with x", () => {
+        const fanning: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, 2 * t + (t % 2 === 0 ? 1 : -1) * 0.5 * t]);
+        const warning = assumptionWarnings({}, fanning).find((insight) => insight.type === 'Heteroscedasticity');
+
+        expect(warning?.summary).toBe(
+            'The scatter around the trend line changes with X (p < 0.05), so the confidence bands are unreliable. A log scale may describe the data better.'
+        );
+        expect(warning?.data).toMatchObject({ df: 1 });
+    });
+
+    it("should warn about skewed residuals in long series", () => {
+        const spiky: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, 2 * t + wobble[t % 11] + (t % 10 === 3 ? 8 : 0)]);
+        const types = assumptionWarnings({}, spiky).map((insight) => insight.type);
+
+        expect(types).toContain('NonNormalResiduals');
+        expect(assumptionWarnings({}, spiky.slice(0, 20)).map((insight) => insight.type)).not.toContain('NonNormalResiduals');
+    });
+
+    it("should respect the significance level", () => {
+        const fanning: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, 2 * t + (t % 2 === 0 ? 1 : -1) * 0.5 * t]);
+        const warning = assumptionWarnings({ pValueSignificanceLevel: 0.01 }, fanning).find((insight) => insight.type === 'Heteroscedasticity');
+
+        expect(warning?.summary).toContain('(p < 0.01)');
+    });
+
+    it("should localise the text and numbers", () => {
+        const cyclical: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, t + 5 * Math.sin(t / 4)]);
+        const warning = assumptionWarnings({
+            locale: 'de',
+            messages: { 'assumptions.positiveAutocorrelation': 'Benachbarte Punkte liegen auf derselben Seite (Durbin–Watson: {durbinWatson}).' }
+        }, cyclical).find((insight) => insight.type === 'AutocorrelatedResiduals');
+
+        expect(warning?.summary).toMatch(/^Benachbarte Punkte liegen auf derselben Seite \(Durbin–Watson: 0,\d+\)\.$/);
+    });
+
+    it("should return no warnings for short or unusable data", () => {
+        expect(assumptionWarnings({}, [[1, 2], [2, 5], [3, 4]])).toEqual([]);
+        expect(assumptionWarnings({}, Array.from({ length: 12 }, (_, t): DataPoint => [t, 2 * t]))).toEqual([]);
+    });
+});
@@ -0,0 +1,89 @@
+import { curry } from "@facta/fp";
+import { linear, regressionDiagnostics } from "@facta/stats";
+import type { DataPoint } from "@facta/stats";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import { createTranslator } from "../i18n/translate";
+import { confidenceFromPValue, confidenceFromSampleSize } from "../ranking/score";
+
+/**
+ * The fewest points for which the residuals are examined; with fewer, the tests have too little power to be useful.
+ */
+const MIN_POINTS = 10;
+
+/**
+ * The fewest points for which the normality test is trusted. The Jarque–Bera test relies on large-sample moments.
+ */
+const MIN_NORMALITY_POINTS = 30;
+
+/**
+ * Durbin–Watson statistics below this indicate positively autocorrelated residuals, and above `4 -` this negatively
+ * autocorrelated residuals. 1.5 to 2.5 is the conventional range for independence.
+ */
+const DURBIN_WATSON_LIMIT = 1.5;
+
+/**
+ * @function assumptionWarnings
+ * @description Warns when the data breaks the assumptions behind a linear trend's p-value and confidence bands.
+ * A line is fitted to the data and its residuals are checked for autocorrelation (Durbin–Watson), changing spread
+ * (Breusch–Pagan) and non-normality (Jarque–Bera). Each violated assumption gives one warning, so a clean fit gives none.
+ * @param {LinearInsightGenerationOptions} options - Configuration options for insight generation.
+ * @param {DataPoint[]} data - The data points, in ascending order of x.
+ * @returns {GeneratedInsight[]} A warning for each violated assumption, or an empty array if none are violated,
+ * there are fewer than ten points, or the residuals could not be examined. Normality is only checked from 30 points.
+ */
+export const assumptionWarnings = curry((options: LinearInsightGenerationOptions, data: DataPoint[]): GeneratedInsight[] => {
+    if (data.length < MIN_POINTS) {
+        return [];
+    }
+
+    const fit = linear({ precision: 12 }, data);
+    if (!fit.ok) {
+        return [];
+    }
+
+    const diagnostics = regressionDiagnostics({}, fit, data);
+    if (!diagnostics.ok) {
+        return [];
+    }
+
+    const significanceLevel = options.pValueSignificanceLevel ?? 0.05;
+    const { durbinWatson, breuschPagan, normality } = diagnostics;
+    const translate = createTranslator(options);
+    const warnings: GeneratedInsight[] = [];
+
+    if (durbinWatson < DURBIN_WATSON_LIMIT || durbinWatson > 4 - DURBIN_WATSON_LIMIT) {
+        const positive = durbinWatson < 2;
+        warnings.push({
+            summary: translate(positive ? 'assumptions.positiveAutocorrelation' : 'assumptions.negativeAutocorrelation', { durbinWatson }),
+            type: 'AutocorrelatedResiduals',
+            category: 'diagnostics',
+            importance: 0.5,
+            confidence: confidenceFromSampleSize(data.length),
+            data: { durbinWatson, direction: positive ? 'positive' : 'negative' }
+        });
+    }
+
+    if (breuschPagan.pValue < significanceLevel) {
+        warnings.push({
+            summary: translate('assumptions.heteroscedasticity', { level: significanceLevel }),
+            type: 'Heteroscedasticity',
+            category: 'diagnostics',
+            importance: 0.5,
+            confidence: confidenceFromPValue(breuschPagan.pValue),
+            data: { ...breuschPagan }
+        });
+    }
+
+    if (data.length >= MIN_NORMALITY_POINTS && normality.pValue < significanceLevel) {
+        warnings.push({
+            summary: translate('assumptions.nonNormal', { level: significanceLevel }),
+            type: 'NonNormalResiduals',
+            category: 'diagnostics',
+            importance: 0.5,
+            confidence: confidenceFromPValue(normality.pValue),
+            data: { ...normality }
+        });
+    }
+
+    return warnings;
+});
@@ -8,6 +8,7 @@ const createMockRegressionSuccess = (overrides: Partial<RegressionSuccess> = {})
     ok: true,
     m: 2.5,
     b: 10,
+    coefficients: [2.5, 10],
     rSquared: 0.85,
     method: "linear",
     points: [[1, 12.5], [2, 15], [3, 17.5], [4, 20]],
@@ -142,4 +143,19 @@ describe("correlationStrength", () => {
             expect(result.data).toHaveProperty('rSquared');
         });
     });
+
+    describe("localisation", () => {
+        it("should format R-squared for the locale", () => {
+            const insight = correlationStrength({ locale: 'de' }, createMockRegressionSuccess({ rSquared: 0.5 }));
+
+            expect(insight.summary).toBe('There is a moderate linear correlation (R-squared: 0,50).');
+        });
+
+        it("should use overridden templates", () => {
+            const messages = { 'correlation.strong': 'Starke lineare Korrelation (R²: {rSquared}).' };
+            const insight = correlationStrength({ locale: 'de', messages }, createMockRegressionSuccess({ rSquared: 0.853 }));
+
+            expect(insight.summary).toBe('Starke lineare Korrelation (R²: 0,85).');
+        });
+    });
 });
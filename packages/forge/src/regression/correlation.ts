@@ -1,6 +1,9 @@
 import { curry } from "@facta/fp";
 import type { RegressionSuccess } from "@facta/stats";
-import type { GeneratedInsight, LinearInsightGenerationOptions } from "src/types";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import { createTranslator, formatNumber } from "../i18n/translate";
+import { DEFAULT_LOCALE } from "../i18n/const";
+import { clampScore, confidenceFromSampleSize } from "../ranking/score";
 
 
 /**
@@ -11,22 +14,30 @@ import type { GeneratedInsight, LinearInsightGenerationOptions } from "src/types
  * @returns {GeneratedInsight} An insight about correlation strength.
  */
 export const correlationStrength = curry((options: LinearInsightGenerationOptions, result: RegressionSuccess): GeneratedInsight => {
-    const { rSquared } = result;
+    const rSquared = result.rSquared ?? 0;
     const rSqWeak = options.rSquaredThresholdWeak ?? 0.3;
     const rSqStrong = options.rSquaredThresholdStrong ?? 0.7;
 
+    const translate = createTranslator(options);
+    const params = {
+        rSquared: formatNumber(options.locale ?? DEFAULT_LOCALE, rSquared, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    };
+
     let summary = '';
     if (rSquared >= rSqStrong) {
-        summary = `There is a strong linear correlation (R-squared: ${rSquared.toFixed(2)}), indicating the model explains a large portion of the variance.`;
+        summary = translate('correlation.strong', params);
     } else if (rSquared >= rSqWeak) {
-        summary = `There is a moderate linear correlation (R-squared: ${rSquared.toFixed(2)}).`;
+        summary = translate('correlation.moderate', params);
     } else {
-        summary = `There is a weak linear correlation (R-squared: ${rSquared.toFixed(2)}), suggesting the linear model may not be the best fit or other factors are at play.`;
+        summary = translate('correlation.weak', params);
     }
 
     return {
         summary,
         type: 'CorrelationStrength',
+        category: 'fit',
+        importance: clampScore(0.2 + 0.6 * rSquared),
+        confidence: confidenceFromSampleSize(result.points.length),
         data: { rSquared }
     };
 });
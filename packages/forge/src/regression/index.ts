@@ -0,0 +1,10 @@
+export * from "./linear";
+export * from "./summary";
+export * from "./correlation";
+export * from "./outliers";
+export * from "./seasonality";
+export * from "./trendBreak";
+export * from "./modelSelection";
+export * from "./assumptions";
+export * from "./missingData";
+export * from "./regressionError";
@@ -1,12 +1,15 @@
 import { describe, it, expect} from "vitest";
 import type { RegressionSuccess, RegressionError } from '@facta/stats';
 import { linearRegressionInsights } from "./linear";
+import { DEFAULT_INSIGHT_REGISTRY } from "../registry/defaults";
+import { configureInsight, registerInsight } from "../registry/registry";
 
 // Mock data generators for testing
 const createMockRegressionSuccess = (overrides: Partial<RegressionSuccess> = {}): RegressionSuccess => ({
     ok: true,
     m: 2.5,
     b: 10,
+    coefficients: [2.5, 10],
     rSquared: 0.85,
     method: "linear",
     points: [[1, 12.5], [2, 15], [3, 17.5], [4, 20]],
@@ -137,6 +140,251 @@ describe("linearRegressionInsights", () => {
         });
     });
 
+    describe("missing data", () => {
+        it("should add a missing-data insight after the correlation when points were dropped", () => {
+            const mockSuccess = createMockRegressionSuccess({
+                missing: { policy: 'drop', imputation: null, droppedIndices: [2, 5, 9], imputedIndices: [] }
+            });
+            const result = linearRegressionInsights(defaultOptions, mockSuccess);
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            expect(result.insights).toHaveLength(3);
+            expect(result.insights[2].type).toBe('MissingData');
+            expect(result.insights[2].summary).toBe('3 points were excluded due to missing values.');
+        });
+    });
+
+    describe("outlier detection", () => {
+        it("should add an outlier insight when the data is provided", () => {
+            const data: [number, number][] = [[1, 2], [2, 4.1], [3, 5.9], [4, 8.1], [5, 20], [6, 12], [7, 13.9], [8, 16.1]];
+            const result = linearRegressionInsights({ ...defaultOptions, data }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            expect(result.insights).toHaveLength(3);
+            expect(result.insights[2].type).toBe('OutlierDetection');
+            expect(result.insights[2].annotations).toEqual([{ kind: 'point', role: 'outlier', x: 5, y: 20 }]);
+        });
+
+        it("should write x as a date when the result was fitted against time", () => {
+            const day = 86_400_000;
+            const data: [number, number][] = [[1, 2], [2, 4.1], [3, 5.9], [4, 8.1], [5, 20], [6, 12], [7, 13.9], [8, 16.1]]
+                .map(([x, y]) => [Date.UTC(2024, 0, 1) + (x - 1) * day, y]);
+            const result = linearRegressionInsights({ ...defaultOptions, data }, createMockRegressionSuccess({ unit: 'day' }));
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            const outliers = result.insights.find((insight) => insight.type === 'OutlierDetection');
+            expect(outliers?.summary).toContain('x = Jan 5, 2024 (y = 20)');
+        });
+
+        it("should skip the outlier insight when the data is too small to judge", () => {
+            const result = linearRegressionInsights({ data: [[1, 2], [2, 3]] }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            expect(result.insights).toHaveLength(2);
+        });
+    });
+
+    describe("seasonality", () => {
+        it("should add a seasonality insight when the data has a repeating cycle", () => {
+            const weekly = [5, 3, 2, 2, 3, 8, 9];
+            const data: [number, number][] = Array.from({ length: 28 }, (_, t) => [t, 20 + 0.1 * t + weekly[t % 7]]);
+            const result = linearRegressionInsights({ ...defaultOptions, data }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            const seasonality = result.insights.find((insight) => insight.type === 'Seasonality');
+            expect(seasonality?.data).toMatchObject({ period: 7 });
+        });
+    });
+
+    describe("trend breaks", () => {
+        it("should add a trend-break insight when the trend changes", () => {
+            const data: [number, number][] = Array.from({ length: 40 }, (_, t) => [t, t < 20 ? 3 * t : 60 + 0.3 * ((t * 7) % 5)]);
+            const result = linearRegressionInsights({ ...defaultOptions, data }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            const trendBreak = result.insights.find((insight) => insight.type === 'TrendBreak');
+            expect(trendBreak?.summary).toMatch(/^The trend changed at x = (19|20|21)\./);
+            expect(trendBreak?.annotations?.[0]).toEqual({ kind: 'verticalMarker', role: 'changePoint', x: expect.any(Number) });
+        });
+    });
+
+    describe("model selection", () => {
+        it("should add a model-selection insight when a curve fits better than a line", () => {
+            const data: [number, number][] = Array.from({ length: 20 }, (_, t) => [t, 3 * Math.exp(0.2 * t) * (1 + 0.02 * ((t * 7) % 5 - 2))]);
+            const result = linearRegressionInsights({ ...defaultOptions, data }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            const modelSelection = result.insights.find((insight) => insight.type === 'ModelSelection');
+            expect(modelSelection?.data).toMatchObject({ best: 'exponential' });
+        });
+    });
+
+    describe("assumption warnings", () => {
+        it("should warn when the residuals are autocorrelated", () => {
+            const data: [number, number][] = Array.from({ length: 40 }, (_, t) => [t, t + 5 * Math.sin(t / 4)]);
+            const result = linearRegressionInsights({ ...defaultOptions, data }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            const warning = result.insights.find((insight) => insight.type === 'AutocorrelatedResiduals');
+            expect(warning?.data).toMatchObject({ direction: 'positive' });
+        });
+    });
+
+    describe("non-linear results", () => {
+        it("should skip the insights that refit a straight line, but still compare models", () => {
+            const data: [number, number][] = Array.from({ length: 40 }, (_, t) => [t, 3 * Math.exp(0.1 * t) * (1 + 0.02 * ((t * 7) % 5 - 2))]);
+            const fitted = createMockRegressionSuccess({ method: 'theilSen' });
+            const result = linearRegressionInsights({ ...defaultOptions, data }, fitted);
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            const types = result.insights.map((insight) => insight.type);
+            expect(types).not.toContain('OutlierDetection');
+            expect(types).not.toContain('Seasonality');
+            expect(types).not.toContain('TrendBreak');
+            expect(types).not.toContain('AutocorrelatedResiduals');
+            expect(types).toContain('ModelSelection');
+        });
+    });
+
+    describe("model selection of curved results", () => {
+        it("should not suggest the model that was already fitted", () => {
+            const data: [number, number][] = Array.from({ length: 20 }, (_, t) => [t, 0.5 * t * t - 3 * t + 10 + 0.3 * ((t * 7) % 5 - 2)]);
+            const linear = linearRegressionInsights({ ...defaultOptions, data }, createMockRegressionSuccess());
+            const fitted = createMockRegressionSuccess({ method: 'polynomial', m: -3, b: 10, coefficients: [0.5, -3, 10], rSquared: 1 });
+            const curved = linearRegressionInsights({ ...defaultOptions, data }, fitted);
+
+            if (!linear.ok || !curved.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            expect(linear.insights.find((insight) => insight.type === 'ModelSelection')?.data).toMatchObject({ best: 'polynomial' });
+            expect(curved.insights.map((insight) => insight.type)).not.toContain('ModelSelection');
+        });
+    });
+
+    describe("curved results", () => {
+        it("should not narrate the linear term of a curve as a linear trend or correlation", () => {
+            // y = 0.5x² - x rises across x = 2..10, although its linear term is negative.
+            const fitted = createMockRegressionSuccess({
+                method: 'polynomial',
+                m: -1,
+                b: 0,
+                coefficients: [0.5, -1, 0],
+                rSquared: 1,
+                points: [[2, 0], [6, 12], [10, 40]],
+                predict: (x: number) => [x, 0.5 * x * x - x]
+            });
+            const result = linearRegressionInsights(defaultOptions, fitted);
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            const types = result.insights.map((insight) => insight.type);
+            expect(types).not.toContain('TrendDescription');
+            expect(types).not.toContain('CorrelationStrength');
+        });
+    });
+
+    describe("insight registry", () => {
+        it("should report no failures for the built-in insights", () => {
+            const result = linearRegressionInsights(defaultOptions, createMockRegressionSuccess());
+
+            expect(result).toMatchObject({ ok: true, failures: [] });
+        });
+
+        it("should run custom generators and skip disabled built-in ones", () => {
+            const registry = registerInsight(
+                { type: 'Target', priority: 95, generate: (_options, result) => ({ type: 'Target', summary: `Slope ${result.m} is on target.` }) },
+                configureInsight('CorrelationStrength', { enabled: false }, DEFAULT_INSIGHT_REGISTRY)
+            );
+            const result = linearRegressionInsights({ ...defaultOptions, registry }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            expect(result.insights.map((insight) => insight.type)).toEqual(['TrendDescription', 'Target']);
+        });
+
+        it("should keep the other insights when a generator fails", () => {
+            const registry = registerInsight(
+                { type: 'Broken', priority: 200, generate: () => { throw new Error('Service unavailable'); } },
+                DEFAULT_INSIGHT_REGISTRY
+            );
+            const result = linearRegressionInsights({ ...defaultOptions, registry }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            expect(result.insights.map((insight) => insight.type)).toEqual(['TrendDescription', 'CorrelationStrength']);
+            expect(result.failures).toEqual([{ type: 'Broken', message: 'Service unavailable' }]);
+        });
+    });
+
+    describe("ranking", () => {
+        it("should return insights in generator order without groups when ranking is not requested", () => {
+            const result = linearRegressionInsights(defaultOptions, createMockRegressionSuccess({ rSquared: 0.1, pValueM: 0.4 }));
+
+            expect(result).toMatchObject({ ok: true, insights: [{ type: 'TrendDescription' }, { type: 'CorrelationStrength' }] });
+            expect(result).not.toHaveProperty('groups');
+        });
+
+        it("should suppress a weak correlation when there is no significant trend", () => {
+            const result = linearRegressionInsights(
+                { ...defaultOptions, ranking: {} },
+                createMockRegressionSuccess({ rSquared: 0.1, pValueM: 0.4 })
+            );
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            expect(result.insights.map((insight) => insight.type)).toEqual(['TrendDescription']);
+            expect(result.groups).toEqual([{ category: 'trend', insights: result.insights }]);
+        });
+
+        it("should return the top-N insights grouped by category", () => {
+            const data: [number, number][] = [[1, 2], [2, 4.1], [3, 5.9], [4, 8.1], [5, 20], [6, 12], [7, 13.9], [8, 16.1]];
+            const result = linearRegressionInsights({ ...defaultOptions, data, ranking: { limit: 2 } }, createMockRegressionSuccess());
+
+            if (!result.ok) {
+                throw new Error("Expected result to be ok");
+            }
+
+            expect(result.insights.map((insight) => insight.type)).toEqual(['TrendDescription', 'OutlierDetection']);
+            expect(result.groups?.map((group) => group.category)).toEqual(['trend', 'dataQuality']);
+        });
+    });
+
     describe("options handling", () => {
         it("should work with empty options object", () => {
             const mockSuccess = createMockRegressionSuccess();
@@ -1,8 +1,9 @@
 import type { RegressionResult } from "@facta/stats";
-import type { GeneratedInsight, InsightResultError, InsightResultSuccess, LinearInsightGenerationOptions } from "src/types";
+import type { InsightResultError, InsightResultSuccess, LinearInsightGenerationOptions } from "../types";
 import { regressionError } from "./regressionError";
-import { regressionSummary } from "./summary";
-import { correlationStrength } from "./correlation";
+import { runInsightPipeline } from "../registry/pipeline";
+import { DEFAULT_INSIGHT_REGISTRY } from "../registry/defaults";
+import { rankInsights } from "../ranking/rank";
 
 export type LinearInsightsOutput = InsightResultSuccess | InsightResultError;
 
@@ -10,27 +11,39 @@ export type LinearInsightsOutput = InsightResultSuccess | InsightResultError;
  * @function linearRegressionInsights
  * @description Orchestrates the generation of various insights from a linear regression result.
  * This function acts as the primary entry point for linear regression insight generation in @facta/forge.
+ * The insights come from the generators of `options.registry`, or the built-in `DEFAULT_INSIGHT_REGISTRY`:
+ * the trend summary and correlation strength, then, when `options.data` is provided, outliers, seasonality,
+ * trend breaks, model selection and assumption warnings. Outliers, seasonality, trend breaks and assumption warnings
+ * fit an ordinary least squares line to the data, so they are skipped for results of other methods, such as `huber`.
  * @param {LinearInsightGenerationOptions} options - Configuration options for the insights.
  * @param {LinearRegressionResult} statsResult - The raw result from @facta/stats.linear.
  * @returns {LinearInsightsOutput} A discriminant union containing either an array of insights or a user-friendly error.
+ * A generator that throws is listed in `failures` rather than failing the whole result. With `options.ranking`, the
+ * insights are ranked, filtered and grouped by `rankInsights`.
  */
 export function linearRegressionInsights(
     options: LinearInsightGenerationOptions,
     statsResult: RegressionResult
 ): LinearInsightsOutput {
     if (!statsResult.ok) {
-        return regressionError(statsResult);
+        return regressionError(statsResult, options);
     }
 
-    const insights: GeneratedInsight[] = [];
+    const { insights, failures } = runInsightPipeline(options.registry ?? DEFAULT_INSIGHT_REGISTRY, options, statsResult);
 
-    insights.push(regressionSummary(statsResult));
-
-    const getCorrelationStrength = correlationStrength(options);
-    insights.push(getCorrelationStrength(statsResult));
+    if (!options.ranking) {
+        return {
+            ok: true,
+            insights,
+            failures
+        };
+    }
 
+    const ranked = rankInsights(options, insights);
     return {
         ok: true,
-        insights
+        insights: ranked.insights,
+        failures,
+        groups: ranked.groups
     };
-}
\ No newline at end of file
+}
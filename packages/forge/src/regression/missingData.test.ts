@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { linear } from "@facta/stats";
+import type { DataPoint, RegressionResult, RegressionSuccess } from "@facta/stats";
+import { missingDataInsight } from "./missingData";
+
+const success = (result: RegressionResult): RegressionSuccess => {
+    if (!result.ok) {
+        throw new Error("Expected successful regression");
+    }
+    return result;
+};
+
+describe("missingDataInsight", () => {
+    const gappy: DataPoint[] = [[1, 2], [2, NaN], [3, 4], [NaN, 7], [5, 6], [6, NaN], [7, 8]];
+
+    it("should report points excluded due to missing values", () => {
+        const insight = missingDataInsight({}, success(linear({ missing: 'drop' }, gappy)));
+
+        expect(insight).toEqual({
+            summary: '3 points were excluded due to missing values.',
+            type: 'MissingData',
+            category: 'dataQuality',
+            importance: 1,
+            confidence: 1,
+            data: { policy: 'drop', imputation: null, droppedIndices: [1, 3, 5], imputedIndices: [] }
+        });
+    });
+
+    it("should report imputed points and the method used", () => {
+        const insight = missingDataInsight({}, success(linear({ missing: 'impute' }, gappy)));
+
+        expect(insight!.summary).toBe(
+            '1 point was excluded due to missing values. 2 points were filled in by interpolating between their neighbours.'
+        );
+    });
+
+    it("should return null when nothing was missing or no policy was applied", () => {
+        expect(missingDataInsight({}, success(linear({ missing: 'drop' }, [[1, 2], [2, 3]])))).toBeNull();
+        expect(missingDataInsight({}, success(linear({}, [[1, 2], [2, 3]])))).toBeNull();
+    });
+
+    it("should support partial application", () => {
+        const explain = missingDataInsight({});
+        expect(explain(success(linear({ missing: 'impute', imputation: 'mean' }, gappy)))!.summary).toContain('the average value');
+    });
+
+    it("should pluralise with the locale's templates", () => {
+        const messages = {
+            'missing.dropped': { one: '{count} Punkt wurde wegen fehlender Werte ausgelassen.', other: '{count} Punkte wurden wegen fehlender Werte ausgelassen.' }
+        };
+        const insight = missingDataInsight({ locale: 'de', messages }, success(linear({ missing: 'drop' }, gappy)));
+
+        expect(insight!.summary).toBe('3 Punkte wurden wegen fehlender Werte ausgelassen.');
+    });
+});
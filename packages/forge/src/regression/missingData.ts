@@ -0,0 +1,44 @@
+import { curry } from "@facta/fp";
+import type { RegressionSuccess } from "@facta/stats";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import { createTranslator } from "../i18n/translate";
+import { clampScore } from "../ranking/score";
+
+/**
+ * @function missingDataInsight
+ * @description Explains how points with missing values were treated before the trend was fitted, such as
+ * "3 points were excluded due to missing values.", so that readers know the trend rests on incomplete data.
+ * Only generated when the regression was run with the `drop` or `impute` missing value policy.
+ * @param {LinearInsightGenerationOptions} options - Configuration options for insight generation.
+ * @param {RegressionSuccess} result - The successful result from @facta/stats linear regression.
+ * @returns {GeneratedInsight | null} An insight describing the excluded and filled-in points, or null if none were
+ * missing or the result has no missing value report.
+ */
+export const missingDataInsight = curry((options: LinearInsightGenerationOptions, result: RegressionSuccess): GeneratedInsight | null => {
+    const { missing } = result;
+    if (!missing || (missing.droppedIndices.length === 0 && missing.imputedIndices.length === 0)) {
+        return null;
+    }
+
+    const translate = createTranslator(options);
+    const sentences: string[] = [];
+    const dropped = missing.droppedIndices.length;
+    const imputed = missing.imputedIndices.length;
+
+    if (dropped > 0) {
+        sentences.push(translate('missing.dropped', { count: dropped }));
+    }
+    if (imputed > 0 && missing.imputation) {
+        sentences.push(translate('missing.imputed', { count: imputed, method: translate(`imputation.${missing.imputation}`) }));
+    }
+
+    return {
+        summary: sentences.join(' '),
+        type: 'MissingData',
+        category: 'dataQuality',
+        // Every tenth point missing makes the insight moderately important; a third or more makes it essential.
+        importance: clampScore(0.3 + (2 * (dropped + imputed)) / (result.points.length + dropped)),
+        confidence: 1,
+        data: { ...missing }
+    };
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import type { DataPoint } from "@facta/stats";
+import { modelSelectionInsight } from "./modelSelection";
+
+describe("modelSelectionInsight", () => {
+    const wobble = [0.03, -0.02, 0.01, -0.04, 0.02, 0, -0.01, 0.04, -0.03, 0.015];
+    // Sign-ups compounding by roughly 20% a week.
+    const signUps: DataPoint[] = Array.from({ length: 20 }, (_, t) => [t, 3 * Math.exp(0.2 * t) * (1 + wobble[t % 10])]);
+
+    it("should explain that a curve fits better than a straight line", () => {
+        const insight = modelSelectionInsight({}, signUps);
+
+        expect(insight).not.toBeNull();
+        expect(insight!.type).toBe('ModelSelection');
+        expect(insight!.summary).toMatch(
+            /^An exponential model fits much better than linear \(AIC \d+(\.\d+)? lower, R² 1 vs 0\.\d+\): y changes by a constant percentage per unit of x\.$/
+        );
+        expect(insight!.data).toMatchObject({ best: 'exponential', criterion: 'aic' });
+    });
+
+    it("should localise the text and numbers", () => {
+        const insight = modelSelectionInsight({
+            locale: 'de',
+            messages: { 'model.exponential': 'Ein exponentielles', 'shape.exponential': 'y wächst um einen festen Prozentsatz' }
+        }, signUps);
+
+        expect(insight!.summary).toMatch(/^Ein exponentielles model fits much better than linear \(AIC [\d.]+(,\d+)? lower, R² 1 vs 0,\d+\): y wächst um einen festen Prozentsatz\.$/);
+    });
+
+    it("should annotate the winning curve sampled across the range of x", () => {
+        const insight = modelSelectionInsight({}, signUps);
+
+        expect(insight!.annotations).toHaveLength(1);
+        const [curve] = insight!.annotations!;
+        if (curve.kind !== 'trendLine') {
+            throw new Error("Expected a trend line annotation");
+        }
+        expect(curve).toMatchObject({ role: 'alternativeModel', label: 'exponential' });
+        expect(curve.points).toHaveLength(50);
+        expect(curve.points[0][0]).toBe(signUps[0][0]);
+        expect(curve.points[49][0]).toBe(signUps[signUps.length - 1][0]);
+    });
+
+    it("should return null when a straight line fits as well as any curve", () => {
+        const steady: DataPoint[] = Array.from({ length: 20 }, (_, t) => [t, 5 + 2 * t + 10 * wobble[t % 10]]);
+
+        expect(modelSelectionInsight({}, steady)).toBeNull();
+    });
+
+    it("should return null for short series and data that cannot be compared", () => {
+        expect(modelSelectionInsight({}, signUps.slice(0, 9))).toBeNull();
+        expect(modelSelectionInsight({}, Array.from({ length: 12 }, (_, t): DataPoint => [t, 4]))).toBeNull();
+    });
+
+    it("should support partial application", () => {
+        const explain = modelSelectionInsight({});
+        expect(explain(signUps)!.type).toBe('ModelSelection');
+    });
+});
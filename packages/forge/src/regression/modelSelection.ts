@@ -0,0 +1,87 @@
+import { curry } from "@facta/fp";
+import { compareModels } from "@facta/stats";
+import type { DataPoint } from "@facta/stats";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import { createTranslator } from "../i18n/translate";
+import { clampScore } from "../ranking/score";
+import { sampleCurve } from "../annotations/sample";
+
+/**
+ * The fewest points for which a curve is considered, so that a handful of points does not decide the shape of a trend.
+ */
+const MIN_POINTS = 10;
+
+/**
+ * The AIC difference from the straight line above which a curve is described as fitting noticeably better.
+ * Below this the two models have similar support.
+ */
+const NOTICEABLE_AIC_DIFFERENCE = 2;
+
+/**
+ * The AIC difference above which the straight line has essentially no support.
+ */
+const DECISIVE_AIC_DIFFERENCE = 10;
+
+/**
+ * @function modelSelectionInsight
+ * @description Explains when a curve describes the data better than a straight line, such as compounding growth that
+ * a linear trend understates. Linear, exponential, logarithmic, power and quadratic models are compared by AIC, and
+ * the insight is only generated when the best of them beats the straight line by a meaningful margin. The winning
+ * model's curve is annotated as a trend line sampled across the range of x.
+ * @param {LinearInsightGenerationOptions} options - Configuration options for insight generation.
+ * @param {DataPoint[]} data - The data points.
+ * @returns {GeneratedInsight | null} An insight naming the better-fitting model, or null if the straight line fits as
+ * well as any curve, there are fewer than ten points, or the models could not be compared.
+ */
+export const modelSelectionInsight = curry((options: LinearInsightGenerationOptions, data: DataPoint[]): GeneratedInsight | null => {
+    if (data.length < MIN_POINTS) {
+        return null;
+    }
+
+    const result = compareModels({}, data);
+    if (!result.ok || result.best.method === 'linear') {
+        return null;
+    }
+
+    const straight = result.models.find((model) => model.method === 'linear');
+    if (!straight || straight.deltaAic < NOTICEABLE_AIC_DIFFERENCE) {
+        return null;
+    }
+
+    const { best } = result;
+    const translate = createTranslator(options);
+    const summary = translate(straight.deltaAic > DECISIVE_AIC_DIFFERENCE ? 'modelSelection.much' : 'modelSelection.noticeably', {
+        model: translate(`model.${best.method}`),
+        deltaAic: straight.deltaAic,
+        rSquared: best.rSquared,
+        linearRSquared: straight.rSquared,
+        shape: translate(`shape.${best.method}`)
+    });
+
+    const xs = data.map(([x]) => x);
+    const [first, last] = [Math.min(...xs), Math.max(...xs)];
+    const curve = sampleCurve(best.fit.predict, first, last);
+
+    return {
+        summary,
+        type: 'ModelSelection',
+        category: 'fit',
+        importance: clampScore(0.4 + straight.deltaAic / 25),
+        // The Akaike weight is the probability that the best model is the best of the candidates.
+        confidence: best.aicWeight,
+        data: {
+            best: best.method,
+            criterion: result.criterion,
+            models: result.models.map((model) => ({
+                method: model.method,
+                coefficients: model.fit.coefficients,
+                rSquared: model.rSquared,
+                aic: model.aic,
+                deltaAic: model.deltaAic,
+                aicWeight: model.aicWeight,
+                cvRmse: model.cvRmse
+            }))
+        },
+        annotations: [{ kind: 'trendLine', role: 'alternativeModel', label: best.method, points: curve }]
+    };
+});
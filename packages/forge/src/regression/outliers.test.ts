@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import type { DataPoint } from "@facta/stats";
+import { outlierInsight } from "./outliers";
+
+describe("outlierInsight", () => {
+    const spike: DataPoint[] = [[1, 2], [2, 4.1], [3, 5.9], [4, 8.1], [5, 20], [6, 12], [7, 13.9], [8, 16.1]];
+
+    it("should list points that stand out from the trend", () => {
+        const insight = outlierInsight({}, spike);
+
+        expect(insight).not.toBeNull();
+        expect(insight!.type).toBe('OutlierDetection');
+        expect(insight!.summary).toContain('1 point stands out from the trend: x = 5 (y = 20).');
+        expect(insight!.data).toMatchObject({ indices: [4], outlierIndices: [4], threshold: 3 });
+        expect(insight!.annotations).toEqual([{ kind: 'point', role: 'outlier', x: 5, y: 20 }]);
+    });
+
+    it("should localise the text and numbers", () => {
+        const halves: DataPoint[] = spike.map(([x, y]) => [x / 2, y]);
+        const insight = outlierInsight({
+            locale: 'de',
+            messages: { 'outliers.found': { one: '{count} Punkt weicht vom Trend ab: {points}.', other: '{count} Punkte weichen vom Trend ab: {points}.' } }
+        }, halves);
+
+        expect(insight!.summary).toBe('1 Punkt weicht vom Trend ab: x = 2,5 (y = 20).');
+    });
+
+    it("should write x as a date for time-based data", () => {
+        const day = 86_400_000;
+        const daily: DataPoint[] = spike.map(([x, y]) => [Date.UTC(2024, 0, 1) + (x - 1) * day, y]);
+        const insight = outlierInsight({ xType: 'temporal' }, daily);
+
+        expect(insight!.summary).toContain('1 point stands out from the trend: x = Jan 5, 2024 (y = 20).');
+    });
+
+    it("should list several points with the localised list template", () => {
+        const wobble = [0.1, -0.1, 0.05, -0.05, 0.08, -0.08];
+        const spikes: DataPoint[] = Array.from({ length: 16 }, (_, i) => [i + 1, 2 * (i + 1) + wobble[i % 6] + (i === 3 || i === 11 ? 8 : 0)]);
+
+        expect(outlierInsight({}, spikes)!.summary).toBe('2 points stand out from the trend: x = 4 (y = 15.95) and x = 12 (y = 31.92).');
+        expect(outlierInsight({ locale: 'de', messages: { 'list.and': '{items} und {last}' } }, spikes)!.summary)
+            .toContain('x = 4 (y = 15,95) und x = 12 (y = 31,92)');
+    });
+
+    it("should describe influential points separately", () => {
+        const leverage: DataPoint[] = [[1, 1.1], [2, 1.9], [3, 3.2], [4, 3.9], [5, 5.1], [20, 5]];
+        const insight = outlierInsight({ outlierZScoreThreshold: 1000 }, leverage);
+
+        expect(insight!.summary).toContain('No points stand out from the trend.');
+        expect(insight!.summary).toContain('The point at x = 20 (y = 5) has a strong influence on the trend line');
+        expect(insight!.data).toMatchObject({ outlierIndices: [], influentialIndices: [5] });
+        expect(insight!.annotations).toEqual([{ kind: 'point', role: 'influential', x: 20, y: 5 }]);
+    });
+
+    it("should use outlierZScoreThreshold", () => {
+        const insight = outlierInsight({ outlierZScoreThreshold: 100 }, spike);
+
+        expect(insight!.data).toMatchObject({ outlierIndices: [], threshold: 100 });
+    });
+
+    it("should report when nothing stands out", () => {
+        const insight = outlierInsight({}, [[1, 1], [2, 2.1], [3, 2.9], [4, 4.1], [5, 5], [6, 5.9]]);
+
+        expect(insight!.summary).toBe('No points stand out from the trend.');
+        expect(insight!.annotations).toEqual([]);
+    });
+
+    it("should return null when there are too few points to judge", () => {
+        expect(outlierInsight({}, [[1, 1], [2, 2], [3, 3]])).toBeNull();
+    });
+
+    it("should support partial application", () => {
+        const detect = outlierInsight({});
+        expect(detect(spike)!.type).toBe('OutlierDetection');
+    });
+});
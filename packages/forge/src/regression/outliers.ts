@@ -0,0 +1,75 @@
+import { curry } from "@facta/fp";
+import { cooksDistanceOutliers, residualOutliers } from "@facta/stats";
+import type { DataPoint } from "@facta/stats";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import type { ChartAnnotation } from "../annotations/types";
+import type { Translate } from "../i18n/types";
+import { createTranslator, formatList, formatX } from "../i18n/translate";
+import { DEFAULT_LOCALE } from "../i18n/const";
+import { confidenceFromSampleSize } from "../ranking/score";
+
+/**
+ * Describe a list of points as `x = 1 (y = 2) and x = 3 (y = 4)`, writing x as a date when it is a time.
+ */
+const describePoints = (translate: Translate, formatPointX: (x: number) => string, data: DataPoint[], indices: number[]): string =>
+    formatList(translate, indices.map((i) => translate('outliers.point', { x: formatPointX(data[i][0]), y: data[i][1] })));
+
+/**
+ * @function outlierInsight
+ * @description Identifies points that break from the linear trend and points that single-handedly shape it.
+ * Outliers are points whose externally studentized residual exceeds `outlierZScoreThreshold`; influential points
+ * are those with a large Cook's distance. Each flagged point gets a point annotation, with the role `outlier` or `influential`.
+ * x-values are written as dates when `options.xType` is `temporal`.
+ * @param {LinearInsightGenerationOptions} options - Configuration options for insight generation.
+ * @param {DataPoint[]} data - The data points the regression was fitted to.
+ * @returns {GeneratedInsight | null} An insight listing the flagged points, or null if there are too few points
+ * (fewer than four) or they cannot be fitted with a line.
+ */
+export const outlierInsight = curry((options: LinearInsightGenerationOptions, data: DataPoint[]): GeneratedInsight | null => {
+    const threshold = options.outlierZScoreThreshold ?? 3;
+    const outliers = residualOutliers({ threshold }, data);
+    const influence = cooksDistanceOutliers({}, data);
+
+    if (!outliers.ok || !influence.ok) {
+        return null;
+    }
+
+    const outlierIndices = outliers.indices;
+    const influentialIndices = influence.indices.filter((i) => !outlierIndices.includes(i));
+    const flagged = [...outlierIndices, ...influentialIndices].sort((a, b) => a - b);
+
+    const translate = createTranslator(options);
+    const formatPointX = (x: number) => formatX(options.locale ?? DEFAULT_LOCALE, options.xType ?? 'quantitative', x);
+    const sentences = [
+        outlierIndices.length > 0
+            ? translate('outliers.found', { count: outlierIndices.length, points: describePoints(translate, formatPointX, data, outlierIndices) })
+            : translate('outliers.none')
+    ];
+    if (influentialIndices.length > 0) {
+        sentences.push(translate('outliers.influential', {
+            count: influentialIndices.length,
+            points: describePoints(translate, formatPointX, data, influentialIndices)
+        }));
+    }
+    const summary = sentences.join(' ');
+
+    return {
+        summary,
+        type: 'OutlierDetection',
+        category: 'dataQuality',
+        importance: flagged.length > 0 ? 0.7 : 0.1,
+        confidence: confidenceFromSampleSize(data.length),
+        data: {
+            indices: flagged,
+            outlierIndices,
+            influentialIndices,
+            threshold
+        },
+        annotations: flagged.map((i): ChartAnnotation => ({
+            kind: 'point',
+            role: outlierIndices.includes(i) ? 'outlier' : 'influential',
+            x: data[i][0],
+            y: data[i][1]
+        }))
+    };
+});
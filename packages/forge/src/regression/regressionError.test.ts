@@ -58,4 +58,36 @@ describe("regressionError", () => {
     expect(result.message).toContain("unexpected error occurred");
     expect(result.originalErrorType).toBe("NumericalStability");
   });
+
+  it("should handle ConvergenceFailure error", () => {
+    const error = createMockRegressionError("ConvergenceFailure");
+    const result = regressionError(error);
+
+    expect(result.ok).toBe(false);
+    expect(result.message).toContain("did not settle on a stable result");
+    expect(result.helpText).toContain("standard linear trend");
+    expect(result.originalErrorType).toBe("ConvergenceFailure");
+  });
+
+  it("should handle RankDeficient error", () => {
+    const error = createMockRegressionError("RankDeficient");
+    const result = regressionError(error);
+
+    expect(result.ok).toBe(false);
+    expect(result.message).toContain("separate the effects");
+    expect(result.helpText).toContain("Remove one of the overlapping factors");
+    expect(result.originalErrorType).toBe("RankDeficient");
+  });
+
+  it("should use overridden templates for the error text", () => {
+    const messages = {
+      'error.invalidInput.message': 'Ungültige Daten.',
+      'error.invalidInput.helpText': 'Bitte nur Zahlen verwenden.',
+    };
+    const result = regressionError(createMockRegressionError("InvalidInput"), { locale: 'de', messages });
+
+    expect(result.message).toBe('Ungültige Daten.');
+    expect(result.helpText).toBe('Bitte nur Zahlen verwenden.');
+    expect(result.originalErrorType).toBe("InvalidInput");
+  });
 });
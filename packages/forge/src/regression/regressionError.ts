@@ -1,34 +1,40 @@
 import type { RegressionError } from "@facta/stats";
-import type { InsightResultError } from "src/types";
+import type { InsightResultError } from "../types";
+import type { LocalisationOptions, MessageKey } from "../i18n/types";
+import { createTranslator } from "../i18n/translate";
+
+interface ErrorMessageKeys {
+    message: MessageKey;
+    helpText: MessageKey;
+}
+
+const UNEXPECTED_ERROR: ErrorMessageKeys = { message: 'error.unexpected.message', helpText: 'error.unexpected.helpText' };
+
+/**
+ * The catalog keys for each kind of error. Errors without an entry are described as unexpected.
+ */
+const ERROR_MESSAGES: Partial<Record<RegressionError["errorType"], ErrorMessageKeys>> = {
+    InsufficientData: { message: 'error.insufficientData.message', helpText: 'error.insufficientData.helpText' },
+    InvalidInput: { message: 'error.invalidInput.message', helpText: 'error.invalidInput.helpText' },
+    ConvergenceFailure: { message: 'error.convergenceFailure.message', helpText: 'error.convergenceFailure.helpText' },
+    RankDeficient: { message: 'error.rankDeficient.message', helpText: 'error.rankDeficient.helpText' }
+};
 
 /**
  * @function regressionError
  * @description Translates a technical @facta/stats error into a user-friendly insight error.
  * @param {LinearRegressionErrorResult} errorResult - The error result from @facta/stats linear regression.
+ * @param {LocalisationOptions} [options] - The locale and message overrides for the error text. Defaults to English.
  * @returns {InsightResultError} A user-friendly error object.
  */
-export const regressionError = (errorResult: RegressionError): InsightResultError => {
-    switch (errorResult.errorType) {
-        case "InsufficientData":
-            return {
-                ok: false,
-                message: "Unable to calculate trend: Not enough data points.",
-                helpText: "Linear regression requires at least two distinct data points. Please provide more data.",
-                originalErrorType: errorResult.errorType
-            };
-        case "InvalidInput":
-            return {
-                ok: false,
-                message: "Invalid data provided.",
-                helpText: "Ensure your data only contains valid numerical values (e.g., no 'null', 'undefined', or non-numeric strings).",
-                originalErrorType: errorResult.errorType
-            };
-        default:
-            return {
-                ok: false,
-                message: "An unexpected error occurred during linear regression calculation.",
-                helpText: "Please contact support with the details of the data you were trying to analyze.",
-                originalErrorType: errorResult.errorType
-            };
-    }
+export const regressionError = (errorResult: RegressionError, options: LocalisationOptions = {}): InsightResultError => {
+    const translate = createTranslator(options);
+    const keys = ERROR_MESSAGES[errorResult.errorType] ?? UNEXPECTED_ERROR;
+
+    return {
+        ok: false,
+        message: translate(keys.message),
+        helpText: translate(keys.helpText),
+        originalErrorType: errorResult.errorType
+    };
 };
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import type { DataPoint } from "@facta/stats";
+import { seasonalityInsight } from "./seasonality";
+
+describe("seasonalityInsight", () => {
+    // Four weeks of daily sales that peak on the sixth day of each week.
+    const weekly = [5, 3, 2, 2, 3, 8, 9].map((value) => value * 10);
+    const noise = [1, -2, 0.5, -1, 2, 0, -0.5];
+    const daily: DataPoint[] = Array.from({ length: 28 }, (_, t) => [t + 1, 200 + t + weekly[t % 7] + noise[(t * 3) % 7]]);
+
+    it("should describe a strong seasonal pattern and when it peaks", () => {
+        const insight = seasonalityInsight({}, daily);
+
+        expect(insight).not.toBeNull();
+        expect(insight!.type).toBe('Seasonality');
+        expect(insight!.summary).toContain('There is a strong seasonal pattern that repeats every 7 points');
+        expect(insight!.summary).toContain('Values tend to peak at x = 7, 14, 21, … and dip at x = 3, 10, 17, ….');
+        expect(insight!.summary).toContain('R-squared understates how predictable the data is.');
+        expect(insight!.data).toMatchObject({ period: 7, peakPhase: 6, troughPhase: 2 });
+    });
+
+    it("should localise the text and numbers", () => {
+        const insight = seasonalityInsight({
+            locale: 'de',
+            messages: { 'seasonality.strong': 'Starkes saisonales Muster alle {period} Punkte (Stärke: {strength}).' }
+        }, daily);
+
+        expect(insight!.summary).toMatch(/^Starkes saisonales Muster alle 7 Punkte \(Stärke: 1,00\)\. Values tend to peak at x = 7, 14, 21, …/);
+    });
+
+    it("should write x as a date for time-based data", () => {
+        const day = 86_400_000;
+        const dated: DataPoint[] = daily.map(([x, y]) => [Date.UTC(2024, 0, 1) + (x - 1) * day, y]);
+        const insight = seasonalityInsight({ xType: 'temporal' }, dated);
+
+        expect(insight!.summary).toContain('Values tend to peak at x = Jan 7, 2024, Jan 14, 2024, Jan 21, 2024, … and dip at x = Jan 3, 2024');
+    });
+
+    it("should use the supplied period", () => {
+        const insight = seasonalityInsight({ period: 14 }, daily);
+
+        expect(insight!.data).toMatchObject({ period: 14 });
+    });
+
+    it("should describe a weak pattern without peaks", () => {
+        const irregular = [1, -2, 0.5, -1, 2, 0, -0.5, 1.5, -1.5, 0.5, -0.5, 2, -2];
+        const data: DataPoint[] = Array.from({ length: 56 }, (_, t) => [t, 2 * t + irregular[t % 13]]);
+        const insight = seasonalityInsight({ period: 7 }, data);
+
+        expect(insight!.summary).toMatch(/^There is at most a weak seasonal pattern repeating every 7 points \(seasonal strength: 0\.\d\d\)\.$/);
+    });
+
+    it("should return null when no seasonal period can be found", () => {
+        const line: DataPoint[] = Array.from({ length: 20 }, (_, t) => [t, 3 * t]);
+
+        expect(seasonalityInsight({}, line)).toBeNull();
+        expect(seasonalityInsight({ period: 7 }, daily.slice(0, 10))).toBeNull();
+    });
+
+    it("should support partial application", () => {
+        const describeSeason = seasonalityInsight({ period: 7 });
+        expect(describeSeason(daily)!.type).toBe('Seasonality');
+    });
+});
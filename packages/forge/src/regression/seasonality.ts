@@ -0,0 +1,95 @@
+import { curry } from "@facta/fp";
+import { classicalDecomposition } from "@facta/stats";
+import type { DataPoint } from "@facta/stats";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import type { Translate } from "../i18n/types";
+import { createTranslator, formatNumber, formatX } from "../i18n/translate";
+import { DEFAULT_LOCALE } from "../i18n/const";
+import { clampScore, confidenceFromSampleSize } from "../ranking/score";
+
+/**
+ * Seasonal strength at or above which a pattern is described as strong.
+ */
+const STRONG_SEASONALITY = 0.6;
+
+/**
+ * Seasonal strength at or above which a pattern is described as moderate.
+ */
+const MODERATE_SEASONALITY = 0.3;
+
+/**
+ * Describe the x-values at a position in the cycle as `x = 2, 9, 16, …`, writing them as dates when they are times.
+ */
+const describePhase = (
+    translate: Translate,
+    formatPhaseX: (x: number) => string,
+    data: DataPoint[],
+    phase: number,
+    period: number
+): string => {
+    const xs: string[] = [];
+    for (let i = phase; i < data.length && xs.length < 3; i += period) {
+        xs.push(formatPhaseX(data[i][0]));
+    }
+    return translate('seasonality.phase', { values: `${xs.join(', ')}${phase + 3 * period < data.length ? ', …' : ''}` });
+};
+
+/**
+ * @function seasonalityInsight
+ * @description Describes a repeating seasonal pattern in the data: how strong it is and where in each cycle values
+ * peak and dip. The data is decomposed with classical decomposition, whose fixed seasonal pattern does not absorb
+ * noise the way a flexible STL pattern can in short series. The period is `options.period` or, when that is omitted,
+ * detected from the autocorrelation of the data. x-values are written as dates when `options.xType` is `temporal`.
+ * @param {LinearInsightGenerationOptions} options - Configuration options for insight generation.
+ * @param {DataPoint[]} data - Evenly spaced data points in x order.
+ * @returns {GeneratedInsight | null} An insight describing the seasonal pattern, or null if no period was supplied or
+ * detected, or the data is too short or irregular to decompose.
+ */
+export const seasonalityInsight = curry((options: LinearInsightGenerationOptions, data: DataPoint[]): GeneratedInsight | null => {
+    const result = classicalDecomposition({ period: options.period ?? null }, data);
+
+    if (!result.ok) {
+        return null;
+    }
+
+    const { period, seasonalIndices, seasonalStrength } = result;
+    const peakPhase = seasonalIndices.indexOf(Math.max(...seasonalIndices));
+    const troughPhase = seasonalIndices.indexOf(Math.min(...seasonalIndices));
+
+    const translate = createTranslator(options);
+    const locale = options.locale ?? DEFAULT_LOCALE;
+    const formatPhaseX = (x: number) => formatX(locale, options.xType ?? 'quantitative', x);
+    const level = seasonalStrength >= STRONG_SEASONALITY
+        ? 'seasonality.strong'
+        : seasonalStrength >= MODERATE_SEASONALITY ? 'seasonality.moderate' : 'seasonality.weak';
+    const sentences = [translate(level, {
+        period,
+        strength: formatNumber(locale, seasonalStrength, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    })];
+
+    if (seasonalStrength >= MODERATE_SEASONALITY) {
+        sentences.push(translate('seasonality.peaks', {
+            peak: describePhase(translate, formatPhaseX, data, peakPhase, period),
+            trough: describePhase(translate, formatPhaseX, data, troughPhase, period)
+        }));
+        sentences.push(translate('seasonality.rSquaredCaveat'));
+    }
+    const summary = sentences.join(' ');
+
+    return {
+        summary,
+        type: 'Seasonality',
+        category: 'pattern',
+        importance: clampScore(seasonalStrength),
+        // A pattern seen in more complete cycles is more trustworthy.
+        confidence: confidenceFromSampleSize(Math.floor(data.length / period)),
+        data: {
+            period,
+            seasonalStrength,
+            trendStrength: result.trendStrength,
+            seasonalIndices,
+            peakPhase,
+            troughPhase
+        }
+    };
+});
@@ -1,12 +1,14 @@
 import { describe, it, expect } from "vitest";
 import type { RegressionSuccess } from '@facta/stats';
 import { regressionSummary } from "./summary";
+import type { ChartAnnotation } from "../annotations/types";
 
 // Mock data generator for testing
 const createMockRegressionSuccess = (overrides: Partial<RegressionSuccess> = {}): RegressionSuccess => ({
     ok: true,
     m: 2.5,
     b: 10,
+    coefficients: [2.5, 10],
     rSquared: 0.85,
     method: "linear",
     points: [[1, 12.5], [2, 15], [3, 17.5], [4, 20]],
@@ -18,6 +20,8 @@ const createMockRegressionSuccess = (overrides: Partial<RegressionSuccess> = {})
     ...overrides
 });
 
+const mockTrendLine: ChartAnnotation = { kind: 'trendLine', role: 'trend', points: [[1, 12.5], [4, 20]] };
+
 describe("regressionSummary", () => {
     describe("trend analysis", () => {
         it("should generate insights for a positive trend", () => {
@@ -26,13 +30,13 @@ describe("regressionSummary", () => {
                 b: 10
             });
 
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result.summary).toContain('positive linear trend');
             expect(result.summary).toContain('X increases, Y tends to increase');
             expect(result.type).toBe('TrendDescription');
-            expect(result.data).toEqual({ m: 2.5, b: 10 });
-            expect(result.annotations).toEqual(['drawTrendLine:2.5,10']);
+            expect(result.data).toEqual({ m: 2.5, b: 10, significant: true });
+            expect(result.annotations).toEqual([mockTrendLine]);
         });
 
         it("should generate insights for a negative trend", () => {
@@ -41,13 +45,13 @@ describe("regressionSummary", () => {
                 b: 20
             });
 
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result.summary).toContain('negative linear trend');
             expect(result.summary).toContain('X increases, Y tends to decrease');
             expect(result.type).toBe('TrendDescription');
-            expect(result.data).toEqual({ m: -1.5, b: 20 });
-            expect(result.annotations).toEqual(['drawTrendLine:-1.5,20']);
+            expect(result.data).toEqual({ m: -1.5, b: 20, significant: true });
+            expect(result.annotations).toEqual([mockTrendLine]);
         });
 
         it("should generate insights for no trend (slope = 0)", () => {
@@ -56,58 +60,116 @@ describe("regressionSummary", () => {
                 b: 15
             });
 
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result.summary).toContain('no significant linear trend');
             expect(result.summary).toContain('Y remains relatively constant');
             expect(result.type).toBe('TrendDescription');
-            expect(result.data).toEqual({ m: 0, b: 15 });
-            expect(result.annotations).toEqual(['drawTrendLine:0,15']);
+            expect(result.data).toEqual({ m: 0, b: 15, significant: false });
+            expect(result.annotations).toEqual([mockTrendLine]);
+        });
+    });
+
+    describe("rates over time", () => {
+        it("should narrate the trend as a rate per unit of time", () => {
+            const mockSuccess = createMockRegressionSuccess({ m: 11.9, b: 119.9, unit: "week" });
+
+            const result = regressionSummary({}, mockSuccess);
+
+            expect(result.summary).toContain('There is a positive linear trend. Y increases by about 12 per week.');
+            expect(result.summary).toContain('statistically significant');
+            expect(result.data).toEqual({ m: 11.9, b: 119.9, significant: true, unit: "week" });
+        });
+
+        it("should narrate a falling rate with two significant figures", () => {
+            const mockSuccess = createMockRegressionSuccess({ m: -0.03472, b: 5, unit: "day" });
+
+            const result = regressionSummary({}, mockSuccess);
+
+            expect(result.summary).toContain('There is a negative linear trend. Y decreases by about 0.035 per day.');
+        });
+
+        it("should describe a flat trend over time without a rate", () => {
+            const mockSuccess = createMockRegressionSuccess({ m: 0, b: 5, unit: "month" });
+
+            const result = regressionSummary({}, mockSuccess);
+
+            expect(result.summary).toContain('no significant linear trend');
+        });
+    });
+
+    describe("statistical significance", () => {
+        it("should describe a significant trend", () => {
+            const mockSuccess = createMockRegressionSuccess({ pValueM: 0.01 });
+            const result = regressionSummary({}, mockSuccess);
+
+            expect(result.summary).toContain('The trend is statistically significant (p < 0.05)');
+        });
+
+        it("should describe a trend that is not significant", () => {
+            const mockSuccess = createMockRegressionSuccess({ pValueM: 0.2 });
+            const result = regressionSummary({}, mockSuccess);
+
+            expect(result.summary).toContain('The trend is not statistically significant (p > 0.05)');
+        });
+
+        it("should use the configured significance level", () => {
+            const mockSuccess = createMockRegressionSuccess({ pValueM: 0.03 });
+            const result = regressionSummary({ pValueSignificanceLevel: 0.01 }, mockSuccess);
+
+            expect(result.summary).toContain('not statistically significant (p > 0.01)');
+        });
+
+        it("should omit significance when no p-value is available", () => {
+            const mockSuccess = createMockRegressionSuccess({ pValueM: undefined });
+            const result = regressionSummary({}, mockSuccess);
+
+            expect(result.summary).not.toContain('statistically significant');
         });
     });
 
     describe("edge cases", () => {
         it("should handle very small slope values", () => {
             const mockSuccess = createMockRegressionSuccess({ m: 0.0001, b: 10 });
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result.summary).toContain('positive linear trend');
-            expect(result.data).toEqual({ m: 0.0001, b: 10 });
-            expect(result.annotations).toEqual(['drawTrendLine:0.0001,10']);
+            expect(result.data).toEqual({ m: 0.0001, b: 10, significant: true });
+            expect(result.annotations).toEqual([mockTrendLine]);
         });
 
         it("should handle very large slope values", () => {
             const mockSuccess = createMockRegressionSuccess({ m: 1000000, b: 10 });
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result.summary).toContain('positive linear trend');
-            expect(result.data).toEqual({ m: 1000000, b: 10 });
-            expect(result.annotations).toEqual(['drawTrendLine:1000000,10']);
+            expect(result.data).toEqual({ m: 1000000, b: 10, significant: true });
+            expect(result.annotations).toEqual([mockTrendLine]);
         });
 
         it("should handle negative intercept values", () => {
             const mockSuccess = createMockRegressionSuccess({ m: 2.5, b: -5 });
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result.summary).toContain('positive linear trend');
-            expect(result.data).toEqual({ m: 2.5, b: -5 });
-            expect(result.annotations).toEqual(['drawTrendLine:2.5,-5']);
+            expect(result.data).toEqual({ m: 2.5, b: -5, significant: true });
+            expect(result.annotations).toEqual([mockTrendLine]);
         });
 
         it("should handle large negative slope values", () => {
             const mockSuccess = createMockRegressionSuccess({ m: -100, b: 50 });
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result.summary).toContain('negative linear trend');
-            expect(result.data).toEqual({ m: -100, b: 50 });
-            expect(result.annotations).toEqual(['drawTrendLine:-100,50']);
+            expect(result.data).toEqual({ m: -100, b: 50, significant: true });
+            expect(result.annotations).toEqual([mockTrendLine]);
         });
     });
 
     describe("output structure", () => {
         it("should return correct structure", () => {
             const mockSuccess = createMockRegressionSuccess();
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result).toHaveProperty('summary');
             expect(result).toHaveProperty('type');
@@ -122,11 +184,85 @@ describe("regressionSummary", () => {
 
         it("should always include trend line annotation", () => {
             const mockSuccess = createMockRegressionSuccess({ m: 5, b: -3 });
-            const result = regressionSummary(mockSuccess);
+            const result = regressionSummary({}, mockSuccess);
 
             expect(result.annotations).toHaveLength(1);
-            expect(result.annotations![0]).toMatch(/^drawTrendLine:/);
-            expect(result.annotations![0]).toContain('5,-3');
+            expect(result.annotations![0]).toMatchObject({ kind: 'trendLine', role: 'trend' });
+        });
+
+        it("should draw the trend line across the fitted points in order of x", () => {
+            const mockSuccess = createMockRegressionSuccess({ points: [[3, 4], [1, 2], [7, 8]] });
+            const result = regressionSummary({}, mockSuccess);
+
+            expect(result.annotations).toEqual([{ kind: 'trendLine', role: 'trend', points: [[1, 2], [7, 8]] }]);
+        });
+
+        it("should sample the curve of a non-linear fit across the fitted points", () => {
+            const mockSuccess = createMockRegressionSuccess({
+                method: 'polynomial',
+                points: [[0, 0], [2, 2], [4, 8]],
+                predict: (x: number) => [x, 0.5 * x * x]
+            });
+            const result = regressionSummary({}, mockSuccess);
+            const [line] = result.annotations!;
+
+            if (line.kind !== 'trendLine') {
+                throw new Error("Expected a trend line annotation");
+            }
+            expect(line.points).toHaveLength(50);
+            expect(line.points[0]).toEqual([0, 0]);
+            expect(line.points[49]).toEqual([4, 8]);
+            expect(line.points[25][1]).toBeCloseTo(0.5 * line.points[25][0] ** 2, 10);
+        });
+
+        it("should add the confidence band when the result provides bands", () => {
+            const confidence: [number, number, number][] = [[1, 11, 14], [4, 18, 22]];
+            const mockSuccess = createMockRegressionSuccess({
+                sampleBands: () => ({ confidence, prediction: [] })
+            });
+            const result = regressionSummary({}, mockSuccess);
+
+            expect(result.annotations).toEqual([mockTrendLine, { kind: 'band', role: 'confidence', points: confidence }]);
+        });
+    });
+
+    describe("localisation", () => {
+        it("should build the summary from overridden templates", () => {
+            const messages = {
+                'trend.increasingRate': 'Y steigt um etwa {rate} pro {unit}.',
+                'trend.significant': 'Der Trend ist statistisch signifikant (p < {level}).',
+                'unit.week': 'Woche'
+            };
+            const mockSuccess = createMockRegressionSuccess({ m: 1234.5, b: 10, unit: "week" });
+
+            const result = regressionSummary({ locale: 'de', messages }, mockSuccess);
+
+            expect(result.summary).toBe('Y steigt um etwa 1.200 pro Woche. Der Trend ist statistisch signifikant (p < 0,05).');
+        });
+    });
+
+    describe("scoring", () => {
+        it("should rate a significant trend as important in proportion to R-squared", () => {
+            const result = regressionSummary({}, createMockRegressionSuccess());
+
+            expect(result.category).toBe('trend');
+            expect(result.importance).toBeCloseTo(0.94);
+            expect(result.confidence).toBeCloseTo(0.99);
+        });
+
+        it("should rate a trend that is not significant as unimportant", () => {
+            const result = regressionSummary({}, createMockRegressionSuccess({ pValueM: 0.2 }));
+
+            expect(result.importance).toBe(0.3);
+            expect(result.confidence).toBeCloseTo(0.8);
+            expect(result.data).toMatchObject({ significant: false });
+        });
+
+        it("should fall back to the sample size when the p-value is unknown", () => {
+            const result = regressionSummary({}, createMockRegressionSuccess({ pValueM: undefined }));
+
+            expect(result.confidence).toBe(0.5);
+            expect(result.data).toMatchObject({ significant: true });
         });
     });
 });
@@ -1,37 +1,75 @@
+import { curry } from "@facta/fp";
 import type { RegressionSuccess } from "@facta/stats";
-import type { GeneratedInsight } from "src/types";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import type { ChartAnnotation } from "../annotations/types";
+import { createTranslator, formatNumber } from "../i18n/translate";
+import { DEFAULT_LOCALE } from "../i18n/const";
+import { clampScore, confidenceFromPValue, confidenceFromSampleSize } from "../ranking/score";
+import { sampleCurve } from "../annotations/sample";
 
 /**
  * @function regressionSummary
- * @description Generates a natural language summary of the linear regression trend.
+ * @description Generates a natural language summary of the linear regression trend. When the regression was fitted
+ * against time (`linearOverTime`), the trend is narrated as a rate per unit of time, e.g. "Y increases by about 12 per week".
  * @param {LinearInsightGenerationOptions} options - Configuration options for insight generation.
  * @param {RegressionSuccess} result - The successful result from @facta/stats linear regression.
- * @returns {GeneratedInsight} A descriptive insight about the trend.
+ * @returns {GeneratedInsight} A descriptive insight about the trend, annotated with the trend line across the fitted
+ * points, sampled from `result.predict` unless the result is `linear`, and, when the result provides bands, the
+ * confidence band.
  */
-export const regressionSummary = (result: RegressionSuccess): GeneratedInsight => {
+export const regressionSummary = curry((options: LinearInsightGenerationOptions, result: RegressionSuccess): GeneratedInsight => {
     const { m, b } = result;
-    let summary = '';
-    let chartAnnotations: string[] = [`drawTrendLine:${m},${b}`];
+    const significanceLevel = options.pValueSignificanceLevel ?? 0.05;
+    const translate = createTranslator(options);
+    const sentences: string[] = [];
 
-    if (m > 0) {
-        summary = `There is a positive linear trend. As X increases, Y tends to increase.`;
+    if (m !== 0 && result.unit !== undefined) {
+        sentences.push(translate(m > 0 ? 'trend.increasingRate' : 'trend.decreasingRate', {
+            // Rates are rounded to two significant figures for narration, e.g. 11.9 to 12 and 0.0347 to 0.035.
+            rate: formatNumber(options.locale ?? DEFAULT_LOCALE, Math.abs(m), { maximumSignificantDigits: 2 }),
+            unit: translate(`unit.${result.unit}`)
+        }));
+    } else if (m > 0) {
+        sentences.push(translate('trend.positive'));
     } else if (m < 0) {
-        summary = `There is a negative linear trend. As X increases, Y tends to decrease.`;
+        sentences.push(translate('trend.negative'));
     } else {
-        summary = `There is no significant linear trend. Y remains relatively constant as X changes.`;
+        sentences.push(translate('trend.none'));
     }
 
     // Add more detail based on p-values if available
-    // if (result.pValueM !== undefined && result.pValueM < (options.pValueSignificanceLevel || 0.05)) {
-    //     summary += ` The trend is statistically significant (p < ${(options.pValueSignificanceLevel || 0.05)}).`;
-    // } else if (result.pValueM !== undefined) {
-    //     summary += ` The trend is not statistically significant (p > ${(options.pValueSignificanceLevel || 0.05)}).`;
-    // }
+    if (m !== 0 && result.pValueM !== undefined && !isNaN(result.pValueM)) {
+        const significance = result.pValueM < significanceLevel ? 'trend.significant' : 'trend.notSignificant';
+        sentences.push(translate(significance, { level: significanceLevel }));
+    }
+    const summary = sentences.join(' ');
+
+    // A trend whose p-value is unknown cannot be called insignificant. Significant trends matter more the more of
+    // the variance they explain.
+    const pValue = result.pValueM ?? NaN;
+    const knownPValue = !isNaN(pValue);
+    const significant = m !== 0 && (!knownPValue || pValue < significanceLevel);
+    const importance = m === 0 ? 0.2 : significant ? clampScore(0.6 + 0.4 * (result.rSquared ?? 0)) : 0.3;
+
+    const chartAnnotations: ChartAnnotation[] = [];
+    if (result.points.length > 0) {
+        const ordered = [...result.points].sort(([x1], [x2]) => x1 - x2);
+        const [first, last] = [ordered[0], ordered[ordered.length - 1]];
+        // Only a linear fit is drawn as a straight line between its end points; a curve is sampled across the range.
+        const points = result.method === 'linear' ? [first, last] : sampleCurve(result.predict, first[0], last[0]);
+        chartAnnotations.push({ kind: 'trendLine', role: 'trend', points });
+    }
+    if (result.sampleBands) {
+        chartAnnotations.push({ kind: 'band', role: 'confidence', points: result.sampleBands().confidence });
+    }
 
     return {
         summary,
         type: 'TrendDescription',
-        data: { m, b },
+        category: 'trend',
+        importance,
+        confidence: knownPValue ? confidenceFromPValue(pValue) : confidenceFromSampleSize(result.points.length),
+        data: { m, b, significant, ...(result.unit !== undefined ? { unit: result.unit } : {}) },
         annotations: chartAnnotations
     };
-};
\ No newline at end of file
+});
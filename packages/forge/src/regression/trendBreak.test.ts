@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import type { DataPoint } from "@facta/stats";
+import { trendBreakInsight } from "./trendBreak";
+
+describe("trendBreakInsight", () => {
+    const wobble = [0.3, -0.2, 0.1, -0.4, 0.2, 0, -0.1, 0.4, -0.3, 0.15, -0.05];
+    // Weekly users grew by 2 a week until a release at week 25, then flattened.
+    const weekly: DataPoint[] = Array.from({ length: 50 }, (_, t) => [t, (t < 25 ? 2 * t : 50) + wobble[t % 11]]);
+
+    it("should narrate where and how the trend changed", () => {
+        const insight = trendBreakInsight({}, weekly);
+
+        expect(insight).not.toBeNull();
+        expect(insight!.type).toBe('TrendBreak');
+        expect(insight!.summary).toMatch(
+            /^The trend changed at x = 2[456]\. From x = 0 to 2[345] it was rising \(\+2(\.\d+)? per unit of x\); from x = 2[456] to 49 it was flat\.$/
+        );
+        expect(insight!.data).toMatchObject({ breaks: [expect.any(Number)], segments: [{ from: 0 }, { to: 49 }] });
+    });
+
+    it("should write x as a date for time-based data", () => {
+        const week = 7 * 86_400_000;
+        const dated: DataPoint[] = weekly.map(([t, y]) => [Date.UTC(2024, 0, 1) + t * week, y]);
+        const insight = trendBreakInsight({ xType: 'temporal' }, dated);
+
+        expect(insight!.summary).toMatch(
+            /^The trend changed at x = (Jun 24|Jul 1|Jul 8), 2024\. From x = Jan 1, 2024 to \w{3} \d{1,2}, 2024 it was rising \(\+0\.29 per day\); from x = \w{3} \d{1,2}, 2024 to Dec 9, 2024 it was flat\.$/
+        );
+        expect(insight!.annotations![0]).toMatchObject({ kind: 'verticalMarker', x: (insight!.data as { breaks: number[] }).breaks[0] });
+    });
+
+    it("should emit annotations marking the break and each segment's trend", () => {
+        const insight = trendBreakInsight({}, weekly);
+        const [brk] = (insight!.data as { breaks: number[] }).breaks;
+
+        const segments = (insight!.data as { segments: { m: number; b: number }[] }).segments;
+
+        expect(insight!.annotations).toHaveLength(3);
+        expect(insight!.annotations![0]).toEqual({ kind: 'verticalMarker', role: 'changePoint', x: brk });
+        expect(insight!.annotations![1]).toMatchObject({ kind: 'trendLine', role: 'segment', points: [[0, segments[0].b], [expect.any(Number), expect.any(Number)]] });
+        expect(insight!.annotations![2]).toMatchObject({
+            kind: 'trendLine',
+            role: 'segment',
+            points: [[brk, segments[1].m * brk + segments[1].b], [49, segments[1].m * 49 + segments[1].b]]
+        });
+    });
+
+    it("should list several breaks", () => {
+        const zigzag: DataPoint[] = Array.from({ length: 60 }, (_, t) => [
+            t,
+            (t < 20 ? 2 * t : t < 40 ? 40 - 2 * (t - 20) : 0) + wobble[t % 11]
+        ]);
+        const insight = trendBreakInsight({}, zigzag);
+
+        expect(insight!.summary).toMatch(/^The trend changed at x = \d+ and x = \d+\./);
+        expect(insight!.summary).toContain('it was falling (-2');
+        expect(insight!.annotations!.filter((annotation) => annotation.kind === 'verticalMarker')).toHaveLength(2);
+    });
+
+    it("should localise the text and numbers", () => {
+        const insight = trendBreakInsight({
+            locale: 'de',
+            messages: { 'trendBreak.changed': 'Der Trend änderte sich bei {where}.', 'trendBreak.flat': 'flach' }
+        }, weekly.map(([x, y]): DataPoint => [x / 10, y]));
+
+        expect(insight!.summary).toMatch(/^Der Trend änderte sich bei x = 2,[456]\. From x = 0 to 2,[345] it was rising .*; from x = 2,[456] to 4,9 it was flach\.$/);
+    });
+
+    it("should return null when the trend does not change", () => {
+        const steady: DataPoint[] = Array.from({ length: 30 }, (_, t) => [t, 3 * t + wobble[t % 11]]);
+
+        expect(trendBreakInsight({}, steady)).toBeNull();
+        expect(trendBreakInsight({}, [[2, 1], [1, 2], [3, 3]])).toBeNull();
+    });
+
+    it("should support partial application", () => {
+        const narrate = trendBreakInsight({});
+        expect(narrate(weekly)!.type).toBe('TrendBreak');
+    });
+});
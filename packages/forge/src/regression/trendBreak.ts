@@ -0,0 +1,101 @@
+import { curry } from "@facta/fp";
+import { segmentedRegression } from "@facta/stats";
+import type { DataPoint, RegressionSuccess } from "@facta/stats";
+import type { GeneratedInsight, LinearInsightGenerationOptions } from "../types";
+import type { ChartAnnotation } from "../annotations/types";
+import type { Translate } from "../i18n/types";
+import { createTranslator, formatList, formatX } from "../i18n/translate";
+import { DAY_MILLISECONDS, DEFAULT_LOCALE } from "../i18n/const";
+import { confidenceFromSampleSize } from "../ranking/score";
+
+/**
+ * The fewest points each segment must have before a break is reported, so that a single spike in a short series
+ * is not mistaken for a change in trend.
+ */
+const MIN_SEGMENT_POINTS = 5;
+
+/**
+ * Describe the direction of a segment's trend, treating trends that are not statistically significant as flat.
+ */
+const describeTrend = (translate: Translate, segment: RegressionSuccess, significanceLevel: number, perDay: boolean): string => {
+    const significant = segment.pValueM !== undefined && segment.pValueM < significanceLevel;
+    if (!significant || segment.m === 0) {
+        return translate('trendBreak.flat');
+    }
+    const key = segment.m > 0
+        ? perDay ? 'trendBreak.risingPerDay' : 'trendBreak.rising'
+        : perDay ? 'trendBreak.fallingPerDay' : 'trendBreak.falling';
+    return translate(key, { rate: segment.m });
+};
+
+/**
+ * @function trendBreakInsight
+ * @description Narrates the points where the trend changed, such as growth that flattened after a release.
+ * The data is split at change points in its trend and a separate line is fitted to each segment; segments whose
+ * gradient is not statistically significant are described as flat. Each break gets a vertical marker annotation
+ * and each segment a trend line annotation spanning its x range. When `options.xType` is `temporal`, x-values are
+ * written as dates and each segment's gradient `m` is a rate per day, with its intercept `b` at the first x-value.
+ * @param {LinearInsightGenerationOptions} options - Configuration options for insight generation.
+ * @param {DataPoint[]} data - The data points, in ascending order of x.
+ * @returns {GeneratedInsight | null} An insight describing each change in trend, or null if the trend did not change,
+ * a segment would have fewer than five points, or the data could not be segmented.
+ */
+export const trendBreakInsight = curry((options: LinearInsightGenerationOptions, data: DataPoint[]): GeneratedInsight | null => {
+    // Time-based data is segmented in days since its first point, so that the gradients are rates per day rather
+    // than per millisecond, which would round to zero.
+    const temporal = options.xType === 'temporal';
+    const [origin, scale] = temporal && data.length > 0 ? [data[0][0], DAY_MILLISECONDS] : [0, 1];
+    const toFitted = (x: number): number => (x - origin) / scale;
+    const result = segmentedRegression({ minSegmentLength: MIN_SEGMENT_POINTS }, data.map(([x, y]): DataPoint => [toFitted(x), y]));
+
+    if (!result.ok || result.breaks.length === 0) {
+        return null;
+    }
+
+    const significanceLevel = options.pValueSignificanceLevel ?? 0.05;
+    const bounds = [0, ...result.changePoints, data.length];
+    const ranges = result.segments.map((_, i): [number, number] => [data[bounds[i]][0], data[bounds[i + 1] - 1][0]]);
+
+    const translate = createTranslator(options);
+    const formatBreakX = (x: number) => formatX(options.locale ?? DEFAULT_LOCALE, options.xType ?? 'quantitative', x);
+    const breaks = result.breaks.map((x) => origin + x * scale);
+    const locations = breaks.map((x) => translate('trendBreak.location', { x: formatBreakX(x) }));
+    const where = formatList(translate, locations);
+    const phases = result.segments.map((segment, i) =>
+        translate(i === 0 ? 'trendBreak.firstPhase' : 'trendBreak.phase', {
+            from: formatBreakX(ranges[i][0]),
+            to: formatBreakX(ranges[i][1]),
+            trend: describeTrend(translate, segment, significanceLevel, temporal)
+        })
+    );
+
+    const summary = `${translate('trendBreak.changed', { where })} ${phases.join('; ')}.`;
+
+    return {
+        summary,
+        type: 'TrendBreak',
+        category: 'trend',
+        importance: 0.8,
+        // A break is only as trustworthy as the shortest segment it creates.
+        confidence: confidenceFromSampleSize(Math.min(...result.segments.map((_, i) => bounds[i + 1] - bounds[i]))),
+        data: {
+            breaks,
+            changePoints: result.changePoints,
+            segments: result.segments.map((segment, i) => ({
+                from: ranges[i][0],
+                to: ranges[i][1],
+                m: segment.m,
+                b: segment.b,
+                pValueM: segment.pValueM
+            }))
+        },
+        annotations: [
+            ...breaks.map((x): ChartAnnotation => ({ kind: 'verticalMarker', role: 'changePoint', x })),
+            ...result.segments.map((segment, i): ChartAnnotation => ({
+                kind: 'trendLine',
+                role: 'segment',
+                points: ranges[i].map((x): [number, number] => [x, segment.m * toFitted(x) + segment.b])
+            }))
+        ]
+    };
+});
@@ -0,0 +1,126 @@
+import type { DataPoint, RegressionError } from "@facta/stats";
+import type { ChartAnnotation } from "./annotations/types";
+import type { LocalisationOptions } from "./i18n/types";
+import type { InsightFailure, InsightRegistry } from "./registry/types";
+import type { InsightCategory, InsightGroup, InsightRankingOptions } from "./ranking/types";
+
+/**
+ * A single piece of insight derived from a statistical result,
+ * ready to be shown to a user alongside a chart.
+ */
+export interface GeneratedInsight {
+    /**
+     * A human readable sentence describing the insight.
+     */
+    summary: string;
+    /**
+     * The kind of insight, e.g. `TrendDescription` or `CorrelationStrength`.
+     */
+    type: string;
+    /**
+     * The broad kind of insight, used to group insights for display.
+     */
+    category?: InsightCategory;
+    /**
+     * How much the insight matters to a reader, from 0 to 1, e.g. high for a significant trend or a strong seasonal
+     * pattern and low for a weak correlation.
+     */
+    importance?: number;
+    /**
+     * How strongly the statistics support the insight, from 0 to 1, derived from p-values and sample size.
+     */
+    confidence?: number;
+    /**
+     * The statistical values the insight was derived from.
+     */
+    data?: Record<string, unknown>;
+    /**
+     * Structured instructions for decorating a chart, such as a trend line or highlighted points, in data-space
+     * coordinates. Render them with `toVegaLiteLayers` or `toEChartsMarks`.
+     */
+    annotations?: ChartAnnotation[];
+}
+
+/**
+ * The successful output of an insight orchestrator.
+ */
+export interface InsightResultSuccess {
+    ok: true;
+    insights: GeneratedInsight[];
+    /**
+     * The generators that threw instead of producing an insight. The other insights are still generated.
+     */
+    failures?: InsightFailure[];
+    /**
+     * The insights grouped by category. Only provided when `ranking` options are set.
+     */
+    groups?: InsightGroup[];
+}
+
+/**
+ * A user-friendly error produced when insights cannot be generated.
+ */
+export interface InsightResultError {
+    ok: false;
+    /**
+     * A short description of what went wrong, suitable for display.
+     */
+    message: string;
+    /**
+     * Guidance on how the user can resolve the problem.
+     */
+    helpText: string;
+    /**
+     * The `errorType` of the underlying @facta/stats error.
+     */
+    originalErrorType: RegressionError["errorType"];
+}
+
+/**
+ * Options controlling the generation of linear regression insights. `locale` and `messages` localise the text and
+ * numbers of every built-in insight and error.
+ */
+export interface LinearInsightGenerationOptions extends LocalisationOptions {
+    /**
+     * R-squared below which a correlation is described as weak. Defaults to 0.3.
+     */
+    rSquaredThresholdWeak?: number;
+    /**
+     * R-squared at or above which a correlation is described as strong. Defaults to 0.7.
+     */
+    rSquaredThresholdStrong?: number;
+    /**
+     * The p-value below which a trend is described as statistically significant. Defaults to 0.05.
+     */
+    pValueSignificanceLevel?: number;
+    /**
+     * The absolute z-score above which a point is considered an outlier. Defaults to 3.
+     */
+    outlierZScoreThreshold?: number;
+    /**
+     * The number of points in one seasonal cycle, e.g. 7 for daily data with a weekly pattern.
+     * Detected from the data when omitted.
+     */
+    period?: number;
+    /**
+     * The data points the regression was fitted to. Insights that inspect individual points,
+     * such as outlier detection, are only generated when this is provided.
+     */
+    data?: DataPoint[];
+    /**
+     * How the insights that name x-values, such as outliers, trend breaks and seasonal peaks, write them: `temporal`
+     * writes epoch milliseconds as dates. `linearRegressionInsights` defaults to `temporal` for a result of
+     * `linearOverTime` and `quantitative` otherwise.
+     */
+    xType?: 'quantitative' | 'temporal';
+    /**
+     * The insight generators to run. Defaults to `DEFAULT_INSIGHT_REGISTRY`, the built-in insights; register,
+     * disable or reorder generators with `registerInsight` and `configureInsight`.
+     */
+    registry?: InsightRegistry;
+    /**
+     * Rank the insights by importance and confidence, leave out redundant ones, and group them by category.
+     * When omitted, every insight is returned in the order its generator ran.
+     */
+    ranking?: Partial<InsightRankingOptions>;
+}
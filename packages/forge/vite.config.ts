@@ -10,7 +10,7 @@ export default defineConfig({
       formats: ['es']
     },
     rollupOptions: {
-      external: ['@facta/fp'],
+      external: ['@facta/fp', '@facta/stats'],
     },
     sourcemap: true,
     minify: false,
@@ -19,7 +19,8 @@ export default defineConfig({
     dts({
       insertTypesEntry: true,
       exclude: [
-        '**/*.test.ts'
+        '**/*.test.ts',
+        '**/__fixtures__/**'
       ],
       rollupTypes: true
     })
@@ -0,0 +1,31 @@
+import type { ChangePointCost, ChangePointOptions, SegmentedRegressionOptions } from "./types";
+
+/**
+ * Default options for change-point detection.
+ */
+export const DEFAULT_CHANGEPOINT_OPTIONS: ChangePointOptions = {
+  precision: 2,
+  method: "pelt",
+  cost: "mean",
+  penalty: null,
+  minSegmentLength: null,
+  maxChangePoints: null,
+};
+
+/**
+ * Default options for segmented regression, which looks for changes in slope.
+ */
+export const DEFAULT_SEGMENTED_OPTIONS: SegmentedRegressionOptions = {
+  ...DEFAULT_CHANGEPOINT_OPTIONS,
+  cost: "slope",
+  breaks: null,
+  confidenceLevel: 0.95,
+};
+
+/**
+ * The number of parameters estimated for each segment by each cost.
+ */
+export const SEGMENT_PARAMETERS: Record<ChangePointCost, number> = {
+  mean: 1,
+  slope: 2,
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { detectChangePoints } from "./detect";
+import type { DataPoint } from "../regression/types";
+import { round } from "../regression/util";
+
+const wobble = [0.3, -0.2, 0.1, -0.4, 0.2, 0, -0.1, 0.4, -0.3, 0.15, -0.05];
+
+// A level shift from about 10 to about 15 at x = 20.
+const step: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, (t < 20 ? 10 : 15) + wobble[t % 11]]);
+
+// Growth of 2 per step that flattens at x = 25.
+const kink: DataPoint[] = Array.from({ length: 50 }, (_, t) => [t, (t < 25 ? 2 * t : 50 + 0.1 * (t - 25)) + wobble[t % 11]]);
+
+describe("detectChangePoints", () => {
+  it("should find a shift in the mean", () => {
+    const result = detectChangePoints({}, step);
+
+    expect(result).toMatchObject({
+      ok: true,
+      method: "pelt",
+      cost: "mean",
+      changePoints: [20],
+      locations: [20],
+    });
+    if (result.ok) {
+      expect(result.segments).toHaveLength(2);
+      expect(result.segments[0]).toMatchObject({ start: 0, end: 19 });
+      expect(result.segments[0].mean).toBeCloseTo(10, 0);
+      expect(result.segments[1]).toMatchObject({ start: 20, end: 39 });
+      expect(result.segments[1].mean).toBeCloseTo(15, 0);
+      expect(result.penalty).toBe(round(2 * Math.log(40), 2));
+    }
+  });
+
+  it("should find a change in slope", () => {
+    const result = detectChangePoints({ cost: "slope" }, kink);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.changePoints).toHaveLength(1);
+    expect(Math.abs(result.changePoints[0] - 25)).toBeLessThanOrEqual(1);
+    expect(result.segments[0].slope).toBeCloseTo(2, 1);
+    expect(result.segments[1].slope).toBeCloseTo(0.1, 0);
+  });
+
+  it("should report no change for a stable series", () => {
+    const flat: DataPoint[] = Array.from({ length: 30 }, (_, t) => [t, 5 + wobble[t % 11]]);
+    const line: DataPoint[] = Array.from({ length: 30 }, (_, t) => [t, 3 * t + 1]);
+
+    expect(detectChangePoints({}, flat)).toMatchObject({ ok: true, changePoints: [] });
+    expect(detectChangePoints({ cost: "slope" }, line)).toMatchObject({ ok: true, changePoints: [] });
+  });
+
+  it("should agree with PELT using binary segmentation", () => {
+    const twoSteps: DataPoint[] = step.concat(step.slice(0, 20).map(([x, y]) => [x + 40, y + 10]));
+    const exact = detectChangePoints({}, twoSteps);
+    const greedy = detectChangePoints({ method: "binarySegmentation" }, twoSteps);
+
+    expect(exact).toMatchObject({ ok: true, changePoints: [20, 40] });
+    expect(greedy).toMatchObject({ ok: true, method: "binarySegmentation", changePoints: [20, 40] });
+  });
+
+  it("should cap binary segmentation at maxChangePoints", () => {
+    const twoSteps: DataPoint[] = step.concat(step.slice(0, 20).map(([x, y]) => [x + 40, y + 10]));
+    const result = detectChangePoints({ method: "binarySegmentation", maxChangePoints: 1 }, twoSteps);
+
+    // The largest single improvement separates the highest level from the rest.
+    expect(result).toMatchObject({ ok: true, changePoints: [40] });
+  });
+
+  it("should find fewer changes with a larger penalty", () => {
+    expect(detectChangePoints({ penalty: 1e6 }, step)).toMatchObject({ ok: true, changePoints: [] });
+  });
+
+  it("should respect the minimum segment length", () => {
+    const spike: DataPoint[] = Array.from({ length: 20 }, (_, t) => [t, t === 10 ? 50 : 1 + wobble[t % 11]]);
+    const result = detectChangePoints({ minSegmentLength: 5 }, spike);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    result.segments.forEach((segment) => expect(segment.end - segment.start + 1).toBeGreaterThanOrEqual(5));
+  });
+
+  it("should return errors for unsorted, invalid or insufficient data and invalid options", () => {
+    expect(detectChangePoints({}, [[2, 1], [1, 2], [3, 3]])).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(detectChangePoints({}, [[1, 1], [2, NaN]])).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(detectChangePoints({ cost: "slope" }, [[1, 1], [2, 2]])).toMatchObject({
+      ok: false,
+      errorType: "InsufficientData",
+    });
+    expect(detectChangePoints({ penalty: -1 }, step)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(detectChangePoints({ cost: "slope", minSegmentLength: 1 }, step)).toMatchObject({
+      ok: false,
+      errorType: "InvalidInput",
+    });
+  });
+});
+
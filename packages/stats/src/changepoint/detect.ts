@@ -0,0 +1,192 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_CHANGEPOINT_OPTIONS, SEGMENT_PARAMETERS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type { ChangePointOptions, ChangePointResult } from "./types";
+import { noiseVariance, segmentCost, segmentSummary, validate } from "./util";
+import { round } from "../regression/util";
+
+/**
+ * The smallest noise variance, relative to the variance of y, used to scale costs, so that noise-free data does not
+ * make every split infinitely worthwhile.
+ */
+const MIN_RELATIVE_VARIANCE = 1e-12;
+
+/**
+ * Find the optimal segmentation with PELT: `best[t]` is the lowest penalised cost of the first t points, and
+ * candidates for the last change that can never become optimal are pruned as the search proceeds.
+ */
+const pelt = (n: number, cost: (start: number, end: number) => number, penalty: number, minLength: number): number[] => {
+  const best: number[] = [-penalty];
+  const previous: number[] = [0];
+  let candidates: number[] = [];
+
+  for (let t = minLength; t <= n; t++) {
+    const admissible = t - minLength;
+    if (admissible === 0 || admissible >= minLength) {
+      candidates.push(admissible);
+    }
+    let value = Infinity;
+    let last = 0;
+    for (const s of candidates) {
+      const total = best[s] + cost(s, t) + penalty;
+      if (total < value) {
+        value = total;
+        last = s;
+      }
+    }
+    best[t] = value;
+    previous[t] = last;
+    candidates = candidates.filter((s) => best[s] + cost(s, t) <= value);
+  }
+
+  const changes: number[] = [];
+  for (let t = previous[n]; t > 0; t = previous[t]) {
+    changes.unshift(t);
+  }
+  return changes;
+};
+
+/**
+ * Split segments greedily: at each step, make the single split that most reduces the total cost, while the reduction
+ * exceeds the penalty and fewer than `limit` changes have been made.
+ */
+const binarySegmentation = (
+  n: number,
+  cost: (start: number, end: number) => number,
+  penalty: number,
+  minLength: number,
+  limit: number
+): number[] => {
+  const changes: number[] = [];
+  const bestSplit = (start: number, end: number): { at: number; gain: number } => {
+    let at = -1;
+    let gain = -Infinity;
+    const whole = cost(start, end);
+    for (let s = start + minLength; s <= end - minLength; s++) {
+      const reduction = whole - cost(start, s) - cost(s, end);
+      if (reduction > gain) {
+        gain = reduction;
+        at = s;
+      }
+    }
+    return { at, gain };
+  };
+
+  while (changes.length < limit) {
+    const bounds = [0, ...changes, n];
+    let chosen = { at: -1, gain: -Infinity };
+    for (let i = 0; i + 1 < bounds.length; i++) {
+      const split = bestSplit(bounds[i], bounds[i + 1]);
+      if (split.gain > chosen.gain) {
+        chosen = split;
+      }
+    }
+    if (chosen.at === -1 || chosen.gain <= penalty) {
+      break;
+    }
+    changes.push(chosen.at);
+    changes.sort((a, b) => a - b);
+  }
+  return changes;
+};
+
+/**
+ * Detects change points in a series: the places where its level (`mean` cost) or its trend (`slope` cost) shifts.
+ * The series is split into segments that minimise the total squared error plus a penalty for each change, where
+ * errors are measured relative to a robust estimate of the noise variance from successive differences.
+ *
+ * @param {Partial<ChangePointOptions>} [suppliedOptions] - Optional options to override defaults, such as `method`,
+ * `cost`, `penalty`, `minSegmentLength`, `maxChangePoints` and `precision`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`, in ascending order of x.
+ * Expects at least `minSegmentLength` points.
+ * @returns {ChangePointResult} A discriminant union representing the success or failure of the detection.
+ * - If successful (`ok: true`), it returns the `changePoints` (index of the first point after each change), their x
+ * `locations`, and the `mean` and `slope` of each segment.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput" for unsorted x-values) and a `message`.
+ *
+ * @example
+ * // Sign-ups stepped up after a launch on day 20
+ * const result = detectChangePoints({}, dailySignups);
+ * // result.locations is [20]; result.segments shows the mean before and after
+ *
+ * @example
+ * // Growth that flattened after a release
+ * const result = detectChangePoints({ cost: "slope" }, weeklyUsers);
+ *
+ * @description
+ * **Insights derived from Change-Point Detection:**
+ * - **Regime Changes:** Pinpoints when a metric moved to a new level or a new trend, e.g. after a release or an incident.
+ * - **Honest Trends:** Fitting one line across a change point blends two different behaviours; segmenting first keeps
+ * each trend meaningful.
+ * - **Caution:** A lower `penalty` finds more, smaller changes, some of which may be noise.
+ */
+export const detectChangePoints = curry((
+  suppliedOptions: Partial<ChangePointOptions>,
+  data: DataPoint[]
+): ChangePointResult => {
+  const options: ChangePointOptions = {
+    ...DEFAULT_CHANGEPOINT_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const parameters = SEGMENT_PARAMETERS[options.cost];
+  const minLength = options.minSegmentLength ?? parameters + 1;
+  if (!(Number.isInteger(minLength) && minLength >= parameters)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The minimum segment length for the ${options.cost} cost must be an integer of at least ${parameters}. Received ${options.minSegmentLength}.`,
+    };
+  }
+
+  if (options.penalty !== null && !(options.penalty >= 0 && Number.isFinite(options.penalty))) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The penalty must be a non-negative number. Received ${options.penalty}.`,
+    };
+  }
+
+  const limit = options.maxChangePoints ?? Infinity;
+  if (!(limit >= 0) || (Number.isFinite(limit) && !Number.isInteger(limit))) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The maximum number of change points must be a non-negative integer. Received ${options.maxChangePoints}.`,
+    };
+  }
+
+  const error = validate(data, "Change-point detection", minLength);
+  if (error !== null) {
+    return error;
+  }
+
+  const n = data.length;
+  const ys = data.map((point) => point[1]);
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  const varianceY = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0) / n;
+  const variance = Math.max(noiseVariance(ys), MIN_RELATIVE_VARIANCE * varianceY, Number.MIN_VALUE);
+  const rawCost = segmentCost(data, options.cost);
+  const cost = (start: number, end: number): number => rawCost(start, end) / variance;
+  const penalty = options.penalty ?? (parameters + 1) * Math.log(n);
+
+  const changePoints =
+    options.method === "pelt"
+      ? pelt(n, cost, penalty, minLength)
+      : binarySegmentation(n, cost, penalty, minLength, limit);
+
+  const bounds = [0, ...changePoints, n];
+  return {
+    ok: true,
+    method: options.method,
+    cost: options.cost,
+    changePoints,
+    locations: changePoints.map((index) => round(data[index][0], options.precision)),
+    segments: bounds.slice(0, -1).map((start, i) => {
+      const end = bounds[i + 1] - 1;
+      const { mean, slope } = segmentSummary(data, start, end);
+      return { start, end, mean: round(mean, options.precision), slope: round(slope, options.precision) };
+    }),
+    penalty: round(penalty, options.precision),
+  };
+});
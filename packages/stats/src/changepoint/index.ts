@@ -0,0 +1,3 @@
+export * from "./detect";
+export * from "./segmented";
+export * from "./types";
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { segmentedRegression } from "./segmented";
+import type { DataPoint } from "../regression/types";
+
+const wobble = [0.3, -0.2, 0.1, -0.4, 0.2, 0, -0.1, 0.4, -0.3, 0.15, -0.05];
+
+// Growth of 2 per step that flattens at x = 25.
+const kink: DataPoint[] = Array.from({ length: 50 }, (_, t) => [t, (t < 25 ? 2 * t : 50 + 0.1 * (t - 25)) + wobble[t % 11]]);
+
+describe("segmentedRegression", () => {
+  it("should fit a separate line on each side of a detected break", () => {
+    const result = segmentedRegression({}, kink);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.method).toBe("segmented");
+    expect(result.segments).toHaveLength(2);
+    const [before, after] = result.segments;
+    expect(before.method).toBe("linear");
+    expect(before.m).toBeCloseTo(2, 1);
+    expect(after.m).toBeCloseTo(0.1, 0);
+    expect(before.pValueM).toBeLessThan(0.001);
+    expect(before.points.length + after.points.length).toBe(50);
+    expect(result.breaks).toEqual([kink[result.changePoints[0]][0]]);
+  });
+
+  it("should split at supplied breaks", () => {
+    const result = segmentedRegression({ breaks: [24.5, 40] }, kink);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.changePoints).toEqual([25, 40]);
+    expect(result.breaks).toEqual([25, 40]);
+    expect(result.segments.map((segment) => segment.points.length)).toEqual([25, 15, 10]);
+  });
+
+  it("should ignore breaks outside the data", () => {
+    const result = segmentedRegression({ breaks: [-5, 100] }, kink);
+
+    expect(result).toMatchObject({ ok: true, changePoints: [], breaks: [] });
+  });
+
+  it("should return a single segment when the trend does not change", () => {
+    const line: DataPoint[] = Array.from({ length: 20 }, (_, t) => [t, 3 * t + wobble[t % 11]]);
+    const result = segmentedRegression({}, line);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0].m).toBeCloseTo(3, 1);
+  });
+
+  it("should report which segment could not be fitted", () => {
+    const result = segmentedRegression({ breaks: [2] }, [[1, 1], [2, 2], [3, 3], [4, 4]]);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errorType).toBe("InsufficientData");
+      expect(result.message).toMatch(/^Segment 1 \(x = 1 to 1\)/);
+    }
+  });
+
+  it("should return errors for unsorted data and invalid breaks", () => {
+    expect(segmentedRegression({ breaks: [2] }, [[3, 1], [1, 2], [2, 3]])).toMatchObject({
+      ok: false,
+      errorType: "InvalidInput",
+    });
+    expect(segmentedRegression({ breaks: [NaN] }, kink)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+  });
+});
@@ -0,0 +1,95 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_SEGMENTED_OPTIONS } from "./const";
+import type { DataPoint, RegressionSuccess } from "../regression/types";
+import type { SegmentedRegressionOptions, SegmentedRegressionResult } from "./types";
+import { detectChangePoints } from "./detect";
+import { validate } from "./util";
+import { linear } from "../regression/linear";
+import { round } from "../regression/util";
+
+/**
+ * Performs segmented (piecewise) linear regression: the series is split at change points in its trend and a separate
+ * line is fitted to each segment with `linear`. The breaks are detected with the `slope` cost unless `breaks` supplies
+ * known x-values, such as release dates.
+ *
+ * @param {Partial<SegmentedRegressionOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `breaks`, `method`, `penalty`, `minSegmentLength`, `confidenceLevel` and `precision`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`, in ascending order of x.
+ * Expects every segment to contain at least two distinct x-values.
+ * @returns {SegmentedRegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), it returns the `changePoints`, the x-values of the `breaks` and one `RegressionSuccess`
+ * per segment, each with its own gradient, R-squared, p-values and bands.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", or the error of a segment's fit)
+ * and a `message`.
+ *
+ * @example
+ * // Growth before and after a release at x = 30
+ * const result = segmentedRegression({ breaks: [30] }, weeklyUsers);
+ * if (result.ok) {
+ * const [before, after] = result.segments;
+ * console.log(`Growth changed from ${before.m} to ${after.m} per week`);
+ * }
+ *
+ * @description
+ * **Insights derived from Segmented Regression:**
+ * - **Trend Breaks:** Compares the gradient before and after each break, e.g. growth that stalled after a release.
+ * - **Per-Segment Significance:** Each segment has its own p-value, so a flattened trend can be shown to be flat.
+ * - **Caution:** Segments are fitted independently, so the lines need not meet at the breaks.
+ */
+export const segmentedRegression = curry((
+  suppliedOptions: Partial<SegmentedRegressionOptions>,
+  data: DataPoint[]
+): SegmentedRegressionResult => {
+  const options: SegmentedRegressionOptions = {
+    ...DEFAULT_SEGMENTED_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  let changePoints: number[];
+  if (options.breaks === null) {
+    const detected = detectChangePoints(options, data);
+    if (!detected.ok) {
+      return detected;
+    }
+    changePoints = detected.changePoints;
+  } else {
+    const error = validate(data, "Segmented regression", 2);
+    if (error !== null) {
+      return error;
+    }
+    if (!options.breaks.every(Number.isFinite)) {
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: "Segmented regression breaks must be finite x-values.",
+      };
+    }
+    changePoints = [...new Set(options.breaks.map((x) => data.findIndex((point) => point[0] >= x)))]
+      .filter((index) => index > 0)
+      .sort((a, b) => a - b);
+  }
+
+  const bounds = [0, ...changePoints, data.length];
+  const segments: RegressionSuccess[] = [];
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    const fit = linear(
+      { precision: options.precision, confidenceLevel: options.confidenceLevel },
+      data.slice(bounds[i], bounds[i + 1])
+    );
+    if (!fit.ok) {
+      return {
+        ...fit,
+        message: `Segment ${i + 1} (x = ${data[bounds[i]][0]} to ${data[bounds[i + 1] - 1][0]}): ${fit.message}`,
+      };
+    }
+    segments.push(fit);
+  }
+
+  return {
+    ok: true,
+    method: "segmented",
+    changePoints,
+    breaks: changePoints.map((index) => round(data[index][0], options.precision)),
+    segments,
+  };
+});
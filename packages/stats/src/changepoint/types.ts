@@ -0,0 +1,150 @@
+import type { RegressionError, RegressionSuccess } from "../regression/types";
+
+/**
+ * The search methods for change points.
+ * - `pelt`: Pruned Exact Linear Time (Killick et al., 2012), which finds the optimal segmentation.
+ * - `binarySegmentation`: Repeatedly splits the segment where a split most reduces the cost. Faster to reason about
+ * and can be capped at `maxChangePoints`, but may miss changes that are close together.
+ */
+export type ChangePointMethod = "pelt" | "binarySegmentation";
+
+/**
+ * What changes between segments.
+ * - `mean`: Each segment has its own constant level.
+ * - `slope`: Each segment has its own straight line, so both the level and the trend can change.
+ */
+export type ChangePointCost = "mean" | "slope";
+
+/**
+ * A segment between consecutive change points.
+ */
+export interface ChangePointSegment {
+  /**
+   * The index of the first point in the segment.
+   */
+  start: number;
+  /**
+   * The index of the last point in the segment.
+   */
+  end: number;
+  /**
+   * The mean of the y-values in the segment.
+   */
+  mean: number;
+  /**
+   * The least-squares slope of y against x within the segment.
+   */
+  slope: number;
+}
+
+/**
+ * The successful output of change-point detection.
+ */
+export interface ChangePointSuccess {
+  ok: true;
+  method: ChangePointMethod;
+  cost: ChangePointCost;
+  /**
+   * The index of the first point after each change, in ascending order. Empty when nothing changes.
+   */
+  changePoints: number[];
+  /**
+   * The x-value of the first point after each change.
+   */
+  locations: number[];
+  /**
+   * The segments between changes, in order.
+   */
+  segments: ChangePointSegment[];
+  /**
+   * The penalty that was applied for each additional change point.
+   */
+  penalty: number;
+}
+
+/**
+ * Interface for an unsuccessful change-point detection, with the same shape as `RegressionError`.
+ */
+export interface ChangePointError {
+  ok: false;
+  /**
+   * The type of error that occurred.
+   * - `InsufficientData`: Fewer points than the minimum segment length.
+   * - `InvalidInput`: A value is not finite, the x-values are not in ascending order, or an option is out of range.
+   */
+  errorType: "InsufficientData" | "InvalidInput";
+  /**
+   * A message describing the error.
+   */
+  message: string;
+}
+
+/**
+ * Discriminant union type for the result of change-point detection.
+ */
+export type ChangePointResult = ChangePointSuccess | ChangePointError;
+
+/**
+ * Options for change-point detection and segmented regression.
+ */
+export interface ChangePointOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  method: ChangePointMethod;
+  cost: ChangePointCost;
+  /**
+   * The penalty for each additional change point, in units of the noise variance, or `null` for the BIC penalty
+   * `(parameters per segment + 1)·ln(n)`. Larger values find fewer changes.
+   */
+  penalty: number | null;
+  /**
+   * The fewest points in a segment, or `null` for 2 with the `mean` cost and 3 with the `slope` cost.
+   */
+  minSegmentLength: number | null;
+  /**
+   * The most change points `binarySegmentation` will report, or `null` for no limit.
+   */
+  maxChangePoints: number | null;
+}
+
+/**
+ * Options for segmented regression.
+ */
+export interface SegmentedRegressionOptions extends ChangePointOptions {
+  /**
+   * The x-values at which new segments start, or `null` to detect them with the `slope` cost. A segment starts at the
+   * first point whose x-value is at or after each break.
+   */
+  breaks: number[] | null;
+  /**
+   * The confidence level for the confidence intervals of each segment's fit.
+   */
+  confidenceLevel: number;
+}
+
+/**
+ * The successful output of segmented regression.
+ */
+export interface SegmentedRegressionSuccess {
+  ok: true;
+  method: "segmented";
+  /**
+   * The index of the first point of each segment after the first.
+   */
+  changePoints: number[];
+  /**
+   * The x-value of the first point of each segment after the first.
+   */
+  breaks: number[];
+  /**
+   * The independent linear fit of each segment, in order.
+   */
+  segments: RegressionSuccess[];
+}
+
+/**
+ * Discriminant union type for the result of segmented regression.
+ */
+export type SegmentedRegressionResult = SegmentedRegressionSuccess | ChangePointError | RegressionError;
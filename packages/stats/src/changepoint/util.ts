@@ -0,0 +1,125 @@
+import type { DataPoint } from "../regression/types";
+import type { ChangePointCost, ChangePointError } from "./types";
+import { isValid } from "../regression/util";
+
+/**
+ * The consistency constant that turns a median absolute deviation into a standard deviation for normal data.
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * Check that every point is finite and the x-values are in ascending order.
+ *
+ * @param {DataPoint[]} data - The series.
+ * @param {string} name - The name of the method, used in messages.
+ * @param {number} minimum - The minimum number of points the method requires.
+ * @returns {ChangePointError | null} - The error to return, or null if the data is valid.
+ */
+export function validate(data: DataPoint[], name: string, minimum: number): ChangePointError | null {
+  if (data.length < minimum) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `${name} requires at least ${minimum} data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = data.findIndex(([x, y]) => !isValid(x) || !isValid(y));
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). ${name} requires finite numerical inputs.`,
+    };
+  }
+
+  const unsortedIndex = data.findIndex((point, i) => i > 0 && point[0] < data[i - 1][0]);
+  if (unsortedIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `${name} requires data points in ascending order of x, but the point at index ${unsortedIndex} comes before the one preceding it. Sort the data by x first.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Estimate the noise variance robustly from the median absolute deviation of successive differences, which is not
+ * inflated by changes in level or slope. Falls back to the variance of the differences when most differences are equal.
+ *
+ * @param {number[]} ys - The y-values, in order.
+ * @returns {number} - The estimated variance of the noise, or 0 when the differences are all equal.
+ */
+export function noiseVariance(ys: number[]): number {
+  const differences = ys.slice(1).map((y, i) => y - ys[i]);
+  const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  };
+  const centre = median(differences);
+  const mad = median(differences.map((difference) => Math.abs(difference - centre)));
+  // A difference of two independent errors has twice their variance.
+  if (mad > 0) {
+    return (MAD_SCALE * mad) ** 2 / 2;
+  }
+  const mean = differences.reduce((sum, difference) => sum + difference, 0) / differences.length;
+  return differences.reduce((sum, difference) => sum + (difference - mean) ** 2, 0) / differences.length / 2;
+}
+
+/**
+ * Build a function returning the residual sum of squares of the points in `[start, end)` around their mean or their
+ * least-squares line, in O(1) time from prefix sums. Values are centred first to limit cancellation.
+ *
+ * @param {DataPoint[]} data - The series.
+ * @param {ChangePointCost} cost - Whether segments have their own mean or their own line.
+ * @returns {(start: number, end: number) => number} - The segment cost.
+ */
+export function segmentCost(data: DataPoint[], cost: ChangePointCost): (start: number, end: number) => number {
+  const n = data.length;
+  const meanX = data.reduce((sum, point) => sum + point[0], 0) / n;
+  const meanY = data.reduce((sum, point) => sum + point[1], 0) / n;
+  const sums = { x: [0], y: [0], xx: [0], xy: [0], yy: [0] };
+  data.forEach(([rawX, rawY], i) => {
+    const x = rawX - meanX;
+    const y = rawY - meanY;
+    sums.x.push(sums.x[i] + x);
+    sums.y.push(sums.y[i] + y);
+    sums.xx.push(sums.xx[i] + x * x);
+    sums.xy.push(sums.xy[i] + x * y);
+    sums.yy.push(sums.yy[i] + y * y);
+  });
+
+  return (start, end) => {
+    const count = end - start;
+    const sy = sums.y[end] - sums.y[start];
+    const syy = sums.yy[end] - sums.yy[start] - (sy * sy) / count;
+    if (cost === "mean") {
+      return Math.max(0, syy);
+    }
+    const sx = sums.x[end] - sums.x[start];
+    const sxx = sums.xx[end] - sums.xx[start] - (sx * sx) / count;
+    const sxy = sums.xy[end] - sums.xy[start] - (sx * sy) / count;
+    return Math.max(0, sxx > 0 ? syy - (sxy * sxy) / sxx : syy);
+  };
+}
+
+/**
+ * The mean and least-squares slope of the points in `[start, end]`.
+ *
+ * @param {DataPoint[]} data - The series.
+ * @param {number} start - The index of the first point.
+ * @param {number} end - The index of the last point.
+ * @returns {{ mean: number; slope: number }} - The mean of y and the slope of y against x (NaN if x is constant).
+ */
+export function segmentSummary(data: DataPoint[], start: number, end: number): { mean: number; slope: number } {
+  const points = data.slice(start, end + 1);
+  const meanX = points.reduce((sum, point) => sum + point[0], 0) / points.length;
+  const mean = points.reduce((sum, point) => sum + point[1], 0) / points.length;
+  const sxx = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, [x, y]) => sum + (x - meanX) * (y - mean), 0);
+  return { mean, slope: sxx > 0 ? sxy / sxx : NaN };
+}
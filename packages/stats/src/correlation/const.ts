@@ -0,0 +1,17 @@
+import type { CorrelationMatrixOptions, CorrelationOptions } from "./types";
+
+/**
+ * Default options for correlation coefficients.
+ */
+export const DEFAULT_CORRELATION_OPTIONS: CorrelationOptions = {
+  precision: 2,
+  confidenceLevel: 0.95,
+};
+
+/**
+ * Default options for correlation matrices.
+ */
+export const DEFAULT_CORRELATION_MATRIX_OPTIONS: CorrelationMatrixOptions = {
+  ...DEFAULT_CORRELATION_OPTIONS,
+  method: "pearson",
+};
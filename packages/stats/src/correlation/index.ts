@@ -0,0 +1,5 @@
+export * from "./pearson";
+export * from "./spearman";
+export * from "./kendall";
+export * from "./matrix";
+export * from "./types";
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { kendall } from "./kendall";
+import type { DataPoint } from "../regression/types";
+
+// Hollander & Wolfe (1973), p. 187, as used in the examples for R's cor.test.
+const x = [44.4, 45.9, 41.9, 53.3, 44.7, 44.1, 50.7, 45.2, 60.1];
+const y = [2.6, 3.1, 2.5, 5.0, 3.6, 4.0, 5.2, 2.8, 3.8];
+const data = x.map((value, i): DataPoint => [value, y[i]]);
+
+describe("kendall", () => {
+  it("should match R's cor.test coefficient", () => {
+    const result = kendall({ precision: 6 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+
+    expect(result.method).toBe("kendall");
+    expect(result.coefficient).toBeCloseTo(0.444444, 6);
+    // Normal approximation: S = 16, Var(S) = 92, z ≈ 1.668
+    expect(result.pValue).toBeCloseTo(0.095293, 5);
+    expect(result.ci![0]).toBeCloseTo(-0.101329, 5);
+    expect(result.ci![1]).toBeCloseTo(0.784586, 5);
+  });
+
+  it("should count concordant and discordant pairs", () => {
+    const result = kendall({}, [
+      [1, 1],
+      [2, 3],
+      [3, 2],
+      [4, 4],
+      [5, 5],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+    expect(result.coefficient).toBe(0.8);
+  });
+
+  it("should adjust for ties with τ-b", () => {
+    // S = 4 over 6 pairs, with one tied pair in each variable: τ-b = 4 / √(5·5)
+    const result = kendall({ precision: 6 }, [
+      [1, 1],
+      [2, 2],
+      [2, 3],
+      [3, 3],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+    expect(result.coefficient).toBe(0.8);
+    expect(result.pValue).toBeCloseTo(0.125971, 5);
+    expect(result.ci).toBeUndefined();
+  });
+
+  it("should reach -1 for a perfectly decreasing relationship", () => {
+    const result = kendall({}, [
+      [1, 9],
+      [2, 7],
+      [3, 4],
+      [4, 0],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+    expect(result.coefficient).toBe(-1);
+  });
+
+  it("should return an error for a constant series", () => {
+    const result = kendall({}, [
+      [1, 5],
+      [2, 5],
+      [3, 5],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+
+  it("should return an error for fewer than three points", () => {
+    const result = kendall({}, []);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+});
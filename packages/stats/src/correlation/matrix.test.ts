@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { correlationMatrix } from "./matrix";
+import { pearson } from "./pearson";
+import type { DataPoint } from "../regression/types";
+
+const series = {
+  visits: [120, 150, 170, 160, 210, 190],
+  signups: [12, 14, 18, 15, 25, 20],
+  churn: [5, 4, 4, 5, 2, 3],
+};
+
+describe("correlationMatrix", () => {
+  it("should build a symmetric matrix with a unit diagonal", () => {
+    const result = correlationMatrix({}, series);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+
+    expect(result.method).toBe("pearson");
+    expect(result.names).toEqual(["visits", "signups", "churn"]);
+    for (let i = 0; i < 3; i++) {
+      expect(result.coefficients[i][i]).toBe(1);
+      expect(result.pValues[i][i]).toBe(0);
+      for (let j = 0; j < 3; j++) {
+        expect(result.coefficients[i][j]).toBe(result.coefficients[j][i]);
+        expect(result.pValues[i][j]).toBe(result.pValues[j][i]);
+      }
+    }
+  });
+
+  it("should match the pairwise coefficients", () => {
+    const result = correlationMatrix({}, series);
+    const pair = pearson({}, series.visits.map((x, i): DataPoint => [x, series.churn[i]]));
+
+    if (!result.ok || !pair.ok) {
+      throw new Error("Expected successful correlation results");
+    }
+    expect(result.coefficients[0][2]).toBe(pair.coefficient);
+    expect(result.pValues[0][2]).toBe(pair.pValue);
+  });
+
+  it("should use the selected method", () => {
+    const result = correlationMatrix({ method: "spearman" }, series);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+    expect(result.method).toBe("spearman");
+    expect(result.coefficients[0][1]).toBeGreaterThan(0.9);
+    expect(result.coefficients[0][2]).toBeLessThan(0);
+  });
+
+  it("should return an error for fewer than two series", () => {
+    const result = correlationMatrix({}, { visits: series.visits });
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error for series of different lengths", () => {
+    const result = correlationMatrix({}, { a: [1, 2, 3], b: [1, 2] });
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain('"b"');
+  });
+
+  it("should name the pair when a series is constant", () => {
+    const result = correlationMatrix({}, { a: [1, 2, 3, 4], flat: [2, 2, 2, 2] });
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+    expect(result.message).toContain('Correlating "a" with "flat" failed');
+  });
+});
@@ -0,0 +1,99 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_CORRELATION_MATRIX_OPTIONS } from "./const";
+import type { CorrelationMatrixOptions, CorrelationMatrixResult, CorrelationOptions, CorrelationResult } from "./types";
+import type { DataPoint } from "../regression/types";
+import { pearson } from "./pearson";
+import { spearman } from "./spearman";
+import { kendall } from "./kendall";
+
+const COEFFICIENTS: Record<
+  CorrelationMatrixOptions["method"],
+  (options: Partial<CorrelationOptions>, data: DataPoint[]) => CorrelationResult
+> = {
+  pearson,
+  spearman,
+  kendall,
+};
+
+/**
+ * Computes the correlation between every pair of several named series, as a symmetric matrix of coefficients
+ * and p-values. Useful for spotting which metrics move together.
+ *
+ * @param {Partial<CorrelationMatrixOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `method` (defaults to `"pearson"`) and `precision`.
+ * @param {Record<string, number[]>} series - Two or more named series of equal length, aligned by index.
+ * @returns {CorrelationMatrixResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `coefficients[i][j]` and `pValues[i][j]` describe the correlation between
+ * `names[i]` and `names[j]`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "DegenerateInput") and a `message`
+ * naming the series responsible.
+ *
+ * @example
+ * const result = correlationMatrix({ method: "spearman" }, {
+ * visits: [120, 150, 170, 160, 210],
+ * signups: [12, 14, 18, 15, 25],
+ * churn: [5, 4, 4, 5, 2],
+ * });
+ * if (result.ok) {
+ * console.log(result.coefficients[0][1]); // visits vs signups
+ * }
+ *
+ * @description
+ * **Insights derived from a Correlation Matrix:**
+ * - **Related Metrics:** Highlights metrics that move together or in opposition across a dashboard.
+ * - **Caution:** With many series some pairs will look significant by chance; treat small p-values as leads, not proof.
+ */
+export const correlationMatrix = curry((
+  suppliedOptions: Partial<CorrelationMatrixOptions>,
+  series: Record<string, number[]>
+): CorrelationMatrixResult => {
+  const options: CorrelationMatrixOptions = { ...DEFAULT_CORRELATION_MATRIX_OPTIONS, ...suppliedOptions };
+  const names = Object.keys(series);
+
+  if (names.length < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `A correlation matrix requires at least 2 series. Received ${names.length}.`,
+    };
+  }
+
+  const length = series[names[0]].length;
+  const mismatched = names.find((name) => series[name].length !== length);
+  if (mismatched !== undefined) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Series "${mismatched}" has ${series[mismatched].length} values but "${names[0]}" has ${length}. All series must be the same length.`,
+    };
+  }
+
+  const coefficient = COEFFICIENTS[options.method];
+  const coefficients = names.map((_, i) => names.map((_, j) => (i === j ? 1 : NaN)));
+  const pValues = names.map((_, i) => names.map((_, j) => (i === j ? 0 : NaN)));
+
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const result = coefficient(
+        options,
+        series[names[i]].map((x, k): DataPoint => [x, series[names[j]][k]])
+      );
+      if (!result.ok) {
+        return {
+          ...result,
+          message: `Correlating "${names[i]}" with "${names[j]}" failed. ${result.message}`,
+        };
+      }
+      coefficients[i][j] = coefficients[j][i] = result.coefficient;
+      pValues[i][j] = pValues[j][i] = result.pValue;
+    }
+  }
+
+  return {
+    ok: true,
+    method: options.method,
+    names,
+    coefficients,
+    pValues,
+  };
+});
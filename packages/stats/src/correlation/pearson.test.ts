@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { pearson } from "./pearson";
+import type { DataPoint } from "../regression/types";
+
+// Hollander & Wolfe (1973), p. 187, as used in the examples for R's cor.test.
+const x = [44.4, 45.9, 41.9, 53.3, 44.7, 44.1, 50.7, 45.2, 60.1];
+const y = [2.6, 3.1, 2.5, 5.0, 3.6, 4.0, 5.2, 2.8, 3.8];
+const data = x.map((value, i): DataPoint => [value, y[i]]);
+
+describe("pearson", () => {
+  it("should match R's cor.test", () => {
+    const result = pearson({ precision: 6 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+
+    expect(result.method).toBe("pearson");
+    expect(result.n).toBe(9);
+    expect(result.coefficient).toBeCloseTo(0.571182, 6);
+    expect(result.pValue).toBeCloseTo(0.1082, 4);
+    expect(result.ci![0]).toBeCloseTo(-0.149743, 5);
+    expect(result.ci![1]).toBeCloseTo(0.895580, 5);
+  });
+
+  it("should report the direction of a negative relationship", () => {
+    const result = pearson({}, [
+      [1, 10],
+      [2, 8],
+      [3, 6.5],
+      [4, 3],
+      [5, 1],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+    expect(result.coefficient).toBeLessThan(-0.95);
+    expect(result.pValue).toBeLessThan(0.01);
+  });
+
+  it("should handle a perfect correlation", () => {
+    const result = pearson({}, [
+      [1, 2],
+      [2, 4],
+      [3, 6],
+      [4, 8],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+    expect(result.coefficient).toBe(1);
+    expect(result.pValue).toBe(0);
+    expect(result.ci).toEqual([1, 1]);
+  });
+
+  it("should omit the confidence interval for three points", () => {
+    const result = pearson({}, [
+      [1, 2],
+      [2, 3],
+      [3, 5],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+    expect(result.ci).toBeUndefined();
+  });
+
+  it("should return an error for a constant series", () => {
+    const result = pearson({}, [
+      [1, 5],
+      [2, 5],
+      [3, 5],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+
+  it("should return an error for fewer than three points", () => {
+    const result = pearson({}, [
+      [1, 2],
+      [2, 3],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error for invalid values or confidence levels", () => {
+    const invalidValue = pearson({}, [
+      [1, 2],
+      [2, NaN],
+      [3, 4],
+    ]);
+    const invalidLevel = pearson({ confidenceLevel: 0 }, data);
+
+    for (const result of [invalidValue, invalidLevel]) {
+      if (result.ok) {
+        throw new Error("Expected result to be unsuccessful");
+      }
+      expect(result.errorType).toBe("InvalidInput");
+    }
+  });
+});
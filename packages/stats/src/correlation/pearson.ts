@@ -0,0 +1,64 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_CORRELATION_OPTIONS } from "./const";
+import type { CorrelationOptions, CorrelationResult } from "./types";
+import type { DataPoint } from "../regression/types";
+import { validatePairs, constantSeriesError, pearsonCoefficient, correlationPValue, fisherInterval } from "./util";
+import { round } from "../regression/util";
+
+/**
+ * Computes Pearson's correlation coefficient r, the strength and direction of the linear relationship between x and y.
+ *
+ * @param {Partial<CorrelationOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `confidenceLevel`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least three data points, with variation in both x and y.
+ * @returns {CorrelationResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), it returns the `coefficient`, a two-sided `pValue` from the t-test with `n - 2`
+ * degrees of freedom, and a Fisher z confidence interval `ci` (with at least four points).
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * const data = [[1, 2], [2, 4.1], [3, 5.9], [4, 8.2], [5, 9.8]];
+ * const result = pearson({}, data);
+ * if (result.ok) {
+ * console.log(`r = ${result.coefficient} (p = ${result.pValue}), 95% CI ${result.ci}`);
+ * }
+ *
+ * @description
+ * **Insights derived from Pearson Correlation:**
+ * - **Direction:** The sign shows whether y rises or falls as x rises, which R² alone cannot.
+ * - **Strength:** |r| near 1 indicates a tight linear relationship; r² is the proportion of variance explained.
+ * - **Caution:** Measures only linear association and is sensitive to outliers; prefer `spearman` or `kendall`
+ * for monotonic but curved relationships.
+ */
+export const pearson = curry((
+  suppliedOptions: Partial<CorrelationOptions>,
+  data: DataPoint[]
+): CorrelationResult => {
+  const options: CorrelationOptions = { ...DEFAULT_CORRELATION_OPTIONS, ...suppliedOptions };
+
+  const error = validatePairs(data, "Pearson", 3, options.confidenceLevel);
+  if (error) {
+    return error;
+  }
+
+  const n = data.length;
+  const r = pearsonCoefficient(
+    data.map((point) => point[0]),
+    data.map((point) => point[1])
+  );
+  if (r === null) {
+    return constantSeriesError("Pearson");
+  }
+
+  const ci = n > 3 ? fisherInterval(r, 1 / Math.sqrt(n - 3), options.confidenceLevel) : undefined;
+
+  return {
+    ok: true,
+    method: "pearson",
+    coefficient: round(r, options.precision),
+    pValue: correlationPValue(r, n),
+    ...(ci && { ci: [round(ci[0], options.precision), round(ci[1], options.precision)] }),
+    n,
+  };
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { spearman } from "./spearman";
+import { pearson } from "./pearson";
+import type { DataPoint } from "../regression/types";
+
+// Hollander & Wolfe (1973), p. 187, as used in the examples for R's cor.test.
+const x = [44.4, 45.9, 41.9, 53.3, 44.7, 44.1, 50.7, 45.2, 60.1];
+const y = [2.6, 3.1, 2.5, 5.0, 3.6, 4.0, 5.2, 2.8, 3.8];
+const data = x.map((value, i): DataPoint => [value, y[i]]);
+
+describe("spearman", () => {
+  it("should match R's cor.test coefficient", () => {
+    const result = spearman({ precision: 6 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+
+    expect(result.method).toBe("spearman");
+    expect(result.coefficient).toBeCloseTo(0.6, 6);
+    // t approximation: t = 0.6·√(7 / 0.64) ≈ 1.984 with 7 degrees of freedom
+    expect(result.pValue).toBeCloseTo(0.0876, 3);
+    expect(result.ci![0]).toBeCloseTo(-0.129921, 5);
+    expect(result.ci![1]).toBeCloseTo(0.908165, 5);
+  });
+
+  it("should detect a perfect monotonic relationship that is not linear", () => {
+    const cubic = [1, 2, 3, 4, 5, 6].map((value): DataPoint => [value, value ** 3]);
+    const rank = spearman({}, cubic);
+    const linear = pearson({ precision: 6 }, cubic);
+
+    if (!rank.ok || !linear.ok) {
+      throw new Error("Expected successful correlation results");
+    }
+    expect(rank.coefficient).toBe(1);
+    expect(linear.coefficient).toBeLessThan(1);
+  });
+
+  it("should give tied values their average rank", () => {
+    // Ranks of x: [1, 2.5, 2.5, 4]; ranks of y: [1, 2, 3, 4]
+    const result = spearman({ precision: 6 }, [
+      [1, 10],
+      [2, 20],
+      [2, 30],
+      [3, 40],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful correlation result");
+    }
+    expect(result.coefficient).toBeCloseTo(0.948683, 6);
+  });
+
+  it("should return an error for a constant series", () => {
+    const result = spearman({}, [
+      [1, 5],
+      [1, 6],
+      [1, 7],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+
+  it("should return an error for fewer than three points", () => {
+    const result = spearman({}, [[1, 2]]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+});
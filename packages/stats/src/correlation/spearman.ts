@@ -0,0 +1,70 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_CORRELATION_OPTIONS } from "./const";
+import type { CorrelationOptions, CorrelationResult } from "./types";
+import type { DataPoint } from "../regression/types";
+import {
+  validatePairs,
+  constantSeriesError,
+  averageRanks,
+  pearsonCoefficient,
+  correlationPValue,
+  fisherInterval,
+} from "./util";
+import { round } from "../regression/util";
+
+/**
+ * Computes Spearman's rank correlation coefficient ρ, the strength and direction of the monotonic relationship
+ * between x and y. It is Pearson's r computed on the ranks of the values, with tied values given their average rank.
+ *
+ * @param {Partial<CorrelationOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `confidenceLevel`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least three data points, with variation in both x and y.
+ * @returns {CorrelationResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), it returns the `coefficient`, a two-sided `pValue` from the t approximation with
+ * `n - 2` degrees of freedom (reliable from about 10 points), and a Fisher z confidence interval `ci` using the
+ * Fieller–Hartley–Pearson standard error `√(1.06 / (n - 3))` (with at least four points).
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // y = x³ is perfectly monotonic, though not linear
+ * const data = [[1, 1], [2, 8], [3, 27], [4, 64], [5, 125]];
+ * const result = spearman({}, data);
+ * // result.coefficient is 1
+ *
+ * @description
+ * **Insights derived from Spearman Correlation:**
+ * - **Monotonic Trends:** Detects relationships that consistently rise or fall, even when they curve or saturate.
+ * - **Robustness:** Ranks limit the influence of outliers and suit ordinal data such as ratings.
+ */
+export const spearman = curry((
+  suppliedOptions: Partial<CorrelationOptions>,
+  data: DataPoint[]
+): CorrelationResult => {
+  const options: CorrelationOptions = { ...DEFAULT_CORRELATION_OPTIONS, ...suppliedOptions };
+
+  const error = validatePairs(data, "Spearman", 3, options.confidenceLevel);
+  if (error) {
+    return error;
+  }
+
+  const n = data.length;
+  const rho = pearsonCoefficient(
+    averageRanks(data.map((point) => point[0])),
+    averageRanks(data.map((point) => point[1]))
+  );
+  if (rho === null) {
+    return constantSeriesError("Spearman");
+  }
+
+  const ci = n > 3 ? fisherInterval(rho, Math.sqrt(1.06 / (n - 3)), options.confidenceLevel) : undefined;
+
+  return {
+    ok: true,
+    method: "spearman",
+    coefficient: round(rho, options.precision),
+    pValue: correlationPValue(rho, n),
+    ...(ci && { ci: [round(ci[0], options.precision), round(ci[1], options.precision)] }),
+    n,
+  };
+});
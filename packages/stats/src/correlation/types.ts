@@ -0,0 +1,105 @@
+/**
+ * The correlation coefficients that can be computed.
+ * - `pearson`: The strength of the linear relationship.
+ * - `spearman`: The strength of the monotonic relationship, from the ranks of the values.
+ * - `kendall`: Kendall's τ-b, the balance of concordant and discordant pairs, adjusted for ties.
+ */
+export type CorrelationMethod = "pearson" | "spearman" | "kendall";
+
+/**
+ * The successful output of a correlation coefficient.
+ */
+export interface CorrelationSuccess {
+  ok: true;
+  method: CorrelationMethod;
+  /**
+   * The correlation coefficient, between -1 and 1. Positive values indicate that y tends to increase with x.
+   */
+  coefficient: number;
+  /**
+   * The two-sided p-value for the null hypothesis of no correlation. Not rounded, so small values remain distinguishable.
+   */
+  pValue: number;
+  /**
+   * The `[lower, upper]` confidence interval for the coefficient at `confidenceLevel`, from the Fisher z-transformation.
+   * Omitted when there are too few points for the interval to be defined.
+   */
+  ci?: [number, number];
+  /**
+   * The number of paired observations.
+   */
+  n: number;
+}
+
+/**
+ * Interface for an unsuccessful correlation, with the same shape as `RegressionError`.
+ */
+export interface CorrelationError {
+  ok: false;
+  /**
+   * The type of error that occurred.
+   * - `InsufficientData`: Too few paired observations.
+   * - `InvalidInput`: A value is not finite, series differ in length, or an option is out of range.
+   * - `DegenerateInput`: A series has no variation, so the correlation is undefined.
+   */
+  errorType: "InsufficientData" | "InvalidInput" | "DegenerateInput";
+  /**
+   * A message describing the error.
+   */
+  message: string;
+}
+
+/**
+ * Discriminant union type for the result of a correlation coefficient.
+ */
+export type CorrelationResult = CorrelationSuccess | CorrelationError;
+
+/**
+ * Options for correlation coefficients.
+ */
+export interface CorrelationOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The confidence level for the confidence interval, between 0 and 1.
+   */
+  confidenceLevel: number;
+}
+
+/**
+ * Options for `correlationMatrix`.
+ */
+export interface CorrelationMatrixOptions extends CorrelationOptions {
+  /**
+   * The correlation coefficient to compute for each pair of series.
+   */
+  method: CorrelationMethod;
+}
+
+/**
+ * The successful output of `correlationMatrix`.
+ */
+export interface CorrelationMatrixSuccess {
+  ok: true;
+  method: CorrelationMethod;
+  /**
+   * The series names, in the order of the matrix rows and columns.
+   */
+  names: string[];
+  /**
+   * The symmetric matrix of coefficients, where `coefficients[i][j]` correlates `names[i]` with `names[j]`.
+   * The diagonal is 1.
+   */
+  coefficients: number[][];
+  /**
+   * The symmetric matrix of two-sided p-values. The diagonal is 0.
+   */
+  pValues: number[][];
+}
+
+/**
+ * Discriminant union type for the result of `correlationMatrix`.
+ */
+export type CorrelationMatrixResult = CorrelationMatrixSuccess | CorrelationError;
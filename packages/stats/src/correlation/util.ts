@@ -0,0 +1,159 @@
+import type { CorrelationError } from "./types";
+import type { DataPoint } from "../regression/types";
+import { isValid } from "../regression/util";
+import { studentTCdf, normalQuantile } from "../distribution";
+
+/**
+ * The spread, relative to the magnitude of the mean, below which a series is treated as constant.
+ */
+const CONSTANT_TOLERANCE = 1e-12;
+
+/**
+ * Check that the confidence level is valid, that there are enough pairs and that every value is finite.
+ *
+ * @param {DataPoint[]} data - Pairs of x-y values.
+ * @param {string} coefficient - The name of the coefficient, used in error messages.
+ * @param {number} minimum - The minimum number of pairs the coefficient requires.
+ * @param {number} confidenceLevel - The requested confidence level.
+ * @returns {CorrelationError | null} - The error to return, or null if the input is valid.
+ */
+export function validatePairs(
+  data: DataPoint[],
+  coefficient: string,
+  minimum: number,
+  confidenceLevel: number
+): CorrelationError | null {
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${confidenceLevel}.`,
+    };
+  }
+
+  if (data.length < minimum) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `${coefficient} correlation requires at least ${minimum} data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = data.findIndex((point) => !isValid(point[0]) || !isValid(point[1]));
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). ${coefficient} correlation requires finite numerical inputs.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Create the error returned when a series has no variation.
+ *
+ * @param {string} coefficient - The name of the coefficient, used in the error message.
+ * @returns {CorrelationError} - A `DegenerateInput` error.
+ */
+export function constantSeriesError(coefficient: string): CorrelationError {
+  return {
+    ok: false,
+    errorType: "DegenerateInput",
+    message: `Cannot compute ${coefficient} correlation: all x-values or all y-values are identical, so there is no variation to correlate.`,
+  };
+}
+
+/**
+ * Rank values from 1 (smallest) to n, giving tied values the average of the ranks they span.
+ *
+ * @param {number[]} values - The values to rank.
+ * @returns {number[]} - The rank of each value, in input order.
+ */
+export function averageRanks(values: number[]): number[] {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) {
+      end++;
+    }
+    // Positions start..end (zero-based) share ranks start + 1..end + 1.
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      ranks[order[i]] = rank;
+    }
+    start = end + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Compute the Pearson correlation coefficient of two equal-length series from centred sums.
+ *
+ * @param {number[]} xs - The first series.
+ * @param {number[]} ys - The second series.
+ * @returns {number | null} - The coefficient, clamped to [-1, 1], or null if either series is constant.
+ */
+export function pearsonCoefficient(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = 0; i < n; i++) {
+    meanX += xs[i];
+    meanY += ys[i];
+  }
+  meanX /= n;
+  meanY /= n;
+
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+  }
+
+  if (sxx <= n * (CONSTANT_TOLERANCE * meanX) ** 2 || syy <= n * (CONSTANT_TOLERANCE * meanY) ** 2) {
+    return null;
+  }
+
+  return Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+}
+
+/**
+ * Compute the two-sided p-value of a correlation coefficient using the t-test `t = r·√((n - 2) / (1 - r²))`.
+ *
+ * @param {number} r - The correlation coefficient.
+ * @param {number} n - The number of pairs.
+ * @returns {number} - The p-value, or NaN with fewer than three pairs.
+ */
+export function correlationPValue(r: number, n: number): number {
+  const df = n - 2;
+  if (df < 1) {
+    return NaN;
+  }
+  const t = Math.abs(r) === 1 ? Infinity : Math.abs(r) * Math.sqrt(df / (1 - r * r));
+  // Evaluated in the lower tail so that very small p-values keep their precision.
+  return Math.min(1, 2 * studentTCdf({ df }, -t));
+}
+
+/**
+ * Compute a confidence interval for a correlation coefficient using the Fisher z-transformation.
+ *
+ * @param {number} r - The correlation coefficient.
+ * @param {number} standardError - The standard error of `atanh(r)`.
+ * @param {number} confidenceLevel - The confidence level, between 0 and 1.
+ * @returns {[number, number]} - The `[lower, upper]` interval, unrounded.
+ */
+export function fisherInterval(r: number, standardError: number, confidenceLevel: number): [number, number] {
+  const z = Math.atanh(r);
+  const critical = normalQuantile({ mean: 0, standardDeviation: 1 }, 1 - (1 - confidenceLevel) / 2);
+  return [Math.tanh(z - critical * standardError), Math.tanh(z + critical * standardError)];
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { mean, median, mode } from "./central";
+
+describe("mean", () => {
+  it("should compute the arithmetic mean", () => {
+    expect(mean({}, [2, 4, 4, 4, 5, 5, 7, 9])).toEqual({ ok: true, value: 5 });
+  });
+
+  it("should round to the requested precision", () => {
+    expect(mean({ precision: 3 }, [1, 2, 2])).toEqual({ ok: true, value: 1.667 });
+  });
+
+  it("should be curried", () => {
+    const meanToOnePlace = mean({ precision: 1 });
+    expect(meanToOnePlace([1, 2])).toEqual({ ok: true, value: 1.5 });
+  });
+
+  it("should return an error for empty data", () => {
+    const result = mean({}, []);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+    expect(result.message).toContain("at least 1 value");
+  });
+
+  it("should return an error for non-finite values", () => {
+    const result = mean({}, [1, NaN, 3]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("index 1");
+  });
+});
+
+describe("median", () => {
+  it("should return the middle value for an odd number of values", () => {
+    expect(median({}, [9, 1, 5])).toEqual({ ok: true, value: 5 });
+  });
+
+  it("should average the two middle values for an even number of values", () => {
+    expect(median({}, [7, 1, 3, 100])).toEqual({ ok: true, value: 5 });
+  });
+
+  it("should not modify the input", () => {
+    const data = [3, 1, 2];
+    median({}, data);
+    expect(data).toEqual([3, 1, 2]);
+  });
+
+  it("should return an error for empty data", () => {
+    const result = median({}, []);
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe("mode", () => {
+  it("should return the most frequent value", () => {
+    expect(mode({}, [1, 2, 2, 3])).toEqual({ ok: true, value: [2] });
+  });
+
+  it("should return every tied value in ascending order", () => {
+    expect(mode({}, [3, 3, 1, 2, 2, 4])).toEqual({ ok: true, value: [2, 3] });
+  });
+
+  it("should return every value when none repeats", () => {
+    expect(mode({}, [3, 1, 2])).toEqual({ ok: true, value: [1, 2, 3] });
+  });
+
+  it("should compare values after rounding to precision", () => {
+    expect(mode({ precision: 1 }, [1.01, 1.04, 2])).toEqual({ ok: true, value: [1] });
+  });
+
+  it("should return an error for empty data", () => {
+    const result = mode({}, []);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+});
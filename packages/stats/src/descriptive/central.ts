@@ -0,0 +1,117 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DESCRIPTIVE_OPTIONS } from "./const";
+import type { DescriptiveOptions, DescriptiveResult } from "./types";
+import { validate, sortAscending, arithmeticMean } from "./util";
+import { round } from "../regression/util";
+
+/**
+ * Computes the arithmetic mean (average) of a set of values.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`.
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` is the mean.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const result = mean({}, [2, 4, 4, 4, 5, 5, 7, 9]);
+ * // result.value is 5
+ *
+ * @description
+ * **Insights derived from the Mean:**
+ * - **Typical Value:** Summarises the level of a metric in a single number.
+ * - **Caution:** Sensitive to outliers and skew; compare with the `median` to judge whether it is representative.
+ */
+export const mean = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, "mean", 1);
+  if (error) {
+    return error;
+  }
+
+  return { ok: true, value: round(arithmeticMean(data), options.precision) };
+});
+
+/**
+ * Computes the median, the middle value of the sorted data, or the mean of the two middle values
+ * when there is an even number of values.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`.
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` is the median.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const result = median({}, [7, 1, 3, 100]);
+ * // result.value is 5
+ *
+ * @description
+ * **Insights derived from the Median:**
+ * - **Robust Typical Value:** Half of the values lie on each side, however extreme the largest or smallest are.
+ * - **Skew:** A mean well above the median indicates a long right tail, such as a few very large orders.
+ */
+export const median = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, "median", 1);
+  if (error) {
+    return error;
+  }
+
+  const sorted = sortAscending(data);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  return { ok: true, value: round(value, options.precision) };
+});
+
+/**
+ * Finds the mode, the most frequently occurring value. Every value tied for the highest frequency is returned,
+ * so multimodal data yields several modes, and data without repeats yields every value.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`.
+ * Values are compared after rounding to `precision`, so nearly equal measurements count as the same value.
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult<number[]>} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` holds the modes in ascending order.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const result = mode({}, [1, 2, 2, 3, 3, 4]);
+ * // result.value is [2, 3]
+ *
+ * @description
+ * **Insights derived from the Mode:**
+ * - **Most Common Outcome:** Identifies the most typical value of discrete data, such as the most common basket size.
+ * - **Multimodality:** Several modes can indicate a mix of distinct groups in the data.
+ */
+export const mode = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult<number[]> => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, "mode", 1);
+  if (error) {
+    return error;
+  }
+
+  const counts = new Map<number, number>();
+  for (const value of data) {
+    const key = round(value, options.precision);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const highest = Math.max(...counts.values());
+  const modes = [...counts.entries()].filter(([, count]) => count === highest).map(([value]) => value);
+
+  return { ok: true, value: sortAscending(modes) };
+});
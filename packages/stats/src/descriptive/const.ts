@@ -0,0 +1,10 @@
+import type { DescriptiveOptions } from "./types";
+
+/**
+ * Default options for descriptive statistics.
+ */
+export const DEFAULT_DESCRIPTIVE_OPTIONS: DescriptiveOptions = {
+  precision: 2,
+  sample: true,
+  method: "linear",
+};
@@ -0,0 +1,6 @@
+export * from "./central";
+export * from "./spread";
+export * from "./quantile";
+export * from "./shape";
+export * from "./summarize";
+export * from "./types";
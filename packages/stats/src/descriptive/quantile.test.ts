@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { quantile, iqr } from "./quantile";
+import type { QuantileMethod } from "./types";
+
+describe("quantile", () => {
+  const data = [41, 7, 36, 15, 40, 39];
+
+  it.each<[QuantileMethod, number, number]>([
+    ["linear", 20.25, 39.75],
+    ["lower", 15, 39],
+    ["higher", 36, 40],
+    ["nearest", 15, 40],
+    ["midpoint", 25.5, 39.5],
+    ["hazen", 15, 40],
+    ["weibull", 13, 40.25],
+    ["medianUnbiased", 14.3333, 40.0833],
+  ])("should estimate the quartiles with the %s method", (method, q1, q3) => {
+    expect(quantile({ p: 0.25, method, precision: 4 }, data)).toEqual({ ok: true, value: q1 });
+    expect(quantile({ p: 0.75, method, precision: 4 }, data)).toEqual({ ok: true, value: q3 });
+  });
+
+  it("should round halves to the even index with the nearest method", () => {
+    // p = 0.5 falls exactly between indices 2 and 3 of the sorted data.
+    expect(quantile({ p: 0.5, method: "nearest" }, data)).toEqual({ ok: true, value: 36 });
+  });
+
+  it("should return the extremes for p = 0 and p = 1", () => {
+    expect(quantile({ p: 0, method: "weibull" }, data)).toEqual({ ok: true, value: 7 });
+    expect(quantile({ p: 1, method: "weibull" }, data)).toEqual({ ok: true, value: 41 });
+  });
+
+  it("should return the only value of a single-element array", () => {
+    expect(quantile({ p: 0.9 }, [5])).toEqual({ ok: true, value: 5 });
+  });
+
+  it("should return an error for a probability outside [0, 1]", () => {
+    const result = quantile({ p: 1.5 }, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("Received 1.5");
+  });
+
+  it("should return an error for empty data", () => {
+    const result = quantile({ p: 0.5 }, []);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+});
+
+describe("iqr", () => {
+  it("should compute the distance between the quartiles", () => {
+    expect(iqr({}, [1, 2, 3, 4, 5, 6, 7, 8])).toEqual({ ok: true, value: 3.5 });
+  });
+
+  it("should use the selected quartile method", () => {
+    expect(iqr({ method: "weibull" }, [41, 7, 36, 15, 40, 39])).toEqual({ ok: true, value: 27.25 });
+  });
+
+  it("should return an error for empty data", () => {
+    expect(iqr({}, []).ok).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DESCRIPTIVE_OPTIONS } from "./const";
+import type { DescriptiveOptions, DescriptiveResult, QuantileOptions } from "./types";
+import { validate, sortAscending, quantileOfSorted } from "./util";
+import { round } from "../regression/util";
+
+/**
+ * Estimates a quantile: the value below which a proportion `p` of the data falls.
+ * When the quantile lies between two sorted values, `method` chooses how to interpolate between them.
+ *
+ * @param {Partial<DescriptiveOptions> & { p: number }} suppliedOptions - The probability `p` (e.g. 0.9 for the
+ * 90th percentile), plus optional options to override defaults, such as `precision` and `method` (defaults to `"linear"`).
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` is the estimated quantile.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * quantile({ p: 0.25 }, [1, 2, 3, 4]); // { ok: true, value: 1.75 }
+ * quantile({ p: 0.25, method: "weibull" }, [1, 2, 3, 4]); // { ok: true, value: 1.25 }
+ * quantile({ p: 0.25, method: "lower" }, [1, 2, 3, 4]); // { ok: true, value: 1 }
+ *
+ * @description
+ * **Insights derived from Quantiles:**
+ * - **Thresholds:** Percentiles such as the 95th describe service levels or targets, e.g. "95% of requests finish within 300ms".
+ * - **Distribution Shape:** Comparing quantiles reveals skew and tail weight without assuming any distribution.
+ */
+export const quantile = curry((
+  suppliedOptions: Partial<DescriptiveOptions> & { p: number },
+  data: number[]
+): DescriptiveResult => {
+  const options: QuantileOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  if (!(options.p >= 0 && options.p <= 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The quantile probability must be between 0 and 1 (inclusive). Received ${options.p}.`,
+    };
+  }
+
+  const error = validate(data, "quantile", 1);
+  if (error) {
+    return error;
+  }
+
+  return {
+    ok: true,
+    value: round(quantileOfSorted(sortAscending(data), options.p, options.method), options.precision),
+  };
+});
+
+/**
+ * Computes the interquartile range (IQR), the distance between the first and third quartiles,
+ * which spans the middle half of the data.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and the quartile interpolation `method`.
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` is the IQR.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * iqr({}, [1, 2, 3, 4, 5, 6, 7, 8]); // { ok: true, value: 3.5 }
+ *
+ * @description
+ * **Insights derived from the IQR:**
+ * - **Robust Spread:** Describes the spread of typical values, unaffected by the most extreme quarter on either side.
+ * - **Outlier Fences:** Values more than 1.5 IQRs beyond the quartiles are conventionally flagged as outliers (Tukey's fences).
+ */
+export const iqr = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, "interquartile range", 1);
+  if (error) {
+    return error;
+  }
+
+  const sorted = sortAscending(data);
+  const q1 = quantileOfSorted(sorted, 0.25, options.method);
+  const q3 = quantileOfSorted(sorted, 0.75, options.method);
+
+  return { ok: true, value: round(q3 - q1, options.precision) };
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { skewness, kurtosis } from "./shape";
+
+// Reference values from the documentation of Excel's SKEW and KURT functions.
+const excelExample = [3, 4, 5, 2, 3, 4, 5, 6, 4, 7];
+
+describe("skewness", () => {
+  it("should compute the adjusted sample skewness", () => {
+    expect(skewness({ precision: 6 }, excelExample)).toEqual({ ok: true, value: 0.359543 });
+  });
+
+  it("should compute the population skewness", () => {
+    expect(skewness({ sample: false, precision: 4 }, [1, 2, 3, 4, 20])).toEqual({ ok: true, value: 1.4255 });
+  });
+
+  it("should be positive for a long right tail and zero for symmetric data", () => {
+    const right = skewness({}, [1, 2, 3, 4, 20]);
+    const symmetric = skewness({}, [1, 2, 3, 4, 5]);
+
+    if (!right.ok || !symmetric.ok) {
+      throw new Error("Expected successful results");
+    }
+    expect(right.value).toBeGreaterThan(0);
+    expect(symmetric.value).toBe(0);
+  });
+
+  it("should return an error for fewer than three values", () => {
+    const result = skewness({}, [1, 2]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error when every value is identical", () => {
+    const result = skewness({}, [0.1, 0.1, 0.1, 0.1]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+    expect(result.message).toContain("no spread");
+  });
+});
+
+describe("kurtosis", () => {
+  it("should compute the adjusted sample excess kurtosis", () => {
+    expect(kurtosis({ precision: 4 }, excelExample)).toEqual({ ok: true, value: -0.1518 });
+  });
+
+  it("should compute the population excess kurtosis", () => {
+    expect(kurtosis({ sample: false, precision: 4 }, [1, 2, 3, 4, 20])).toEqual({ ok: true, value: 0.1515 });
+  });
+
+  it("should return an error for fewer than four values", () => {
+    const result = kurtosis({}, [1, 2, 3]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error when every value is identical", () => {
+    const result = kurtosis({ sample: false }, [5, 5, 5]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+});
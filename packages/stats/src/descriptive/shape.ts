@@ -0,0 +1,114 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DESCRIPTIVE_OPTIONS } from "./const";
+import type { DescriptiveError, DescriptiveOptions, DescriptiveResult } from "./types";
+import { validate, arithmeticMean, centralMoments } from "./util";
+import { round } from "../regression/util";
+
+/**
+ * The spread, relative to the magnitude of the mean, below which values are treated as identical.
+ * Rounding in the mean leaves a tiny non-zero variance for identical values, which would make shape statistics meaningless.
+ */
+const CONSTANT_TOLERANCE = 1e-12;
+
+/**
+ * Compute the central moments, or an error if the values are all (numerically) identical.
+ */
+const momentsOrError = (
+  data: number[],
+  statistic: string
+): { m2: number; m3: number; m4: number } | DescriptiveError => {
+  const moments = centralMoments(data);
+  if (moments.m2 <= (CONSTANT_TOLERANCE * arithmeticMean(data)) ** 2) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message: `Cannot compute the ${statistic}: all values are identical, so the data has no spread.`,
+    };
+  }
+  return moments;
+};
+
+/**
+ * Computes the skewness, a measure of the asymmetry of the data about its mean. Sample skewness is the adjusted
+ * Fisher–Pearson coefficient `G₁ = g₁·√(n(n - 1)) / (n - 2)` (as in Excel's `SKEW`); population skewness is `g₁ = m₃ / m₂^(3/2)`.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `sample` (defaults to `true`).
+ * @param {number[]} data - The values. Expects at least three finite values for a sample, with some spread.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` is the skewness: positive for a long right tail, negative for a long left tail.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * skewness({}, [1, 2, 3, 4, 20]); // { ok: true, value: 2.13 }
+ *
+ * @description
+ * **Insights derived from Skewness:**
+ * - **Asymmetry:** Values beyond about ±1 indicate a strongly skewed distribution, where the median describes
+ * typical values better than the mean.
+ */
+export const skewness = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, options.sample ? "sample skewness" : "population skewness", options.sample ? 3 : 1);
+  if (error) {
+    return error;
+  }
+
+  const moments = momentsOrError(data, "skewness");
+  if ("ok" in moments) {
+    return moments;
+  }
+
+  const n = data.length;
+  const g1 = moments.m3 / moments.m2 ** 1.5;
+  const value = options.sample ? (g1 * Math.sqrt(n * (n - 1))) / (n - 2) : g1;
+
+  return { ok: true, value: round(value, options.precision) };
+});
+
+/**
+ * Computes the excess kurtosis, a measure of how heavy the tails of the data are compared with a normal distribution,
+ * for which it is 0. Sample kurtosis is the bias-adjusted `G₂ = ((n + 1)·g₂ + 6)·(n - 1) / ((n - 2)(n - 3))`
+ * (as in Excel's `KURT`); population kurtosis is `g₂ = m₄ / m₂² - 3`.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `sample` (defaults to `true`).
+ * @param {number[]} data - The values. Expects at least four finite values for a sample, with some spread.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` is the excess kurtosis.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * kurtosis({}, [1, 2, 3, 4, 20]); // { ok: true, value: 4.61 }
+ *
+ * @description
+ * **Insights derived from Kurtosis:**
+ * - **Tail Risk:** Positive values indicate more frequent extreme values than a normal distribution would produce,
+ * so averages and standard deviations understate how often surprises occur.
+ */
+export const kurtosis = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, options.sample ? "sample kurtosis" : "population kurtosis", options.sample ? 4 : 1);
+  if (error) {
+    return error;
+  }
+
+  const moments = momentsOrError(data, "kurtosis");
+  if ("ok" in moments) {
+    return moments;
+  }
+
+  const n = data.length;
+  const g2 = moments.m4 / (moments.m2 * moments.m2) - 3;
+  const value = options.sample ? (((n + 1) * g2 + 6) * (n - 1)) / ((n - 2) * (n - 3)) : g2;
+
+  return { ok: true, value: round(value, options.precision) };
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { variance, standardDeviation, min, max, range } from "./spread";
+
+describe("variance", () => {
+  const data = [2, 4, 4, 4, 5, 5, 7, 9];
+
+  it("should compute the sample variance by default", () => {
+    expect(variance({ precision: 6 }, data)).toEqual({ ok: true, value: 4.571429 });
+  });
+
+  it("should compute the population variance", () => {
+    expect(variance({ sample: false }, data)).toEqual({ ok: true, value: 4 });
+  });
+
+  it("should stay accurate for large values with a small spread", () => {
+    const shifted = data.map((value) => value + 1e9);
+    expect(variance({ sample: false }, shifted)).toEqual({ ok: true, value: 4 });
+  });
+
+  it("should return an error for a sample of one value", () => {
+    const result = variance({}, [5]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+    expect(result.message).toContain("sample variance requires at least 2 values");
+  });
+
+  it("should return zero for a population of one value", () => {
+    expect(variance({ sample: false }, [5])).toEqual({ ok: true, value: 0 });
+  });
+});
+
+describe("standardDeviation", () => {
+  const data = [2, 4, 4, 4, 5, 5, 7, 9];
+
+  it("should compute the sample standard deviation by default", () => {
+    expect(standardDeviation({ precision: 6 }, data)).toEqual({ ok: true, value: 2.13809 });
+  });
+
+  it("should compute the population standard deviation", () => {
+    expect(standardDeviation({ sample: false }, data)).toEqual({ ok: true, value: 2 });
+  });
+
+  it("should return an error for a sample of one value", () => {
+    const result = standardDeviation({}, [5]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error for non-finite values", () => {
+    const result = standardDeviation({}, [1, Infinity]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+  });
+});
+
+describe("min, max and range", () => {
+  const data = [3, -1.5, 8, 2];
+
+  it("should find the smallest and largest values and their difference", () => {
+    expect(min({}, data)).toEqual({ ok: true, value: -1.5 });
+    expect(max({}, data)).toEqual({ ok: true, value: 8 });
+    expect(range({}, data)).toEqual({ ok: true, value: 9.5 });
+  });
+
+  it("should handle arrays too large to spread into Math.min", () => {
+    const large = Array.from({ length: 200_000 }, (_, i) => i);
+    expect(min({}, large)).toEqual({ ok: true, value: 0 });
+    expect(max({}, large)).toEqual({ ok: true, value: 199_999 });
+  });
+
+  it("should return errors for empty data", () => {
+    for (const result of [min({}, []), max({}, []), range({}, [])]) {
+      if (result.ok) {
+        throw new Error("Expected result to be unsuccessful");
+      }
+      expect(result.errorType).toBe("InsufficientData");
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DESCRIPTIVE_OPTIONS } from "./const";
+import type { DescriptiveOptions, DescriptiveResult } from "./types";
+import { validate, varianceOf } from "./util";
+import { round } from "../regression/util";
+
+/**
+ * Computes the variance, the average squared deviation from the mean. Sample variance divides by `n - 1`
+ * (Bessel's correction) to give an unbiased estimate of the population variance; population variance divides by `n`.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `sample` (defaults to `true`).
+ * @param {number[]} data - The values. Expects at least two finite values for a sample, or one for a population.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` is the variance.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * variance({}, [2, 4, 4, 4, 5, 5, 7, 9]); // { ok: true, value: 4.57 }
+ * variance({ sample: false }, [2, 4, 4, 4, 5, 5, 7, 9]); // { ok: true, value: 4 }
+ *
+ * @description
+ * **Insights derived from the Variance:**
+ * - **Volatility:** Quantifies how much a metric fluctuates; expressed in squared units, so prefer
+ * `standardDeviation` when describing spread to people.
+ */
+export const variance = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, options.sample ? "sample variance" : "population variance", options.sample ? 2 : 1);
+  if (error) {
+    return error;
+  }
+
+  return { ok: true, value: round(varianceOf(data, options.sample), options.precision) };
+});
+
+/**
+ * Computes the standard deviation, the square root of the `variance`, in the same units as the data.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `sample` (defaults to `true`).
+ * @param {number[]} data - The values. Expects at least two finite values for a sample, or one for a population.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` is the standard deviation.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * standardDeviation({ sample: false }, [2, 4, 4, 4, 5, 5, 7, 9]); // { ok: true, value: 2 }
+ *
+ * @example
+ * // A single value has no sample standard deviation
+ * standardDeviation({}, [5]); // { ok: false, errorType: "InsufficientData", ... }
+ *
+ * @description
+ * **Insights derived from the Standard Deviation:**
+ * - **Typical Deviation:** Describes how far values typically lie from the mean; for roughly normal data
+ * about 95% of values lie within two standard deviations.
+ * - **Unusual Values:** Distances measured in standard deviations (z-scores) flag values that stand out.
+ */
+export const standardDeviation = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(
+    data,
+    options.sample ? "sample standard deviation" : "population standard deviation",
+    options.sample ? 2 : 1
+  );
+  if (error) {
+    return error;
+  }
+
+  return { ok: true, value: round(Math.sqrt(varianceOf(data, options.sample)), options.precision) };
+});
+
+/**
+ * Finds the smallest value.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`.
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ *
+ * @example
+ * min({}, [3, 1, 2]); // { ok: true, value: 1 }
+ */
+export const min = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, "minimum", 1);
+  if (error) {
+    return error;
+  }
+
+  // A loop rather than Math.min(...data), which exceeds the call stack for very large arrays.
+  let smallest = data[0];
+  for (const value of data) {
+    smallest = value < smallest ? value : smallest;
+  }
+
+  return { ok: true, value: round(smallest, options.precision) };
+});
+
+/**
+ * Finds the largest value.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`.
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ *
+ * @example
+ * max({}, [3, 1, 2]); // { ok: true, value: 3 }
+ */
+export const max = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, "maximum", 1);
+  if (error) {
+    return error;
+  }
+
+  let largest = data[0];
+  for (const value of data) {
+    largest = value > largest ? value : largest;
+  }
+
+  return { ok: true, value: round(largest, options.precision) };
+});
+
+/**
+ * Computes the range, the difference between the largest and smallest values.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`.
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult} A discriminant union representing the success or failure of the calculation.
+ *
+ * @example
+ * range({}, [3, 1, 2]); // { ok: true, value: 2 }
+ *
+ * @description
+ * **Insights derived from the Range:**
+ * - **Extent:** Shows the full spread of observed values; because it depends only on the two extremes,
+ * a single outlier can dominate it, so pair it with `iqr`.
+ */
+export const range = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, "range", 1);
+  if (error) {
+    return error;
+  }
+
+  let smallest = data[0];
+  let largest = data[0];
+  for (const value of data) {
+    smallest = value < smallest ? value : smallest;
+    largest = value > largest ? value : largest;
+  }
+
+  return { ok: true, value: round(largest - smallest, options.precision) };
+});
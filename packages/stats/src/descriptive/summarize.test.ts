@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { summarize } from "./summarize";
+
+describe("summarize", () => {
+  it("should compute every statistic", () => {
+    const result = summarize({}, [2, 4, 4, 4, 5, 5, 7, 9]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        count: 8,
+        mean: 5,
+        median: 4.5,
+        mode: [4],
+        min: 2,
+        max: 9,
+        range: 7,
+        variance: 4.57,
+        standardDeviation: 2.14,
+        q1: 4,
+        q3: 5.5,
+        iqr: 1.5,
+        skewness: 0.82,
+        kurtosis: 0.94,
+      },
+    });
+  });
+
+  it("should pass options through to every statistic", () => {
+    const result = summarize({ sample: false, method: "weibull" }, [2, 4, 4, 4, 5, 5, 7, 9]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.value.variance).toBe(4);
+    expect(result.value.standardDeviation).toBe(2);
+    expect(result.value.q1).toBe(4);
+    expect(result.value.q3).toBe(6.5);
+  });
+
+  it("should report undefined statistics as NaN rather than failing", () => {
+    const result = summarize({}, [5]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.value.mean).toBe(5);
+    expect(result.value.range).toBe(0);
+    expect(result.value.variance).toBeNaN();
+    expect(result.value.standardDeviation).toBeNaN();
+    expect(result.value.skewness).toBeNaN();
+    expect(result.value.kurtosis).toBeNaN();
+  });
+
+  it("should return an error for empty data", () => {
+    const result = summarize({}, []);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error for non-finite values", () => {
+    const result = summarize({}, [1, 2, undefined as unknown as number]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+  });
+});
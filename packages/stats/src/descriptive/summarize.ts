@@ -0,0 +1,73 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DESCRIPTIVE_OPTIONS } from "./const";
+import type { DescriptiveOptions, DescriptiveResult, DescriptiveSummary } from "./types";
+import { validate, sortAscending, arithmeticMean, varianceOf, quantileOfSorted } from "./util";
+import { mode } from "./central";
+import { skewness, kurtosis } from "./shape";
+import { round } from "../regression/util";
+
+/**
+ * Computes every descriptive statistic at once: count, mean, median, mode, min, max, range,
+ * variance, standard deviation, quartiles, IQR, skewness and kurtosis.
+ *
+ * @param {Partial<DescriptiveOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`,
+ * `sample` and the quartile interpolation `method`.
+ * @param {number[]} data - The values. Expects at least one finite value.
+ * @returns {DescriptiveResult<DescriptiveSummary>} A discriminant union representing the success or failure of the calculation.
+ * - If successful (`ok: true`), `value` holds every statistic. Statistics that are undefined for the data are NaN,
+ * such as the sample variance of a single value or the skewness of identical values, rather than failing the whole summary.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const result = summarize({}, [2, 4, 4, 4, 5, 5, 7, 9]);
+ * if (result.ok) {
+ * console.log(`Mean ${result.value.mean}, median ${result.value.median}, sd ${result.value.standardDeviation}`);
+ * }
+ *
+ * @description
+ * **Insights derived from a Summary:**
+ * - **At a Glance:** Combines centre, spread and shape, ready for a data profile, tooltip or narrative.
+ * - **Representativeness:** A mean far from the median, or large skewness, signals that the median is the better headline figure.
+ */
+export const summarize = curry((
+  suppliedOptions: Partial<DescriptiveOptions>,
+  data: number[]
+): DescriptiveResult<DescriptiveSummary> => {
+  const options: DescriptiveOptions = { ...DEFAULT_DESCRIPTIVE_OPTIONS, ...suppliedOptions };
+
+  const error = validate(data, "summary", 1);
+  if (error) {
+    return error;
+  }
+
+  const sorted = sortAscending(data);
+  const n = sorted.length;
+  const middle = Math.floor(n / 2);
+  const median = n % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  const q1 = quantileOfSorted(sorted, 0.25, options.method);
+  const q3 = quantileOfSorted(sorted, 0.75, options.method);
+  const variance = varianceOf(sorted, options.sample);
+  const modes = mode(options, sorted);
+  const skew = skewness(options, sorted);
+  const kurt = kurtosis(options, sorted);
+
+  return {
+    ok: true,
+    value: {
+      count: n,
+      mean: round(arithmeticMean(sorted), options.precision),
+      median: round(median, options.precision),
+      mode: modes.ok ? modes.value : [],
+      min: round(sorted[0], options.precision),
+      max: round(sorted[n - 1], options.precision),
+      range: round(sorted[n - 1] - sorted[0], options.precision),
+      variance: round(variance, options.precision),
+      standardDeviation: round(Math.sqrt(variance), options.precision),
+      q1: round(q1, options.precision),
+      q3: round(q3, options.precision),
+      iqr: round(q3 - q1, options.precision),
+      skewness: skew.ok ? skew.value : NaN,
+      kurtosis: kurt.ok ? kurt.value : NaN,
+    },
+  };
+});
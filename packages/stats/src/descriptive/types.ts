@@ -0,0 +1,119 @@
+/**
+ * The successful output of a descriptive statistic.
+ */
+export interface DescriptiveSuccess<T> {
+  ok: true;
+  /**
+   * The computed statistic, rounded to `precision`.
+   */
+  value: T;
+}
+
+/**
+ * Interface for an unsuccessful descriptive statistic, with the same shape as `RegressionError`.
+ */
+export interface DescriptiveError {
+  ok: false;
+  /**
+   * The type of error that occurred.
+   * - `InsufficientData`: Too few values for the statistic (e.g. a sample variance of one value).
+   * - `InvalidInput`: A value is not finite, or an option is out of range.
+   * - `DegenerateInput`: The statistic is undefined for the data (e.g. the skewness of identical values).
+   */
+  errorType: "InsufficientData" | "InvalidInput" | "DegenerateInput";
+  /**
+   * A message describing the error.
+   */
+  message: string;
+}
+
+/**
+ * Discriminant union type for the result of a descriptive statistic.
+ */
+export type DescriptiveResult<T = number> = DescriptiveSuccess<T> | DescriptiveError;
+
+/**
+ * The interpolation method used to estimate a quantile that falls between two sorted values.
+ * - `linear`: Linear interpolation between the neighbouring values, `h = p·(n - 1)` (Hyndman & Fan type 7;
+ * the default in R, NumPy and Excel's `PERCENTILE.INC`).
+ * - `lower`, `higher`, `nearest`, `midpoint`: The lower or higher neighbour, the nearest neighbour
+ * (halves round to the even index) or the mean of the two neighbours, at the type 7 position.
+ * - `hazen`: Piecewise linear with `h = p·n - 1/2` (type 5), common in hydrology.
+ * - `weibull`: Piecewise linear with `h = p·(n + 1) - 1` (type 6; Excel's `PERCENTILE.EXC` and Minitab).
+ * - `medianUnbiased`: Piecewise linear with `h = p·(n + 1/3) - 2/3` (type 8), approximately median-unbiased
+ * whatever the distribution; recommended by Hyndman & Fan.
+ */
+export type QuantileMethod =
+  | "linear"
+  | "lower"
+  | "higher"
+  | "nearest"
+  | "midpoint"
+  | "hazen"
+  | "weibull"
+  | "medianUnbiased";
+
+/**
+ * Options for descriptive statistics.
+ */
+export interface DescriptiveOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * Whether the data is a sample from a larger population (`true`) or the whole population (`false`).
+   * Samples use bias-corrected estimators, such as dividing by `n - 1` for the variance.
+   */
+  sample: boolean;
+  /**
+   * The interpolation method used for quantiles, including the quartiles behind `iqr` and `summarize`.
+   */
+  method: QuantileMethod;
+}
+
+/**
+ * Options for `quantile`, which also requires the probability to estimate.
+ */
+export interface QuantileOptions extends DescriptiveOptions {
+  /**
+   * The probability of the quantile, between 0 and 1 inclusive (e.g. 0.9 for the 90th percentile).
+   */
+  p: number;
+}
+
+/**
+ * A one-shot summary of a dataset, as produced by `summarize`.
+ * Statistics that are undefined for the data (e.g. the skewness of fewer than three values) are NaN.
+ */
+export interface DescriptiveSummary {
+  /**
+   * The number of values.
+   */
+  count: number;
+  mean: number;
+  median: number;
+  /**
+   * Every value that occurs most often, in ascending order.
+   */
+  mode: number[];
+  min: number;
+  max: number;
+  range: number;
+  variance: number;
+  standardDeviation: number;
+  /**
+   * The first quartile (25th percentile).
+   */
+  q1: number;
+  /**
+   * The third quartile (75th percentile).
+   */
+  q3: number;
+  iqr: number;
+  skewness: number;
+  /**
+   * The excess kurtosis, which is 0 for a normal distribution.
+   */
+  kurtosis: number;
+}
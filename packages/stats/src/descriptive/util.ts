@@ -0,0 +1,134 @@
+import type { DescriptiveError, QuantileMethod } from "./types";
+import { isValid } from "../regression/util";
+
+/**
+ * Check that there are enough values for a statistic and that every value is finite.
+ *
+ * @param {number[]} data - The values.
+ * @param {string} statistic - The name of the statistic, used in error messages.
+ * @param {number} minimum - The minimum number of values the statistic requires.
+ * @returns {DescriptiveError | null} - The error to return, or null if the data is valid.
+ */
+export function validate(data: number[], statistic: string, minimum: number): DescriptiveError | null {
+  if (data.length < minimum) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `The ${statistic} requires at least ${minimum} value${minimum === 1 ? "" : "s"}. Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = data.findIndex((value) => !isValid(value));
+  if (invalidIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Value at index ${invalidIndex} is not finite (${data[invalidIndex]}). The ${statistic} requires finite numerical inputs.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Sort a copy of the values in ascending numerical order.
+ *
+ * @param {number[]} data - The values.
+ * @returns {number[]} - A sorted copy; the input is not modified.
+ */
+export function sortAscending(data: number[]): number[] {
+  return [...data].sort((a, b) => a - b);
+}
+
+/**
+ * Compute the arithmetic mean of non-empty values.
+ *
+ * @param {number[]} data - The values.
+ * @returns {number} - The mean.
+ */
+export function arithmeticMean(data: number[]): number {
+  let sum = 0;
+  for (const value of data) {
+    sum += value;
+  }
+  return sum / data.length;
+}
+
+/**
+ * Compute the second, third and fourth central moments, `mₖ = Σ(x - x̄)ᵏ / n`.
+ *
+ * @param {number[]} data - The non-empty values.
+ * @returns {{ m2: number; m3: number; m4: number }} - The central moments.
+ */
+export function centralMoments(data: number[]): { m2: number; m3: number; m4: number } {
+  const mean = arithmeticMean(data);
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  for (const value of data) {
+    const d = value - mean;
+    const d2 = d * d;
+    m2 += d2;
+    m3 += d2 * d;
+    m4 += d2 * d2;
+  }
+  const n = data.length;
+  return { m2: m2 / n, m3: m3 / n, m4: m4 / n };
+}
+
+/**
+ * Compute the variance of non-empty values with the two-pass algorithm.
+ *
+ * @param {number[]} data - The values.
+ * @param {boolean} sample - Whether to divide by `n - 1` (sample) rather than `n` (population).
+ * @returns {number} - The variance, or NaN for a sample of one value.
+ */
+export function varianceOf(data: number[], sample: boolean): number {
+  const n = data.length;
+  const m2 = centralMoments(data).m2 * n;
+  return sample ? (n > 1 ? m2 / (n - 1) : NaN) : m2 / n;
+}
+
+/**
+ * Offsets `(a, b)` of the Hyndman & Fan plotting positions, for which the 1-based position of quantile p
+ * is `p·(n + 1 - a - b) + a`.
+ */
+const PLOTTING_POSITIONS: Record<"linear" | "hazen" | "weibull" | "medianUnbiased", [number, number]> = {
+  linear: [1, 1],
+  hazen: [0.5, 0.5],
+  weibull: [0, 0],
+  medianUnbiased: [1 / 3, 1 / 3],
+};
+
+/**
+ * Estimate a quantile of sorted values.
+ *
+ * @param {number[]} sorted - The non-empty values in ascending order.
+ * @param {number} p - The probability, between 0 and 1 inclusive.
+ * @param {QuantileMethod} method - The interpolation method.
+ * @returns {number} - The estimated quantile.
+ */
+export function quantileOfSorted(sorted: number[], p: number, method: QuantileMethod): number {
+  const n = sorted.length;
+  const [a, b] = PLOTTING_POSITIONS[method as keyof typeof PLOTTING_POSITIONS] ?? PLOTTING_POSITIONS.linear;
+  // Zero-based position, clamped so probabilities beyond the outermost plotting positions take the extremes.
+  const h = Math.min(n - 1, Math.max(0, p * (n + 1 - a - b) + a - 1));
+  const lower = Math.floor(h);
+  const upper = Math.ceil(h);
+  const fraction = h - lower;
+
+  switch (method) {
+    case "lower":
+      return sorted[lower];
+    case "higher":
+      return sorted[upper];
+    case "nearest": {
+      const even = lower % 2 === 0 ? lower : upper;
+      return sorted[fraction === 0.5 ? even : Math.round(h)];
+    }
+    case "midpoint":
+      return (sorted[lower] + sorted[upper]) / 2;
+    default:
+      return sorted[lower] + fraction * (sorted[upper] - sorted[lower]);
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { betaPdf, betaCdf, betaQuantile, betaSample } from "./beta";
+
+const arcsine = { alpha: 0.5, beta: 0.5 };
+
+describe("betaPdf", () => {
+  it("should match the closed forms", () => {
+    expect(betaPdf({ alpha: 2, beta: 2 }, 0.5)).toBeCloseTo(1.5, 14);
+    expect(betaPdf({ alpha: 1, beta: 1 }, 0.3)).toBeCloseTo(1, 14);
+    expect(betaPdf(arcsine, 0.25)).toBeCloseTo(1 / (Math.PI * Math.sqrt(0.25 * 0.75)), 13);
+  });
+
+  it("should handle the boundaries of the support", () => {
+    expect(betaPdf(arcsine, 0)).toBe(Infinity);
+    expect(betaPdf({ alpha: 1, beta: 3 }, 0)).toBeCloseTo(3, 13);
+    expect(betaPdf({ alpha: 2, beta: 3 }, 1)).toBe(0);
+    expect(betaPdf({ alpha: 2, beta: 3 }, 1.5)).toBe(0);
+  });
+});
+
+describe("betaCdf", () => {
+  it("should match the closed forms", () => {
+    expect(betaCdf({ alpha: 2, beta: 1 }, 0.5)).toBeCloseTo(0.25, 14);
+    expect(betaCdf(arcsine, 0.25)).toBeCloseTo((2 / Math.PI) * Math.asin(0.5), 13);
+  });
+
+  it("should handle boundary and invalid arguments", () => {
+    expect(betaCdf({ alpha: 2, beta: 2 }, -1)).toBe(0);
+    expect(betaCdf({ alpha: 2, beta: 2 }, 2)).toBe(1);
+    expect(betaCdf({ alpha: 0, beta: 2 }, 0.5)).toBeNaN();
+  });
+});
+
+describe("betaQuantile", () => {
+  it("should match the arcsine closed form", () => {
+    for (const p of [0.001, 0.2, 0.5, 0.9, 0.999]) {
+      expect(betaQuantile(arcsine, p)).toBeCloseTo(Math.sin((Math.PI * p) / 2) ** 2, 12);
+    }
+  });
+
+  it("should invert betaCdf", () => {
+    const params = { alpha: 31, beta: 171 };
+    for (const p of [0.025, 0.5, 0.975]) {
+      expect(betaCdf(params, betaQuantile(params, p))).toBeCloseTo(p, 12);
+    }
+  });
+
+  it("should handle boundary arguments", () => {
+    expect(betaQuantile(arcsine, 0)).toBe(0);
+    expect(betaQuantile(arcsine, 1)).toBe(1);
+    expect(betaQuantile(arcsine, 2)).toBeNaN();
+  });
+});
+
+describe("betaSample", () => {
+  it("should have mean α / (α + β) and lie in [0, 1]", () => {
+    const draws = betaSample({ alpha: 2, beta: 6 }, { count: 20000, seed: 3 });
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+    expect(mean).toBeCloseTo(0.25, 2);
+    expect(draws.every((x) => x >= 0 && x <= 1)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { binomialPmf, binomialCdf, binomialQuantile, binomialSample } from "./binomial";
+
+const coin = { trials: 10, probability: 0.5 };
+
+describe("binomialPmf", () => {
+  it("should match exact values", () => {
+    expect(binomialPmf(coin, 5)).toBeCloseTo(252 / 1024, 14);
+    expect(binomialPmf(coin, 0)).toBeCloseTo(1 / 1024, 15);
+    expect(binomialPmf({ trials: 3, probability: 0.2 }, 2)).toBeCloseTo(3 * 0.04 * 0.8, 14);
+  });
+
+  it("should not overflow for many trials", () => {
+    // Approximately normal with mean 500,000 and standard deviation 500
+    expect(binomialPmf({ trials: 1e6, probability: 0.5 }, 5e5)).toBeCloseTo(1 / (500 * Math.sqrt(2 * Math.PI)), 8);
+  });
+
+  it("should be zero off the support and handle degenerate probabilities", () => {
+    expect(binomialPmf(coin, 2.5)).toBe(0);
+    expect(binomialPmf(coin, 11)).toBe(0);
+    expect(binomialPmf({ trials: 4, probability: 1 }, 4)).toBe(1);
+    expect(binomialPmf({ trials: 4, probability: 0 }, 1)).toBe(0);
+    expect(binomialPmf({ trials: 4.5, probability: 0.5 }, 1)).toBeNaN();
+  });
+});
+
+describe("binomialCdf", () => {
+  it("should equal the sum of the mass function", () => {
+    expect(binomialCdf(coin, 3)).toBeCloseTo(176 / 1024, 14);
+    expect(binomialCdf({ trials: 100, probability: 0.08 }, 3)).toBeCloseTo(0.036705899235, 12);
+  });
+
+  it("should round non-integers down and handle the ends of the support", () => {
+    expect(binomialCdf(coin, 3.7)).toBe(binomialCdf(coin, 3));
+    expect(binomialCdf(coin, -1)).toBe(0);
+    expect(binomialCdf(coin, 10)).toBe(1);
+  });
+});
+
+describe("binomialQuantile", () => {
+  it("should return the smallest count reaching the probability", () => {
+    // P(X ≤ 59) = 0.9716 and P(X ≤ 60) = 0.9824
+    expect(binomialQuantile({ trials: 100, probability: 0.5 }, 0.975)).toBe(60);
+    expect(binomialQuantile(coin, 176 / 1024)).toBe(3);
+    expect(binomialQuantile({ trials: 100, probability: 0.02 }, 0.5)).toBe(2);
+  });
+
+  it("should handle boundary arguments", () => {
+    expect(binomialQuantile(coin, 0)).toBe(0);
+    expect(binomialQuantile(coin, 1)).toBe(10);
+    expect(binomialQuantile(coin, 1.5)).toBeNaN();
+  });
+});
+
+describe("binomialSample", () => {
+  it("should be reproducible and have mean n·p", () => {
+    const params = { trials: 500, probability: 0.04 };
+    const draws = binomialSample(params, { count: 5000, seed: 11 });
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+    expect(draws).toEqual(binomialSample(params, { count: 5000, seed: 11 }));
+    expect(draws.every(Number.isInteger)).toBe(true);
+    expect(mean).toBeCloseTo(20, 0);
+  });
+});
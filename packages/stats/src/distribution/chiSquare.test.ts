@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { chiSquarePdf, chiSquareCdf, chiSquareQuantile, chiSquareSample } from "./chiSquare";
+
+describe("chiSquarePdf", () => {
+  it("should match the exponential form when df = 2", () => {
+    for (const x of [0.5, 2, 7]) {
+      expect(chiSquarePdf({ df: 2 }, x)).toBeCloseTo(0.5 * Math.exp(-x / 2), 14);
+    }
+  });
+});
+
+describe("chiSquareCdf", () => {
+  it("should match published critical values", () => {
+    expect(chiSquareCdf({ df: 1 }, 3.841459)).toBeCloseTo(0.95, 6);
+    expect(chiSquareCdf({ df: 4 }, 9.487729)).toBeCloseTo(0.95, 6);
+    expect(chiSquareCdf({ df: 10 }, 23.209251)).toBeCloseTo(0.99, 6);
+  });
+
+  it("should support partial application and invalid arguments", () => {
+    const cdf = chiSquareCdf({ df: 2 });
+    expect(cdf(2)).toBeCloseTo(1 - Math.exp(-1), 14);
+    expect(chiSquareCdf({ df: 0 }, 1)).toBeNaN();
+    expect(chiSquareCdf({ df: 3 }, -1)).toBe(0);
+  });
+});
+
+describe("chiSquareQuantile", () => {
+  it("should match published critical values", () => {
+    expect(chiSquareQuantile({ df: 1 }, 0.95)).toBeCloseTo(3.841459, 6);
+    expect(chiSquareQuantile({ df: 2 }, 0.95)).toBeCloseTo(5.991465, 6);
+    expect(chiSquareQuantile({ df: 4 }, 0.95)).toBeCloseTo(9.487729, 6);
+    expect(chiSquareQuantile({ df: 1 }, 0.99)).toBeCloseTo(6.634897, 6);
+    expect(chiSquareQuantile({ df: 10 }, 0.05)).toBeCloseTo(3.940299, 6);
+  });
+});
+
+describe("chiSquareSample", () => {
+  it("should have mean df and variance 2·df", () => {
+    const draws = chiSquareSample({ df: 3 }, { count: 20000, seed: 5 });
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+    const variance = draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (draws.length - 1);
+    expect(mean).toBeCloseTo(3, 1);
+    expect(variance / 6).toBeCloseTo(1, 1);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { fPdf, fCdf, fQuantile, fSample } from "./f";
+
+describe("fPdf", () => {
+  it("should match the closed form when df1 = df2 = 2", () => {
+    for (const x of [0.5, 1, 4]) {
+      expect(fPdf({ df1: 2, df2: 2 }, x)).toBeCloseTo(1 / (1 + x) ** 2, 14);
+    }
+  });
+
+  it("should handle the boundary at zero", () => {
+    expect(fPdf({ df1: 1, df2: 5 }, 0)).toBe(Infinity);
+    expect(fPdf({ df1: 2, df2: 5 }, 0)).toBe(1);
+    expect(fPdf({ df1: 3, df2: 5 }, 0)).toBe(0);
+  });
+});
+
+describe("fCdf", () => {
+  it("should match the closed form when df1 = df2 = 2", () => {
+    expect(fCdf({ df1: 2, df2: 2 }, 3)).toBeCloseTo(0.75, 14);
+  });
+
+  it("should match published critical values", () => {
+    expect(fCdf({ df1: 3, df2: 20 }, 3.098391)).toBeCloseTo(0.95, 6);
+    expect(fCdf({ df1: 1, df2: 10 }, 4.964603)).toBeCloseTo(0.95, 6);
+  });
+
+  it("should handle boundary and invalid arguments", () => {
+    expect(fCdf({ df1: 3, df2: 20 }, 0)).toBe(0);
+    expect(fCdf({ df1: 3, df2: 20 }, Infinity)).toBe(1);
+    expect(fCdf({ df1: 0, df2: 20 }, 1)).toBeNaN();
+  });
+});
+
+describe("fQuantile", () => {
+  it("should match published critical values", () => {
+    expect(fQuantile({ df1: 2, df2: 27 }, 0.95)).toBeCloseTo(3.354131, 6);
+    expect(fQuantile({ df1: 3, df2: 20 }, 0.95)).toBeCloseTo(3.098391, 6);
+    expect(fQuantile({ df1: 5, df2: 10 }, 0.95)).toBeCloseTo(3.325835, 6);
+    expect(fQuantile({ df1: 1, df2: 10 }, 0.99)).toBeCloseTo(10.044289, 6);
+  });
+
+  it("should equal the squared t quantile when df1 = 1", () => {
+    // F(1, ν) is the square of t(ν): the 95% F quantile is the 97.5% t quantile squared.
+    expect(fQuantile({ df1: 1, df2: 10 }, 0.95)).toBeCloseTo(2.228139 ** 2, 5);
+  });
+});
+
+describe("fSample", () => {
+  it("should have mean df2 / (df2 - 2)", () => {
+    const draws = fSample({ df1: 4, df2: 12 }, { count: 20000, seed: 9 });
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+    expect(mean).toBeCloseTo(1.2, 1);
+  });
+});
@@ -0,0 +1,141 @@
+import { curry } from "@facta/fp";
+import type { FParameters, SampleOptions } from "./types";
+import { logBeta, regularizedIncompleteBeta } from "./special";
+import { uniformSource, standardGammaVariate, bisectQuantile } from "./util";
+
+/**
+ * Whether the F distribution parameters are valid.
+ */
+const isValidF = ({ df1, df2 }: FParameters): boolean => df1 > 0 && df2 > 0;
+
+/**
+ * Compute P(X ≤ x) for positive x.
+ */
+const lowerTail = (df1: number, df2: number, x: number): number =>
+  regularizedIncompleteBeta(df1 / 2, df2 / 2, (df1 * x) / (df1 * x + df2));
+
+/**
+ * Compute P(X > x) for positive x directly, rather than as `1 - P(X ≤ x)`, so upper tails keep their precision.
+ */
+const upperTail = (df1: number, df2: number, x: number): number =>
+  regularizedIncompleteBeta(df2 / 2, df1 / 2, df2 / (df2 + df1 * x));
+
+/**
+ * Computes the probability density function of the F distribution.
+ *
+ * @param {FParameters} params - The distribution parameters, `{ df1, df2 }`.
+ * @param {number} x - The value at which to evaluate the density.
+ * @returns {number} The density at `x` (0 for negative `x`), or NaN for invalid arguments.
+ *
+ * @example
+ * fPdf({ df1: 2, df2: 2 }, 1); // 0.25, or 1 / (1 + x)²
+ *
+ * @description
+ * Evaluated in log space, so large degrees of freedom do not overflow.
+ */
+export const fPdf = curry((params: FParameters, x: number): number => {
+  const { df1, df2 } = params;
+  if (!isValidF(params) || isNaN(x)) {
+    return NaN;
+  }
+  if (x < 0) {
+    return 0;
+  }
+  if (x === 0) {
+    return df1 < 2 ? Infinity : df1 === 2 ? 1 : 0;
+  }
+  return Math.exp(
+    0.5 * (df1 * Math.log(df1 * x) + df2 * Math.log(df2) - (df1 + df2) * Math.log(df1 * x + df2)) -
+      Math.log(x) -
+      logBeta(df1 / 2, df2 / 2)
+  );
+});
+
+/**
+ * Computes the cumulative distribution function of the F distribution, P(X ≤ x).
+ *
+ * @param {FParameters} params - The distribution parameters, `{ df1, df2 }`.
+ * @param {number} x - The value at which to evaluate the CDF.
+ * @returns {number} The probability that an F-distributed variable is less than or equal to `x`,
+ * or NaN for invalid arguments.
+ *
+ * @example
+ * fCdf({ df1: 3, df2: 20 }, 3.098391); // ≈ 0.95
+ *
+ * @description
+ * Evaluated through the regularized incomplete beta function, `I_(d₁x / (d₁x + d₂))(d₁ / 2, d₂ / 2)`.
+ * Used to turn F statistics, such as those of ANOVA and nested regression models, into p-values.
+ */
+export const fCdf = curry((params: FParameters, x: number): number => {
+  if (!isValidF(params) || isNaN(x)) {
+    return NaN;
+  }
+  if (x === Infinity) {
+    return 1;
+  }
+  return x <= 0 ? 0 : lowerTail(params.df1, params.df2, x);
+});
+
+/**
+ * Computes the quantile function (inverse CDF) of the F distribution.
+ *
+ * @param {FParameters} params - The distribution parameters, `{ df1, df2 }`.
+ * @param {number} p - The cumulative probability, between 0 and 1.
+ * @returns {number} The value `x` such that P(X ≤ x) = p. Returns 0 for `p = 0`, Infinity for `p = 1`,
+ * and NaN for invalid arguments.
+ *
+ * @example
+ * fQuantile({ df1: 2, df2: 27 }, 0.95); // ≈ 3.354131, the 5% critical value for a three-group ANOVA of 30 values
+ *
+ * @description
+ * Solved numerically by bracketing and bisection, on the lower tail for p ≤ 0.5 and the upper tail otherwise,
+ * to a relative tolerance of about 1e-13.
+ */
+export const fQuantile = curry((params: FParameters, p: number): number => {
+  const { df1, df2 } = params;
+  if (!isValidF(params) || isNaN(p) || p < 0 || p > 1) {
+    return NaN;
+  }
+  if (p === 0) {
+    return 0;
+  }
+  if (p === 1) {
+    return Infinity;
+  }
+  return bisectQuantile(
+    (x) => lowerTail(df1, df2, x),
+    (x) => upperTail(df1, df2, x),
+    p,
+    0,
+    Infinity
+  );
+});
+
+/**
+ * Draws a random sample from the F distribution.
+ *
+ * @param {FParameters} params - The distribution parameters, `{ df1, df2 }`.
+ * @param {SampleOptions} options - The sample size `count` and an optional `seed`; the same seed always gives the
+ * same sample.
+ * @returns {number[]} `count` independent draws, or NaN values if the parameters are invalid.
+ * @throws {RangeError} If `count` is not a non-negative integer.
+ *
+ * @example
+ * const draws = fSample({ df1: 4, df2: 12 }, { count: 100, seed: 9 });
+ *
+ * @description
+ * Each draw is the ratio `(U / d₁) / (V / d₂)` of independent chi-square variables.
+ */
+export const fSample = curry((params: FParameters, options: SampleOptions): number[] => {
+  const uniform = uniformSource(options);
+  const { df1, df2 } = params;
+  const valid = isValidF(params);
+  return Array.from({ length: options.count }, () => {
+    if (!valid) {
+      return NaN;
+    }
+    const u = standardGammaVariate(uniform, df1 / 2) / df1;
+    const v = standardGammaVariate(uniform, df2 / 2) / df2;
+    return u / v;
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { gammaPdf, gammaCdf, gammaQuantile, gammaSample } from "./gamma";
+
+describe("gammaPdf", () => {
+  it("should match the closed forms", () => {
+    expect(gammaPdf({ shape: 2, scale: 3 }, 3)).toBeCloseTo(Math.exp(-1) / 3, 14);
+    // The exponential distribution with rate 1/2
+    expect(gammaPdf({ shape: 1, scale: 2 }, 1)).toBeCloseTo(0.5 * Math.exp(-0.5), 14);
+  });
+
+  it("should not overflow for large shapes", () => {
+    // Approximately normal with mean 1000 and standard deviation √1000
+    expect(gammaPdf({ shape: 1000, scale: 1 }, 1000)).toBeCloseTo(1 / Math.sqrt(2 * Math.PI * 1000), 5);
+  });
+
+  it("should handle the boundary at zero", () => {
+    expect(gammaPdf({ shape: 0.5, scale: 1 }, 0)).toBe(Infinity);
+    expect(gammaPdf({ shape: 1, scale: 4 }, 0)).toBe(0.25);
+    expect(gammaPdf({ shape: 3, scale: 1 }, 0)).toBe(0);
+    expect(gammaPdf({ shape: 3, scale: 1 }, -1)).toBe(0);
+  });
+});
+
+describe("gammaCdf", () => {
+  it("should match the closed forms", () => {
+    expect(gammaCdf({ shape: 1, scale: 2 }, 2)).toBeCloseTo(1 - Math.exp(-1), 14);
+    // Erlang(2): 1 - e^(-x)·(1 + x)
+    expect(gammaCdf({ shape: 2, scale: 1 }, 3)).toBeCloseTo(1 - 4 * Math.exp(-3), 14);
+  });
+
+  it("should return NaN for invalid parameters", () => {
+    expect(gammaCdf({ shape: 0, scale: 1 }, 1)).toBeNaN();
+    expect(gammaCdf({ shape: 1, scale: -1 }, 1)).toBeNaN();
+  });
+});
+
+describe("gammaQuantile", () => {
+  it("should match the closed forms", () => {
+    expect(gammaQuantile({ shape: 1, scale: 1 }, 0.5)).toBeCloseTo(Math.LN2, 12);
+    expect(gammaQuantile({ shape: 1, scale: 10 }, 0.99)).toBeCloseTo(10 * Math.log(100), 10);
+  });
+
+  it("should invert gammaCdf in both tails", () => {
+    const params = { shape: 2.5, scale: 0.4 };
+    for (const p of [1e-10, 0.01, 0.5, 0.9, 1 - 1e-10]) {
+      const x = gammaQuantile(params, p);
+      if (p > 0.5) {
+        expect((1 - gammaCdf(params, x)) / (1 - p)).toBeCloseTo(1, 4);
+      } else {
+        expect(gammaCdf(params, x) / p).toBeCloseTo(1, 9);
+      }
+    }
+  });
+
+  it("should handle boundary arguments", () => {
+    expect(gammaQuantile({ shape: 2, scale: 1 }, 0)).toBe(0);
+    expect(gammaQuantile({ shape: 2, scale: 1 }, 1)).toBe(Infinity);
+    expect(gammaQuantile({ shape: 2, scale: 1 }, -0.1)).toBeNaN();
+  });
+});
+
+describe("gammaSample", () => {
+  it("should be reproducible from a seed", () => {
+    const params = { shape: 2, scale: 3 };
+    expect(gammaSample(params, { count: 5, seed: 1 })).toEqual(gammaSample(params, { count: 5, seed: 1 }));
+    expect(gammaSample(params, { count: 5, seed: 1 })).not.toEqual(gammaSample(params, { count: 5, seed: 2 }));
+  });
+
+  it("should have the expected mean and variance", () => {
+    for (const shape of [0.3, 2, 9]) {
+      const draws = gammaSample({ shape, scale: 2 }, { count: 20000, seed: 42 });
+      const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+      const variance = draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (draws.length - 1);
+      expect(mean / (2 * shape)).toBeCloseTo(1, 1);
+      expect(variance / (4 * shape)).toBeCloseTo(1, 1);
+    }
+  });
+
+  it("should return NaN values for invalid parameters and throw for an invalid count", () => {
+    expect(gammaSample({ shape: -1, scale: 1 }, { count: 2, seed: 1 })).toEqual([NaN, NaN]);
+    expect(() => gammaSample({ shape: 1, scale: 1 }, { count: 1.5 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,121 @@
+import { curry } from "@facta/fp";
+import type { GammaParameters, SampleOptions } from "./types";
+import { logGamma, regularizedLowerGamma, regularizedUpperGamma } from "./special";
+import { uniformSource, standardGammaVariate, bisectQuantile } from "./util";
+
+/**
+ * Whether the gamma distribution parameters are valid.
+ */
+const isValidGamma = ({ shape, scale }: GammaParameters): boolean =>
+  shape > 0 && scale > 0 && Number.isFinite(shape) && Number.isFinite(scale);
+
+/**
+ * Computes the probability density function of the gamma distribution.
+ *
+ * @param {GammaParameters} params - The distribution parameters, `{ shape, scale }`.
+ * @param {number} x - The value at which to evaluate the density.
+ * @returns {number} The density at `x` (0 for negative `x`), or NaN for invalid arguments.
+ *
+ * @example
+ * gammaPdf({ shape: 2, scale: 3 }, 3); // ≈ 0.122626, or e⁻¹ / 3
+ *
+ * @description
+ * Evaluated in log space, `(k - 1)·ln x - x / θ - ln Γ(k) - k·ln θ`, so large shapes do not overflow.
+ */
+export const gammaPdf = curry((params: GammaParameters, x: number): number => {
+  const { shape, scale } = params;
+  if (!isValidGamma(params) || isNaN(x)) {
+    return NaN;
+  }
+  if (x < 0) {
+    return 0;
+  }
+  if (x === 0) {
+    return shape < 1 ? Infinity : shape === 1 ? 1 / scale : 0;
+  }
+  return Math.exp((shape - 1) * Math.log(x) - x / scale - logGamma(shape) - shape * Math.log(scale));
+});
+
+/**
+ * Computes the cumulative distribution function of the gamma distribution, P(X ≤ x).
+ *
+ * @param {GammaParameters} params - The distribution parameters, `{ shape, scale }`.
+ * @param {number} x - The value at which to evaluate the CDF.
+ * @returns {number} The probability that a gamma-distributed variable is less than or equal to `x`,
+ * or NaN for invalid arguments.
+ *
+ * @example
+ * gammaCdf({ shape: 1, scale: 2 }, 2); // ≈ 0.632121, or 1 - e⁻¹ (the exponential distribution)
+ *
+ * @description
+ * The regularized lower incomplete gamma function `P(k, x / θ)`. Used for waiting times and positive,
+ * right-skewed quantities such as durations.
+ */
+export const gammaCdf = curry((params: GammaParameters, x: number): number => {
+  if (!isValidGamma(params) || isNaN(x)) {
+    return NaN;
+  }
+  return x <= 0 ? 0 : regularizedLowerGamma(params.shape, x / params.scale);
+});
+
+/**
+ * Computes the quantile function (inverse CDF) of the gamma distribution.
+ *
+ * @param {GammaParameters} params - The distribution parameters, `{ shape, scale }`.
+ * @param {number} p - The cumulative probability, between 0 and 1.
+ * @returns {number} The value `x` such that P(X ≤ x) = p. Returns 0 for `p = 0`, Infinity for `p = 1`,
+ * and NaN for invalid arguments.
+ *
+ * @example
+ * gammaQuantile({ shape: 1, scale: 1 }, 0.5); // ≈ 0.693147, or ln 2
+ *
+ * @description
+ * Solved numerically by bracketing and bisection, on the lower tail for p ≤ 0.5 and the upper tail otherwise,
+ * to a relative tolerance of about 1e-13.
+ */
+export const gammaQuantile = curry((params: GammaParameters, p: number): number => {
+  const { shape, scale } = params;
+  if (!isValidGamma(params) || isNaN(p) || p < 0 || p > 1) {
+    return NaN;
+  }
+  if (p === 0) {
+    return 0;
+  }
+  if (p === 1) {
+    return Infinity;
+  }
+  return (
+    scale *
+    bisectQuantile(
+      (y) => regularizedLowerGamma(shape, y),
+      (y) => regularizedUpperGamma(shape, y),
+      p,
+      0,
+      Infinity
+    )
+  );
+});
+
+/**
+ * Draws a random sample from the gamma distribution.
+ *
+ * @param {GammaParameters} params - The distribution parameters, `{ shape, scale }`.
+ * @param {SampleOptions} options - The sample size `count` and an optional `seed`; the same seed always gives the
+ * same sample.
+ * @returns {number[]} `count` independent draws, or NaN values if the parameters are invalid.
+ * @throws {RangeError} If `count` is not a non-negative integer.
+ *
+ * @example
+ * // Simulated session durations averaging 6 minutes
+ * const durations = gammaSample({ shape: 2, scale: 3 }, { count: 500, seed: 1 });
+ *
+ * @description
+ * Uses the Marsaglia–Tsang squeeze method, with shapes below 1 boosted by one and scaled back.
+ */
+export const gammaSample = curry((params: GammaParameters, options: SampleOptions): number[] => {
+  const uniform = uniformSource(options);
+  const valid = isValidGamma(params);
+  return Array.from({ length: options.count }, () =>
+    valid ? params.scale * standardGammaVariate(uniform, params.shape) : NaN
+  );
+});
@@ -0,0 +1,10 @@
+export * from "./special";
+export * from "./studentT";
+export * from "./normal";
+export * from "./chiSquare";
+export * from "./f";
+export * from "./gamma";
+export * from "./beta";
+export * from "./binomial";
+export * from "./poisson";
+export * from "./types";
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { normalPdf, normalCdf, normalQuantile, normalSample } from "./normal";
+
+const standard = { mean: 0, standardDeviation: 1 };
+
+describe("normalPdf", () => {
+  it("should match published values of the standard normal density", () => {
+    expect(normalPdf(standard, 0)).toBeCloseTo(0.3989422804014327, 15);
+    expect(normalPdf(standard, 1.5)).toBeCloseTo(0.12951759566589174, 15);
+  });
+
+  it("should scale by the mean and standard deviation", () => {
+    expect(normalPdf({ mean: 100, standardDeviation: 15 }, 115)).toBeCloseTo(normalPdf(standard, 1) / 15, 15);
+    expect(normalPdf({ mean: 0, standardDeviation: 0 }, 1)).toBeNaN();
+  });
+});
+
+describe("normalCdf", () => {
+  it("should match published values of the standard normal distribution", () => {
+    expect(normalCdf(standard, 0)).toBeCloseTo(0.5, 15);
+    expect(normalCdf(standard, 1)).toBeCloseTo(0.8413447460685429, 14);
+    expect(normalCdf(standard, 1.959963984540054)).toBeCloseTo(0.975, 14);
+    expect(normalCdf(standard, -2.5)).toBeCloseTo(0.006209665325776132, 15);
+  });
+
+  it("should keep relative precision far into the lower tail", () => {
+    // Φ(-10) ≈ 7.6198530241605e-24
+    expect(normalCdf(standard, -10) / 7.6198530241605e-24).toBeCloseTo(1, 10);
+  });
+
+  it("should scale by the mean and standard deviation", () => {
+    expect(normalCdf({ mean: 100, standardDeviation: 15 }, 115)).toBeCloseTo(normalCdf(standard, 1), 15);
+  });
+
+  it("should support partial application", () => {
+    const cdf = normalCdf(standard);
+    expect(cdf(0)).toBe(0.5);
+  });
+
+  it("should return NaN for invalid arguments", () => {
+    expect(normalCdf({ mean: 0, standardDeviation: 0 }, 1)).toBeNaN();
+    expect(normalCdf(standard, NaN)).toBeNaN();
+  });
+});
+
+describe("normalQuantile", () => {
+  it("should match published critical values", () => {
+    expect(normalQuantile(standard, 0.975)).toBeCloseTo(1.959963984540054, 12);
+    expect(normalQuantile(standard, 0.995)).toBeCloseTo(2.5758293035489, 12);
+    expect(normalQuantile(standard, 0.05)).toBeCloseTo(-1.6448536269514722, 12);
+    expect(normalQuantile(standard, 0.5)).toBeCloseTo(0, 15);
+  });
+
+  it("should invert normalCdf across the range", () => {
+    for (const p of [1e-12, 1e-5, 0.01, 0.3, 0.7, 0.99, 1 - 1e-9]) {
+      expect(normalCdf(standard, normalQuantile(standard, p)) / p).toBeCloseTo(1, 9);
+    }
+  });
+
+  it("should scale by the mean and standard deviation", () => {
+    expect(normalQuantile({ mean: 100, standardDeviation: 15 }, 0.975)).toBeCloseTo(100 + 15 * 1.959963984540054, 10);
+  });
+
+  it("should handle boundary and invalid arguments", () => {
+    expect(normalQuantile(standard, 0)).toBe(-Infinity);
+    expect(normalQuantile(standard, 1)).toBe(Infinity);
+    expect(normalQuantile(standard, 1.5)).toBeNaN();
+    expect(normalQuantile({ mean: 0, standardDeviation: -1 }, 0.5)).toBeNaN();
+  });
+});
+
+describe("normalSample", () => {
+  it("should be reproducible from a seed", () => {
+    const first = normalSample(standard, { count: 10, seed: 42 });
+    expect(first).toEqual(normalSample(standard, { count: 10, seed: 42 }));
+    expect(first).not.toEqual(normalSample(standard, { count: 10, seed: 43 }));
+  });
+
+  it("should have the requested mean and standard deviation", () => {
+    const draws = normalSample({ mean: 10, standardDeviation: 2 }, { count: 20000, seed: 1 });
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+    const variance = draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (draws.length - 1);
+    expect(mean).toBeCloseTo(10, 1);
+    expect(Math.sqrt(variance)).toBeCloseTo(2, 1);
+  });
+
+  it("should draw a different sample each time without a seed", () => {
+    expect(normalSample(standard, { count: 3 })).not.toEqual(normalSample(standard, { count: 3 }));
+  });
+
+  it("should return NaN values for invalid parameters and throw for an invalid count", () => {
+    expect(normalSample({ mean: 0, standardDeviation: -1 }, { count: 2, seed: 1 })).toEqual([NaN, NaN]);
+    expect(normalSample(standard, { count: 0, seed: 1 })).toEqual([]);
+    expect(() => normalSample(standard, { count: -1 })).toThrow(RangeError);
+  });
+});
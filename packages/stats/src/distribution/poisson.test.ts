@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { poissonPmf, poissonCdf, poissonQuantile, poissonSample } from "./poisson";
+
+describe("poissonPmf", () => {
+  it("should match exact values", () => {
+    expect(poissonPmf({ rate: 2 }, 0)).toBeCloseTo(Math.exp(-2), 15);
+    expect(poissonPmf({ rate: 2 }, 3)).toBeCloseTo((8 / 6) * Math.exp(-2), 14);
+  });
+
+  it("should not overflow for large counts", () => {
+    // Approximately normal with mean 10,000 and standard deviation 100
+    expect(poissonPmf({ rate: 1e4 }, 1e4)).toBeCloseTo(1 / (100 * Math.sqrt(2 * Math.PI)), 6);
+  });
+
+  it("should be zero off the support", () => {
+    expect(poissonPmf({ rate: 2 }, -1)).toBe(0);
+    expect(poissonPmf({ rate: 2 }, 1.5)).toBe(0);
+    expect(poissonPmf({ rate: 0 }, 1)).toBeNaN();
+  });
+});
+
+describe("poissonCdf", () => {
+  it("should equal the sum of the mass function", () => {
+    expect(poissonCdf({ rate: 8 }, 14)).toBeCloseTo(0.982743009602, 12);
+    expect(poissonCdf({ rate: 2 }, 1)).toBeCloseTo(3 * Math.exp(-2), 15);
+  });
+
+  it("should round non-integers down and handle the ends of the support", () => {
+    expect(poissonCdf({ rate: 8 }, 14.9)).toBe(poissonCdf({ rate: 8 }, 14));
+    expect(poissonCdf({ rate: 8 }, -1)).toBe(0);
+    expect(poissonCdf({ rate: 8 }, Infinity)).toBe(1);
+  });
+});
+
+describe("poissonQuantile", () => {
+  it("should return the smallest count reaching the probability", () => {
+    // P(X ≤ 14) = 0.9827 and P(X ≤ 15) = 0.9918
+    expect(poissonQuantile({ rate: 8 }, 0.99)).toBe(15);
+    expect(poissonQuantile({ rate: 2 }, 3 * Math.exp(-2))).toBe(1);
+    expect(poissonQuantile({ rate: 0.1 }, 0.5)).toBe(0);
+  });
+
+  it("should handle boundary arguments", () => {
+    expect(poissonQuantile({ rate: 8 }, 0)).toBe(0);
+    expect(poissonQuantile({ rate: 8 }, 1)).toBe(Infinity);
+    expect(poissonQuantile({ rate: 8 }, -0.5)).toBeNaN();
+  });
+});
+
+describe("poissonSample", () => {
+  it("should have mean and variance equal to the rate", () => {
+    const draws = poissonSample({ rate: 8 }, { count: 20000, seed: 2 });
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+    const variance = draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (draws.length - 1);
+    expect(mean).toBeCloseTo(8, 1);
+    expect(variance / 8).toBeCloseTo(1, 1);
+  });
+});
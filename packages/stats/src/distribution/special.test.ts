@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  logGamma,
+  logBeta,
+  regularizedIncompleteBeta,
+  regularizedLowerGamma,
+  regularizedUpperGamma,
+} from "./special";
+
+describe("logGamma", () => {
+  it("should match ln((n - 1)!) for positive integers", () => {
+    expect(logGamma(1)).toBeCloseTo(0, 12);
+    expect(logGamma(2)).toBeCloseTo(0, 12);
+    expect(logGamma(5)).toBeCloseTo(Math.log(24), 12);
+    expect(logGamma(11)).toBeCloseTo(Math.log(3628800), 10);
+  });
+
+  it("should match known values at half integers", () => {
+    expect(logGamma(0.5)).toBeCloseTo(Math.log(Math.sqrt(Math.PI)), 12);
+    expect(logGamma(1.5)).toBeCloseTo(Math.log(Math.sqrt(Math.PI) / 2), 12);
+  });
+
+  it("should handle large arguments without overflow", () => {
+    // ln Γ(171) = ln(170!) ≈ 706.5731
+    expect(logGamma(171)).toBeCloseTo(706.5731, 3);
+    expect(Number.isFinite(logGamma(1e6))).toBe(true);
+  });
+
+  it("should return NaN for non-positive values", () => {
+    expect(logGamma(0)).toBeNaN();
+    expect(logGamma(-1)).toBeNaN();
+  });
+});
+
+describe("logBeta", () => {
+  it("should match B(a, b) = Γ(a)Γ(b) / Γ(a + b)", () => {
+    expect(logBeta(1, 1)).toBeCloseTo(0, 12);
+    expect(logBeta(2, 3)).toBeCloseTo(Math.log(1 / 12), 12);
+  });
+});
+
+describe("regularizedIncompleteBeta", () => {
+  it("should equal x for the uniform case a = b = 1", () => {
+    expect(regularizedIncompleteBeta(1, 1, 0.3)).toBeCloseTo(0.3, 12);
+    expect(regularizedIncompleteBeta(1, 1, 0.9)).toBeCloseTo(0.9, 12);
+  });
+
+  it("should equal x^a when b = 1", () => {
+    expect(regularizedIncompleteBeta(3, 1, 0.5)).toBeCloseTo(0.125, 12);
+    expect(regularizedIncompleteBeta(2.5, 1, 0.7)).toBeCloseTo(0.7 ** 2.5, 12);
+  });
+
+  it("should be one half at x = 0.5 for symmetric shapes", () => {
+    expect(regularizedIncompleteBeta(4, 4, 0.5)).toBeCloseTo(0.5, 12);
+    expect(regularizedIncompleteBeta(50, 50, 0.5)).toBeCloseTo(0.5, 12);
+  });
+
+  it("should satisfy I_x(a, b) = 1 - I_(1-x)(b, a)", () => {
+    const value = regularizedIncompleteBeta(2, 5, 0.2);
+    expect(value).toBeCloseTo(1 - regularizedIncompleteBeta(5, 2, 0.8), 12);
+    // Closed form for I_0.2(2, 5) = 1 - (1 + 5·0.2)·0.8^5
+    expect(value).toBeCloseTo(1 - 2 * 0.8 ** 5, 12);
+  });
+
+  it("should return the bounds at the ends of the interval", () => {
+    expect(regularizedIncompleteBeta(2, 3, 0)).toBe(0);
+    expect(regularizedIncompleteBeta(2, 3, 1)).toBe(1);
+  });
+
+  it("should return NaN for invalid arguments", () => {
+    expect(regularizedIncompleteBeta(0, 1, 0.5)).toBeNaN();
+    expect(regularizedIncompleteBeta(1, 1, 1.5)).toBeNaN();
+  });
+});
+
+describe("regularizedLowerGamma and regularizedUpperGamma", () => {
+  it("should match the exponential distribution when a = 1", () => {
+    for (const x of [0.1, 1, 5, 20]) {
+      expect(regularizedLowerGamma(1, x)).toBeCloseTo(1 - Math.exp(-x), 12);
+      expect(regularizedUpperGamma(1, x)).toBeCloseTo(Math.exp(-x), 12);
+    }
+  });
+
+  it("should match the closed form for a = 2", () => {
+    // P(2, x) = 1 - (1 + x)e^(-x)
+    for (const x of [0.5, 3, 10]) {
+      expect(regularizedLowerGamma(2, x)).toBeCloseTo(1 - (1 + x) * Math.exp(-x), 12);
+    }
+  });
+
+  it("should sum to one", () => {
+    for (const [a, x] of [[0.5, 0.2], [3.5, 2], [10, 15], [50, 40]]) {
+      expect(regularizedLowerGamma(a, x) + regularizedUpperGamma(a, x)).toBeCloseTo(1, 12);
+    }
+  });
+
+  it("should keep relative precision far into the upper tail", () => {
+    // Q(1, 50) = e^-50
+    expect(regularizedUpperGamma(1, 50) / Math.exp(-50)).toBeCloseTo(1, 10);
+  });
+
+  it("should handle boundary and invalid arguments", () => {
+    expect(regularizedLowerGamma(2, 0)).toBe(0);
+    expect(regularizedUpperGamma(2, 0)).toBe(1);
+    expect(regularizedLowerGamma(2, Infinity)).toBe(1);
+    expect(regularizedUpperGamma(2, Infinity)).toBe(0);
+    expect(regularizedLowerGamma(0, 1)).toBeNaN();
+    expect(regularizedUpperGamma(2, -1)).toBeNaN();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { studentTPdf, studentTCdf, studentTQuantile, studentTSample } from "./studentT";
+
+describe("studentTPdf", () => {
+  it("should match the Cauchy density when df = 1", () => {
+    expect(studentTPdf({ df: 1 }, 0)).toBeCloseTo(1 / Math.PI, 14);
+    expect(studentTPdf({ df: 1 }, 2)).toBeCloseTo(1 / (5 * Math.PI), 14);
+  });
+
+  it("should approach the normal density for large df", () => {
+    expect(studentTPdf({ df: 1e7 }, 1)).toBeCloseTo(0.24197072451914337, 6);
+    expect(studentTPdf({ df: 0 }, 1)).toBeNaN();
+  });
+});
+
+describe("studentTCdf", () => {
+  it("should match the Cauchy distribution when df = 1", () => {
+    expect(studentTCdf({ df: 1 }, 0)).toBeCloseTo(0.5, 12);
+    expect(studentTCdf({ df: 1 }, 1)).toBeCloseTo(0.75, 12);
+    expect(studentTCdf({ df: 1 }, -1)).toBeCloseTo(0.25, 12);
+  });
+
+  it("should match the closed form when df = 2", () => {
+    for (const t of [-3, -0.5, 0.7, 4]) {
+      expect(studentTCdf({ df: 2 }, t)).toBeCloseTo(0.5 + t / (2 * Math.sqrt(2 + t * t)), 12);
+    }
+  });
+
+  it("should match published critical values", () => {
+    expect(studentTCdf({ df: 10 }, 2.228)).toBeCloseTo(0.975, 4);
+    expect(studentTCdf({ df: 20 }, 2.845)).toBeCloseTo(0.995, 4);
+    expect(studentTCdf({ df: 5 }, -2.015)).toBeCloseTo(0.05, 4);
+  });
+
+  it("should support partial application", () => {
+    const cdf = studentTCdf({ df: 1 });
+    expect(cdf(1)).toBeCloseTo(0.75, 12);
+  });
+
+  it("should handle infinite and invalid arguments", () => {
+    expect(studentTCdf({ df: 3 }, Infinity)).toBe(1);
+    expect(studentTCdf({ df: 3 }, -Infinity)).toBe(0);
+    expect(studentTCdf({ df: 0 }, 1)).toBeNaN();
+    expect(studentTCdf({ df: 3 }, NaN)).toBeNaN();
+  });
+});
+
+describe("studentTQuantile", () => {
+  it("should match published two-sided 95% critical values", () => {
+    expect(studentTQuantile({ df: 1 }, 0.975)).toBeCloseTo(12.706, 3);
+    expect(studentTQuantile({ df: 2 }, 0.975)).toBeCloseTo(4.303, 3);
+    expect(studentTQuantile({ df: 5 }, 0.975)).toBeCloseTo(2.571, 3);
+    expect(studentTQuantile({ df: 10 }, 0.975)).toBeCloseTo(2.228, 3);
+    expect(studentTQuantile({ df: 30 }, 0.975)).toBeCloseTo(2.042, 3);
+  });
+
+  it("should match published one-sided critical values", () => {
+    expect(studentTQuantile({ df: 10 }, 0.95)).toBeCloseTo(1.812, 3);
+    expect(studentTQuantile({ df: 20 }, 0.995)).toBeCloseTo(2.845, 3);
+  });
+
+  it("should be symmetric around zero", () => {
+    expect(studentTQuantile({ df: 7 }, 0.5)).toBe(0);
+    expect(studentTQuantile({ df: 7 }, 0.1)).toBeCloseTo(-studentTQuantile({ df: 7 }, 0.9), 10);
+  });
+
+  it("should invert studentTCdf", () => {
+    for (const p of [0.001, 0.2, 0.6, 0.999]) {
+      const t = studentTQuantile({ df: 4.5 }, p);
+      expect(studentTCdf({ df: 4.5 }, t)).toBeCloseTo(p, 10);
+    }
+  });
+
+  it("should handle boundary and invalid probabilities", () => {
+    expect(studentTQuantile({ df: 3 }, 0)).toBe(-Infinity);
+    expect(studentTQuantile({ df: 3 }, 1)).toBe(Infinity);
+    expect(studentTQuantile({ df: 3 }, 1.2)).toBeNaN();
+    expect(studentTQuantile({ df: -1 }, 0.5)).toBeNaN();
+  });
+});
+
+describe("studentTSample", () => {
+  it("should be reproducible and have variance df / (df - 2)", () => {
+    const draws = studentTSample({ df: 5 }, { count: 20000, seed: 7 });
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+    const variance = draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (draws.length - 1);
+    expect(draws).toEqual(studentTSample({ df: 5 }, { count: 20000, seed: 7 }));
+    expect(mean).toBeCloseTo(0, 1);
+    expect(variance / (5 / 3)).toBeCloseTo(1, 1);
+  });
+});
@@ -0,0 +1,121 @@
+import type { Random } from "../random/types";
+
+/**
+ * Parameters of the Student's t-distribution.
+ */
+export interface StudentTParameters {
+  /**
+   * The degrees of freedom. Must be positive; need not be an integer.
+   */
+  df: number;
+}
+
+/**
+ * Parameters of the normal (Gaussian) distribution.
+ */
+export interface NormalParameters {
+  /**
+   * The mean, the centre of the distribution.
+   */
+  mean: number;
+  /**
+   * The standard deviation, the spread of the distribution. Must be positive.
+   */
+  standardDeviation: number;
+}
+
+/**
+ * Parameters of the chi-square distribution.
+ */
+export interface ChiSquareParameters {
+  /**
+   * The degrees of freedom. Must be positive; need not be an integer.
+   */
+  df: number;
+}
+
+/**
+ * Parameters of the F distribution.
+ */
+export interface FParameters {
+  /**
+   * The numerator degrees of freedom. Must be positive.
+   */
+  df1: number;
+  /**
+   * The denominator degrees of freedom. Must be positive.
+   */
+  df2: number;
+}
+
+/**
+ * Parameters of the gamma distribution, in the shape–scale parameterisation.
+ */
+export interface GammaParameters {
+  /**
+   * The shape k. Must be positive.
+   */
+  shape: number;
+  /**
+   * The scale θ, the reciprocal of the rate. Must be positive.
+   */
+  scale: number;
+}
+
+/**
+ * Parameters of the beta distribution.
+ */
+export interface BetaParameters {
+  /**
+   * The first shape parameter α. Must be positive.
+   */
+  alpha: number;
+  /**
+   * The second shape parameter β. Must be positive.
+   */
+  beta: number;
+}
+
+/**
+ * Parameters of the binomial distribution.
+ */
+export interface BinomialParameters {
+  /**
+   * The number of independent trials. Must be a non-negative integer.
+   */
+  trials: number;
+  /**
+   * The probability of success in each trial, between 0 and 1.
+   */
+  probability: number;
+}
+
+/**
+ * Parameters of the Poisson distribution.
+ */
+export interface PoissonParameters {
+  /**
+   * The expected number of events, λ. Must be positive.
+   */
+  rate: number;
+}
+
+/**
+ * Options for drawing random samples from a distribution.
+ */
+export interface SampleOptions {
+  /**
+   * The number of values to draw. Must be a non-negative integer.
+   */
+  count: number;
+  /**
+   * The seed of the random number generator; the same seed always gives the same sample.
+   * When omitted, a seed is chosen at random.
+   */
+  seed?: number;
+  /**
+   * A generator to draw from instead of seeding a new one, so that several samples can share one reproducible stream.
+   * Takes precedence over `seed`.
+   */
+  random?: Random;
+}
@@ -0,0 +1,137 @@
+import type { SampleOptions } from "./types";
+import { createRandom } from "../random";
+
+/**
+ * The relative tolerance to which continuous quantiles are solved.
+ */
+const QUANTILE_TOLERANCE = 1e-13;
+
+/**
+ * The largest number of bisection steps taken when solving a quantile.
+ */
+const MAX_BISECTIONS = 1100;
+
+/**
+ * A source of uniformly distributed numbers in [0, 1).
+ */
+export type UniformSource = () => number;
+
+/**
+ * Check the sample options and return their source of uniform numbers: the supplied generator, or a new one
+ * created from the seed.
+ *
+ * @param {SampleOptions} options - The sample options.
+ * @returns {UniformSource} - A generator whose sequence is determined by `options.random` or `options.seed`.
+ * @throws {RangeError} If `count` is not a non-negative integer.
+ */
+export function uniformSource(options: SampleOptions): UniformSource {
+  if (!Number.isInteger(options.count) || options.count < 0) {
+    throw new RangeError(`The sample count must be a non-negative integer. Received ${options.count}.`);
+  }
+  return (options.random ?? createRandom(options.seed)).uniform;
+}
+
+/**
+ * Draw a standard normal value using the Box–Muller transform.
+ *
+ * @param {UniformSource} uniform - The source of uniform numbers.
+ * @returns {number} - A draw from N(0, 1).
+ */
+export function standardNormalVariate(uniform: UniformSource): number {
+  // 1 - u lies in (0, 1], so the logarithm is finite.
+  return Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+/**
+ * Draw a value from the gamma distribution with unit scale using the Marsaglia–Tsang method.
+ *
+ * @param {UniformSource} uniform - The source of uniform numbers.
+ * @param {number} shape - The shape k. Must be positive.
+ * @returns {number} - A draw from Gamma(k, 1).
+ */
+export function standardGammaVariate(uniform: UniformSource, shape: number): number {
+  if (shape < 1) {
+    // Boost the shape above 1 and scale back: if X ~ Gamma(k + 1) and U ~ U(0, 1), X·U^(1/k) ~ Gamma(k).
+    return standardGammaVariate(uniform, shape + 1) * Math.pow(1 - uniform(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = standardNormalVariate(uniform);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - uniform();
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+/**
+ * Solve for the quantile of a continuous distribution by bracketing and bisection on its CDF, which is monotonic.
+ *
+ * @param {(x: number) => number} cdf - The cumulative distribution function.
+ * @param {(x: number) => number} survival - The survival function, `1 - cdf(x)`, evaluated directly. Used for
+ * upper quantiles so that p close to 1 keeps its precision.
+ * @param {number} p - The cumulative probability, strictly between 0 and 1.
+ * @param {number} lower - The lower end of the support.
+ * @param {number} upper - The upper end of the support, which may be Infinity.
+ * @returns {number} - The value x such that cdf(x) = p, to a relative tolerance of about 1e-13.
+ */
+export function bisectQuantile(
+  cdf: (x: number) => number,
+  survival: (x: number) => number,
+  p: number,
+  lower: number,
+  upper: number
+): number {
+  const below = p > 0.5 ? (x: number) => survival(x) > 1 - p : (x: number) => cdf(x) < p;
+
+  let low = lower;
+  let high = Number.isFinite(upper) ? upper : Math.max(1, lower + 1);
+  while (!Number.isFinite(upper) && below(high)) {
+    low = high;
+    high *= 2;
+  }
+
+  for (let i = 0; i < MAX_BISECTIONS && high - low > QUANTILE_TOLERANCE * Math.abs(high); i++) {
+    const mid = (low + high) / 2;
+    if (mid === low || mid === high) {
+      break;
+    }
+    if (below(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Find the quantile of a discrete distribution on the non-negative integers: the smallest k with cdf(k) ≥ p.
+ * The search starts from a normal approximation and steps to the answer.
+ *
+ * @param {(k: number) => number} cdf - The cumulative distribution function.
+ * @param {number} p - The cumulative probability, strictly between 0 and 1.
+ * @param {number} guess - An approximate quantile from which to start.
+ * @param {number} upper - The largest value in the support, which may be Infinity.
+ * @returns {number} - The quantile.
+ */
+export function searchQuantile(cdf: (k: number) => number, p: number, guess: number, upper: number): number {
+  // Allow for rounding in the CDF, so that p = cdf(k) returns k rather than k + 1.
+  const target = p * (1 - 64 * Number.EPSILON);
+  let k = Math.min(upper, Math.max(0, Math.round(guess)));
+  while (k < upper && cdf(k) < target) {
+    k++;
+  }
+  while (k > 0 && cdf(k - 1) >= target) {
+    k--;
+  }
+  return k;
+}
+
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { oneWayAnova } from "./anova";
+
+// Dobson (1983), p. 9, R's PlantGrowth data set.
+const control = [4.17, 5.58, 5.18, 6.11, 4.5, 4.61, 5.17, 4.53, 5.33, 5.14];
+const treatment1 = [4.81, 4.17, 4.41, 3.59, 5.87, 3.83, 6.03, 4.89, 4.32, 4.69];
+const treatment2 = [6.31, 5.12, 5.54, 5.5, 5.37, 5.29, 4.92, 6.15, 5.8, 5.26];
+
+describe("oneWayAnova", () => {
+  it("should match R's anova", () => {
+    const result = oneWayAnova({ precision: 4 }, [control, treatment1, treatment2]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.test).toBe("anova");
+    expect(result.statistic).toBeCloseTo(4.8461, 4);
+    expect(result.df).toEqual([2, 27]);
+    expect(result.pValue).toBeCloseTo(0.01591, 5);
+    expect(result.n).toEqual([10, 10, 10]);
+  });
+
+  it("should report η² with a confidence interval that excludes zero when significant at 2.5%", () => {
+    const result = oneWayAnova({}, [control, treatment1, treatment2]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    // SS between 3.766, SS within 10.492
+    expect(result.effectSize.measure).toBe("etaSquared");
+    expect(result.effectSize.value).toBe(0.26);
+    expect(result.effectSize.ci![0]).toBeGreaterThan(0);
+    expect(result.effectSize.ci![0]).toBeLessThan(0.26);
+    expect(result.effectSize.ci![1]).toBeGreaterThan(0.26);
+    expect(result.effectSize.ci![1]).toBeLessThan(1);
+  });
+
+  it("should give an η² interval starting at zero when the groups do not differ", () => {
+    const result = oneWayAnova({}, [
+      [1, 2, 3, 4],
+      [2, 1, 4, 3],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.statistic).toBe(0);
+    expect(result.pValue).toBe(1);
+    expect(result.effectSize.ci![0]).toBe(0);
+  });
+
+  it("should accept groups of different sizes", () => {
+    const result = oneWayAnova({}, [[1, 2], [5, 6, 7], [1.5]]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.df).toEqual([2, 3]);
+    expect(result.n).toEqual([2, 3, 1]);
+  });
+
+  it("should return errors for too few groups, too few observations and zero variance", () => {
+    const oneGroup = oneWayAnova({}, [[1, 2, 3]]);
+    const tooFew = oneWayAnova({}, [[1], [2]]);
+    const empty = oneWayAnova({}, [[1, 2], []]);
+    const constant = oneWayAnova({}, [[1, 1], [2, 2]]);
+
+    if (oneGroup.ok || tooFew.ok || empty.ok || constant.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(oneGroup.errorType).toBe("InsufficientData");
+    expect(tooFew.errorType).toBe("InsufficientData");
+    expect(empty.errorType).toBe("InsufficientData");
+    expect(constant.errorType).toBe("DegenerateInput");
+  });
+});
@@ -0,0 +1,117 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_HYPOTHESIS_OPTIONS } from "./const";
+import type { HypothesisTestOptions, HypothesisTestResult } from "./types";
+import {
+  validateConfidence,
+  validateSample,
+  zeroVarianceError,
+  isConstant,
+  fSurvival,
+  noncentralFCdf,
+  noncentralityInterval,
+} from "./util";
+import { round } from "../regression/util";
+import { arithmeticMean } from "../descriptive/util";
+
+/**
+ * Performs a one-way analysis of variance (ANOVA), testing whether two or more groups share the same mean by
+ * comparing the variation between group means with the variation within groups.
+ *
+ * @param {Partial<HypothesisTestOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `precision` and `confidenceLevel`.
+ * @param {number[][]} groups - The samples, one array per group. Expects at least two non-empty groups, more
+ * observations than groups, and some variation within groups.
+ * @returns {HypothesisTestResult} A discriminant union representing the success or failure of the test.
+ * - If successful (`ok: true`), it returns the F `statistic`, `df` as `[between, within]`, the `pValue`, and η²,
+ * the proportion of variance explained by the groups, with a confidence interval found by inverting the noncentral
+ * F distribution.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // Conversion rates across three pricing pages
+ * const result = oneWayAnova({}, [[3.1, 2.8, 3.4], [3.9, 4.2, 3.7], [3.0, 3.3, 2.9]]);
+ * if (result.ok && result.pValue < 0.05) {
+ * console.log(`The pages differ; η² = ${result.effectSize.value}`);
+ * }
+ *
+ * @description
+ * **Insights derived from ANOVA:**
+ * - **Multi-Variant Tests:** Whether any of several variants differs, without the inflated false-positive rate of
+ * running every pairwise t-test.
+ * - **Magnitude:** η² shows how much of the variation the grouping explains.
+ * - **Caution:** A significant result says some means differ, not which; assumes similar variances within groups.
+ */
+export const oneWayAnova = curry((
+  suppliedOptions: Partial<HypothesisTestOptions>,
+  groups: number[][]
+): HypothesisTestResult => {
+  const options: HypothesisTestOptions = { ...DEFAULT_HYPOTHESIS_OPTIONS, ...suppliedOptions };
+
+  const confidenceError = validateConfidence(options.confidenceLevel);
+  if (confidenceError) {
+    return confidenceError;
+  }
+
+  if (groups.length < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `One-way ANOVA requires at least 2 groups. Received ${groups.length}.`,
+    };
+  }
+
+  for (let i = 0; i < groups.length; i++) {
+    const error = validateSample(groups[i], `Group ${i} of the ANOVA`, 1);
+    if (error) {
+      return error;
+    }
+  }
+
+  const k = groups.length;
+  const sizes = groups.map((group) => group.length);
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+
+  if (total <= k) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `One-way ANOVA with ${k} groups requires more than ${k} observations in total. Received ${total}.`,
+    };
+  }
+
+  const means = groups.map(arithmeticMean);
+  const grandMean = groups.reduce((sum, group) => sum + group.reduce((s, value) => s + value, 0), 0) / total;
+  const ssBetween = means.reduce((sum, mean, i) => sum + sizes[i] * (mean - grandMean) ** 2, 0);
+  const ssWithin = groups.reduce(
+    (sum, group, i) => sum + group.reduce((s, value) => s + (value - means[i]) ** 2, 0),
+    0
+  );
+
+  if (isConstant(ssWithin, total, grandMean)) {
+    return zeroVarianceError("all values within each group are identical");
+  }
+
+  const dfBetween = k - 1;
+  const dfWithin = total - k;
+  const f = ssBetween / dfBetween / (ssWithin / dfWithin);
+  const etaSquared = ssBetween / (ssBetween + ssWithin);
+  // η² = λ / (λ + N) for a noncentrality λ (Steiger, 2004).
+  const [low, high] = noncentralityInterval(
+    (lambda) => noncentralFCdf(f, dfBetween, dfWithin, lambda),
+    options.confidenceLevel
+  );
+
+  return {
+    ok: true,
+    test: "anova",
+    statistic: round(f, options.precision),
+    df: [dfBetween, dfWithin],
+    pValue: fSurvival(f, dfBetween, dfWithin),
+    effectSize: {
+      measure: "etaSquared",
+      value: round(etaSquared, options.precision),
+      ci: [round(low / (low + total), options.precision), round(high / (high + total), options.precision)],
+    },
+    n: sizes,
+  };
+});
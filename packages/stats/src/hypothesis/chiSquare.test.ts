@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { chiSquareIndependence, chiSquareGoodnessOfFit } from "./chiSquare";
+
+describe("chiSquareIndependence", () => {
+  // Agresti (2007), p. 39: party identification by gender, as used in the examples for R's chisq.test.
+  const table = [
+    [762, 327, 468],
+    [484, 239, 477],
+  ];
+
+  it("should match R's chisq.test", () => {
+    const result = chiSquareIndependence({ precision: 3 }, table);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.test).toBe("chiSquareIndependence");
+    expect(result.statistic).toBeCloseTo(30.07, 2);
+    expect(result.df).toBe(2);
+    expect(result.pValue).toBeCloseTo(2.954e-7, 9);
+    expect(result.n).toEqual([2757]);
+  });
+
+  it("should report Cramér's V with a confidence interval", () => {
+    const result = chiSquareIndependence({ precision: 3 }, table);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    // √(30.07 / 2757)
+    expect(result.effectSize.measure).toBe("cramersV");
+    expect(result.effectSize.value).toBe(0.104);
+    expect(result.effectSize.ci![0]).toBeGreaterThan(0.05);
+    expect(result.effectSize.ci![0]).toBeLessThan(0.104);
+    expect(result.effectSize.ci![1]).toBeGreaterThan(0.104);
+    expect(result.effectSize.ci![1]).toBeLessThan(0.15);
+  });
+
+  it("should give a V of 1 for a perfectly associated table", () => {
+    const result = chiSquareIndependence({}, [
+      [20, 0],
+      [0, 20],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.statistic).toBe(40);
+    expect(result.effectSize.value).toBe(1);
+  });
+
+  it("should return errors for small, ragged, negative and empty tables", () => {
+    const small = chiSquareIndependence({}, [[1, 2]]);
+    const ragged = chiSquareIndependence({}, [[1, 2], [3]]);
+    const negative = chiSquareIndependence({}, [[1, -2], [3, 4]]);
+    const emptyColumn = chiSquareIndependence({}, [[1, 0], [3, 0]]);
+
+    if (small.ok || ragged.ok || negative.ok || emptyColumn.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(small.errorType).toBe("InsufficientData");
+    expect(ragged.errorType).toBe("InvalidInput");
+    expect(negative.errorType).toBe("InvalidInput");
+    expect(emptyColumn.errorType).toBe("DegenerateInput");
+    expect(emptyColumn.message).toContain("column 1");
+  });
+});
+
+describe("chiSquareGoodnessOfFit", () => {
+  it("should test against equal proportions by default", () => {
+    // Expected 33.3 each: χ² = (16.7² + 3.3² + 13.3²) / 33.3 = 14, and with 2 df the p-value is e^(-7).
+    const result = chiSquareGoodnessOfFit({}, [50, 30, 20]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.test).toBe("chiSquareGoodnessOfFit");
+    expect(result.statistic).toBe(14);
+    expect(result.df).toBe(2);
+    expect(result.pValue).toBeCloseTo(Math.exp(-7), 10);
+    expect(result.effectSize.measure).toBe("cohensW");
+    expect(result.effectSize.value).toBe(0.37);
+  });
+
+  it("should rescale expected values that do not sum to 1", () => {
+    const proportions = chiSquareGoodnessOfFit({ expected: [0.5, 0.25, 0.25] }, [52, 23, 25]);
+    const counts = chiSquareGoodnessOfFit({ expected: [50, 25, 25] }, [52, 23, 25]);
+
+    expect(proportions).toEqual(counts);
+  });
+
+  it("should detect a sample ratio mismatch", () => {
+    const result = chiSquareGoodnessOfFit({ expected: [0.5, 0.5] }, [5210, 4790]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.statistic).toBe(17.64);
+    expect(result.pValue).toBeLessThan(0.0001);
+  });
+
+  it("should return errors for invalid categories and expected proportions", () => {
+    const oneCategory = chiSquareGoodnessOfFit({}, [10]);
+    const mismatched = chiSquareGoodnessOfFit({ expected: [1, 1] }, [1, 2, 3]);
+    const zeroExpected = chiSquareGoodnessOfFit({ expected: [1, 0] }, [1, 2]);
+    const noCounts = chiSquareGoodnessOfFit({}, [0, 0]);
+
+    if (oneCategory.ok || mismatched.ok || zeroExpected.ok || noCounts.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(oneCategory.errorType).toBe("InsufficientData");
+    expect(mismatched.errorType).toBe("InvalidInput");
+    expect(zeroExpected.errorType).toBe("InvalidInput");
+    expect(noCounts.errorType).toBe("InsufficientData");
+  });
+});
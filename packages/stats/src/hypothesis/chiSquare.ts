@@ -0,0 +1,236 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_GOODNESS_OF_FIT_OPTIONS, DEFAULT_HYPOTHESIS_OPTIONS } from "./const";
+import type { GoodnessOfFitOptions, HypothesisTestError, HypothesisTestOptions, HypothesisTestResult } from "./types";
+import { validateConfidence, chiSquareSurvival, noncentralChiSquareCdf, noncentralityInterval } from "./util";
+import { round, isValid } from "../regression/util";
+
+/**
+ * Check that counts are finite and non-negative.
+ */
+const validateCounts = (counts: number[], where: string): HypothesisTestError | null => {
+  const invalidIndex = counts.findIndex((count) => !isValid(count) || count < 0);
+  if (invalidIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `${where} has an invalid count at index ${invalidIndex} (${counts[invalidIndex]}). Counts must be finite and non-negative.`,
+    };
+  }
+  return null;
+};
+
+/**
+ * Convert the bounds of a noncentrality interval into bounds for an effect size of the form `√(χ² / scale)`,
+ * capped at 1.
+ */
+const effectInterval = (
+  statistic: number,
+  df: number,
+  scale: number,
+  confidenceLevel: number,
+  cap: number
+): [number, number] => {
+  const [low, high] = noncentralityInterval((lambda) => noncentralChiSquareCdf(statistic, df, lambda), confidenceLevel);
+  return [Math.min(cap, Math.sqrt(low / scale)), Math.min(cap, Math.sqrt(high / scale))];
+};
+
+/**
+ * Performs Pearson's chi-square test of independence, testing whether the row and column categories of a
+ * contingency table are associated, such as whether the conversion rate depends on the variant shown.
+ *
+ * @param {Partial<HypothesisTestOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `precision` and `confidenceLevel`.
+ * @param {number[][]} table - The contingency table of counts, one row per category of the first variable and one
+ * column per category of the second. Expects at least two rows and two columns, none of them empty.
+ * @returns {HypothesisTestResult} A discriminant union representing the success or failure of the test.
+ * - If successful (`ok: true`), it returns the χ² `statistic` with `(rows - 1)·(columns - 1)` `df`, the `pValue`,
+ * and Cramér's V with a confidence interval found by inverting the noncentral chi-square distribution.
+ * No continuity correction is applied.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // Conversions and non-conversions for two variants
+ * const result = chiSquareIndependence({}, [[120, 880], [150, 850]]);
+ * if (result.ok && result.pValue < 0.05) {
+ * console.log(`Conversion depends on the variant (V = ${result.effectSize.value})`);
+ * }
+ *
+ * @description
+ * **Insights derived from the chi-square test of independence:**
+ * - **Categorical A/B Tests:** Whether the mix of outcomes differs between groups.
+ * - **Magnitude:** Cramér's V shows how strong the association is, independent of the sample size.
+ * - **Caution:** The approximation is unreliable when expected counts fall below about 5.
+ */
+export const chiSquareIndependence = curry((
+  suppliedOptions: Partial<HypothesisTestOptions>,
+  table: number[][]
+): HypothesisTestResult => {
+  const options: HypothesisTestOptions = { ...DEFAULT_HYPOTHESIS_OPTIONS, ...suppliedOptions };
+
+  const confidenceError = validateConfidence(options.confidenceLevel);
+  if (confidenceError) {
+    return confidenceError;
+  }
+
+  const rows = table.length;
+  const columns = rows > 0 ? table[0].length : 0;
+  if (rows < 2 || columns < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `The chi-square test of independence requires a table with at least 2 rows and 2 columns. Received ${rows}×${columns}.`,
+    };
+  }
+
+  for (let i = 0; i < rows; i++) {
+    if (table[i].length !== columns) {
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: `Row ${i} of the contingency table has ${table[i].length} counts but ${columns} were expected.`,
+      };
+    }
+    const error = validateCounts(table[i], `Row ${i} of the contingency table`);
+    if (error) {
+      return error;
+    }
+  }
+
+  const rowTotals = table.map((row) => row.reduce((sum, count) => sum + count, 0));
+  const columnTotals = table[0].map((_, j) => table.reduce((sum, row) => sum + row[j], 0));
+  const total = rowTotals.reduce((sum, count) => sum + count, 0);
+
+  const emptyRow = rowTotals.indexOf(0);
+  const emptyColumn = columnTotals.indexOf(0);
+  if (emptyRow !== -1 || emptyColumn !== -1) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message: `Cannot perform the chi-square test: ${emptyRow !== -1 ? `row ${emptyRow}` : `column ${emptyColumn}`} of the contingency table has no counts, so its expected counts are zero.`,
+    };
+  }
+
+  let statistic = 0;
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < columns; j++) {
+      const expected = (rowTotals[i] * columnTotals[j]) / total;
+      statistic += (table[i][j] - expected) ** 2 / expected;
+    }
+  }
+
+  const df = (rows - 1) * (columns - 1);
+  const scale = total * (Math.min(rows, columns) - 1);
+  const ci = effectInterval(statistic, df, scale, options.confidenceLevel, 1);
+
+  return {
+    ok: true,
+    test: "chiSquareIndependence",
+    statistic: round(statistic, options.precision),
+    df,
+    pValue: chiSquareSurvival(statistic, df),
+    effectSize: {
+      measure: "cramersV",
+      value: round(Math.min(1, Math.sqrt(statistic / scale)), options.precision),
+      ci: [round(ci[0], options.precision), round(ci[1], options.precision)],
+    },
+    n: [total],
+  };
+});
+
+/**
+ * Performs Pearson's chi-square goodness-of-fit test, testing whether observed counts match expected proportions,
+ * such as whether traffic is split evenly between variants (a sample ratio mismatch check).
+ *
+ * @param {Partial<GoodnessOfFitOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `precision`, `confidenceLevel` and `expected`, the expected proportion of each category.
+ * @param {number[]} observed - The observed count of each category. Expects at least two categories and a
+ * positive total.
+ * @returns {HypothesisTestResult} A discriminant union representing the success or failure of the test.
+ * - If successful (`ok: true`), it returns the χ² `statistic` with `categories - 1` `df`, the `pValue`, and
+ * Cohen's w with a confidence interval found by inverting the noncentral chi-square distribution.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "InsufficientData") and a `message`.
+ *
+ * @example
+ * // A 50/50 split that delivered 5,210 and 4,790 users
+ * const result = chiSquareGoodnessOfFit({ expected: [0.5, 0.5] }, [5210, 4790]);
+ * // result.pValue is about 0.00003, so the split is not working as intended
+ *
+ * @description
+ * **Insights derived from the chi-square goodness-of-fit test:**
+ * - **Sample Ratio Mismatch:** Detects traffic splits that deviate from the intended allocation.
+ * - **Distribution Checks:** Whether categories occur in the expected proportions, such as uniform weekday traffic.
+ */
+export const chiSquareGoodnessOfFit = curry((
+  suppliedOptions: Partial<GoodnessOfFitOptions>,
+  observed: number[]
+): HypothesisTestResult => {
+  const options: GoodnessOfFitOptions = { ...DEFAULT_GOODNESS_OF_FIT_OPTIONS, ...suppliedOptions };
+
+  const confidenceError = validateConfidence(options.confidenceLevel);
+  if (confidenceError) {
+    return confidenceError;
+  }
+
+  const k = observed.length;
+  if (k < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `The chi-square goodness-of-fit test requires at least 2 categories. Received ${k}.`,
+    };
+  }
+
+  const countError = validateCounts(observed, "The observed counts");
+  if (countError) {
+    return countError;
+  }
+
+  const proportions = options.expected ?? observed.map(() => 1);
+  if (proportions.length !== k) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `${proportions.length} expected proportions were supplied for ${k} categories. Supply one per category.`,
+    };
+  }
+  const invalidExpected = proportions.findIndex((value) => !isValid(value) || value <= 0);
+  if (invalidExpected !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The expected proportion at index ${invalidExpected} is ${proportions[invalidExpected]}. Expected proportions must be finite and positive.`,
+    };
+  }
+
+  const total = observed.reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: "The chi-square goodness-of-fit test requires at least one observation. All counts are zero.",
+    };
+  }
+
+  const proportionTotal = proportions.reduce((sum, value) => sum + value, 0);
+  const statistic = observed.reduce((sum, count, i) => {
+    const expected = (total * proportions[i]) / proportionTotal;
+    return sum + (count - expected) ** 2 / expected;
+  }, 0);
+
+  const df = k - 1;
+  const ci = effectInterval(statistic, df, total, options.confidenceLevel, Infinity);
+
+  return {
+    ok: true,
+    test: "chiSquareGoodnessOfFit",
+    statistic: round(statistic, options.precision),
+    df,
+    pValue: chiSquareSurvival(statistic, df),
+    effectSize: {
+      measure: "cohensW",
+      value: round(Math.sqrt(statistic / total), options.precision),
+      ci: [round(ci[0], options.precision), round(ci[1], options.precision)],
+    },
+    n: [total],
+  };
+});
@@ -0,0 +1,34 @@
+import type { GoodnessOfFitOptions, HypothesisTestOptions, LocationTestOptions, MannWhitneyOptions } from "./types";
+
+/**
+ * Default options for hypothesis tests.
+ */
+export const DEFAULT_HYPOTHESIS_OPTIONS: HypothesisTestOptions = {
+  precision: 2,
+  confidenceLevel: 0.95,
+};
+
+/**
+ * Default options for location tests.
+ */
+export const DEFAULT_LOCATION_OPTIONS: LocationTestOptions = {
+  ...DEFAULT_HYPOTHESIS_OPTIONS,
+  alternative: "twoSided",
+};
+
+/**
+ * Default options for the Mann–Whitney U test.
+ */
+export const DEFAULT_MANN_WHITNEY_OPTIONS: MannWhitneyOptions = {
+  ...DEFAULT_LOCATION_OPTIONS,
+  exact: null,
+  continuityCorrection: true,
+};
+
+/**
+ * Default options for the chi-square goodness-of-fit test.
+ */
+export const DEFAULT_GOODNESS_OF_FIT_OPTIONS: GoodnessOfFitOptions = {
+  ...DEFAULT_HYPOTHESIS_OPTIONS,
+  expected: null,
+};
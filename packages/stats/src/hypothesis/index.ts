@@ -0,0 +1,6 @@
+export * from "./tTest";
+export * from "./anova";
+export * from "./chiSquare";
+export * from "./mannWhitney";
+export * from "./kolmogorovSmirnov";
+export * from "./types";
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { kolmogorovSmirnov } from "./kolmogorovSmirnov";
+
+describe("kolmogorovSmirnov", () => {
+  it("should find the largest distance between the empirical distributions", () => {
+    const result = kolmogorovSmirnov({}, [
+      [1, 2, 3, 4, 5],
+      [6, 7, 8, 9, 10],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    // λ = (√2.5 + 0.12 + 0.11 / √2.5)·1, so p ≈ 2·exp(-2λ²)
+    expect(result.test).toBe("kolmogorovSmirnov");
+    expect(result.statistic).toBe(1);
+    expect(result.df).toBeNull();
+    expect(result.pValue).toBeCloseTo(0.00378, 5);
+    expect(result.effectSize).toEqual({ measure: "ksD", value: 1 });
+    expect(result.n).toEqual([5, 5]);
+  });
+
+  it("should detect a difference in spread that leaves the mean unchanged", () => {
+    const narrow = Array.from({ length: 40 }, (_, i) => 10 + ((i % 8) - 3.5) * 0.1);
+    const wide = Array.from({ length: 40 }, (_, i) => 10 + ((i % 8) - 3.5) * 2);
+    const result = kolmogorovSmirnov({}, [narrow, wide]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.statistic).toBe(0.5);
+    expect(result.pValue).toBeLessThan(0.001);
+  });
+
+  it("should not let tied values inflate the statistic", () => {
+    const result = kolmogorovSmirnov({}, [
+      [1, 2, 2, 3],
+      [1, 2, 2, 3],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.statistic).toBe(0);
+    expect(result.pValue).toBe(1);
+  });
+
+  it("should return errors for empty and non-finite samples", () => {
+    const empty = kolmogorovSmirnov({}, [[1], []]);
+    const invalid = kolmogorovSmirnov({}, [[1, Infinity], [2]]);
+
+    if (empty.ok || invalid.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(empty.errorType).toBe("InsufficientData");
+    expect(invalid.errorType).toBe("InvalidInput");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { mannWhitneyU } from "./mannWhitney";
+
+// Hollander & Wolfe (1973), p. 69, as used in the examples for R's wilcox.test.
+const x = [0.8, 0.83, 1.89, 1.04, 1.45, 1.38, 1.91, 1.64, 0.73, 1.46];
+const y = [1.15, 0.88, 0.9, 0.74, 1.21];
+
+describe("mannWhitneyU", () => {
+  it("should match R's exact wilcox.test", () => {
+    const greater = mannWhitneyU({ alternative: "greater" }, [x, y]);
+    const twoSided = mannWhitneyU({}, [x, y]);
+
+    if (!greater.ok || !twoSided.ok) {
+      throw new Error("Expected successful test results");
+    }
+    expect(greater.test).toBe("mannWhitney");
+    expect(greater.statistic).toBe(35);
+    expect(greater.df).toBeNull();
+    expect(greater.pValue).toBeCloseTo(0.1272, 4);
+    expect(twoSided.pValue).toBeCloseTo(0.2544, 4);
+  });
+
+  it("should report the rank-biserial correlation", () => {
+    const result = mannWhitneyU({}, [x, y]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    // 2·35 / 50 - 1
+    expect(result.effectSize.measure).toBe("rankBiserial");
+    expect(result.effectSize.value).toBe(0.4);
+    expect(result.effectSize.ci![0]).toBeLessThan(0);
+    expect(result.effectSize.ci![1]).toBeGreaterThan(0.4);
+  });
+
+  it("should use the tie-corrected normal approximation when values are tied", () => {
+    // U = 2.5; σ² = (25 / 12)·(11 - 36 / 90), so z = (2.5 - 12.5 + 0.5) / 4.699
+    const result = mannWhitneyU({}, [
+      [1, 2, 2, 3, 4],
+      [3, 4, 4, 5, 6],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.statistic).toBe(2.5);
+    expect(result.pValue).toBeCloseTo(0.0432, 4);
+  });
+
+  it("should agree closely with the normal approximation when asked not to be exact", () => {
+    const exact = mannWhitneyU({}, [x, y]);
+    const approximate = mannWhitneyU({ exact: false }, [x, y]);
+
+    if (!exact.ok || !approximate.ok) {
+      throw new Error("Expected successful test results");
+    }
+    expect(approximate.pValue).not.toBe(exact.pValue);
+    expect(approximate.pValue).toBeCloseTo(exact.pValue, 1);
+  });
+
+  it("should give the smallest exact p-value for completely separated samples", () => {
+    const result = mannWhitneyU({}, [
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    // Two of the 20 equally likely rank arrangements are as extreme.
+    expect(result.statistic).toBe(0);
+    expect(result.pValue).toBeCloseTo(0.1, 10);
+    expect(result.effectSize.value).toBe(-1);
+  });
+
+  it("should return errors for empty samples and identical values", () => {
+    const empty = mannWhitneyU({}, [[], [1, 2]]);
+    const identical = mannWhitneyU({}, [
+      [3, 3],
+      [3, 3, 3],
+    ]);
+
+    if (empty.ok || identical.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(empty.errorType).toBe("InsufficientData");
+    expect(identical.errorType).toBe("DegenerateInput");
+  });
+});
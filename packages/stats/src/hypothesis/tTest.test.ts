@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { welchTTest, pairedTTest } from "./tTest";
+
+// Student's (1908) sleep data, as used in the examples for R's t.test.
+const drug1 = [0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0];
+const drug2 = [1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4];
+
+describe("welchTTest", () => {
+  it("should match R's t.test", () => {
+    const result = welchTTest({ precision: 4 }, [drug1, drug2]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.test).toBe("welchT");
+    expect(result.statistic).toBeCloseTo(-1.8608, 4);
+    expect(result.df).toBeCloseTo(17.776, 3);
+    expect(result.pValue).toBeCloseTo(0.07939, 5);
+    expect(result.estimate).toBe(-1.58);
+    expect(result.ci![0]).toBeCloseTo(-3.3655, 4);
+    expect(result.ci![1]).toBeCloseTo(0.2055, 4);
+    expect(result.n).toEqual([10, 10]);
+  });
+
+  it("should report Cohen's d with the pooled standard deviation", () => {
+    const result = welchTTest({}, [drug1, drug2]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.effectSize).toEqual({ measure: "cohensD", value: -0.83, ci: [-1.75, 0.08] });
+  });
+
+  it("should give a one-sided interval and halve the p-value for a one-sided alternative", () => {
+    const result = welchTTest({ alternative: "less" }, [drug1, drug2]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.pValue).toBeCloseTo(0.07939 / 2, 5);
+    expect(result.ci![0]).toBe(-Infinity);
+    expect(result.ci![1]).toBeCloseTo(-0.11, 2);
+  });
+
+  it("should allow one sample to be constant", () => {
+    const result = welchTTest({}, [[5, 5, 5, 5], [6, 7, 8, 7]]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.df).toBe(3);
+    expect(result.pValue).toBeLessThan(0.05);
+  });
+
+  it("should return errors for small samples and zero variance", () => {
+    const tooFew = welchTTest({}, [[1], [2, 3]]);
+    const constant = welchTTest({}, [[5, 5, 5], [7, 7]]);
+    const invalid = welchTTest({}, [[1, NaN], [2, 3]]);
+
+    if (tooFew.ok || constant.ok || invalid.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(tooFew.errorType).toBe("InsufficientData");
+    expect(constant.errorType).toBe("DegenerateInput");
+    expect(invalid.errorType).toBe("InvalidInput");
+  });
+});
+
+describe("pairedTTest", () => {
+  it("should match R's paired t.test", () => {
+    const result = pairedTTest({ precision: 4 }, [drug1, drug2]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    expect(result.test).toBe("pairedT");
+    expect(result.statistic).toBeCloseTo(-4.0621, 4);
+    expect(result.df).toBe(9);
+    expect(result.pValue).toBeCloseTo(0.002833, 6);
+    expect(result.ci![0]).toBeCloseTo(-2.4599, 4);
+    expect(result.ci![1]).toBeCloseTo(-0.7001, 4);
+  });
+
+  it("should report Cohen's d of the differences", () => {
+    const result = pairedTTest({}, [drug1, drug2]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful test result");
+    }
+    // Mean difference -1.58 over a standard deviation of 1.23
+    expect(result.effectSize.measure).toBe("cohensD");
+    expect(result.effectSize.value).toBe(-1.28);
+    expect(result.effectSize.ci![0]).toBeLessThan(-1.28);
+    expect(result.effectSize.ci![1]).toBeGreaterThan(-1.28);
+  });
+
+  it("should return errors for mismatched samples and constant differences", () => {
+    const mismatched = pairedTTest({}, [[1, 2, 3], [1, 2]]);
+    const constant = pairedTTest({}, [[1, 2, 3], [2, 3, 4]]);
+    const tooFew = pairedTTest({}, [[1], [2]]);
+
+    if (mismatched.ok || constant.ok || tooFew.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(mismatched.errorType).toBe("InvalidInput");
+    expect(constant.errorType).toBe("DegenerateInput");
+    expect(tooFew.errorType).toBe("InsufficientData");
+  });
+});
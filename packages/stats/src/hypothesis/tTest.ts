@@ -0,0 +1,191 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_LOCATION_OPTIONS } from "./const";
+import type { HypothesisTestResult, LocationTestOptions, TwoSamples } from "./types";
+import {
+  validateConfidence,
+  validateSample,
+  zeroVarianceError,
+  isConstant,
+  alternativePValue,
+  estimateInterval,
+} from "./util";
+import { round } from "../regression/util";
+import { arithmeticMean } from "../descriptive/util";
+import { studentTCdf, studentTQuantile, normalQuantile } from "../distribution";
+
+/**
+ * Compute a normal-approximation confidence interval for Cohen's d (Hedges & Olkin, 1985).
+ */
+const cohensDInterval = (d: number, variance: number, confidenceLevel: number): [number, number] => {
+  const critical = normalQuantile({ mean: 0, standardDeviation: 1 }, 1 - (1 - confidenceLevel) / 2);
+  const halfWidth = critical * Math.sqrt(variance);
+  return [d - halfWidth, d + halfWidth];
+};
+
+/**
+ * Sum the squared deviations of values from their mean.
+ */
+const sumOfSquares = (values: number[], mean: number): number =>
+  values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+
+/**
+ * Performs Welch's two-sample t-test of whether two independent samples have the same mean. Unlike Student's t-test
+ * it does not assume the samples have equal variances, so it is the safer default for A/B comparisons.
+ *
+ * @param {Partial<LocationTestOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `precision`, `confidenceLevel` and `alternative`.
+ * @param {TwoSamples} samples - The two samples, `[a, b]`. Each needs at least two values, and at least one must vary.
+ * @returns {HypothesisTestResult} A discriminant union representing the success or failure of the test.
+ * - If successful (`ok: true`), it returns the t `statistic`, the Welch–Satterthwaite `df`, the `pValue`, the
+ * difference in means `estimate` (a - b) with its confidence interval `ci`, and Cohen's d using the pooled standard
+ * deviation, with a normal-approximation confidence interval.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // Time on page for two variants of a landing page
+ * const result = welchTTest({}, [[12.1, 14.3, 11.8, 13.5, 12.9], [15.2, 16.8, 14.1, 17.3, 15.9]]);
+ * if (result.ok && result.pValue < 0.05) {
+ * console.log(`Variant B differs by ${-result.estimate!} seconds (d = ${result.effectSize.value})`);
+ * }
+ *
+ * @description
+ * **Insights derived from Welch's t-test:**
+ * - **A/B Differences:** Whether a difference in average outcome between two groups is larger than chance would explain.
+ * - **Magnitude:** The interval for the difference and Cohen's d show whether a significant difference also matters.
+ * - **Caution:** Assumes roughly normal sample means; prefer `mannWhitneyU` for small, skewed samples.
+ */
+export const welchTTest = curry((
+  suppliedOptions: Partial<LocationTestOptions>,
+  samples: TwoSamples
+): HypothesisTestResult => {
+  const options: LocationTestOptions = { ...DEFAULT_LOCATION_OPTIONS, ...suppliedOptions };
+  const [a, b] = samples;
+
+  const error =
+    validateConfidence(options.confidenceLevel) ??
+    validateSample(a, "The first sample of Welch's t-test", 2) ??
+    validateSample(b, "The second sample of Welch's t-test", 2);
+  if (error) {
+    return error;
+  }
+
+  const n1 = a.length;
+  const n2 = b.length;
+  const mean1 = arithmeticMean(a);
+  const mean2 = arithmeticMean(b);
+  const ss1 = sumOfSquares(a, mean1);
+  const ss2 = sumOfSquares(b, mean2);
+
+  if (isConstant(ss1, n1, mean1) && isConstant(ss2, n2, mean2)) {
+    return zeroVarianceError("all values within each sample are identical");
+  }
+
+  const v1 = ss1 / (n1 - 1) / n1;
+  const v2 = ss2 / (n2 - 1) / n2;
+  const standardError = Math.sqrt(v1 + v2);
+  const df = (v1 + v2) ** 2 / (v1 ** 2 / (n1 - 1) + v2 ** 2 / (n2 - 1));
+  const difference = mean1 - mean2;
+  const t = difference / standardError;
+  const ci = estimateInterval(difference, standardError, studentTQuantile({ df }), options.confidenceLevel, options.alternative);
+
+  const pooledSd = Math.sqrt((ss1 + ss2) / (n1 + n2 - 2));
+  const d = difference / pooledSd;
+  const dCi = cohensDInterval(d, (n1 + n2) / (n1 * n2) + (d * d) / (2 * (n1 + n2)), options.confidenceLevel);
+
+  return {
+    ok: true,
+    test: "welchT",
+    statistic: round(t, options.precision),
+    df: round(df, options.precision),
+    pValue: alternativePValue(studentTCdf({ df }), t, options.alternative),
+    effectSize: {
+      measure: "cohensD",
+      value: round(d, options.precision),
+      ci: [round(dCi[0], options.precision), round(dCi[1], options.precision)],
+    },
+    estimate: round(difference, options.precision),
+    ci: [round(ci[0], options.precision), round(ci[1], options.precision)],
+    n: [n1, n2],
+  };
+});
+
+/**
+ * Performs the paired t-test of whether the mean difference between matched observations is zero, such as the same
+ * users measured before and after a change. Pairing removes the variation between subjects, so it is more powerful
+ * than a two-sample test when observations are genuinely matched.
+ *
+ * @param {Partial<LocationTestOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `precision`, `confidenceLevel` and `alternative`.
+ * @param {TwoSamples} samples - The matched samples, `[a, b]`, of equal length. Expects at least two pairs whose
+ * differences vary.
+ * @returns {HypothesisTestResult} A discriminant union representing the success or failure of the test.
+ * - If successful (`ok: true`), it returns the t `statistic` with `n - 1` `df`, the `pValue`, the mean difference
+ * `estimate` (a - b) with its confidence interval `ci`, and Cohen's d of the differences (d_z), with a
+ * normal-approximation confidence interval.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // Task completion time for the same users before and after a redesign
+ * const result = pairedTTest({ alternative: "greater" }, [[41, 38, 52, 47, 44], [36, 35, 45, 44, 40]]);
+ * // result.estimate is the average time saved
+ *
+ * @description
+ * **Insights derived from the paired t-test:**
+ * - **Before/After Changes:** Whether a change shifted a measure for the same subjects.
+ * - **Magnitude:** The interval for the mean difference shows the plausible size of the shift.
+ */
+export const pairedTTest = curry((
+  suppliedOptions: Partial<LocationTestOptions>,
+  samples: TwoSamples
+): HypothesisTestResult => {
+  const options: LocationTestOptions = { ...DEFAULT_LOCATION_OPTIONS, ...suppliedOptions };
+  const [a, b] = samples;
+
+  if (a.length !== b.length) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The paired t-test requires samples of equal length. Received ${a.length} and ${b.length}.`,
+    };
+  }
+
+  const differences = a.map((value, i) => value - b[i]);
+  const error =
+    validateConfidence(options.confidenceLevel) ?? validateSample(differences, "The paired t-test", 2);
+  if (error) {
+    return error;
+  }
+
+  const n = differences.length;
+  const mean = arithmeticMean(differences);
+  const ss = sumOfSquares(differences, mean);
+
+  if (isConstant(ss, n, mean)) {
+    return zeroVarianceError("every pair differs by the same amount");
+  }
+
+  const sd = Math.sqrt(ss / (n - 1));
+  const standardError = sd / Math.sqrt(n);
+  const df = n - 1;
+  const t = mean / standardError;
+  const ci = estimateInterval(mean, standardError, studentTQuantile({ df }), options.confidenceLevel, options.alternative);
+
+  const d = mean / sd;
+  const dCi = cohensDInterval(d, 1 / n + (d * d) / (2 * n), options.confidenceLevel);
+
+  return {
+    ok: true,
+    test: "pairedT",
+    statistic: round(t, options.precision),
+    df,
+    pValue: alternativePValue(studentTCdf({ df }), t, options.alternative),
+    effectSize: {
+      measure: "cohensD",
+      value: round(d, options.precision),
+      ci: [round(dCi[0], options.precision), round(dCi[1], options.precision)],
+    },
+    estimate: round(mean, options.precision),
+    ci: [round(ci[0], options.precision), round(ci[1], options.precision)],
+    n: [n, n],
+  };
+});
@@ -0,0 +1,166 @@
+/**
+ * The hypothesis tests that can be performed.
+ * - `welchT`: Welch's two-sample t-test, which does not assume equal variances.
+ * - `pairedT`: The paired t-test on the differences between matched observations.
+ * - `anova`: One-way analysis of variance across two or more groups.
+ * - `chiSquareIndependence`: Pearson's chi-square test of independence for a contingency table.
+ * - `chiSquareGoodnessOfFit`: Pearson's chi-square test of observed counts against expected proportions.
+ * - `mannWhitney`: The Mann–Whitney U (Wilcoxon rank-sum) test, a rank-based alternative to the t-test.
+ * - `kolmogorovSmirnov`: The Kolmogorov–Smirnov test of whether two samples share a distribution.
+ */
+export type HypothesisTestMethod =
+  | "welchT"
+  | "pairedT"
+  | "anova"
+  | "chiSquareIndependence"
+  | "chiSquareGoodnessOfFit"
+  | "mannWhitney"
+  | "kolmogorovSmirnov";
+
+/**
+ * The alternative hypothesis of a location test.
+ * - `twoSided`: The first sample differs from the second in either direction.
+ * - `less`: The first sample is smaller than the second.
+ * - `greater`: The first sample is larger than the second.
+ */
+export type Alternative = "twoSided" | "less" | "greater";
+
+/**
+ * The standardised measures of effect size.
+ * - `cohensD`: The difference in means in units of standard deviation.
+ * - `etaSquared`: The proportion of the total variance explained by group membership.
+ * - `cramersV`: The strength of association in a contingency table, between 0 and 1.
+ * - `cohensW`: The deviation of observed from expected proportions.
+ * - `rankBiserial`: The difference between the proportions of pairs in which each sample is larger, between -1 and 1.
+ * - `ksD`: The largest distance between the two empirical distribution functions, between 0 and 1.
+ */
+export type EffectSizeMeasure = "cohensD" | "etaSquared" | "cramersV" | "cohensW" | "rankBiserial" | "ksD";
+
+/**
+ * A standardised effect size, which, unlike a p-value, does not grow with the sample size.
+ */
+export interface EffectSize {
+  measure: EffectSizeMeasure;
+  /**
+   * The estimated effect size.
+   */
+  value: number;
+  /**
+   * The two-sided `[lower, upper]` confidence interval for the effect size at `confidenceLevel`.
+   * Omitted when no interval is defined.
+   */
+  ci?: [number, number];
+}
+
+/**
+ * The successful output of a hypothesis test.
+ */
+export interface HypothesisTestSuccess {
+  ok: true;
+  test: HypothesisTestMethod;
+  /**
+   * The test statistic: t, F, χ², U or D.
+   */
+  statistic: number;
+  /**
+   * The degrees of freedom of the reference distribution: `[between, within]` for ANOVA, and null for the
+   * rank-based Mann–Whitney and Kolmogorov–Smirnov tests.
+   */
+  df: number | [number, number] | null;
+  /**
+   * The p-value for the test's null hypothesis. Not rounded, so small values remain distinguishable.
+   */
+  pValue: number;
+  effectSize: EffectSize;
+  /**
+   * The estimated difference in means, for the t-tests.
+   */
+  estimate?: number;
+  /**
+   * The `[lower, upper]` confidence interval for `estimate` at `confidenceLevel`. One-sided alternatives give an
+   * interval that is unbounded on one side.
+   */
+  ci?: [number, number];
+  /**
+   * The number of observations in each sample, or the total count for the chi-square tests.
+   */
+  n: number[];
+}
+
+/**
+ * Interface for an unsuccessful hypothesis test, with the same shape as `RegressionError`.
+ */
+export interface HypothesisTestError {
+  ok: false;
+  /**
+   * The type of error that occurred.
+   * - `InsufficientData`: A sample is too small for the test.
+   * - `InvalidInput`: A value is not finite, samples are mismatched, or an option is out of range.
+   * - `DegenerateInput`: The data has zero variance, or a table has an empty row or column, so the test is undefined.
+   */
+  errorType: "InsufficientData" | "InvalidInput" | "DegenerateInput";
+  /**
+   * A message describing the error.
+   */
+  message: string;
+}
+
+/**
+ * Discriminant union type for the result of a hypothesis test.
+ */
+export type HypothesisTestResult = HypothesisTestSuccess | HypothesisTestError;
+
+/**
+ * Options for hypothesis tests.
+ */
+export interface HypothesisTestOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The confidence level for confidence intervals, between 0 and 1.
+   */
+  confidenceLevel: number;
+}
+
+/**
+ * Options for the tests that compare the location of two samples.
+ */
+export interface LocationTestOptions extends HypothesisTestOptions {
+  /**
+   * The alternative hypothesis.
+   */
+  alternative: Alternative;
+}
+
+/**
+ * Options for the Mann–Whitney U test.
+ */
+export interface MannWhitneyOptions extends LocationTestOptions {
+  /**
+   * Whether to use the exact distribution of U. When null, it is used for samples of fewer than 50 observations
+   * without ties, and the normal approximation otherwise.
+   */
+  exact: boolean | null;
+  /**
+   * Whether to apply a continuity correction to the normal approximation.
+   */
+  continuityCorrection: boolean;
+}
+
+/**
+ * Options for the chi-square goodness-of-fit test.
+ */
+export interface GoodnessOfFitOptions extends HypothesisTestOptions {
+  /**
+   * The expected proportion, or any values proportional to the expected count, of each category.
+   * When null, the categories are expected to be equally likely.
+   */
+  expected: number[] | null;
+}
+
+/**
+ * Two independent samples to compare.
+ */
+export type TwoSamples = [number[], number[]];
@@ -0,0 +1,248 @@
+import type { Alternative, HypothesisTestError } from "./types";
+import { isValid } from "../regression/util";
+import { logGamma, regularizedLowerGamma, regularizedUpperGamma, regularizedIncompleteBeta } from "../distribution";
+
+/**
+ * The spread, relative to the magnitude of the mean, below which values are treated as constant.
+ */
+const CONSTANT_TOLERANCE = 1e-12;
+
+/**
+ * The Poisson weights smaller than this are dropped from noncentral distribution sums.
+ */
+const WEIGHT_TOLERANCE = 1e-14;
+
+/**
+ * The absolute tolerance to which noncentrality parameters are solved.
+ */
+const NONCENTRALITY_TOLERANCE = 1e-8;
+
+/**
+ * Check that the confidence level is between 0 and 1 (exclusive).
+ *
+ * @param {number} confidenceLevel - The requested confidence level.
+ * @returns {HypothesisTestError | null} - The error to return, or null if the level is valid.
+ */
+export function validateConfidence(confidenceLevel: number): HypothesisTestError | null {
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${confidenceLevel}.`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Check that a sample has enough values and that every value is finite.
+ *
+ * @param {number[]} sample - The values.
+ * @param {string} name - The name of the sample and the test, used in error messages, e.g. "The first sample of Welch's t-test".
+ * @param {number} minimum - The minimum number of values the test requires.
+ * @returns {HypothesisTestError | null} - The error to return, or null if the sample is valid.
+ */
+export function validateSample(sample: number[], name: string, minimum: number): HypothesisTestError | null {
+  if (sample.length < minimum) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `${name} requires at least ${minimum} value${minimum === 1 ? "" : "s"}. Received ${sample.length}.`,
+    };
+  }
+
+  const invalidIndex = sample.findIndex((value) => !isValid(value));
+  if (invalidIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `${name} has a non-finite value at index ${invalidIndex} (${sample[invalidIndex]}). Hypothesis tests require finite numerical inputs.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Create the error returned when the data has no variation.
+ *
+ * @param {string} detail - What has no variation, e.g. "all values in both samples are identical".
+ * @returns {HypothesisTestError} - A `DegenerateInput` error.
+ */
+export function zeroVarianceError(detail: string): HypothesisTestError {
+  return {
+    ok: false,
+    errorType: "DegenerateInput",
+    message: `Cannot perform the test: ${detail}, so there is no variance to test against.`,
+  };
+}
+
+/**
+ * Whether a sum of squared deviations is negligible relative to the mean, so the values are effectively constant.
+ *
+ * @param {number} sumOfSquares - The sum of squared deviations from the mean.
+ * @param {number} n - The number of values.
+ * @param {number} mean - The mean of the values.
+ * @returns {boolean} - True if the values are constant.
+ */
+export function isConstant(sumOfSquares: number, n: number, mean: number): boolean {
+  return sumOfSquares <= n * (CONSTANT_TOLERANCE * mean) ** 2;
+}
+
+/**
+ * Compute the p-value of a statistic with a symmetric or one-sided alternative.
+ *
+ * @param {(x: number) => number} cdf - The cumulative distribution function of the statistic under the null hypothesis.
+ * @param {number} statistic - The observed statistic.
+ * @param {Alternative} alternative - The alternative hypothesis.
+ * @returns {number} - The p-value.
+ */
+export function alternativePValue(cdf: (x: number) => number, statistic: number, alternative: Alternative): number {
+  if (alternative === "less") {
+    return cdf(statistic);
+  }
+  if (alternative === "greater") {
+    return cdf(-statistic);
+  }
+  // Evaluated in the lower tail so that very small p-values keep their precision.
+  return Math.min(1, 2 * cdf(-Math.abs(statistic)));
+}
+
+/**
+ * Compute a confidence interval for an estimate from its standard error and a critical value function.
+ *
+ * @param {number} estimate - The estimate.
+ * @param {number} standardError - The standard error of the estimate.
+ * @param {(p: number) => number} quantile - The quantile function of the standardised reference distribution.
+ * @param {number} confidenceLevel - The confidence level, between 0 and 1.
+ * @param {Alternative} alternative - The alternative hypothesis; one-sided alternatives give one-sided intervals.
+ * @returns {[number, number]} - The `[lower, upper]` interval, unrounded.
+ */
+export function estimateInterval(
+  estimate: number,
+  standardError: number,
+  quantile: (p: number) => number,
+  confidenceLevel: number,
+  alternative: Alternative
+): [number, number] {
+  if (alternative === "less") {
+    return [-Infinity, estimate + quantile(confidenceLevel) * standardError];
+  }
+  if (alternative === "greater") {
+    return [estimate - quantile(confidenceLevel) * standardError, Infinity];
+  }
+  const critical = quantile(1 - (1 - confidenceLevel) / 2);
+  return [estimate - critical * standardError, estimate + critical * standardError];
+}
+
+/**
+ * Compute the survival function of the chi-square distribution, P(X > x).
+ *
+ * @param {number} x - The observed statistic.
+ * @param {number} df - The degrees of freedom.
+ * @returns {number} - The upper-tail probability.
+ */
+export function chiSquareSurvival(x: number, df: number): number {
+  return regularizedUpperGamma(df / 2, x / 2);
+}
+
+/**
+ * Compute the survival function of the F distribution, P(X > x).
+ *
+ * @param {number} x - The observed statistic.
+ * @param {number} d1 - The numerator degrees of freedom.
+ * @param {number} d2 - The denominator degrees of freedom.
+ * @returns {number} - The upper-tail probability.
+ */
+export function fSurvival(x: number, d1: number, d2: number): number {
+  return x <= 0 ? 1 : regularizedIncompleteBeta(d2 / 2, d1 / 2, d2 / (d2 + d1 * x));
+}
+
+/**
+ * Sum a Poisson(λ / 2) mixture of central terms, starting from the largest weight and stopping once the weights
+ * are negligible.
+ */
+function poissonMixture(lambda: number, term: (j: number) => number): number {
+  const mean = lambda / 2;
+  if (mean === 0) {
+    return term(0);
+  }
+  const weight = (j: number): number => Math.exp(j * Math.log(mean) - mean - logGamma(j + 1));
+  const mode = Math.floor(mean);
+  let sum = 0;
+  for (let j = mode; ; j++) {
+    const w = weight(j);
+    sum += w * term(j);
+    if (w < WEIGHT_TOLERANCE && j > mean) {
+      break;
+    }
+  }
+  for (let j = mode - 1; j >= 0; j--) {
+    const w = weight(j);
+    sum += w * term(j);
+    if (w < WEIGHT_TOLERANCE) {
+      break;
+    }
+  }
+  return sum;
+}
+
+/**
+ * Compute the CDF of the noncentral chi-square distribution.
+ *
+ * @param {number} x - The value at which to evaluate the CDF.
+ * @param {number} df - The degrees of freedom.
+ * @param {number} lambda - The noncentrality parameter.
+ * @returns {number} - P(X ≤ x).
+ */
+export function noncentralChiSquareCdf(x: number, df: number, lambda: number): number {
+  return poissonMixture(lambda, (j) => regularizedLowerGamma(df / 2 + j, x / 2));
+}
+
+/**
+ * Compute the CDF of the noncentral F distribution.
+ *
+ * @param {number} x - The value at which to evaluate the CDF.
+ * @param {number} d1 - The numerator degrees of freedom.
+ * @param {number} d2 - The denominator degrees of freedom.
+ * @param {number} lambda - The noncentrality parameter.
+ * @returns {number} - P(X ≤ x).
+ */
+export function noncentralFCdf(x: number, d1: number, d2: number, lambda: number): number {
+  const y = (d1 * x) / (d1 * x + d2);
+  return poissonMixture(lambda, (j) => regularizedIncompleteBeta(d1 / 2 + j, d2 / 2, y));
+}
+
+/**
+ * Find the two-sided confidence interval for a noncentrality parameter by inverting the noncentral CDF, which
+ * decreases as the noncentrality grows (Steiger & Fouladi, 1997).
+ *
+ * @param {(lambda: number) => number} cdf - The CDF of the observed statistic as a function of the noncentrality.
+ * @param {number} confidenceLevel - The confidence level, between 0 and 1.
+ * @returns {[number, number]} - The `[lower, upper]` interval for the noncentrality, with bounds of 0 where the
+ * statistic is too small to exclude it.
+ */
+export function noncentralityInterval(cdf: (lambda: number) => number, confidenceLevel: number): [number, number] {
+  const tail = (1 - confidenceLevel) / 2;
+  const solve = (target: number): number => {
+    if (cdf(0) <= target) {
+      return 0;
+    }
+    let low = 0;
+    let high = 1;
+    while (cdf(high) > target) {
+      low = high;
+      high *= 2;
+    }
+    while (high - low > NONCENTRALITY_TOLERANCE * Math.max(1, high)) {
+      const mid = (low + high) / 2;
+      if (cdf(mid) > target) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return (low + high) / 2;
+  };
+  return [solve(1 - tail), solve(tail)];
+}
@@ -1 +1,13 @@
-export * from "./regression";
\ No newline at end of file
+export * from "./regression";
+export * from "./distribution";
+export * from "./descriptive";
+export * from "./correlation";
+export * from "./outlier";
+export * from "./optimize";
+export * from "./timeseries";
+export * from "./changepoint";
+export * from "./hypothesis";
+export * from "./random";
+export * from "./resampling";
+export * from "./missing";
+export * from "./time";
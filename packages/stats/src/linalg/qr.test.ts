@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { qr, applyQTranspose, solveUpperTriangular, invertUpperTriangular, transpose } from "./qr";
+
+/**
+ * Multiply two matrices given as rows.
+ */
+const multiply = (a: number[][], b: number[][]): number[][] =>
+  a.map((row) => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+
+describe("qr", () => {
+  const matrix = [
+    [12, -51, 4],
+    [6, 167, -68],
+    [-4, 24, -41],
+  ];
+
+  it("should produce an upper triangular R with |R| matching the textbook example", () => {
+    const { r } = qr(matrix);
+
+    // Classic example: |diag(R)| = 14, 175, 35
+    expect(Math.abs(r[0][0])).toBeCloseTo(14, 10);
+    expect(Math.abs(r[1][1])).toBeCloseTo(175, 10);
+    expect(Math.abs(r[2][2])).toBeCloseTo(35, 10);
+    expect(r[1][0]).toBe(0);
+    expect(r[2][0]).toBe(0);
+    expect(r[2][1]).toBe(0);
+  });
+
+  it("should satisfy RᵀR = AᵀA", () => {
+    const { r } = qr(matrix);
+    const rtr = multiply(transpose(r), r);
+    const ata = multiply(transpose(matrix), matrix);
+
+    rtr.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(ata[i][j], 8)));
+  });
+
+  it("should preserve vector norms when applying Qᵀ", () => {
+    const decomposition = qr([
+      [1, 1],
+      [1, 2],
+      [1, 3],
+      [1, 4],
+    ]);
+    const vector = [3, -1, 4, 1];
+    const result = applyQTranspose(decomposition, vector);
+    const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+
+    expect(result).toHaveLength(4);
+    expect(norm(result)).toBeCloseTo(norm(vector), 12);
+  });
+
+  it("should solve a least squares problem", () => {
+    const design = [
+      [1, 1],
+      [1, 2],
+      [1, 3],
+      [1, 4],
+    ];
+    const y = [3, 5, 7, 9];
+    const decomposition = qr(design);
+    const [intercept, slope] = solveUpperTriangular(decomposition.r, applyQTranspose(decomposition, y));
+
+    expect(intercept).toBeCloseTo(1, 12);
+    expect(slope).toBeCloseTo(2, 12);
+  });
+});
+
+describe("invertUpperTriangular", () => {
+  it("should invert an upper triangular matrix", () => {
+    const r = [
+      [2, 1, 3],
+      [0, 4, -1],
+      [0, 0, 5],
+    ];
+    const product = multiply(r, invertUpperTriangular(r));
+
+    product.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(i === j ? 1 : 0, 12)));
+  });
+});
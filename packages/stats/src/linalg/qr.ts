@@ -0,0 +1,149 @@
+/**
+ * The QR decomposition of an n×p matrix `A = Q·R` (n ≥ p), with `Q` stored implicitly as Householder reflectors.
+ */
+export interface QRDecomposition {
+  /**
+   * The p×p upper triangular factor `R`.
+   */
+  r: number[][];
+  /**
+   * The unit Householder vectors defining `Q`, one per column. Each has length n with zeros above
+   * its column index; a zero vector marks a column that needed no reflection.
+   */
+  reflectors: number[][];
+}
+
+/**
+ * Compute the QR decomposition of a matrix using Householder reflections.
+ * More numerically stable than solving the normal equations, because it never forms `AᵀA`
+ * and so does not square the condition number of the problem.
+ *
+ * @param {number[][]} matrix - An n×p matrix given as n rows of length p, with n ≥ p. Not modified.
+ * @returns {QRDecomposition} - The decomposition.
+ */
+export function qr(matrix: number[][]): QRDecomposition {
+  const rows = matrix.length;
+  const cols = rows > 0 ? matrix[0].length : 0;
+  const a = matrix.map((row) => [...row]);
+  const reflectors: number[][] = [];
+
+  for (let k = 0; k < cols; k++) {
+    let norm = 0;
+    for (let i = k; i < rows; i++) {
+      norm += a[i][k] * a[i][k];
+    }
+    norm = Math.sqrt(norm);
+
+    const v: number[] = new Array(rows).fill(0);
+    if (norm === 0) {
+      reflectors.push(v);
+      continue;
+    }
+
+    // Choose the sign that avoids cancellation when forming v.
+    const alpha = a[k][k] > 0 ? -norm : norm;
+    for (let i = k; i < rows; i++) {
+      v[i] = a[i][k];
+    }
+    v[k] -= alpha;
+
+    let vNorm = 0;
+    for (let i = k; i < rows; i++) {
+      vNorm += v[i] * v[i];
+    }
+    vNorm = Math.sqrt(vNorm);
+    for (let i = k; i < rows; i++) {
+      v[i] /= vNorm;
+    }
+
+    for (let j = k; j < cols; j++) {
+      let dot = 0;
+      for (let i = k; i < rows; i++) {
+        dot += v[i] * a[i][j];
+      }
+      for (let i = k; i < rows; i++) {
+        a[i][j] -= 2 * v[i] * dot;
+      }
+    }
+    reflectors.push(v);
+  }
+
+  const r = Array.from({ length: cols }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (j >= i ? a[i][j] : 0))
+  );
+
+  return { r, reflectors };
+}
+
+/**
+ * Compute `Qᵀ·v` for the orthogonal factor of a QR decomposition.
+ *
+ * @param {QRDecomposition} decomposition - The decomposition from `qr`.
+ * @param {number[]} vector - A vector of length n. Not modified.
+ * @returns {number[]} - `Qᵀ·v`, of length n. The first p entries are used to solve least squares problems
+ * and the remaining n - p entries hold the residual component.
+ */
+export function applyQTranspose(decomposition: QRDecomposition, vector: number[]): number[] {
+  const result = [...vector];
+  for (const v of decomposition.reflectors) {
+    let dot = 0;
+    for (let i = 0; i < result.length; i++) {
+      dot += v[i] * result[i];
+    }
+    for (let i = 0; i < result.length; i++) {
+      result[i] -= 2 * v[i] * dot;
+    }
+  }
+  return result;
+}
+
+/**
+ * Solve `R·x = b` for an upper triangular matrix `R` by back substitution.
+ *
+ * @param {number[][]} r - A p×p upper triangular matrix with a non-zero diagonal.
+ * @param {number[]} b - A vector of at least p entries; only the first p are used.
+ * @returns {number[]} - The solution `x`.
+ */
+export function solveUpperTriangular(r: number[][], b: number[]): number[] {
+  const size = r.length;
+  const x: number[] = new Array(size).fill(0);
+  for (let i = size - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let j = i + 1; j < size; j++) {
+      sum -= r[i][j] * x[j];
+    }
+    x[i] = sum / r[i][i];
+  }
+  return x;
+}
+
+/**
+ * Invert an upper triangular matrix.
+ *
+ * @param {number[][]} r - A p×p upper triangular matrix with a non-zero diagonal.
+ * @returns {number[][]} - The upper triangular inverse `R⁻¹`.
+ */
+export function invertUpperTriangular(r: number[][]): number[][] {
+  const size = r.length;
+  return transpose(
+    Array.from({ length: size }, (_, col) =>
+      solveUpperTriangular(
+        r,
+        Array.from({ length: size }, (_, i) => (i === col ? 1 : 0))
+      )
+    )
+  );
+}
+
+/**
+ * Transpose a matrix.
+ *
+ * @param {number[][]} matrix - An m×n matrix given as rows.
+ * @returns {number[][]} - The n×m transpose.
+ */
+export function transpose(matrix: number[][]): number[][] {
+  if (matrix.length === 0) {
+    return [];
+  }
+  return matrix[0].map((_, j) => matrix.map((row) => row[j]));
+}
@@ -0,0 +1,9 @@
+import type { MissingValueOptions } from "./types";
+
+/**
+ * Default options for the treatment of missing values.
+ */
+export const DEFAULT_MISSING_VALUE_OPTIONS: MissingValueOptions = {
+  missing: "reject",
+  imputation: "linear",
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { handleMissingValues } from "./policy";
+import type { DataPoint } from "../regression/types";
+
+const gappy: DataPoint[] = [[1, 10], [2, NaN], [3, 14], [NaN, 15], [5, 18], [6, Infinity]];
+
+describe("handleMissingValues", () => {
+  it("should reject missing values by default", () => {
+    const result = handleMissingValues({}, gappy);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("index 1");
+  });
+
+  it("should pass complete data through unchanged", () => {
+    const complete: DataPoint[] = [[1, 2], [2, 3]];
+
+    expect(handleMissingValues({}, complete)).toEqual({
+      ok: true,
+      data: complete,
+      report: { policy: "reject", imputation: null, droppedIndices: [], imputedIndices: [] },
+    });
+  });
+
+  it("should drop points with a missing value", () => {
+    const result = handleMissingValues({ missing: "drop" }, gappy);
+
+    expect(result).toEqual({
+      ok: true,
+      data: [[1, 10], [3, 14], [5, 18]],
+      report: { policy: "drop", imputation: null, droppedIndices: [1, 3, 5], imputedIndices: [] },
+    });
+  });
+
+  it("should impute missing y-values by linear interpolation and drop points without an x-value", () => {
+    const result = handleMissingValues({ missing: "impute" }, gappy);
+
+    expect(result).toEqual({
+      ok: true,
+      // The trailing gap takes the last valid y-value.
+      data: [[1, 10], [2, 12], [3, 14], [5, 18], [6, 18]],
+      report: { policy: "impute", imputation: "linear", droppedIndices: [3], imputedIndices: [1, 5] },
+    });
+  });
+
+  it("should impute by the mean or by carrying values forward", () => {
+    const data: DataPoint[] = [[1, NaN], [2, 4], [3, NaN], [4, 8], [5, NaN]];
+    const mean = handleMissingValues({ missing: "impute", imputation: "mean" }, data);
+    const forward = handleMissingValues({ missing: "impute", imputation: "forwardFill" }, data);
+
+    expect(mean.ok && mean.data).toEqual([[1, 6], [2, 4], [3, 6], [4, 8], [5, 6]]);
+    // The leading gap takes the first valid y-value.
+    expect(forward.ok && forward.data).toEqual([[1, 4], [2, 4], [3, 4], [4, 8], [5, 8]]);
+  });
+
+  it("should drop every point when no y-value can be imputed from", () => {
+    const result = handleMissingValues({ missing: "impute" }, [[1, NaN], [2, NaN]]);
+
+    expect(result.ok && result.data).toEqual([]);
+    expect(result.ok && result.report.droppedIndices).toEqual([0, 1]);
+  });
+
+  it("should support partial application", () => {
+    const dropMissing = handleMissingValues({ missing: "drop" });
+
+    expect(dropMissing(gappy)).toEqual(handleMissingValues({ missing: "drop" }, gappy));
+  });
+});
@@ -0,0 +1,56 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_MISSING_VALUE_OPTIONS } from "./const";
+import type { MissingValueOptions, MissingValueResult } from "./types";
+import { applyMissingPolicy } from "./util";
+import type { DataPoint } from "../regression/types";
+import { findInvalidPoint } from "../regression/util";
+
+/**
+ * Applies a missing value policy to data points: rejects, drops or imputes points with a missing or non-finite value
+ * (`null`, `undefined`, `NaN` or ±`Infinity`), as dashboard data with gaps often has. The regression methods
+ * (including `multiple`, `compareModels`, `compareSlopes` and `linearOverTime`) accept the same `missing` and
+ * `imputation` options and apply them before fitting. The correlation, descriptive, hypothesis test and time series
+ * functions do not: they reject non-finite input, so clean it with this function first. Use it also to clean data
+ * once and share it between several methods, or to inspect what a policy would change.
+ *
+ * @param {Partial<MissingValueOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `missing` (defaults to `reject`) and `imputation` (defaults to `linear`).
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`, ordered by x.
+ * @returns {MissingValueResult} A discriminant union representing the success or failure of the treatment.
+ * - If successful (`ok: true`), `data` holds the cleaned points in input order and `report` lists the input indices
+ * of the dropped and imputed points.
+ * - If unsuccessful (`ok: false`), the policy is `reject` and a point has a missing value; it provides an
+ * `errorType` of "InvalidInput" and a `message`.
+ *
+ * @example
+ * const data = [[1, 10], [2, NaN], [3, 14], [NaN, 15], [5, 18]];
+ * const result = handleMissingValues({ missing: "impute" }, data);
+ * // result.data is [[1, 10], [2, 12], [3, 14], [5, 18]]
+ * // result.report.imputedIndices is [1] and result.report.droppedIndices is [3]
+ *
+ * @description
+ * **Insights derived from Missing Value Treatment:**
+ * - **Data Completeness:** The report shows how much of the data was missing, which qualifies any trend fitted to it.
+ * - **Choice of Policy:** Dropping keeps only observed values; imputing keeps the spacing of a regular series, which
+ * matters for seasonal and autocorrelation analysis, at the cost of inventing values.
+ */
+export const handleMissingValues = curry((
+  suppliedOptions: Partial<MissingValueOptions>,
+  data: DataPoint[]
+): MissingValueResult => {
+  const options: MissingValueOptions = { ...DEFAULT_MISSING_VALUE_OPTIONS, ...suppliedOptions };
+
+  if (options.missing === "reject") {
+    const invalidIndex = findInvalidPoint(data);
+    if (invalidIndex !== -1) {
+      const [x, y] = data[invalidIndex];
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Use the "drop" or "impute" policy to allow missing values.`,
+      };
+    }
+  }
+
+  return { ok: true, ...applyMissingPolicy(options, data) };
+});
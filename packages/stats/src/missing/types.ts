@@ -0,0 +1,86 @@
+import type { DataPoint } from "../regression/types";
+
+/**
+ * How a method treats points with a missing or non-finite value (`null`, `undefined`, `NaN` or ±`Infinity`):
+ * - `reject`: Return an `InvalidInput` error naming the first such point.
+ * - `drop`: Leave the point out.
+ * - `impute`: Fill in a missing y-value using `imputation`. Points whose x-value is missing cannot be placed, so
+ * they are dropped.
+ */
+export type MissingValuePolicy = "reject" | "drop" | "impute";
+
+/**
+ * How missing y-values are filled in under the `impute` policy. Neighbours are taken in input order, so the data
+ * should be ordered by x.
+ * - `mean`: The mean of the valid y-values.
+ * - `linear`: Linear interpolation in x between the nearest valid points before and after; gaps at either end take
+ * the nearest valid y-value.
+ * - `forwardFill`: The previous valid y-value; a gap at the start takes the first valid y-value.
+ */
+export type ImputationMethod = "mean" | "linear" | "forwardFill";
+
+/**
+ * Options controlling the treatment of missing values.
+ */
+export interface MissingValueOptions {
+  /**
+   * How points with a missing or non-finite value are treated.
+   */
+  missing: MissingValuePolicy;
+  /**
+   * How missing y-values are filled in. Only used by the `impute` policy.
+   */
+  imputation: ImputationMethod;
+}
+
+/**
+ * A record of the points that a `drop` or `impute` policy changed.
+ */
+export interface MissingValueReport {
+  policy: MissingValuePolicy;
+  /**
+   * The imputation method, or `null` unless the policy is `impute`.
+   */
+  imputation: ImputationMethod | null;
+  /**
+   * The input indices of the points that were left out.
+   */
+  droppedIndices: number[];
+  /**
+   * The input indices of the points whose y-value was filled in.
+   */
+  imputedIndices: number[];
+}
+
+/**
+ * The successful output of `handleMissingValues`.
+ */
+export interface MissingValueSuccess {
+  ok: true;
+  /**
+   * The cleaned data points, in input order. Every value is finite.
+   */
+  data: DataPoint[];
+  report: MissingValueReport;
+}
+
+/**
+ * Interface for an unsuccessful treatment of missing values, with the same shape as `RegressionError`.
+ */
+export interface MissingValueError {
+  ok: false;
+  /**
+   * The type of error that occurred.
+   * - `InvalidInput`: A point has a missing value and the policy is `reject`.
+   */
+  errorType: "InvalidInput";
+  /**
+   * A message describing the error.
+   */
+  message: string;
+}
+
+/**
+ * Discriminant union type for the result of `handleMissingValues`.
+ */
+export type MissingValueResult = MissingValueSuccess | MissingValueError;
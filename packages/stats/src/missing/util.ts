@@ -0,0 +1,111 @@
+import type { ImputationMethod, MissingValueOptions, MissingValueReport } from "./types";
+
+/**
+ * Whether a value is present and finite. Unlike `Number.isFinite` alone, the check is explicit about `null`.
+ */
+const isPresent = (value: number | null | undefined): value is number => value !== null && Number.isFinite(value);
+
+/**
+ * Fill in the missing y-values of points with a valid x-value.
+ */
+const imputeValues = (method: ImputationMethod, xs: number[], ys: number[]): number[] => {
+  const known = ys.map((y) => isPresent(y));
+  const validYs = ys.filter((_, i) => known[i]);
+
+  if (method === "mean") {
+    const mean = validYs.reduce((sum, y) => sum + y, 0) / validYs.length;
+    return ys.map((y, i) => (known[i] ? y : mean));
+  }
+
+  const previous: number[] = [];
+  let last = -1;
+  ys.forEach((_, i) => {
+    if (known[i]) {
+      last = i;
+    }
+    previous.push(last);
+  });
+  const next: number[] = new Array(ys.length);
+  last = -1;
+  for (let i = ys.length - 1; i >= 0; i--) {
+    if (known[i]) {
+      last = i;
+    }
+    next[i] = last;
+  }
+
+  return ys.map((y, i) => {
+    if (known[i]) {
+      return y;
+    }
+    const [before, after] = [previous[i], next[i]];
+    if (method === "forwardFill" || after === -1) {
+      return ys[before === -1 ? after : before];
+    }
+    if (before === -1 || xs[after] === xs[before]) {
+      return before === -1 ? ys[after] : (ys[before] + ys[after]) / 2;
+    }
+    return ys[before] + ((ys[after] - ys[before]) * (xs[i] - xs[before])) / (xs[after] - xs[before]);
+  });
+};
+
+/**
+ * Apply a missing value policy to data points, `[x, y, …]`. Under `reject` the data is returned unchanged for the
+ * caller to validate, with an empty report. Under `drop` and `impute`, points with a missing x-value or any other missing value after y
+ * (such as a weight) are dropped, and missing y-values are dropped or imputed.
+ *
+ * @param {MissingValueOptions} options - The policy and imputation method.
+ * @param {T[]} data - The data points.
+ * @returns {{ data: T[]; report: MissingValueReport }} - The data, with every value finite unless the policy is
+ * `reject`, and a report of the points that were changed.
+ */
+export function applyMissingPolicy<T extends number[]>(
+  options: MissingValueOptions,
+  data: T[]
+): { data: T[]; report: MissingValueReport } {
+  if (options.missing === "reject") {
+    return { data, report: { policy: "reject", imputation: null, droppedIndices: [], imputedIndices: [] } };
+  }
+
+  const droppedIndices: number[] = [];
+  const kept: number[] = [];
+  data.forEach((point, i) => {
+    const placeable = point.every((value, j) => j === 1 || isPresent(value));
+    if (placeable && (options.missing === "impute" || isPresent(point[1]))) {
+      kept.push(i);
+    } else {
+      droppedIndices.push(i);
+    }
+  });
+
+  const xs = kept.map((i) => data[i][0]);
+  const ys = kept.map((i) => data[i][1]);
+  const imputedIndices = kept.filter((i) => !isPresent(data[i][1]));
+
+  // With no valid y-value at all, nothing can be imputed, so every point is dropped.
+  if (imputedIndices.length === kept.length && kept.length > 0) {
+    return {
+      data: [],
+      report: {
+        policy: "impute",
+        imputation: options.imputation,
+        droppedIndices: data.map((_, i) => i),
+        imputedIndices: [],
+      },
+    };
+  }
+
+  const filled = imputedIndices.length > 0 ? imputeValues(options.imputation, xs, ys) : ys;
+
+  return {
+    data: kept.map((i, k) =>
+      isPresent(data[i][1]) ? data[i] : (data[i].map((value, j) => (j === 1 ? filled[k] : value)) as T)
+    ),
+    report: {
+      policy: options.missing,
+      imputation: options.missing === "impute" ? options.imputation : null,
+      droppedIndices,
+      imputedIndices,
+    },
+  };
+}
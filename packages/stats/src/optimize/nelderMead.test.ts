@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { nelderMead } from "./nelderMead";
+
+describe("nelderMead", () => {
+  it("should minimize a quadratic bowl", () => {
+    const result = nelderMead(([x, y]) => (x - 3) ** 2 + 2 * (y + 1) ** 2, [0, 0]);
+
+    expect(result.converged).toBe(true);
+    expect(result.point[0]).toBeCloseTo(3, 4);
+    expect(result.point[1]).toBeCloseTo(-1, 4);
+    expect(result.value).toBeCloseTo(0, 8);
+  });
+
+  it("should minimize the Rosenbrock function", () => {
+    const rosenbrock = ([x, y]: number[]) => 100 * (y - x * x) ** 2 + (1 - x) ** 2;
+    const result = nelderMead(rosenbrock, [-1.2, 1], { maxIterations: 5000, tolerance: 1e-14 });
+
+    expect(result.point[0]).toBeCloseTo(1, 3);
+    expect(result.point[1]).toBeCloseTo(1, 3);
+  });
+
+  it("should minimize a function of one variable", () => {
+    const result = nelderMead(([x]) => Math.abs(x - 0.25), [2]);
+
+    expect(result.point[0]).toBeCloseTo(0.25, 6);
+  });
+
+  it("should treat non-finite values as unacceptable", () => {
+    // ln is undefined for x ≤ 0, so the search must stay to the right of zero.
+    const result = nelderMead(([x]) => x - Math.log(x), [3], { step: 5 });
+
+    expect(result.point[0]).toBeCloseTo(1, 4);
+  });
+
+  it("should report when the iteration limit is reached", () => {
+    const result = nelderMead(([x, y]) => x * x + y * y, [10, 10], { maxIterations: 2 });
+
+    expect(result.converged).toBe(false);
+    expect(result.iterations).toBe(2);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Options for the Nelder–Mead minimizer.
+ */
+export interface NelderMeadOptions {
+  /**
+   * The maximum number of iterations before giving up.
+   */
+  maxIterations: number;
+  /**
+   * Convergence is reached when the function values across the simplex differ by less than this,
+   * relative to the magnitude of the best value.
+   */
+  tolerance: number;
+  /**
+   * Convergence also requires every vertex to lie within this distance of the best vertex along each axis,
+   * relative to the magnitude of its coordinate, so a simplex straddling a minimum at equal heights keeps contracting.
+   */
+  pointTolerance: number;
+  /**
+   * The initial distance of the simplex vertices from the starting point along each axis.
+   */
+  step: number;
+}
+
+/**
+ * The result of a Nelder–Mead minimization.
+ */
+export interface NelderMeadResult {
+  /**
+   * The best point found.
+   */
+  point: number[];
+  /**
+   * The function value at `point`.
+   */
+  value: number;
+  /**
+   * The number of iterations performed.
+   */
+  iterations: number;
+  /**
+   * Whether the simplex converged within `maxIterations`.
+   */
+  converged: boolean;
+}
+
+const DEFAULT_NELDER_MEAD_OPTIONS: NelderMeadOptions = {
+  maxIterations: 1000,
+  tolerance: 1e-10,
+  pointTolerance: 1e-8,
+  step: 0.5,
+};
+
+/**
+ * Minimize a function of several variables with the Nelder–Mead downhill simplex method.
+ * Needs no derivatives, so suits objective functions built from recursive filters, such as the sum of squared
+ * one-step-ahead errors of exponential smoothing or ARIMA models. Non-finite function values are treated as +Infinity,
+ * which keeps the search inside the region where the objective is defined.
+ *
+ * @param {(point: number[]) => number} f - The function to minimize.
+ * @param {number[]} start - The starting point.
+ * @param {Partial<NelderMeadOptions>} [suppliedOptions] - Optional overrides for `maxIterations`, `tolerance`,
+ * `pointTolerance` and `step`.
+ * @returns {NelderMeadResult} - The best point found, its value and whether the search converged.
+ */
+export function nelderMead(
+  f: (point: number[]) => number,
+  start: number[],
+  suppliedOptions: Partial<NelderMeadOptions> = {}
+): NelderMeadResult {
+  const options: NelderMeadOptions = { ...DEFAULT_NELDER_MEAD_OPTIONS, ...suppliedOptions };
+  const evaluate = (point: number[]): number => {
+    const value = f(point);
+    return Number.isFinite(value) ? value : Infinity;
+  };
+  const dimensions = start.length;
+
+  let simplex = [start, ...start.map((_, i) => start.map((value, j) => (i === j ? value + options.step : value)))];
+  let values = simplex.map(evaluate);
+
+  const combine = (a: number[], b: number[], t: number): number[] => a.map((value, i) => value + t * (b[i] - value));
+
+  let iterations = 0;
+  while (iterations < options.maxIterations) {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    simplex = order.map((i) => simplex[i]);
+    values = order.map((i) => values[i]);
+
+    const best = values[0];
+    const worst = values[dimensions];
+    const flat = Math.abs(worst - best) <= options.tolerance * (Math.abs(best) + options.tolerance);
+    const small = simplex.every((vertex) =>
+      vertex.every((value, j) => Math.abs(value - simplex[0][j]) <= options.pointTolerance * (1 + Math.abs(simplex[0][j])))
+    );
+    if (flat && small) {
+      return { point: simplex[0], value: best, iterations, converged: true };
+    }
+    iterations++;
+
+    const centroid = start.map((_, j) => simplex.slice(0, dimensions).reduce((sum, p) => sum + p[j], 0) / dimensions);
+    const reflected = combine(centroid, simplex[dimensions], -1);
+    const reflectedValue = evaluate(reflected);
+
+    if (reflectedValue < values[0]) {
+      const expanded = combine(centroid, simplex[dimensions], -2);
+      const expandedValue = evaluate(expanded);
+      if (expandedValue < reflectedValue) {
+        simplex[dimensions] = expanded;
+        values[dimensions] = expandedValue;
+      } else {
+        simplex[dimensions] = reflected;
+        values[dimensions] = reflectedValue;
+      }
+      continue;
+    }
+
+    if (reflectedValue < values[dimensions - 1]) {
+      simplex[dimensions] = reflected;
+      values[dimensions] = reflectedValue;
+      continue;
+    }
+
+    // Contract towards the better of the worst and reflected points.
+    const outside = reflectedValue < worst;
+    const contracted = combine(centroid, outside ? reflected : simplex[dimensions], 0.5);
+    const contractedValue = evaluate(contracted);
+    if (contractedValue < (outside ? reflectedValue : worst)) {
+      simplex[dimensions] = contracted;
+      values[dimensions] = contractedValue;
+      continue;
+    }
+
+    // Shrink every vertex towards the best.
+    for (let i = 1; i <= dimensions; i++) {
+      simplex[i] = combine(simplex[0], simplex[i], 0.5);
+      values[i] = evaluate(simplex[i]);
+    }
+  }
+
+  const bestIndex = values.indexOf(Math.min(...values));
+  return { point: simplex[bestIndex], value: values[bestIndex], iterations, converged: false };
+}
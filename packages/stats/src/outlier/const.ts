@@ -0,0 +1,20 @@
+import type { OutlierMethod, OutlierOptions } from "./types";
+
+/**
+ * Default options for outlier detection.
+ */
+export const DEFAULT_OUTLIER_OPTIONS: OutlierOptions = {
+  precision: 2,
+  threshold: null,
+};
+
+/**
+ * Conventional thresholds used when `threshold` is `null`. Cook's distance depends on the number of points
+ * and is resolved separately.
+ */
+export const DEFAULT_OUTLIER_THRESHOLDS: Record<Exclude<OutlierMethod, "cooksDistance">, number> = {
+  zScore: 3,
+  modifiedZScore: 3.5,
+  tukey: 1.5,
+  residual: 3,
+};
@@ -0,0 +1,3 @@
+export * from "./univariate";
+export * from "./regression";
+export * from "./types";
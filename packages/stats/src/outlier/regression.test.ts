@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { residualOutliers, cooksDistanceOutliers } from "./regression";
+import type { DataPoint } from "../regression/types";
+
+describe("residualOutliers", () => {
+  const spike: DataPoint[] = [
+    [1, 2],
+    [2, 4.1],
+    [3, 5.9],
+    [4, 8.1],
+    [5, 20],
+    [6, 12],
+    [7, 13.9],
+    [8, 16.1],
+  ];
+
+  it("should flag points far from the fitted line", () => {
+    const result = residualOutliers({ precision: 4 }, spike);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.method).toBe("residual");
+    expect(result.threshold).toBe(3);
+    expect(result.indices).toEqual([4]);
+    expect(result.scores[4]).toBeCloseTo(94.497, 2);
+    expect(result.scores[0]).toBeCloseTo(-0.2692, 4);
+  });
+
+  it("should flag nothing when the points lie on a line", () => {
+    const result = residualOutliers({}, [
+      [1, 3],
+      [2, 5],
+      [3, 7],
+      [4, 9],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.indices).toEqual([]);
+  });
+
+  it("should give an infinite score to the only point off an otherwise exact line", () => {
+    const result = residualOutliers({}, [
+      [1, 1],
+      [2, 2],
+      [3, 10],
+      [4, 4],
+      [5, 5],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.indices).toContain(2);
+  });
+
+  it("should return errors for too few points and vertical data", () => {
+    const tooFew = residualOutliers({}, [
+      [1, 1],
+      [2, 2],
+      [3, 4],
+    ]);
+    const vertical = residualOutliers({}, [
+      [1, 1],
+      [1, 2],
+      [1, 3],
+      [1, 4],
+    ]);
+
+    if (tooFew.ok || vertical.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(tooFew.errorType).toBe("InsufficientData");
+    expect(vertical.errorType).toBe("DegenerateInput");
+  });
+});
+
+describe("cooksDistanceOutliers", () => {
+  it("should flag a high-leverage point that pulls the line", () => {
+    const result = cooksDistanceOutliers({ precision: 4 }, [
+      [1, 1.1],
+      [2, 1.9],
+      [3, 3.2],
+      [4, 3.9],
+      [5, 5.1],
+      [20, 5],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.method).toBe("cooksDistance");
+    expect(result.threshold).toBeCloseTo(4 / 6, 4);
+    expect(result.indices).toEqual([5]);
+    expect(result.scores[5]).toBeCloseTo(57.6477, 3);
+    expect(result.scores[0]).toBeCloseTo(0.296, 4);
+  });
+
+  it("should accept a custom threshold", () => {
+    const result = cooksDistanceOutliers({ threshold: 100 }, [
+      [1, 1.1],
+      [2, 1.9],
+      [3, 3.2],
+      [4, 3.9],
+      [5, 5.1],
+      [20, 5],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.indices).toEqual([]);
+  });
+
+  it("should treat a point with full leverage as infinitely influential", () => {
+    const result = cooksDistanceOutliers({}, [
+      [1, 1],
+      [1, 2],
+      [5, 3],
+    ]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.scores[2]).toBe(Infinity);
+    expect(result.indices).toEqual([2]);
+  });
+
+  it("should return an error for non-finite points", () => {
+    const result = cooksDistanceOutliers({}, [
+      [1, 1],
+      [2, Infinity],
+      [3, 3],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+  });
+});
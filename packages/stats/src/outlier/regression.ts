@@ -0,0 +1,170 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_OUTLIER_OPTIONS, DEFAULT_OUTLIER_THRESHOLDS } from "./const";
+import type { OutlierError, OutlierOptions, OutlierResult } from "./types";
+import { validateThreshold, flagScores } from "./util";
+import type { DataPoint } from "../regression/types";
+import { findInvalidPoint, leastSquares } from "../regression/util";
+
+/**
+ * The leverage at or above which a point is treated as fully determining the line.
+ */
+const FULL_LEVERAGE = 1 - 1e-12;
+
+/**
+ * The leverage and internally studentized residual of every point about its least squares line.
+ */
+interface LineDiagnostics {
+  leverage: number[];
+  studentized: number[];
+}
+
+/**
+ * Validate the points and compute the diagnostics of their least squares line.
+ */
+const lineDiagnostics = (data: DataPoint[], test: string, minimum: number): LineDiagnostics | OutlierError => {
+  if (data.length < minimum) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `The ${test} requires at least ${minimum} data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = findInvalidPoint(data);
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). The ${test} requires finite numerical inputs.`,
+    };
+  }
+
+  const fit = leastSquares(data);
+  if (fit === null) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message: `Cannot perform the ${test}: all x-values are identical, so no line can be fitted.`,
+    };
+  }
+
+  const n = data.length;
+  const meanX = data.reduce((sum, [x]) => sum + x, 0) / n;
+  const sxx = data.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+  const residuals = data.map(([x, y]) => y - (fit.gradient * x + fit.intercept));
+  const sse = residuals.reduce((sum, r) => sum + r * r, 0);
+  const scale = Math.max(1, ...data.map(([, y]) => Math.abs(y)));
+  const residualVariance = sse / (n - 2);
+  // Residuals within rounding error of zero mean the points lie on a line and nothing stands out.
+  const exactFit = Math.sqrt(residualVariance) <= 1e-12 * scale;
+
+  const leverage = data.map(([x]) => 1 / n + (x - meanX) ** 2 / sxx);
+  // A point with a leverage of 1 is the only one at its x-value, so the line passes through it exactly.
+  const studentized = residuals.map((r, i) =>
+    exactFit || leverage[i] >= FULL_LEVERAGE ? 0 : r / Math.sqrt(residualVariance * (1 - leverage[i]))
+  );
+
+  return { leverage, studentized };
+};
+
+/**
+ * Flags points that lie unusually far from the least squares line through the data, measured by their externally
+ * studentized residuals: each residual divided by the residual standard deviation of the line fitted without that point.
+ *
+ * @param {Partial<OutlierOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `threshold` (defaults to 3).
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least four data points with at least two distinct x-values.
+ * @returns {OutlierResult} A discriminant union representing the success or failure of the detection.
+ * - If successful (`ok: true`), `indices` lists the flagged points and `scores` holds every studentized residual,
+ * positive above the line and negative below it.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * const data = [[1, 2], [2, 4.1], [3, 5.9], [4, 8.1], [5, 20], [6, 12], [7, 13.9], [8, 16.1]];
+ * const result = residualOutliers({}, data);
+ * // result.indices is [4]
+ *
+ * @description
+ * **Insights derived from Residual Outliers:**
+ * - **Trend Breakers:** Identifies observations that do not follow the trend, such as spikes or data-entry errors.
+ * - **Unmasked:** Excluding each point from its own scale stops a large outlier from hiding itself, unlike plain z-scores of residuals.
+ */
+export const residualOutliers = curry((
+  suppliedOptions: Partial<OutlierOptions>,
+  data: DataPoint[]
+): OutlierResult => {
+  const options: OutlierOptions = { ...DEFAULT_OUTLIER_OPTIONS, ...suppliedOptions };
+  const threshold = options.threshold ?? DEFAULT_OUTLIER_THRESHOLDS.residual;
+
+  const thresholdError = validateThreshold(threshold);
+  if (thresholdError) {
+    return thresholdError;
+  }
+
+  const diagnostics = lineDiagnostics(data, "residual outlier test", 4);
+  if ("ok" in diagnostics) {
+    return diagnostics;
+  }
+
+  const df = data.length - 2;
+  // t = r·√((n - 3) / (n - 2 - r²)); a point that accounts for all of the residual variance has an infinite score.
+  const scores = diagnostics.studentized.map((r) => {
+    const remaining = df - r * r;
+    return remaining > 0 ? r * Math.sqrt((df - 1) / remaining) : Math.sign(r) * Infinity;
+  });
+
+  return flagScores("residual", scores, threshold, options.precision);
+});
+
+/**
+ * Flags points with a large Cook's distance: points whose removal would noticeably move the least squares line.
+ * Cook's distance combines how far a point lies from the line with its leverage, how far its x-value lies from the rest.
+ *
+ * @param {Partial<OutlierOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `threshold` (defaults to `4 / n`; 1 is a stricter common alternative).
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least three data points with at least two distinct x-values.
+ * @returns {OutlierResult} A discriminant union representing the success or failure of the detection.
+ * - If successful (`ok: true`), `indices` lists the influential points and `scores` holds every Cook's distance.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // The last point sits far to the right and pulls the line towards it
+ * const data = [[1, 1.1], [2, 1.9], [3, 3.2], [4, 3.9], [5, 5.1], [20, 5]];
+ * const result = cooksDistanceOutliers({}, data);
+ * // result.indices is [5]
+ *
+ * @description
+ * **Insights derived from Cook's Distance:**
+ * - **Influential Points:** Identifies observations that single-handedly shape the trend, so conclusions can be checked
+ * with and without them.
+ * - **Leverage:** Catches extreme x-values that robust methods such as `huber` cannot down-weight.
+ */
+export const cooksDistanceOutliers = curry((
+  suppliedOptions: Partial<OutlierOptions>,
+  data: DataPoint[]
+): OutlierResult => {
+  const options: OutlierOptions = { ...DEFAULT_OUTLIER_OPTIONS, ...suppliedOptions };
+  const threshold = options.threshold ?? 4 / data.length;
+
+  const thresholdError = validateThreshold(threshold);
+  if (thresholdError) {
+    return thresholdError;
+  }
+
+  const diagnostics = lineDiagnostics(data, "Cook's distance test", 3);
+  if ("ok" in diagnostics) {
+    return diagnostics;
+  }
+
+  // Dᵢ = rᵢ²·hᵢ / (p·(1 - hᵢ)) with p = 2 coefficients.
+  // A point with a leverage of 1 determines the line on its own, so its influence is unbounded.
+  const scores = diagnostics.studentized.map((r, i) => {
+    const h = diagnostics.leverage[i];
+    return h >= FULL_LEVERAGE ? Infinity : (r * r * h) / (2 * (1 - h));
+  });
+
+  return flagScores("cooksDistance", scores, threshold, options.precision);
+});
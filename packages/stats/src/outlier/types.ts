@@ -0,0 +1,72 @@
+/**
+ * The outlier detection methods.
+ * - `zScore`: Distance from the mean in standard deviations.
+ * - `modifiedZScore`: Distance from the median in robust standard deviations, from the median absolute deviation (MAD).
+ * - `tukey`: Distance beyond the quartiles in interquartile ranges (Tukey's fences).
+ * - `residual`: Externally studentized residuals from a least squares line.
+ * - `cooksDistance`: The influence of each point on a least squares line.
+ */
+export type OutlierMethod = "zScore" | "modifiedZScore" | "tukey" | "residual" | "cooksDistance";
+
+/**
+ * The successful output of an outlier detector.
+ */
+export interface OutlierSuccess {
+  ok: true;
+  method: OutlierMethod;
+  /**
+   * The indices of the flagged points, in ascending order.
+   */
+  indices: number[];
+  /**
+   * The score of every point, in input order, which is compared against `threshold`.
+   * Scores are signed where direction is meaningful (e.g. a negative z-score lies below the mean).
+   */
+  scores: number[];
+  /**
+   * The threshold that was applied: a point is flagged when the magnitude of its score exceeds it.
+   */
+  threshold: number;
+  /**
+   * The `[lower, upper]` fences outside which values are flagged. Only provided by `tukeyOutliers`.
+   */
+  fences?: [number, number];
+}
+
+/**
+ * Interface for an unsuccessful outlier detection, with the same shape as `RegressionError`.
+ */
+export interface OutlierError {
+  ok: false;
+  /**
+   * The type of error that occurred.
+   * - `InsufficientData`: Too few values to judge what is unusual.
+   * - `InvalidInput`: A value is not finite, or an option is out of range.
+   * - `DegenerateInput`: A line cannot be fitted because all x-values are identical.
+   */
+  errorType: "InsufficientData" | "InvalidInput" | "DegenerateInput";
+  /**
+   * A message describing the error.
+   */
+  message: string;
+}
+
+/**
+ * Discriminant union type for the result of an outlier detector.
+ */
+export type OutlierResult = OutlierSuccess | OutlierError;
+
+/**
+ * Options for outlier detection.
+ */
+export interface OutlierOptions {
+  /**
+   * The precision for rounding scores and fences.
+   */
+  precision: number;
+  /**
+   * The score magnitude above which a point is flagged, or `null` for the method's conventional default:
+   * 3 for `zScore` and `residual`, 3.5 for `modifiedZScore`, 1.5 for `tukey` and `4 / n` for `cooksDistance`.
+   */
+  threshold: number | null;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { zScoreOutliers, modifiedZScoreOutliers, tukeyOutliers } from "./univariate";
+
+const readings = [10, 12, 11, 13, 12, 11, 40];
+
+describe("zScoreOutliers", () => {
+  it("should flag values beyond the threshold", () => {
+    const result = zScoreOutliers({ threshold: 2 }, readings);
+
+    expect(result).toEqual({
+      ok: true,
+      method: "zScore",
+      indices: [6],
+      scores: [-0.52, -0.33, -0.42, -0.24, -0.33, -0.42, 2.26],
+      threshold: 2,
+    });
+  });
+
+  it("should default to a threshold of 3", () => {
+    const result = zScoreOutliers({}, readings);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    // In a sample of seven, the outlier inflates the standard deviation enough to mask itself.
+    expect(result.threshold).toBe(3);
+    expect(result.indices).toEqual([]);
+  });
+
+  it("should flag nothing in constant data", () => {
+    const result = zScoreOutliers({}, [5, 5, 5, 5]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.indices).toEqual([]);
+    expect(result.scores).toEqual([0, 0, 0, 0]);
+  });
+
+  it("should return errors for too few values and invalid thresholds", () => {
+    const tooFew = zScoreOutliers({}, [1, 2]);
+    const badThreshold = zScoreOutliers({ threshold: -1 }, readings);
+
+    if (tooFew.ok || badThreshold.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(tooFew.errorType).toBe("InsufficientData");
+    expect(badThreshold.errorType).toBe("InvalidInput");
+  });
+});
+
+describe("modifiedZScoreOutliers", () => {
+  it("should flag outliers that mask themselves from plain z-scores", () => {
+    const result = modifiedZScoreOutliers({}, readings);
+
+    expect(result).toEqual({
+      ok: true,
+      method: "modifiedZScore",
+      indices: [6],
+      scores: [-1.35, 0, -0.67, 0.67, 0, -0.67, 18.89],
+      threshold: 3.5,
+    });
+  });
+
+  it("should fall back to the mean absolute deviation when the MAD is zero", () => {
+    // Median 5, MAD 0; mean absolute deviation 20 / 6, so the score is 20 / (1.253314 · 20 / 6) ≈ 4.79
+    const result = modifiedZScoreOutliers({}, [5, 5, 5, 5, 5, 25]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.indices).toEqual([5]);
+    expect(result.scores[5]).toBeCloseTo(4.79, 2);
+  });
+
+  it("should return an error for non-finite values", () => {
+    const result = modifiedZScoreOutliers({}, [1, 2, NaN]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+  });
+});
+
+describe("tukeyOutliers", () => {
+  it("should flag values outside the fences", () => {
+    const result = tukeyOutliers({}, [1, 2, 3, 4, 5, 6, 7, 8, 30, -10]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    // Q1 = 2.25, Q3 = 6.75, IQR = 4.5
+    expect(result.method).toBe("tukey");
+    expect(result.fences).toEqual([-4.5, 13.5]);
+    expect(result.indices).toEqual([8, 9]);
+    expect(result.scores[8]).toBeCloseTo(5.17, 2);
+    expect(result.scores[9]).toBeCloseTo(-2.72, 2);
+    expect(result.scores[4]).toBe(0);
+  });
+
+  it("should widen the fences with a larger threshold", () => {
+    const result = tukeyOutliers({ threshold: 3 }, [1, 2, 3, 4, 5, 6, 7, 8, 30, -10]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.fences).toEqual([-11.25, 20.25]);
+    expect(result.indices).toEqual([8]);
+  });
+
+  it("should flag any value outside the quartiles when the IQR is zero", () => {
+    const result = tukeyOutliers({}, [4, 4, 4, 4, 4, 4, 9]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.indices).toEqual([6]);
+    expect(result.scores[6]).toBe(Infinity);
+  });
+
+  it("should return an error for too few values", () => {
+    const result = tukeyOutliers({}, []);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+});
@@ -0,0 +1,158 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_OUTLIER_OPTIONS, DEFAULT_OUTLIER_THRESHOLDS } from "./const";
+import type { OutlierOptions, OutlierResult } from "./types";
+import { validateThreshold, flagScores } from "./util";
+import { validate, arithmeticMean, varianceOf, sortAscending, quantileOfSorted } from "../descriptive/util";
+import { median, round } from "../regression/util";
+
+/**
+ * The ratio of the standard deviation to the MAD for normally distributed data, Φ⁻¹(3/4) ≈ 0.6745.
+ */
+const MAD_CONSISTENCY = 0.6745;
+
+/**
+ * The ratio of the standard deviation to the mean absolute deviation for normally distributed data, √(π/2).
+ */
+const MEAN_AD_CONSISTENCY = 1.253314;
+
+/**
+ * Flags values that lie more than `threshold` standard deviations from the mean.
+ *
+ * @param {Partial<OutlierOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `threshold` (defaults to 3).
+ * @param {number[]} data - The values. Expects at least three finite values.
+ * @returns {OutlierResult} A discriminant union representing the success or failure of the detection.
+ * - If successful (`ok: true`), `indices` lists the flagged values and `scores` holds every z-score.
+ * Constant data has z-scores of 0 and no outliers.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const result = zScoreOutliers({ threshold: 2 }, [10, 12, 11, 13, 12, 11, 40]);
+ * // result.indices is [6]
+ *
+ * @description
+ * **Insights derived from Z-Score Outliers:**
+ * - **Unusual Values:** Flags readings far from typical for roughly normal data.
+ * - **Caution:** Outliers inflate the standard deviation that measures them, so in small samples a z-score cannot
+ * exceed `(n - 1) / √n` (below 3 for ten values); prefer `modifiedZScoreOutliers` for small or contaminated data.
+ */
+export const zScoreOutliers = curry((
+  suppliedOptions: Partial<OutlierOptions>,
+  data: number[]
+): OutlierResult => {
+  const options: OutlierOptions = { ...DEFAULT_OUTLIER_OPTIONS, ...suppliedOptions };
+  const threshold = options.threshold ?? DEFAULT_OUTLIER_THRESHOLDS.zScore;
+
+  const error = validateThreshold(threshold) ?? validate(data, "z-score outlier test", 3);
+  if (error) {
+    return error;
+  }
+
+  const mean = arithmeticMean(data);
+  const standardDeviation = Math.sqrt(varianceOf(data, true));
+  const scores = data.map((value) => (standardDeviation > 0 ? (value - mean) / standardDeviation : 0));
+
+  return flagScores("zScore", scores, threshold, options.precision);
+});
+
+/**
+ * Flags values whose modified z-score, `0.6745·(x - median) / MAD`, exceeds `threshold` (Iglewicz & Hoaglin).
+ * The median and the median absolute deviation (MAD) are barely affected by the outliers themselves.
+ *
+ * @param {Partial<OutlierOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `threshold` (defaults to 3.5).
+ * @param {number[]} data - The values. Expects at least three finite values.
+ * @returns {OutlierResult} A discriminant union representing the success or failure of the detection.
+ * - If successful (`ok: true`), `indices` lists the flagged values and `scores` holds every modified z-score.
+ * When more than half of the values are identical the MAD is 0, so the mean absolute deviation is used instead.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const result = modifiedZScoreOutliers({}, [10, 12, 11, 13, 12, 11, 40]);
+ * // result.indices is [6]
+ *
+ * @description
+ * **Insights derived from Modified Z-Score Outliers:**
+ * - **Robust Anomalies:** Reliable even when several outliers are present or the sample is small.
+ */
+export const modifiedZScoreOutliers = curry((
+  suppliedOptions: Partial<OutlierOptions>,
+  data: number[]
+): OutlierResult => {
+  const options: OutlierOptions = { ...DEFAULT_OUTLIER_OPTIONS, ...suppliedOptions };
+  const threshold = options.threshold ?? DEFAULT_OUTLIER_THRESHOLDS.modifiedZScore;
+
+  const error = validateThreshold(threshold) ?? validate(data, "modified z-score outlier test", 3);
+  if (error) {
+    return error;
+  }
+
+  const centre = median(data);
+  const deviations = data.map((value) => Math.abs(value - centre));
+  const mad = median(deviations);
+  const meanAbsoluteDeviation = arithmeticMean(deviations);
+
+  const scores = data.map((value) => {
+    if (mad > 0) {
+      return (MAD_CONSISTENCY * (value - centre)) / mad;
+    }
+    return meanAbsoluteDeviation > 0 ? (value - centre) / (MEAN_AD_CONSISTENCY * meanAbsoluteDeviation) : 0;
+  });
+
+  return flagScores("modifiedZScore", scores, threshold, options.precision);
+});
+
+/**
+ * Flags values outside Tukey's fences, `[Q1 - k·IQR, Q3 + k·IQR]`, where `k` is `threshold`.
+ * These are the points drawn individually beyond the whiskers of a box plot.
+ *
+ * @param {Partial<OutlierOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`
+ * and `threshold` (defaults to 1.5; 3 is conventional for "far out" values).
+ * @param {number[]} data - The values. Expects at least three finite values.
+ * @returns {OutlierResult} A discriminant union representing the success or failure of the detection.
+ * - If successful (`ok: true`), `indices` lists the flagged values, `fences` holds the lower and upper fence and
+ * `scores` holds each value's distance beyond the nearer quartile in IQRs (0 between the quartiles).
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const result = tukeyOutliers({}, [1, 2, 3, 4, 5, 6, 7, 8, 30]);
+ * // result.fences is [-3, 13]; result.indices is [8]
+ *
+ * @description
+ * **Insights derived from Tukey's Fences:**
+ * - **Distribution-Free:** Makes no assumption of normality, so suits skewed metrics such as durations or order values.
+ * - **Box Plots:** Matches the outliers a box plot would show, keeping charts and narratives consistent.
+ */
+export const tukeyOutliers = curry((
+  suppliedOptions: Partial<OutlierOptions>,
+  data: number[]
+): OutlierResult => {
+  const options: OutlierOptions = { ...DEFAULT_OUTLIER_OPTIONS, ...suppliedOptions };
+  const threshold = options.threshold ?? DEFAULT_OUTLIER_THRESHOLDS.tukey;
+
+  const error = validateThreshold(threshold) ?? validate(data, "Tukey outlier test", 3);
+  if (error) {
+    return error;
+  }
+
+  const sorted = sortAscending(data);
+  const q1 = quantileOfSorted(sorted, 0.25, "linear");
+  const q3 = quantileOfSorted(sorted, 0.75, "linear");
+  const iqr = q3 - q1;
+  const lower = q1 - threshold * iqr;
+  const upper = q3 + threshold * iqr;
+
+  const scores = data.map((value) => {
+    const beyond = value > q3 ? value - q3 : value < q1 ? value - q1 : 0;
+    if (beyond === 0) {
+      return 0;
+    }
+    // With no spread between the quartiles, any value outside them is infinitely far out.
+    return iqr > 0 ? beyond / iqr : Math.sign(beyond) * Infinity;
+  });
+
+  return {
+    ...flagScores("tukey", scores, threshold, options.precision),
+    fences: [round(lower, options.precision), round(upper, options.precision)],
+  };
+});
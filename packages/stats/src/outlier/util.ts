@@ -0,0 +1,49 @@
+import type { OutlierError, OutlierMethod, OutlierSuccess } from "./types";
+import { round } from "../regression/util";
+
+/**
+ * Check that a threshold is a positive finite number.
+ *
+ * @param {number} threshold - The resolved threshold.
+ * @returns {OutlierError | null} - The error to return, or null if the threshold is valid.
+ */
+export function validateThreshold(threshold: number): OutlierError | null {
+  if (!(threshold > 0 && Number.isFinite(threshold))) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The outlier threshold must be a positive number. Received ${threshold}.`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Flag every point whose score magnitude exceeds the threshold and round the scores.
+ *
+ * @param {OutlierMethod} method - The detection method.
+ * @param {number[]} scores - The unrounded score of every point.
+ * @param {number} threshold - The threshold to apply.
+ * @param {number} precision - The precision for rounding scores.
+ * @returns {OutlierSuccess} - The successful result.
+ */
+export function flagScores(
+  method: OutlierMethod,
+  scores: number[],
+  threshold: number,
+  precision: number
+): OutlierSuccess {
+  const indices: number[] = [];
+  scores.forEach((score, i) => {
+    if (Math.abs(score) > threshold) {
+      indices.push(i);
+    }
+  });
+  return {
+    ok: true,
+    method,
+    indices,
+    scores: scores.map((score) => round(score, precision)),
+    threshold: round(threshold, precision),
+  };
+}
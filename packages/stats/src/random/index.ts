@@ -0,0 +1,2 @@
+export * from "./xoshiro";
+export * from "./types";
@@ -0,0 +1,26 @@
+/**
+ * A seeded pseudo-random number generator. Each call advances its internal state, so the sequence of values is
+ * determined entirely by the seed it was created with.
+ */
+export interface Random {
+  /**
+   * Draw a number uniformly distributed in [0, 1).
+   */
+  uniform: () => number;
+  /**
+   * Draw an integer uniformly distributed from 0 to `n - 1`, without modulo bias.
+   */
+  integer: (n: number) => number;
+  /**
+   * Draw a number from the standard normal distribution.
+   */
+  normal: () => number;
+  /**
+   * Return a shuffled copy of the values (Fisher–Yates); the input is not modified.
+   */
+  shuffle: <T>(values: readonly T[]) => T[];
+  /**
+   * Create an independent generator seeded from this one, so separate tasks can draw their own reproducible streams.
+   */
+  fork: () => Random;
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { createRandom } from "./xoshiro";
+
+describe("createRandom", () => {
+  it("should give the same sequence for the same seed", () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const other = createRandom(43);
+
+    const a = Array.from({ length: 5 }, () => first.uniform());
+    const b = Array.from({ length: 5 }, () => second.uniform());
+    const c = Array.from({ length: 5 }, () => other.uniform());
+
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it("should distinguish fractional seeds", () => {
+    expect(createRandom(0.1).uniform()).not.toBe(createRandom(0.2).uniform());
+  });
+
+  it("should draw uniform numbers in [0, 1) with mean 1/2", () => {
+    const random = createRandom(1);
+    const values = Array.from({ length: 20000 }, () => random.uniform());
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...values)).toBeLessThan(1);
+    expect(values.reduce((sum, value) => sum + value, 0) / values.length).toBeCloseTo(0.5, 2);
+  });
+
+  it("should draw every integer below n about equally often", () => {
+    const random = createRandom(2);
+    const counts = [0, 0, 0, 0, 0, 0];
+    for (let i = 0; i < 60000; i++) {
+      counts[random.integer(6)]++;
+    }
+
+    counts.forEach((count) => expect(Math.abs(count - 10000)).toBeLessThan(400));
+  });
+
+  it("should draw standard normal numbers", () => {
+    const random = createRandom(3);
+    const values = Array.from({ length: 20000 }, () => random.normal());
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+
+    expect(mean).toBeCloseTo(0, 1);
+    expect(variance).toBeCloseTo(1, 1);
+  });
+
+  it("should shuffle into a permutation without changing the input", () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = createRandom(4).shuffle(values);
+
+    expect(shuffled).not.toEqual(values);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(values);
+    expect(values).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it("should fork reproducible streams that differ from each other", () => {
+    const random = createRandom(5);
+    const again = createRandom(5);
+    const [first, second] = [random.fork(), random.fork()];
+    const [firstAgain] = [again.fork()];
+
+    expect(first.uniform()).toBe(firstAgain.uniform());
+    expect(first.uniform()).not.toBe(second.uniform());
+  });
+
+  it("should throw for invalid seeds and integer ranges", () => {
+    expect(() => createRandom(NaN)).toThrow(RangeError);
+    expect(() => createRandom(6).integer(0)).toThrow(RangeError);
+    expect(() => createRandom(6).integer(2.5)).toThrow(RangeError);
+  });
+});
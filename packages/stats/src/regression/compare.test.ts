@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { compareModels } from "./compare";
+import type { DataPoint } from "./types";
+
+const wobble = [0.03, -0.02, 0.01, -0.04, 0.02, 0, -0.01, 0.04, -0.03, 0.015];
+const growth: DataPoint[] = Array.from({ length: 20 }, (_, x) => [x, 3 * Math.exp(0.2 * x) * (1 + wobble[x % 10])]);
+const straight: DataPoint[] = Array.from({ length: 20 }, (_, x) => [x, 5 + 2 * x + 10 * wobble[x % 10]]);
+
+describe("compareModels", () => {
+  it("should prefer an exponential model for compounding growth", () => {
+    const result = compareModels({}, growth);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.criterion).toBe("aic");
+    expect(result.best.method).toBe("exponential");
+    expect(result.best.deltaAic).toBe(0);
+    expect(result.best.fit.method).toBe("exponential");
+    expect(result.models.map((model) => model.method).sort()).toEqual(["exponential", "linear", "polynomial"]);
+    // x = 0 rules out logarithmic and power models.
+    expect(result.excluded.map((model) => model.method).sort()).toEqual(["logarithmic", "power"]);
+  });
+
+  it("should compute the criteria from the residuals on the original scale", () => {
+    const data: DataPoint[] = [[1, 2], [2, 4.5], [3, 5.5], [4, 8]];
+    const result = compareModels({ methods: ["linear"], precision: 6 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    // y = 1.9·x + 0.25, SSE = 0.45, SST = 18.5
+    const [model] = result.models;
+    expect(model.parameters).toBe(2);
+    expect(model.rSquared).toBeCloseTo(1 - 0.45 / 18.5, 6);
+    expect(model.adjustedRSquared).toBeCloseTo(1 - (0.45 / 18.5) * 3 / 2, 6);
+    expect(model.aic).toBeCloseTo(4 * Math.log(0.45 / 4) + 6, 6);
+    expect(model.bic).toBeCloseTo(4 * Math.log(0.45 / 4) + 3 * Math.log(4), 6);
+    expect(model.aicWeight).toBe(1);
+  });
+
+  it("should leave-one-out cross-validate when there are fewer points than folds", () => {
+    const data: DataPoint[] = [[1, 2], [2, 4.5], [3, 5.5], [4, 8]];
+    const result = compareModels({ methods: ["linear"], precision: 6 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    // Each point is predicted from a line fitted to the other three.
+    const loo = data.map(([x, y], i) => {
+      const rest = data.filter((_, j) => j !== i);
+      const mx = rest.reduce((s, p) => s + p[0], 0) / 3;
+      const my = rest.reduce((s, p) => s + p[1], 0) / 3;
+      const m = rest.reduce((s, p) => s + (p[0] - mx) * (p[1] - my), 0) / rest.reduce((s, p) => s + (p[0] - mx) ** 2, 0);
+      return y - (my + m * (x - mx));
+    });
+    expect(result.best.cvRmse).toBeCloseTo(Math.sqrt(loo.reduce((s, r) => s + r * r, 0) / 4), 6);
+  });
+
+  it("should not let a quadratic beat a straight line on penalised criteria", () => {
+    const byAic = compareModels({ methods: ["linear", "polynomial"] }, straight);
+    const byRSquared = compareModels({ methods: ["linear", "polynomial"], criterion: "adjustedRSquared" }, straight);
+    const byCv = compareModels({ methods: ["linear", "polynomial"], criterion: "cvRmse" }, straight);
+
+    if (!byAic.ok || !byRSquared.ok || !byCv.ok) {
+      throw new Error("Expected successful results");
+    }
+    expect(byAic.best.method).toBe("linear");
+    expect(byAic.models[1].deltaAic).toBeLessThan(2);
+    expect(byRSquared.criterion).toBe("adjustedRSquared");
+    expect(byCv.best.method).toBe("linear");
+  });
+
+  it("should exclude candidates with as many coefficients as data points", () => {
+    const result = compareModels({ methods: ["linear", "polynomial"], order: 2 }, [[1, 1], [2, 3], [3, 2]]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.models.map((model) => model.method)).toEqual(["linear"]);
+    expect(result.excluded).toEqual([
+      { method: "polynomial", errorType: "InsufficientData", message: expect.stringContaining("more than 3 data points") },
+    ]);
+  });
+
+  it("should apply the missing value policy once for every candidate", () => {
+    const gappy: DataPoint[] = growth.map(([x, y], i): DataPoint => [x, i % 6 === 2 ? NaN : y]);
+    const rejected = compareModels({}, gappy);
+    const dropped = compareModels({ missing: "drop" }, gappy);
+
+    if (rejected.ok || !dropped.ok) {
+      throw new Error("Expected the default policy to reject and the drop policy to succeed");
+    }
+    expect(rejected.errorType).toBe("InvalidInput");
+    expect(dropped.best.method).toBe("exponential");
+    expect(dropped.missing?.droppedIndices).toEqual([2, 8, 14]);
+    expect(dropped.best.fit.missing).toBeUndefined();
+  });
+
+  it("should support partial application", () => {
+    const rankByBic = compareModels({ criterion: "bic" });
+    const result = rankByBic(growth);
+
+    expect(result.ok && result.best.method).toBe("exponential");
+  });
+
+  it("should return errors for invalid options and data", () => {
+    const noMethods = compareModels({ methods: [] }, growth);
+    const badFolds = compareModels({ folds: 1 }, growth);
+    const tooFew = compareModels({}, [[1, 1], [2, 2]]);
+    const invalid = compareModels({}, [[1, 1], [2, NaN], [3, 3]]);
+    const flat = compareModels({}, [[1, 4], [2, 4], [3, 4]]);
+    const none = compareModels({ methods: ["exponential"] }, [[1, -1], [2, 2], [3, 3]]);
+
+    if (noMethods.ok || badFolds.ok || tooFew.ok || invalid.ok || flat.ok || none.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(noMethods.errorType).toBe("InvalidInput");
+    expect(badFolds.errorType).toBe("InvalidInput");
+    expect(tooFew.errorType).toBe("InsufficientData");
+    expect(invalid.errorType).toBe("InvalidInput");
+    expect(flat.errorType).toBe("DegenerateInput");
+    expect(none.errorType).toBe("InvalidInput");
+    expect(none.message).toMatch(/^None of the candidate models could be fitted\. exponential: /);
+  });
+});
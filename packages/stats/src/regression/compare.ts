@@ -0,0 +1,259 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_COMPARISON_OPTIONS } from "./const";
+import type {
+  ComparableMethod,
+  DataPoint,
+  ExcludedModel,
+  ModelComparison,
+  ModelComparisonOptions,
+  ModelComparisonResult,
+  ModelSelectionCriterion,
+  RegressionOptions,
+  RegressionResult,
+  RegressionSuccess,
+} from "./types";
+import { round, findInvalidPoint } from "./util";
+import { applyMissingPolicy } from "../missing/util";
+import { linear } from "./linear";
+import { exponential } from "./exponential";
+import { logarithmic } from "./logarithmic";
+import { power } from "./power";
+import { polynomial } from "./polynomial";
+import { theilSen } from "./theilSen";
+import { huber } from "./huber";
+
+const FITTERS: Record<ComparableMethod, (options: Partial<RegressionOptions>, data: DataPoint[]) => RegressionResult> = {
+  linear,
+  exponential,
+  logarithmic,
+  power,
+  polynomial,
+  theilSen,
+  huber,
+};
+
+/**
+ * The smallest sum of squared errors, relative to the total sum of squares, used in the information criteria.
+ * Without it a model that passes through every point would have an AIC of minus infinity.
+ */
+const MIN_RELATIVE_SSE = 1e-12;
+
+/**
+ * Criteria for which a higher value is better; the others rank lowest first.
+ */
+const HIGHER_IS_BETTER: ModelSelectionCriterion[] = ["adjustedRSquared"];
+
+const parameterCount = (method: ComparableMethod, options: RegressionOptions): number =>
+  method === "polynomial" ? options.order + 1 : 2;
+
+const sumSquaredErrors = (fit: RegressionSuccess, data: DataPoint[]): number =>
+  data.reduce((sum, [x, y]) => sum + (y - fit.predict(x)[1]) ** 2, 0);
+
+/**
+ * Compute the k-fold cross-validated RMSE. Point i is held out in fold `i mod k`, so every fold spans the whole
+ * x range and the held-out points are interpolated rather than extrapolated.
+ */
+const crossValidatedRmse = (
+  fitter: (options: Partial<RegressionOptions>, data: DataPoint[]) => RegressionResult,
+  options: RegressionOptions,
+  data: DataPoint[],
+  folds: number
+): number => {
+  let sse = 0;
+  for (let fold = 0; fold < folds; fold++) {
+    const training = data.filter((_, i) => i % folds !== fold);
+    const fit = fitter(options, training);
+    if (!fit.ok) {
+      return NaN;
+    }
+    for (let i = fold; i < data.length; i += folds) {
+      const [x, y] = data[i];
+      sse += (y - fit.predict(x)[1]) ** 2;
+    }
+  }
+  return Math.sqrt(sse / data.length);
+};
+
+/**
+ * Order two values of a criterion, placing NaN last.
+ */
+const compareBy = (criterion: ModelSelectionCriterion) => (a: ModelComparison, b: ModelComparison): number => {
+  const [left, right] = [a[criterion], b[criterion]];
+  if (isNaN(left) || isNaN(right)) {
+    return Number(isNaN(left)) - Number(isNaN(right));
+  }
+  return HIGHER_IS_BETTER.includes(criterion) ? right - left : left - right;
+};
+
+/**
+ * Fits several regression methods to the same data and ranks them, answering "which trend line fits best?".
+ * Every candidate is scored on the original scale of y by AIC, BIC, adjusted R-squared and k-fold cross-validated
+ * RMSE, so curves fitted in a transformed space (such as `exponential`, fitted to ln(y)) are compared fairly.
+ *
+ * @param {Partial<ModelComparisonOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `methods`, `criterion`, `folds`, and regression options like `order` and `precision` passed on to every candidate.
+ * @param {DataPoint[]} suppliedData - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least three data points and y-values that are not all identical. Missing values are treated by the
+ * `missing` policy before any candidate is fitted.
+ * @returns {ModelComparisonResult} A discriminant union representing the success or failure of the comparison.
+ * - If successful (`ok: true`), `models` is the comparison table ranked by `criterion`, `best` is its first row,
+ * and `excluded` lists the candidates that could not be fitted, such as `power` for data with negative x-values.
+ * A candidate is also excluded when it has as many coefficients as there are data points.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const data = [[0, 2], [1, 5.4], [2, 14.8], [3, 40.2], [4, 109.2], [5, 296.8]];
+ * const result = compareModels({}, data);
+ * if (result.ok) {
+ * console.log(result.best.method); // "exponential"
+ * console.log(result.models.map((model) => [model.method, model.deltaAic]));
+ * }
+ *
+ * @example
+ * // Rank by out-of-sample accuracy, considering quadratic and cubic fits
+ * const byCv = compareModels({ criterion: "cvRmse", folds: 10 });
+ * const quadratic = byCv({ methods: ["linear", "polynomial"], order: 2 }, data);
+ *
+ * @description
+ * **Insights derived from Model Comparison:**
+ * - **Shape of the Trend:** Whether growth is straight, compounding (`exponential`) or tapering (`logarithmic`).
+ * - **Strength of Preference:** `deltaAic` and `aicWeight` show whether the winner is clearly better or merely
+ * one of several plausible models; an AIC difference below 2 is not a meaningful preference.
+ * - **Overfitting:** A model with a high R-squared but a poor `cvRmse` fits the noise rather than the trend.
+ */
+export const compareModels = curry((
+  suppliedOptions: Partial<ModelComparisonOptions>,
+  suppliedData: DataPoint[]
+): ModelComparisonResult => {
+  const options: ModelComparisonOptions = { ...DEFAULT_COMPARISON_OPTIONS, ...suppliedOptions };
+  // The policy is applied once, so that every candidate is fitted to the same points.
+  const { data, report } = applyMissingPolicy(options, suppliedData);
+  const n = data.length;
+
+  if (options.methods.length === 0) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: "Model comparison requires at least one candidate method.",
+    };
+  }
+
+  if (!Number.isInteger(options.folds) || options.folds < 2) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The number of cross-validation folds must be an integer of at least 2. Received ${options.folds}.`,
+    };
+  }
+
+  if (n < 3) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Model comparison requires at least 3 valid data points (x, y). Received ${n}.`,
+    };
+  }
+
+  const invalidIndex = findInvalidPoint(data);
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Model comparison requires finite numerical inputs.`,
+    };
+  }
+
+  const meanY = data.reduce((sum, [, y]) => sum + y, 0) / n;
+  const sst = data.reduce((sum, [, y]) => sum + (y - meanY) ** 2, 0);
+
+  if (sst === 0) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message: "Cannot compare models: all y-values are identical, so every model fits them equally well.",
+    };
+  }
+
+  // Candidates are scored on unrounded fits, so that rounding does not decide between close models.
+  const candidateOptions: RegressionOptions = { ...options, missing: "reject" };
+  const exact: RegressionOptions = { ...candidateOptions, precision: Infinity };
+  const folds = Math.min(options.folds, n);
+  const excluded: ExcludedModel[] = [];
+  const scored: Omit<ModelComparison, "deltaAic" | "aicWeight">[] = [];
+
+  for (const method of options.methods) {
+    const fitter = FITTERS[method];
+    const k = parameterCount(method, options);
+    const fit = fitter(exact, data);
+
+    if (!fit.ok) {
+      excluded.push({ method, errorType: fit.errorType, message: fit.message });
+      continue;
+    }
+    if (n <= k) {
+      excluded.push({
+        method,
+        errorType: "InsufficientData",
+        message: `Comparing a model with ${k} coefficients requires more than ${k} data points. Received ${n}.`,
+      });
+      continue;
+    }
+
+    const sse = sumSquaredErrors(fit, data);
+    const logLikelihoodTerm = n * Math.log(Math.max(sse, MIN_RELATIVE_SSE * sst) / n);
+    const rSquared = 1 - sse / sst;
+    const rounded = fitter(candidateOptions, data);
+
+    scored.push({
+      method,
+      parameters: k,
+      rSquared,
+      adjustedRSquared: 1 - ((1 - rSquared) * (n - 1)) / (n - k),
+      aic: logLikelihoodTerm + 2 * (k + 1),
+      bic: logLikelihoodTerm + (k + 1) * Math.log(n),
+      cvRmse: crossValidatedRmse(fitter, exact, data, folds),
+      fit: rounded.ok ? rounded : fit,
+    });
+  }
+
+  if (scored.length === 0) {
+    const [first] = excluded;
+    return {
+      ok: false,
+      errorType: first.errorType,
+      message: `None of the candidate models could be fitted. ${first.method}: ${first.message}`,
+    };
+  }
+
+  const lowestAic = Math.min(...scored.map((model) => model.aic));
+  const likelihoods = scored.map((model) => Math.exp(-(model.aic - lowestAic) / 2));
+  const totalLikelihood = likelihoods.reduce((sum, value) => sum + value, 0);
+
+  const models: ModelComparison[] = scored
+    .map((model, i) => ({
+      ...model,
+      deltaAic: model.aic - lowestAic,
+      aicWeight: likelihoods[i] / totalLikelihood,
+    }))
+    .sort(compareBy(options.criterion))
+    .map((model) => ({
+      ...model,
+      rSquared: round(model.rSquared, options.precision),
+      adjustedRSquared: round(model.adjustedRSquared, options.precision),
+      aic: round(model.aic, options.precision),
+      bic: round(model.bic, options.precision),
+      cvRmse: round(model.cvRmse, options.precision),
+      deltaAic: round(model.deltaAic, options.precision),
+      aicWeight: round(model.aicWeight, options.precision),
+    }));
+
+  return {
+    ok: true,
+    criterion: options.criterion,
+    best: models[0],
+    models,
+    excluded,
+    ...(options.missing === "reject" ? {} : { missing: report }),
+  };
+});
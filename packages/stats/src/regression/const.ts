@@ -1,6 +1,69 @@
-import type { RegressionOptions } from "./types";
+import type {
+  DiagnosticsOptions,
+  ModelComparisonOptions,
+  MultipleRegressionOptions,
+  RegressionOptions,
+  SlopeComparisonOptions,
+} from "./types";
+import { DEFAULT_MISSING_VALUE_OPTIONS } from "../missing/const";
 
 /**
  * Default options for regression methods.
  */
-export const DEFAULT_OPTIONS: RegressionOptions = { order: 2, precision: 2, period: null };
\ No newline at end of file
+export const DEFAULT_OPTIONS: RegressionOptions = {
+  ...DEFAULT_MISSING_VALUE_OPTIONS,
+  order: 2,
+  precision: 2,
+  period: null,
+  confidenceLevel: 0.95,
+  maxIterations: 50,
+  tolerance: 1e-6,
+  huberK: 1.345,
+  outlierThreshold: 3,
+};
+
+/**
+ * The spread of x-values, relative to their mean, below which they are treated as identical.
+ * Rounding in the mean can leave a tiny non-zero spread when every x-value is the same.
+ */
+export const DEGENERATE_TOLERANCE = 1e-12;
+
+/**
+ * Default number of x-values at which regression bands are sampled.
+ */
+export const DEFAULT_BAND_SAMPLES = 50;
+
+/**
+ * Default options for multiple regression.
+ */
+export const DEFAULT_MULTIPLE_OPTIONS: MultipleRegressionOptions = {
+  ...DEFAULT_MISSING_VALUE_OPTIONS,
+  precision: 2,
+  confidenceLevel: 0.95,
+  intercept: true,
+};
+/**
+ * Default options for model comparison.
+ */
+export const DEFAULT_COMPARISON_OPTIONS: ModelComparisonOptions = {
+  ...DEFAULT_OPTIONS,
+  methods: ["linear", "exponential", "logarithmic", "power", "polynomial"],
+  criterion: "aic",
+  folds: 5,
+};
+
+/**
+ * Default options for regression diagnostics.
+ */
+export const DEFAULT_DIAGNOSTICS_OPTIONS: DiagnosticsOptions = {
+  precision: 2,
+};
+
+/**
+ * Default options for slope comparison.
+ */
+export const DEFAULT_SLOPE_COMPARISON_OPTIONS: SlopeComparisonOptions = {
+  ...DEFAULT_MISSING_VALUE_OPTIONS,
+  precision: 2,
+  confidenceLevel: 0.95,
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { regressionDiagnostics } from "./diagnostics";
+import { linear } from "./linear";
+import { polynomial } from "./polynomial";
+import { logarithmic } from "./logarithmic";
+import type { DataPoint, RegressionResult, RegressionSuccess } from "./types";
+
+const data: DataPoint[] = [[1, 2], [2, 4.5], [3, 5.5], [4, 8], [5, 9.5], [6, 13]];
+
+const success = (result: RegressionResult): RegressionSuccess => {
+  if (!result.ok) {
+    throw new Error("Expected successful fit");
+  }
+  return result;
+};
+
+describe("regressionDiagnostics", () => {
+  it("should compute residual diagnostics for a linear fit", () => {
+    const result = regressionDiagnostics({ precision: 4 }, success(linear({ precision: 12 }, data)), data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.residuals).toEqual([0.0952, 0.5238, -0.5476, -0.119, -0.6905, 0.7381]);
+    expect(result.leverage).toEqual([0.5238, 0.2952, 0.181, 0.181, 0.2952, 0.5238]);
+    expect(result.standardizedResiduals).toEqual([0.2169, 0.9807, -0.9511, -0.2068, -1.2928, 1.6812]);
+    expect(result.studentizedResiduals).toEqual([0.189, 0.9746, -0.9363, -0.18, -1.4673, 2.688]);
+    expect(result.cooksDistance).toEqual([0.0259, 0.2015, 0.0999, 0.0047, 0.3501, 1.5546]);
+    expect(result.rmse).toBe(0.5195);
+    expect(result.mae).toBe(0.4524);
+    expect(result.mape).toBe(6.7988);
+    expect(result.durbinWatson).toBe(2.3981);
+    expect(result.breuschPagan.statistic).toBe(3.0528);
+    expect(result.breuschPagan.df).toBe(1);
+    expect(result.breuschPagan.pValue).toBeCloseTo(0.0806005, 6);
+    expect(result.normality.statistic).toBe(0.509);
+    expect(result.normality.df).toBe(2);
+    expect(result.normality.pValue).toBeCloseTo(0.7753074, 6);
+  });
+
+  it("should use the design of polynomial and logarithmic fits", () => {
+    const curved: DataPoint[] = Array.from({ length: 12 }, (_, i) => [i + 1, 0.5 * (i + 1) ** 2 + ((i * 7) % 5) - 2]);
+    const quadratic = regressionDiagnostics({ precision: 10 }, success(polynomial({ order: 2, precision: 12 }, curved)), curved);
+    const log = regressionDiagnostics({ precision: 10 }, success(logarithmic({ precision: 12 }, curved)), curved);
+
+    if (!quadratic.ok || !log.ok) {
+      throw new Error("Expected successful results");
+    }
+    // Leverages sum to the number of coefficients.
+    expect(quadratic.leverage.reduce((sum, h) => sum + h, 0)).toBeCloseTo(3, 8);
+    expect(quadratic.breuschPagan.df).toBe(2);
+    expect(log.leverage.reduce((sum, h) => sum + h, 0)).toBeCloseTo(2, 8);
+    // ln(x) spreads the small x-values out, giving the first point the largest leverage.
+    expect(log.leverage.indexOf(Math.max(...log.leverage))).toBe(0);
+  });
+
+  it("should detect autocorrelated and heteroscedastic residuals", () => {
+    const cyclical: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, t + 5 * Math.sin(t / 4)]);
+    const fanning: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, 2 * t + (t % 2 === 0 ? 1 : -1) * 0.5 * t]);
+    const autocorrelated = regressionDiagnostics({}, success(linear({ precision: 12 }, cyclical)), cyclical);
+    const heteroscedastic = regressionDiagnostics({}, success(linear({ precision: 12 }, fanning)), fanning);
+
+    if (!autocorrelated.ok || !heteroscedastic.ok) {
+      throw new Error("Expected successful results");
+    }
+    expect(autocorrelated.durbinWatson).toBeLessThan(0.5);
+    expect(heteroscedastic.breuschPagan.pValue).toBeLessThan(0.001);
+  });
+
+  it("should report a NaN MAPE when a y-value is zero", () => {
+    const withZero: DataPoint[] = [[1, 0], [2, 2.5], [3, 3.5], [4, 6], [5, 7.5]];
+    const result = regressionDiagnostics({}, success(linear({ precision: 12 }, withZero)), withZero);
+
+    expect(result.ok && result.mape).toBeNaN();
+  });
+
+  it("should support partial application", () => {
+    const fit = success(linear({ precision: 12 }, data));
+    const diagnose = regressionDiagnostics({ precision: 1 }, fit);
+
+    expect(diagnose(data)).toEqual(regressionDiagnostics({ precision: 1 }, fit, data));
+  });
+
+  it("should return errors for unusable data", () => {
+    const fit = success(linear({ precision: 12 }, data));
+    const tooFew = regressionDiagnostics({}, fit, data.slice(0, 3));
+    const invalid = regressionDiagnostics({}, fit, [...data, [7, NaN]]);
+    const sameX = regressionDiagnostics({}, fit, [[1, 1], [1, 2], [1, 3], [1, 4]]);
+    const exact = regressionDiagnostics({}, success(linear({}, [[1, 2], [2, 4], [3, 6], [4, 8]])), [[1, 2], [2, 4], [3, 6], [4, 8]]);
+    const logOfZero = regressionDiagnostics({}, success(logarithmic({}, data)), [[0, 1], ...data]);
+
+    if (tooFew.ok || invalid.ok || sameX.ok || exact.ok || logOfZero.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(tooFew.errorType).toBe("InsufficientData");
+    expect(invalid.errorType).toBe("InvalidInput");
+    expect(sameX.errorType).toBe("DegenerateInput");
+    expect(exact.errorType).toBe("DegenerateInput");
+    expect(logOfZero.errorType).toBe("InvalidInput");
+  });
+});
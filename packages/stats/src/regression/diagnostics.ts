@@ -0,0 +1,218 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DIAGNOSTICS_OPTIONS } from "./const";
+import type {
+  DataPoint,
+  DiagnosticsOptions,
+  DiagnosticTest,
+  RegressionDiagnosticsResult,
+  RegressionSuccess,
+} from "./types";
+import { round, findInvalidPoint } from "./util";
+import { qr, invertUpperTriangular } from "../linalg";
+import { regularizedUpperGamma } from "../distribution";
+import { centralMoments } from "../descriptive/util";
+
+/**
+ * The size of a diagonal entry of R, relative to its column's norm, below which the design is treated as singular.
+ */
+const RANK_TOLERANCE = 1e-10;
+
+/**
+ * The residual standard deviation, relative to the magnitude of the y-values, below which the fit is treated as exact.
+ */
+const EXACT_FIT_TOLERANCE = 1e-12;
+
+/**
+ * Whether the method's linearised form regresses on ln(x), as `logarithmic` and `power` do. The others regress on x,
+ * including `exponential`, which is fitted to ln(y).
+ */
+const usesLogX = (method: RegressionSuccess["method"]): boolean => method === "logarithmic" || method === "power";
+
+/**
+ * Build the design matrix of the fit's linearised form. The regressor is centred and scaled before taking powers,
+ * which leaves the column space, and so the leverages, unchanged while keeping high powers well conditioned.
+ */
+const designMatrix = (fit: RegressionSuccess, data: DataPoint[]): number[][] => {
+  const transform = usesLogX(fit.method) ? Math.log : (x: number) => x;
+  const degree = fit.method === "polynomial" ? fit.coefficients.length - 1 : 1;
+  const values = data.map(([x]) => transform(x));
+  const centre = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const scale = Math.max(...values.map((value) => Math.abs(value - centre))) || 1;
+  return values.map((value) => {
+    const z = (value - centre) / scale;
+    return Array.from({ length: degree + 1 }, (_, power) => z ** power);
+  });
+};
+
+/**
+ * Compute the upper-tail probability of the chi-squared distribution.
+ */
+const chiSquarePValue = (statistic: number, df: number): number => regularizedUpperGamma(df / 2, statistic / 2);
+
+/**
+ * Computes residual diagnostics for a fitted regression, for checking the assumptions behind its p-values and
+ * intervals: that the residuals are independent, have constant spread and are normally distributed, and that no single
+ * point dominates the fit. Works with the result of any single-predictor method, such as `linear` or `polynomial`.
+ *
+ * Residuals are measured on the original scale of y. Leverage, Cook's distance and the Breusch–Pagan test use the
+ * design of the method's linearised form, such as ln(x) for `logarithmic`, and treat robust and weighted fits as if
+ * they were ordinary least squares.
+ *
+ * @param {Partial<DiagnosticsOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`.
+ * @param {RegressionSuccess} fit - A successful regression result. Fit it at a high `precision` so that rounded
+ * coefficients do not distort small residuals.
+ * @param {DataPoint[]} data - The data points the regression was fitted to, ordered by x (or time) for Durbin–Watson.
+ * Expects at least two more points than the fit has coefficients.
+ * @returns {RegressionDiagnosticsResult} A discriminant union representing the success or failure of the diagnostics.
+ * - If successful (`ok: true`), it returns per-point `residuals`, `standardizedResiduals`, `studentizedResiduals`,
+ * `leverage` and `cooksDistance`, the error summaries `rmse`, `mae` and `mape`, the `durbinWatson` statistic, and the
+ * `breuschPagan` and `normality` (Jarque–Bera) tests.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * const fit = linear({ precision: 10 }, data);
+ * if (fit.ok) {
+ * const diagnostics = regressionDiagnostics({}, fit, data);
+ * if (diagnostics.ok && diagnostics.breuschPagan.pValue < 0.05) {
+ * console.log("The spread of the residuals changes with x; the confidence bands are unreliable.");
+ * }
+ * }
+ *
+ * @description
+ * **Insights derived from Regression Diagnostics:**
+ * - **Fit Quality:** `rmse`, `mae` and `mape` express the typical prediction error in the units of y or as a percentage.
+ * - **Autocorrelation:** A `durbinWatson` well below 2 means consecutive residuals move together, as with an unmodelled
+ * cycle, so the trend's p-value is overstated.
+ * - **Heteroscedasticity:** A significant Breusch–Pagan test means the scatter grows or shrinks with x, such as errors
+ * proportional to the level of y; a log-scale fit may suit the data better.
+ * - **Influence:** Large `cooksDistance` values identify points that single-handedly shape the fit.
+ */
+export const regressionDiagnostics = curry((
+  suppliedOptions: Partial<DiagnosticsOptions>,
+  fit: RegressionSuccess,
+  data: DataPoint[]
+): RegressionDiagnosticsResult => {
+  const options: DiagnosticsOptions = { ...DEFAULT_DIAGNOSTICS_OPTIONS, ...suppliedOptions };
+  const n = data.length;
+  const p = fit.method === "polynomial" ? fit.coefficients.length : 2;
+
+  if (n < p + 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Diagnosing a fit with ${p} coefficients requires at least ${p + 2} valid data points (x, y). Received ${n}.`,
+    };
+  }
+
+  const invalidIndex = findInvalidPoint(data);
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Regression diagnostics require finite numerical inputs.`,
+    };
+  }
+
+  if (usesLogX(fit.method)) {
+    const nonPositiveIndex = data.findIndex(([x]) => x <= 0);
+    if (nonPositiveIndex !== -1) {
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: `Data point at index ${nonPositiveIndex} has a non-positive x-value (${data[nonPositiveIndex][0]}), which a ${fit.method} fit cannot have been fitted to.`,
+      };
+    }
+  }
+
+  const design = designMatrix(fit, data);
+  const { r } = qr(design);
+  const singular = r.some((row, j) => {
+    const columnNorm = Math.sqrt(design.reduce((sum, designRow) => sum + designRow[j] ** 2, 0));
+    return columnNorm === 0 || Math.abs(row[j]) <= RANK_TOLERANCE * columnNorm;
+  });
+  if (singular) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message: `Cannot diagnose the fit: the data has too few distinct x-values for a model with ${p} coefficients.`,
+    };
+  }
+
+  const residuals = data.map(([x, y]) => y - fit.predict(x)[1]);
+  const sse = residuals.reduce((sum, e) => sum + e * e, 0);
+  const df = n - p;
+  const residualVariance = sse / df;
+  const scale = Math.max(1, ...data.map(([, y]) => Math.abs(y)));
+
+  if (Math.sqrt(residualVariance) <= EXACT_FIT_TOLERANCE * scale) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message: "Cannot diagnose the fit: it passes through every point exactly, so there are no residuals to examine.",
+    };
+  }
+
+  // The rows of Q = X·R⁻¹ give the leverages, hᵢ = ‖qᵢ‖², and project onto the column space of the design.
+  const rInverse = invertUpperTriangular(r);
+  const q = design.map((row) => rInverse.map((_, j) => row.reduce((sum, value, k) => sum + value * rInverse[k][j], 0)));
+  // A leverage of 1 means the point alone determines part of the fit, which then passes through it exactly.
+  const leverage = q.map((row) => Math.min(1, row.reduce((sum, value) => sum + value * value, 0)));
+
+  const standardized = residuals.map((e, i) =>
+    leverage[i] >= 1 ? 0 : e / Math.sqrt(residualVariance * (1 - leverage[i]))
+  );
+  // tᵢ = rᵢ·√((n - p - 1) / (n - p - rᵢ²)); a point that accounts for all of the residual variance has an infinite score.
+  const studentized = standardized.map((s) => {
+    const remaining = df - s * s;
+    return remaining > 0 ? s * Math.sqrt((df - 1) / remaining) : Math.sign(s) * Infinity;
+  });
+  const cooksDistance = standardized.map((s, i) =>
+    leverage[i] >= 1 ? Infinity : (s * s * leverage[i]) / (p * (1 - leverage[i]))
+  );
+
+  let successiveSquares = 0;
+  for (let i = 1; i < n; i++) {
+    successiveSquares += (residuals[i] - residuals[i - 1]) ** 2;
+  }
+
+  // Koenker's Breusch–Pagan statistic is n·R² from regressing the squared residuals on the design.
+  const squared = residuals.map((e) => e * e);
+  const meanSquared = sse / n;
+  const projection = rInverse.map((_, j) => q.reduce((sum, row, i) => sum + row[j] * squared[i], 0));
+  const explained = q.reduce((sum, row) => {
+    const fitted = row.reduce((total, value, j) => total + value * projection[j], 0);
+    return sum + (fitted - meanSquared) ** 2;
+  }, 0);
+  const totalSquared = squared.reduce((sum, value) => sum + (value - meanSquared) ** 2, 0);
+  const bpStatistic = totalSquared === 0 ? 0 : (n * explained) / totalSquared;
+
+  const { m2, m3, m4 } = centralMoments(residuals);
+  const skew = m3 / m2 ** 1.5;
+  const excessKurtosis = m4 / (m2 * m2) - 3;
+  const jbStatistic = (n / 6) * (skew * skew + (excessKurtosis * excessKurtosis) / 4);
+
+  const test = (statistic: number, testDf: number): DiagnosticTest => ({
+    statistic: round(statistic, options.precision),
+    df: testDf,
+    pValue: chiSquarePValue(statistic, testDf),
+  });
+  const roundAll = (values: number[]): number[] => values.map((value) => round(value, options.precision));
+
+  return {
+    ok: true,
+    residuals: roundAll(residuals),
+    standardizedResiduals: roundAll(standardized),
+    studentizedResiduals: roundAll(studentized),
+    leverage: roundAll(leverage),
+    cooksDistance: roundAll(cooksDistance),
+    rmse: round(Math.sqrt(sse / n), options.precision),
+    mae: round(residuals.reduce((sum, e) => sum + Math.abs(e), 0) / n, options.precision),
+    mape: data.some(([, y]) => y === 0)
+      ? NaN
+      : round((100 * data.reduce((sum, [, y], i) => sum + Math.abs(residuals[i] / y), 0)) / n, options.precision),
+    durbinWatson: round(successiveSquares / sse, options.precision),
+    breuschPagan: test(bpStatistic, p - 1),
+    normality: test(jbStatistic, 2),
+  };
+});
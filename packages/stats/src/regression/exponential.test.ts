@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { exponential } from "./exponential";
+import type { DataPoint } from "./types";
+
+describe("exponential", () => {
+  it("should fit perfect exponential growth", () => {
+    const data: DataPoint[] = [0, 1, 2, 3, 4].map((x): DataPoint => [x, 2 * Math.exp(0.5 * x)]);
+    const result = exponential({ precision: 4 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.method).toBe("exponential");
+    expect(result.coefficients[0]).toBeCloseTo(2); // a
+    expect(result.coefficients[1]).toBeCloseTo(0.5); // b
+    expect(result.m).toBeCloseTo(0.5);
+    expect(result.b).toBeCloseTo(Math.log(2));
+    expect(result.rSquared).toBeCloseTo(1);
+    expect(result.predict(5)[1]).toBeCloseTo(2 * Math.exp(2.5), 2);
+  });
+
+  it("should fit exponential decay with a negative rate", () => {
+    const data: DataPoint[] = [0, 1, 2, 3].map((x): DataPoint => [x, 100 * Math.exp(-0.3 * x)]);
+    const result = exponential({}, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.coefficients[0]).toBeCloseTo(100);
+    expect(result.coefficients[1]).toBeCloseTo(-0.3);
+    expect(result.m).toBeLessThan(0);
+  });
+
+  it("should return an error for non-positive y-values", () => {
+    const data: DataPoint[] = [
+      [0, 1],
+      [1, 0],
+      [2, 4],
+    ];
+    const result = exponential({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("index 1 has a non-positive y-value (0)");
+  });
+
+  it("should return an error for insufficient data", () => {
+    const result = exponential({}, [[1, 2]]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error when all x-values are identical", () => {
+    const data: DataPoint[] = [
+      [1, 1],
+      [1, 2],
+      [1, 3],
+    ];
+    const result = exponential({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+
+  it("should return an error on bad numerical values", () => {
+    const data: DataPoint[] = [
+      [1, 2],
+      [NaN, 3],
+    ];
+    const result = exponential({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("index 1 contains non-finite values");
+  });
+});
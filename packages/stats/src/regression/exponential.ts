@@ -0,0 +1,129 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_OPTIONS } from "./const";
+import type {
+  DataPoint,
+  PredictedPoint,
+  RegressionOptions,
+  RegressionResult,
+} from "./types";
+import { rSquared, round, findInvalidPoint, leastSquares, withMissingValuePolicy } from "./util";
+
+/**
+ * Performs exponential regression, fitting a curve of the form `y = a·e^(b·x)` to the data points.
+ * The curve is found by fitting a least squares line to `ln(y)` against `x`, so every y-value must be positive.
+ *
+ * @param {Partial<RegressionOptions>} [suppliedOptions] - Optional regression options to override defaults, such as `precision`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least two data points with positive y-values and distinct x-values.
+ * @returns {RegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), `coefficients` holds `[a, b]`, `m` is the growth rate `b` and `b` is `ln(a)`,
+ * the slope and intercept of the linearised fit.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * const data = [[0, 2], [1, 5.44], [2, 14.78], [3, 40.17]];
+ * const result = exponential({}, data);
+ * if (result.ok) {
+ * console.log(result.coefficients); // [2, 1] => y = 2·e^x
+ * }
+ *
+ * @example
+ * // Handling non-positive y-values
+ * const data = [[0, 1], [1, 0], [2, 4]];
+ * const result = exponential({}, data);
+ * // result.ok will be false, result.errorType will be "InvalidInput"
+ *
+ * @description
+ * **Insights derived from Exponential Regression:**
+ * - **Compounding Growth or Decay:** Describes metrics that change by a constant percentage per unit of x, such as user growth or radioactive decay.
+ * - **Growth Rate:** `e^b - 1` is the proportional change in y for every one-unit increase in x.
+ * - **Doubling Time:** For positive `b`, `ln(2) / b` is the x distance over which y doubles.
+ */
+export const exponential = curry(withMissingValuePolicy((
+  suppliedOptions: Partial<RegressionOptions>,
+  data: DataPoint[]
+): RegressionResult => {
+  const options: RegressionOptions = {
+    ...DEFAULT_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  if (data.length < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Exponential regression requires at least 2 valid data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = findInvalidPoint(data);
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Exponential regression requires finite numerical inputs.`,
+    };
+  }
+
+  const nonPositiveIndex = data.findIndex((point) => point[1] <= 0);
+  if (nonPositiveIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${nonPositiveIndex} has a non-positive y-value (${data[nonPositiveIndex][1]}). Exponential regression requires all y-values to be greater than zero.`,
+    };
+  }
+
+  const fit = leastSquares(data.map(([x, y]): DataPoint => [x, Math.log(y)]));
+
+  if (fit === null) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message:
+        "Cannot perform exponential regression: all x-values are identical, resulting in a vertical line.",
+    };
+  }
+
+  const a = round(Math.exp(fit.intercept), options.precision);
+  const rate = round(fit.gradient, options.precision);
+
+  if (!Number.isFinite(a) || !Number.isFinite(rate)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Exponential regression resulted in non-finite coefficients (NaN or Infinity). This can occur with extremely large or small y-values.",
+    };
+  }
+
+  const predict = (x: number): PredictedPoint => [
+    round(x, options.precision),
+    round(a * Math.exp(rate * x), options.precision),
+  ];
+
+  const points = data.map((point) => predict(point[0]));
+
+  const r2 = rSquared(data, points);
+
+  if (isNaN(r2)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "R-squared calculation failed or resulted in NaN. This can occur if the dependent variable (y) has no variance or due to other mathematical issues.",
+    };
+  }
+
+  return {
+    ok: true,
+    points,
+    predict,
+    m: rate,
+    b: round(fit.intercept, options.precision),
+    coefficients: [a, rate],
+    rSquared: round(r2, options.precision),
+    method: "exponential",
+  };
+}));
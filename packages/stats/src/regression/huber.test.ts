@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { huber } from "./huber";
+import { linear } from "./linear";
+import type { DataPoint } from "./types";
+
+describe("huber", () => {
+  const noisy: DataPoint[] = [
+    [1, 2.1],
+    [2, 3.9],
+    [3, 6.2],
+    [4, 7.8],
+    [5, 10.1],
+    [6, 11.9],
+    [7, 14.2],
+    [8, 40],
+  ];
+
+  it("should match ordinary least squares on a perfect line", () => {
+    const data: DataPoint[] = [
+      [1, 3],
+      [2, 5],
+      [3, 7],
+      [4, 9],
+    ];
+    const result = huber({}, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.method).toBe("huber");
+    expect(result.m).toBeCloseTo(2);
+    expect(result.b).toBeCloseTo(1);
+    expect(result.diagnostics?.downWeighted).toBe(0);
+  });
+
+  it("should limit the influence of an outlier", () => {
+    const result = huber({ precision: 4 }, noisy);
+    const ols = linear({ precision: 4 }, noisy);
+
+    if (!result.ok || !ols.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(Math.abs(ols.m - 2)).toBeGreaterThan(1);
+    expect(result.m).toBeCloseTo(2, 0);
+    expect(Math.abs(result.m - 2)).toBeLessThan(0.5);
+  });
+
+  it("should report weights, iterations and down-weighted points", () => {
+    const result = huber({}, noisy);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    const { diagnostics } = result;
+    expect(diagnostics?.weights).toHaveLength(noisy.length);
+    expect(diagnostics?.weights![7]).toBeLessThan(0.1);
+    expect(diagnostics?.downWeighted).toBeGreaterThanOrEqual(1);
+    expect(diagnostics?.iterations).toBeGreaterThan(1);
+    expect(diagnostics?.scale).toBeGreaterThan(0);
+  });
+
+  it("should nearly discard an outlier when the other points lie exactly on a line", () => {
+    const data: DataPoint[] = [
+      [1, 1],
+      [2, 2],
+      [3, -50],
+      [4, 4],
+      [5, 5],
+      [6, 6],
+    ];
+    const result = huber({}, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.m).toBeCloseTo(1, 1);
+    expect(result.b).toBeCloseTo(0, 0);
+    const weights = result.diagnostics!.weights!;
+    expect(weights[2]).toBeLessThan(0.05);
+    expect(Math.min(...weights)).toBe(weights[2]);
+  });
+
+  it("should return a ConvergenceFailure error when the iteration limit is reached", () => {
+    const result = huber({ maxIterations: 1 }, noisy);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("ConvergenceFailure");
+    expect(result.message).toContain("did not converge within 1 iterations");
+  });
+
+  it("should return an error for insufficient data", () => {
+    const result = huber({}, []);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error when all x-values are identical", () => {
+    const result = huber({}, [
+      [2, 1],
+      [2, 5],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+});
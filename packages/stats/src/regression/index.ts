@@ -1,2 +1,14 @@
 export * from "./linear";
-export * from "./types"
\ No newline at end of file
+export * from "./polynomial";
+export * from "./exponential";
+export * from "./logarithmic";
+export * from "./power";
+export * from "./weighted";
+export * from "./theilSen";
+export * from "./huber";
+export * from "./multiple";
+export * from "./linearAccumulator";
+export * from "./compare";
+export * from "./diagnostics";
+export * from "./slopes";
+export * from "./types"
@@ -261,6 +261,19 @@ describe("linear", () => {
     expect(result.rSquared).toBeCloseTo(1);
   });
 
+  it("should fit a slope over closely spaced epoch-millisecond x-values", () => {
+    const start = Date.UTC(2024, 0, 1);
+    const data: DataPoint[] = [0, 1, 2, 3, 4].map((second) => [start + second * 1000, 10 + 3 * second]);
+    const result = linear({ precision: 12 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.m).toBeCloseTo(0.003, 12);
+    expect(result.rSquared).toBeCloseTo(1, 10);
+  });
+
   it("predict function should use raw x for calculation, not rounded input x", () => {
     const data: DataPoint[] = [
       [1, 2],
@@ -302,4 +315,293 @@ describe("linear", () => {
     expect(result.b).toBeCloseTo(5);
     expect(result.rSquared).toBeCloseTo(1); // R^2 should be 1 if the line perfectly fits the data, even if y has no variance
   });
+
+  describe("inferential statistics", () => {
+    const data: DataPoint[] = [
+      [1, 1],
+      [2, 2.5],
+      [3, 2.8],
+      [4, 4.2],
+      [5, 5.1],
+    ];
+
+    it("should compute standard errors, t statistics and degrees of freedom", () => {
+      const result = linear({ precision: 4 }, data);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      // s² = SSE / (n - 2) = 0.089, Sxx = 10
+      expect(result.df).toBe(3);
+      expect(result.seM).toBeCloseTo(0.0943, 4);
+      expect(result.seB).toBeCloseTo(0.3129, 4);
+      expect(result.tM).toBeCloseTo(10.494, 3);
+      expect(result.tB).toBeCloseTo(0.4794, 4);
+    });
+
+    it("should compute unrounded two-sided p-values", () => {
+      const result = linear({}, data);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      // Reference values from the closed-form t(3) CDF
+      expect(result.pValueM).toBeCloseTo(0.0018477, 6);
+      expect(result.pValueB).toBeCloseTo(0.66443, 4);
+    });
+
+    it("should compute 95% confidence intervals by default", () => {
+      const result = linear({ precision: 4 }, data);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      // t(0.975, 3) = 3.1824
+      expect(result.ciM![0]).toBeCloseTo(0.6898, 4);
+      expect(result.ciM![1]).toBeCloseTo(1.2902, 4);
+      expect(result.ciB![0]).toBeCloseTo(0.15 - 3.1824 * 0.31289, 3);
+      expect(result.ciB![1]).toBeCloseTo(0.15 + 3.1824 * 0.31289, 3);
+    });
+
+    it("should widen confidence intervals for a higher confidence level", () => {
+      const result95 = linear({ precision: 4 }, data);
+      const result99 = linear({ precision: 4, confidenceLevel: 0.99 }, data);
+
+      if (!result95.ok || !result99.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      expect(result99.ciM![0]).toBeLessThan(result95.ciM![0]);
+      expect(result99.ciM![1]).toBeGreaterThan(result95.ciM![1]);
+      // t(0.995, 3) = 5.8409
+      expect(result99.ciM![1]).toBeCloseTo(0.99 + 5.8409 * 0.09434, 3);
+    });
+
+    it("should report a near-zero p-value for a perfect fit", () => {
+      const result = linear({}, [
+        [1, 2],
+        [2, 3],
+        [3, 4],
+        [4, 5],
+      ]);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      expect(result.pValueM).toBeCloseTo(0, 10);
+    });
+
+    it("should keep a tiny but positive p-value for a very strong trend", () => {
+      const wobble = [1e-6, -2e-6, 1.5e-6, -1e-6, 0.5e-6, -1.5e-6, 2e-6, -0.5e-6, 1e-6, -1e-6];
+      const result = linear({}, wobble.map((e, i): DataPoint => [i, 2 * i + 1 + e]));
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      expect(result.pValueM).toBeGreaterThan(0);
+      expect(result.pValueM).toBeLessThan(1e-30);
+    });
+
+    it("should report NaN inferential statistics when there are no residual degrees of freedom", () => {
+      const result = linear({}, [
+        [1, 2],
+        [2, 3],
+      ]);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      expect(result.df).toBe(0);
+      expect(result.seM).toBeNaN();
+      expect(result.pValueM).toBeNaN();
+    });
+
+    it("should return an error for an invalid confidence level", () => {
+      const result = linear({ confidenceLevel: 1.5 }, data);
+
+      if (result.ok) {
+        throw new Error("Expected result to be unsuccessful");
+      }
+      expect(result.errorType).toBe("InvalidInput");
+      expect(result.message).toContain("confidence level");
+    });
+  });
+
+  describe("confidence and prediction bands", () => {
+    // Oxygen purity (y) against hydrocarbon level (x), Montgomery & Runger,
+    // Applied Statistics and Probability for Engineers, Table 11-1 / Examples 11-6 and 11-7.
+    const oxygenPurity: DataPoint[] = [
+      [0.99, 90.01], [1.02, 89.05], [1.15, 91.43], [1.29, 93.74], [1.46, 96.73],
+      [1.36, 94.45], [0.87, 87.59], [1.23, 91.77], [1.55, 99.42], [1.4, 93.65],
+      [1.19, 93.54], [1.15, 92.52], [0.98, 90.56], [1.01, 89.54], [1.11, 89.85],
+      [1.2, 90.39], [1.26, 93.25], [1.32, 93.41], [1.43, 94.98], [0.95, 87.33],
+    ];
+
+    it("should match the textbook fit", () => {
+      const result = linear({ precision: 3 }, oxygenPurity);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      expect(result.m).toBeCloseTo(14.947, 3);
+      expect(result.b).toBeCloseTo(74.283, 2);
+      expect(result.seM).toBeCloseTo(1.317, 2);
+      expect(result.seB).toBeCloseTo(1.593, 2);
+    });
+
+    it("should match the textbook 95% confidence interval on the mean response at x = 1.00", () => {
+      const result = linear({ precision: 4 }, oxygenPurity);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      // 89.23 ± 0.75, i.e. 88.48 ≤ μ(Y|x = 1.00) ≤ 89.98
+      const [x, lower, upper] = result.confidenceBand!(1);
+      expect(x).toBe(1);
+      expect(upper - lower).toBeCloseTo(2 * 0.745, 2);
+      expect(lower).toBeCloseTo(88.486, 2);
+      expect(upper).toBeCloseTo(89.976, 2);
+    });
+
+    it("should match the textbook 95% prediction interval at x = 1.00", () => {
+      const result = linear({ precision: 4 }, oxygenPurity);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      // 86.83 ≤ Y₀ ≤ 91.63
+      const [, lower, upper] = result.predictionBand!(1);
+      expect(lower).toBeCloseTo(86.83, 2);
+      expect(upper).toBeCloseTo(91.63, 2);
+    });
+
+    it("should centre bands on the regression line and be narrowest at the mean of x", () => {
+      const result = linear({ precision: 4 }, oxygenPurity);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      const meanX = oxygenPurity.reduce((sum, [x]) => sum + x, 0) / oxygenPurity.length;
+      const width = (x: number) => {
+        const [, lower, upper] = result.confidenceBand!(x);
+        return upper - lower;
+      };
+      const [, lower, upper] = result.confidenceBand!(1.2);
+
+      expect((lower + upper) / 2).toBeCloseTo(result.predict(1.2)[1], 3);
+      expect(width(meanX)).toBeLessThan(width(0.9));
+      expect(width(meanX)).toBeLessThan(width(1.5));
+    });
+
+    it("should sample both bands over the input x range", () => {
+      const result = linear({ precision: 4 }, oxygenPurity);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      const bands = result.sampleBands!(5);
+      expect(bands.confidence.map(([x]) => x)).toEqual([0.87, 1.04, 1.21, 1.38, 1.55]);
+      expect(bands.prediction).toHaveLength(5);
+      bands.confidence.forEach(([, lower, upper], i) => {
+        const [, predictionLower, predictionUpper] = bands.prediction[i];
+        expect(predictionLower).toBeLessThan(lower);
+        expect(predictionUpper).toBeGreaterThan(upper);
+      });
+
+      expect(result.sampleBands!()).toEqual(
+        expect.objectContaining({ confidence: expect.any(Array) })
+      );
+      expect(result.sampleBands!().confidence).toHaveLength(50);
+    });
+
+    it("should round band values to the requested precision", () => {
+      const result = linear({ precision: 1 }, oxygenPurity);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      const [x, lower, upper] = result.predictionBand!(1.234);
+      expect(x).toBe(1.2);
+      expect(lower * 10).toBeCloseTo(Math.round(lower * 10), 10);
+      expect(upper * 10).toBeCloseTo(Math.round(upper * 10), 10);
+    });
+
+    it("should throw when sampling fewer than two points", () => {
+      const result = linear({}, oxygenPurity);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+
+      expect(() => result.sampleBands!(1)).toThrow(RangeError);
+    });
+  });
+
+  describe("missing values", () => {
+    const gappy: DataPoint[] = [[1, 2], [2, NaN], [3, 4], [4, 5], [NaN, 9]];
+
+    it("should reject missing values by default", () => {
+      const result = linear({}, gappy);
+
+      if (result.ok) {
+        throw new Error("Expected regression to fail");
+      }
+      expect(result.errorType).toBe("InvalidInput");
+      expect(result).not.toHaveProperty("missing");
+    });
+
+    it("should drop missing values and report them", () => {
+      const result = linear({ missing: "drop" }, gappy);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+      expect(result.m).toBe(1);
+      expect(result.b).toBe(1);
+      expect(result.points).toHaveLength(3);
+      expect(result.missing).toEqual({ policy: "drop", imputation: null, droppedIndices: [1, 4], imputedIndices: [] });
+    });
+
+    it("should impute missing y-values and report them", () => {
+      const result = linear({ missing: "impute", imputation: "forwardFill" }, gappy);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+      expect(result.points).toHaveLength(4);
+      expect(result.missing).toEqual({
+        policy: "impute",
+        imputation: "forwardFill",
+        droppedIndices: [4],
+        imputedIndices: [1],
+      });
+    });
+
+    it("should not report missing values for complete data under the default policy", () => {
+      const result = linear({}, [[1, 2], [2, 3]]);
+
+      expect(result.ok && result.missing).toBeUndefined();
+    });
+
+    it("should fail with insufficient data when too few points remain", () => {
+      const result = linear({ missing: "drop" }, [[1, 2], [2, NaN]]);
+
+      if (result.ok) {
+        throw new Error("Expected regression to fail");
+      }
+      expect(result.errorType).toBe("InsufficientData");
+    });
+  });
 });
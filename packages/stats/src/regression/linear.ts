@@ -1,12 +1,15 @@
 import { curry } from "@facta/fp";
-import { DEFAULT_OPTIONS } from "./const";
+import { DEFAULT_BAND_SAMPLES, DEFAULT_OPTIONS, DEGENERATE_TOLERANCE } from "./const";
 import type {
+  BandPoint,
   DataPoint,
   PredictedPoint,
+  RegressionBands,
   RegressionOptions,
   RegressionResult,
 } from "./types";
-import { rSquared, round, isValid } from "./util";
+import { rSquared, round, isValid, twoSidedTPValue, withMissingValuePolicy } from "./util";
+import { studentTQuantile } from "../distribution";
 
 /**
  * Performs simple linear regression to model the relationship between a dependent variable (y) and an independent variable (x).
@@ -18,6 +21,11 @@ import { rSquared, round, isValid } from "./util";
  * @returns {RegressionResult} A discriminant union representing the success or failure of the regression.
  * - If successful (`ok: true`), it returns the `points` on the regression line, a `predict` function,
  * the `equation` (gradient and intercept), the `r2` (coefficient of determination), and a `string` representation of the equation.
+ * It also returns inferential statistics for both coefficients: standard errors (`seM`, `seB`), t statistics (`tM`, `tB`),
+ * the residual degrees of freedom (`df`), two-sided p-values (`pValueM`, `pValueB`) and confidence intervals (`ciM`, `ciB`)
+ * at `confidenceLevel`. P-values are not rounded to `precision`, so small values remain distinguishable.
+ * `confidenceBand`, `predictionBand` and `sampleBands` give the mean-response confidence band and the prediction
+ * interval band around the line, for drawing shaded areas on a chart.
  * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
  *
  * @example
@@ -38,6 +46,28 @@ import { rSquared, round, isValid } from "./util";
  * const result = linear({ precision: 4 }, data);
  *
  * @example
+ * // Testing whether the trend is statistically significant
+ * const data = [[1, 1], [2, 2.5], [3, 2.8], [4, 4.2], [5, 5.1]];
+ * const result = linear({ confidenceLevel: 0.99 }, data);
+ * if (result.ok && result.pValueM! < 0.01) {
+ * console.log(`Slope ${result.m} is significant, 99% CI ${result.ciM}`);
+ * }
+ *
+ * @example
+ * // Drawing a 95% prediction band around the trend line
+ * const result = linear({}, data);
+ * if (result.ok) {
+ * const { prediction } = result.sampleBands!(100); // [x, lower, upper][]
+ * const [, lower, upper] = result.predictionBand!(6); // interval for a new observation at x = 6
+ * }
+ *
+ * @example
+ * // Dashboard data with gaps: leave out the missing days rather than failing
+ * const data = [[1, 120], [2, NaN], [3, 131], [4, null], [5, 140]];
+ * const result = linear({ missing: "drop" }, data);
+ * // result.missing.droppedIndices is [1, 3]
+ *
+ * @example
  * // Handling insufficient data
  * const data = [[1, 2]];
  * const result = linear({}, data);
@@ -54,10 +84,12 @@ import { rSquared, round, isValid } from "./util";
  * - **Trend Identification:** Reveals the linear trend between two variables. A positive gradient indicates a positive correlation, a negative gradient indicates a negative correlation.
  * - **Magnitude of Relationship:** The gradient (`m`) quantifies how much the dependent variable (y) changes for every unit increase in the independent variable (x).
  * - **Prediction:** Allows for prediction of the dependent variable's value for a given independent variable's value.
+ * - **Statistical Significance:** The p-value of the slope (`pValueM`) indicates whether the observed trend could plausibly be due to chance, and `ciM` bounds the plausible range of the true slope.
+ * - **Uncertainty:** The confidence band shows where the true regression line plausibly lies, while the prediction band shows where individual new observations are expected to fall.
  * - **Goodness of Fit:** The R-squared (`r2`) value indicates how well the regression line fits the observed data, ranging from 0 (no fit) to 1 (perfect fit). [cite_start]A high R-squared suggests the model explains a large proportion of the variance in the dependent variable. [cite: 48]
  */
 
-export const linear = curry((
+export const linear = curry(withMissingValuePolicy((
   suppliedOptions: Partial<RegressionOptions>,
   data: DataPoint[]
 ): RegressionResult => {
@@ -66,6 +98,14 @@ export const linear = curry((
     ...suppliedOptions,
   };
 
+  if (!(options.confidenceLevel > 0 && options.confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${options.confidenceLevel}.`,
+    };
+  }
+
   if (data.length < 2) {
     return {
       ok: false,
@@ -76,9 +116,8 @@ export const linear = curry((
 
   let sumX = 0;
   let sumY = 0;
-  let sumX2 = 0;
-  let sumXY = 0;
-  let sumY2 = 0;
+  let minX = Infinity;
+  let maxX = -Infinity;
 
   const len = data.length;
 
@@ -94,17 +133,25 @@ export const linear = curry((
     }
     sumX += x;
     sumY += y;
-    sumX2 += x * x;
-    sumXY += x * y;
-    sumY2 += y * y;
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
   }
 
-  const run = len * sumX2 - sumX * sumX;
-  const rise = len * sumXY - sumX * sumY;
+  // Sums of squares are centred on the means, so large x-values such as millisecond timestamps do not lose
+  // precision to cancellation, as raw sums of x² would.
+  const meanX = sumX / len;
+  const meanY = sumY / len;
+  let sxx = 0;
+  let sxy = 0;
+  for (let n = 0; n < len; n++) {
+    const dx = data[n][0] - meanX;
+    sxx += dx * dx;
+    sxy += dx * (data[n][1] - meanY);
+  }
 
-  if (run === 0) {
-    // This implies all x values are the same, leading to a vertical line, which linear regression cannot model.
-    // Or it means len * sum[2] === sum[0] * sum[0], which for non-zero sum[0] implies all x values are the same.
+  if (sxx <= len * (DEGENERATE_TOLERANCE * meanX) ** 2) {
+    // All x values are the same (to within rounding of their mean), leading to a vertical line,
+    // which linear regression cannot model.
     return {
       ok: false,
       errorType: "DegenerateInput",
@@ -113,11 +160,8 @@ export const linear = curry((
     };
   }
 
-  const gradient = round(rise / run, options.precision);
-  const intercept = round(
-    sumY / len - (gradient * sumX) / len,
-    options.precision
-  );
+  const gradient = round(sxy / sxx, options.precision);
+  const intercept = round(meanY - gradient * meanX, options.precision);
 
   if (
     isNaN(gradient) ||
@@ -151,13 +195,77 @@ export const linear = curry((
     };
   }
 
+  // Inference uses the unrounded coefficients and centred sums to avoid compounding rounding errors.
+  const rawGradient = sxy / sxx;
+  const rawIntercept = meanY - rawGradient * meanX;
+
+  let sse = 0;
+  for (let n = 0; n < len; n++) {
+    const residual = data[n][1] - meanY - rawGradient * (data[n][0] - meanX);
+    sse += residual * residual;
+  }
+
+  // With only two points the line passes through both exactly and the residual variance is undefined (NaN).
+  const df = len - 2;
+  const residualVariance = df > 0 ? sse / df : NaN;
+  const seM = Math.sqrt(residualVariance / sxx);
+  const seB = Math.sqrt(residualVariance * (1 / len + (meanX * meanX) / sxx));
+  const tM = rawGradient / seM;
+  const tB = rawIntercept / seB;
+  const pValue = (t: number): number => twoSidedTPValue(df, t);
+  const tCritical = studentTQuantile({ df }, 1 - (1 - options.confidenceLevel) / 2);
+  const interval = (value: number, se: number): [number, number] => [
+    round(value - tCritical * se, options.precision),
+    round(value + tCritical * se, options.precision),
+  ];
+
+  // Bands are centred on the rounded regression line so they align with `points` and `predict`.
+  const band = (observationVariance: number) => (x: number): BandPoint => {
+    const centre = gradient * x + intercept;
+    const halfWidth =
+      tCritical *
+      Math.sqrt(residualVariance * (observationVariance + 1 / len + ((x - meanX) * (x - meanX)) / sxx));
+    return [
+      round(x, options.precision),
+      round(centre - halfWidth, options.precision),
+      round(centre + halfWidth, options.precision),
+    ];
+  };
+  const confidenceBand = band(0);
+  const predictionBand = band(1);
+
+  const sampleBands = (samples: number = DEFAULT_BAND_SAMPLES): RegressionBands => {
+    if (!Number.isInteger(samples) || samples < 2) {
+      throw new RangeError(`Regression bands require an integer number of samples of at least 2. Received ${samples}.`);
+    }
+    const step = (maxX - minX) / (samples - 1);
+    const xs = Array.from({ length: samples }, (_, i) => (i === samples - 1 ? maxX : minX + i * step));
+    return {
+      confidence: xs.map(confidenceBand),
+      prediction: xs.map(predictionBand),
+    };
+  };
+
   return {
     ok: true,
     points,
     predict,
     m: gradient,
     b: intercept,
+    coefficients: [gradient, intercept],
     rSquared: round(r2, options.precision),
     method: "linear",
+    seM: round(seM, options.precision),
+    seB: round(seB, options.precision),
+    tM: round(tM, options.precision),
+    tB: round(tB, options.precision),
+    df,
+    pValueM: pValue(tM),
+    pValueB: pValue(tB),
+    ciM: interval(rawGradient, seM),
+    ciB: interval(rawIntercept, seB),
+    confidenceBand,
+    predictionBand,
+    sampleBands,
   };
-})
\ No newline at end of file
+}));
@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import { linearAccumulator } from "./linearAccumulator";
+import { linear } from "./linear";
+import type { DataPoint, LinearAccumulator } from "./types";
+
+const addAll = (accumulator: LinearAccumulator, data: DataPoint[]): LinearAccumulator =>
+  data.reduce((acc, point) => acc.add(point), accumulator);
+
+describe("linearAccumulator", () => {
+  const data: DataPoint[] = [
+    [1, 1.2],
+    [2, 2.8],
+    [3, 3.1],
+    [4, 4.9],
+    [5, 5.2],
+    [6, 6.8],
+    [7, 7.1],
+  ];
+
+  it("should match linear regression on the same data", () => {
+    const streamed = addAll(linearAccumulator({ precision: 6 }), data).result();
+    const batch = linear({ precision: 6 }, data);
+
+    if (!streamed.ok || !batch.ok) {
+      throw new Error("Expected successful regression results");
+    }
+
+    expect(streamed.method).toBe("linear");
+    expect(streamed.m).toBeCloseTo(batch.m, 6);
+    expect(streamed.b).toBeCloseTo(batch.b, 5);
+    expect(streamed.rSquared).toBeCloseTo(batch.rSquared!, 5);
+    expect(streamed.seM).toBeCloseTo(batch.seM!, 5);
+    expect(streamed.df).toBe(batch.df);
+    expect(streamed.pValueM).toBeCloseTo(batch.pValueM!, 8);
+    expect(streamed.ciM![0]).toBeCloseTo(batch.ciM![0], 5);
+    expect(streamed.predictionBand!(8)[2]).toBeCloseTo(batch.predictionBand!(8)[2], 4);
+    expect(streamed.predict(8)[1]).toBeCloseTo(batch.predict(8)[1], 4);
+    expect(streamed).not.toHaveProperty("points");
+    expect(streamed).not.toHaveProperty("sampleBands");
+  });
+
+  it("should be immutable", () => {
+    const empty = linearAccumulator();
+    const one = empty.add([1, 2]);
+
+    expect(empty.state.count).toBe(0);
+    expect(one.state.count).toBe(1);
+  });
+
+  it("should undo an addition when the point is removed", () => {
+    const base = addAll(linearAccumulator(), data);
+    const roundTrip = base.add([100, -50]).remove([100, -50]);
+
+    expect(roundTrip.state.count).toBe(base.state.count);
+    expect(roundTrip.state.meanX).toBeCloseTo(base.state.meanX, 10);
+    expect(roundTrip.state.meanY).toBeCloseTo(base.state.meanY, 10);
+    expect(roundTrip.state.sxx).toBeCloseTo(base.state.sxx, 8);
+    expect(roundTrip.state.syy).toBeCloseTo(base.state.syy, 8);
+    expect(roundTrip.state.sxy).toBeCloseTo(base.state.sxy, 8);
+  });
+
+  it("should fit a sliding window", () => {
+    let accumulator = linearAccumulator({ precision: 6 });
+    const windowSize = 3;
+    data.forEach((point, i) => {
+      accumulator = accumulator.add(point);
+      if (i >= windowSize) {
+        accumulator = accumulator.remove(data[i - windowSize]);
+      }
+    });
+
+    const streamed = accumulator.result();
+    const batch = linear({ precision: 6 }, data.slice(-windowSize));
+
+    if (!streamed.ok || !batch.ok) {
+      throw new Error("Expected successful regression results");
+    }
+
+    expect(accumulator.state.count).toBe(windowSize);
+    expect(streamed.m).toBeCloseTo(batch.m, 6);
+    expect(streamed.b).toBeCloseTo(batch.b, 5);
+  });
+
+  it("should return an empty accumulator after removing every point", () => {
+    const emptied = linearAccumulator().add([1, 2]).add([3, 4]).remove([1, 2]).remove([3, 4]);
+
+    expect(emptied.state).toEqual({ count: 0, meanX: 0, meanY: 0, sxx: 0, syy: 0, sxy: 0 });
+  });
+
+  it("should merge accumulators as if every point had been added to one", () => {
+    const whole = addAll(linearAccumulator(), data);
+    const merged = addAll(linearAccumulator(), data.slice(0, 3)).merge(addAll(linearAccumulator(), data.slice(3)));
+
+    expect(merged.state.count).toBe(whole.state.count);
+    expect(merged.state.meanX).toBeCloseTo(whole.state.meanX, 10);
+    expect(merged.state.meanY).toBeCloseTo(whole.state.meanY, 10);
+    expect(merged.state.sxx).toBeCloseTo(whole.state.sxx, 8);
+    expect(merged.state.syy).toBeCloseTo(whole.state.syy, 8);
+    expect(merged.state.sxy).toBeCloseTo(whole.state.sxy, 8);
+    expect(linearAccumulator().merge(whole).state).toEqual(whole.state);
+    expect(whole.merge(linearAccumulator()).state).toEqual(whole.state);
+  });
+
+  it("should keep the options of the accumulator being merged into", () => {
+    const coarse = addAll(linearAccumulator({ precision: 0 }), data.slice(0, 3));
+    const fine = addAll(linearAccumulator({ precision: 6 }), data.slice(3));
+    const result = coarse.merge(fine).result();
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+    expect(Number.isInteger(result.m)).toBe(true);
+  });
+
+  it("should stay accurate with millisecond timestamps as x", () => {
+    const day = 86_400_000;
+    const start = Date.UTC(2024, 0, 1);
+    // y rises by 3 per day, with alternating noise.
+    const series: DataPoint[] = Array.from({ length: 60 }, (_, i) => [start + i * day, 100 + 3 * i + (i % 2 === 0 ? 0.5 : -0.5)]);
+    let accumulator = addAll(linearAccumulator({ precision: 15 }), series);
+    // Slide the window forward by a month to exercise removals with large x-values.
+    series.slice(0, 30).forEach((point) => {
+      accumulator = accumulator.remove(point);
+    });
+
+    const result = accumulator.result();
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    // The same window fitted against small day indices, where raw sums are exact.
+    const reference = linear(
+      { precision: 10 },
+      series.slice(30).map(([x, y]): DataPoint => [(x - start) / day, y])
+    );
+
+    if (!reference.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    // m is per millisecond, so rounding to 15 decimal places keeps about 7 significant figures.
+    expect(result.m * day).toBeCloseTo(reference.m, 6);
+    expect(result.predict(start + 60 * day)[1]).toBeCloseTo(reference.predict(60)[1], 8);
+    expect(result.rSquared).toBeCloseTo(reference.rSquared!, 8);
+  });
+
+  it("should return an error for fewer than two points", () => {
+    const result = linearAccumulator().add([1, 2]).result();
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error when all x-values are identical", () => {
+    const result = linearAccumulator().add([5, 1]).add([5, 2]).add([5, 3]).result();
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+
+  it("should return an error for an invalid confidence level", () => {
+    const result = addAll(linearAccumulator({ confidenceLevel: 1 }), data).result();
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+  });
+
+  it("should throw on non-finite points and on removing from an empty accumulator", () => {
+    expect(() => linearAccumulator().add([NaN, 1])).toThrow(RangeError);
+    expect(() => linearAccumulator().add([1, 2]).remove([1, Infinity])).toThrow(RangeError);
+    expect(() => linearAccumulator().remove([1, 2])).toThrow("empty accumulator");
+  });
+
+  it("should throw when removing a point that cannot have been added", () => {
+    const accumulator = linearAccumulator().add([1, 2]).add([2, 3]).add([3, 5]);
+
+    expect(() => accumulator.remove([10, 0])).toThrow("was not added to this accumulator");
+    expect(() => accumulator.remove([2, 100])).toThrow(RangeError);
+    expect(accumulator.remove([2, 3]).state.count).toBe(2);
+  });
+
+  it("should remove repeated identical points without a false alarm", () => {
+    let accumulator = linearAccumulator();
+    for (let i = 0; i < 10; i++) {
+      accumulator = accumulator.add([0.1, 0.7]);
+    }
+    for (let i = 0; i < 9; i++) {
+      accumulator = accumulator.remove([0.1, 0.7]);
+    }
+
+    expect(accumulator.state.count).toBe(1);
+  });
+});
@@ -0,0 +1,290 @@
+import { DEFAULT_OPTIONS, DEGENERATE_TOLERANCE } from "./const";
+import type {
+  BandPoint,
+  DataPoint,
+  LinearAccumulator,
+  LinearAccumulatorResult,
+  LinearAccumulatorState,
+  PredictedPoint,
+  RegressionOptions,
+} from "./types";
+import { round, isValid, twoSidedTPValue } from "./util";
+import { studentTQuantile } from "../distribution";
+
+const EMPTY_STATE: LinearAccumulatorState = {
+  count: 0,
+  meanX: 0,
+  meanY: 0,
+  sxx: 0,
+  syy: 0,
+  sxy: 0,
+};
+
+/**
+ * Includes a point using Welford's centred update.
+ */
+const addPoint = (state: LinearAccumulatorState, [x, y]: DataPoint): LinearAccumulatorState => {
+  const count = state.count + 1;
+  const dx = x - state.meanX;
+  const dy = y - state.meanY;
+  const meanX = state.meanX + dx / count;
+  const meanY = state.meanY + dy / count;
+  return {
+    count,
+    meanX,
+    meanY,
+    sxx: state.sxx + dx * (x - meanX),
+    syy: state.syy + dy * (y - meanY),
+    sxy: state.sxy + dx * (y - meanY),
+  };
+};
+
+/**
+ * The relative rounding error allowed in a sum of squares before a removal is treated as inconsistent.
+ */
+const REMOVAL_TOLERANCE = 1e-9;
+
+/**
+ * Whether a sum of squares left by a removal is negative beyond rounding error. Removing a point that was added can
+ * only reduce the sum towards zero, so a clearly negative sum means the point was never added.
+ */
+const isOverdrawn = (remaining: number, before: number, scale: number, count: number): boolean =>
+  remaining < -(REMOVAL_TOLERANCE * before + count * (DEGENERATE_TOLERANCE * scale) ** 2);
+
+/**
+ * Excludes a point by reversing Welford's centred update.
+ */
+const removePoint = (state: LinearAccumulatorState, [x, y]: DataPoint): LinearAccumulatorState => {
+  const count = state.count - 1;
+  if (count === 0) {
+    return EMPTY_STATE;
+  }
+  const meanX = state.meanX - (x - state.meanX) / count;
+  const meanY = state.meanY - (y - state.meanY) / count;
+  const sxx = state.sxx - (x - meanX) * (x - state.meanX);
+  const syy = state.syy - (y - meanY) * (y - state.meanY);
+  if (
+    isOverdrawn(sxx, state.sxx, Math.max(Math.abs(x), Math.abs(state.meanX)), count) ||
+    isOverdrawn(syy, state.syy, Math.max(Math.abs(y), Math.abs(state.meanY)), count)
+  ) {
+    throw new RangeError(
+      `Cannot remove the data point (${x}, ${y}): it was not added to this accumulator. Only remove points that were previously added.`
+    );
+  }
+  return {
+    count,
+    meanX,
+    meanY,
+    // Rounding can leave a tiny negative sum of squares once only identical values remain.
+    sxx: Math.max(0, sxx),
+    syy: Math.max(0, syy),
+    sxy: state.sxy - (x - meanX) * (y - state.meanY),
+  };
+};
+
+/**
+ * Combines two sets of running statistics using Chan et al.'s pairwise update.
+ */
+const mergeStates = (a: LinearAccumulatorState, b: LinearAccumulatorState): LinearAccumulatorState => {
+  if (a.count === 0) {
+    return b;
+  }
+  if (b.count === 0) {
+    return a;
+  }
+  const count = a.count + b.count;
+  const dx = b.meanX - a.meanX;
+  const dy = b.meanY - a.meanY;
+  const weight = (a.count * b.count) / count;
+  return {
+    count,
+    meanX: a.meanX + (dx * b.count) / count,
+    meanY: a.meanY + (dy * b.count) / count,
+    sxx: a.sxx + b.sxx + dx * dx * weight,
+    syy: a.syy + b.syy + dy * dy * weight,
+    sxy: a.sxy + b.sxy + dx * dy * weight,
+  };
+};
+
+const assertFinite = (point: DataPoint, action: string): void => {
+  if (!isValid(point[0]) || !isValid(point[1])) {
+    throw new RangeError(
+      `Cannot ${action} a data point with non-finite values (${point[0]}, ${point[1]}). Filter invalid points before streaming them.`
+    );
+  }
+};
+
+/**
+ * Fits the regression line described by a set of running statistics.
+ */
+const fit = (options: RegressionOptions, state: LinearAccumulatorState): LinearAccumulatorResult => {
+  if (!(options.confidenceLevel > 0 && options.confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${options.confidenceLevel}.`,
+    };
+  }
+
+  const { count, meanX, meanY, sxx, syy, sxy } = state;
+
+  if (count < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Linear regression requires at least 2 valid data points (x, y). Received ${count}.`,
+    };
+  }
+
+  // Repeated additions and removals leave small rounding errors in `sxx`, so an exact zero test is not enough.
+  if (sxx <= count * (DEGENERATE_TOLERANCE * meanX) ** 2) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message:
+        "Cannot perform linear regression: all x-values are identical, resulting in a vertical line.",
+    };
+  }
+
+  const rawGradient = sxy / sxx;
+  const rawIntercept = meanY - rawGradient * meanX;
+  const gradient = round(rawGradient, options.precision);
+  const intercept = round(rawIntercept, options.precision);
+
+  if (!Number.isFinite(gradient) || !Number.isFinite(intercept)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Linear regression resulted in non-finite coefficients (NaN or Infinity). This can occur with extremely large values.",
+    };
+  }
+
+  const sse = Math.max(0, syy - rawGradient * sxy);
+  const r2 = syy === 0 ? (sse === 0 ? 1 : NaN) : 1 - sse / syy;
+
+  if (isNaN(r2)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "R-squared calculation failed or resulted in NaN. This can occur if the dependent variable (y) has no variance or due to other mathematical issues.",
+    };
+  }
+
+  // Predictions are centred on the mean x so that large x-values do not amplify the rounding of the gradient.
+  const centre = (x: number): number => meanY + rawGradient * (x - meanX);
+
+  const predict = (x: number): PredictedPoint => [
+    round(x, options.precision),
+    round(centre(x), options.precision),
+  ];
+
+  const df = count - 2;
+  const residualVariance = df > 0 ? sse / df : NaN;
+  const seM = Math.sqrt(residualVariance / sxx);
+  const seB = Math.sqrt(residualVariance * (1 / count + (meanX * meanX) / sxx));
+  const tM = rawGradient / seM;
+  const tB = rawIntercept / seB;
+  const pValue = (t: number): number => twoSidedTPValue(df, t);
+  const tCritical = studentTQuantile({ df }, 1 - (1 - options.confidenceLevel) / 2);
+  const interval = (value: number, se: number): [number, number] => [
+    round(value - tCritical * se, options.precision),
+    round(value + tCritical * se, options.precision),
+  ];
+
+  const band = (observationVariance: number) => (x: number): BandPoint => {
+    const halfWidth =
+      tCritical *
+      Math.sqrt(residualVariance * (observationVariance + 1 / count + ((x - meanX) * (x - meanX)) / sxx));
+    return [
+      round(x, options.precision),
+      round(centre(x) - halfWidth, options.precision),
+      round(centre(x) + halfWidth, options.precision),
+    ];
+  };
+
+  return {
+    ok: true,
+    predict,
+    m: gradient,
+    b: intercept,
+    coefficients: [gradient, intercept],
+    rSquared: round(r2, options.precision),
+    method: "linear",
+    seM: round(seM, options.precision),
+    seB: round(seB, options.precision),
+    tM: round(tM, options.precision),
+    tB: round(tB, options.precision),
+    df,
+    pValueM: pValue(tM),
+    pValueB: pValue(tB),
+    ciM: interval(rawGradient, seM),
+    ciB: interval(rawIntercept, seB),
+    confidenceBand: band(0),
+    predictionBand: band(1),
+  };
+};
+
+const createAccumulator = (options: RegressionOptions, state: LinearAccumulatorState): LinearAccumulator => ({
+  state,
+  add: (point) => {
+    assertFinite(point, "add");
+    return createAccumulator(options, addPoint(state, point));
+  },
+  remove: (point) => {
+    assertFinite(point, "remove");
+    if (state.count === 0) {
+      throw new RangeError("Cannot remove a data point from an empty accumulator.");
+    }
+    return createAccumulator(options, removePoint(state, point));
+  },
+  merge: (other) => createAccumulator(options, mergeStates(state, other.state)),
+  result: () => fit(options, state),
+});
+
+/**
+ * Creates an empty accumulator for streaming (online) simple linear regression. Points can be added, removed
+ * and whole accumulators merged in O(1) time, and the fit is produced on demand, so a live chart or a sliding
+ * window can refresh its trend line without refitting every point.
+ *
+ * Unlike `linear`, which keeps raw running sums, the accumulator keeps sums of squares centred on the running
+ * means (Welford's method), so it stays accurate when x-values are large, such as millisecond timestamps.
+ *
+ * @param {Partial<RegressionOptions>} [suppliedOptions] - Optional regression options to override defaults, such as
+ * `precision` and `confidenceLevel`.
+ * @returns {LinearAccumulator} An immutable accumulator; `add`, `remove` and `merge` return new accumulators.
+ * - `result()` returns the same statistics as `linear`, including inferential statistics and
+ * `confidenceBand`/`predictionBand`, but without `points` or `sampleBands` because the individual data points are
+ * not retained.
+ * - `remove` must only be given points that were previously added. It throws a `RangeError` when the point cannot have
+ * been added, such as one outside the spread of the accumulated data, but cannot detect every such point.
+ *
+ * @example
+ * // Live-updating trend line
+ * let trend = linearAccumulator({ precision: 3 });
+ * trend = trend.add([Date.now(), 42]);
+ * const result = trend.result();
+ *
+ * @example
+ * // Sliding window over the latest 30 readings
+ * const window: DataPoint[] = [];
+ * let acc = linearAccumulator();
+ * for (const point of readings) {
+ * window.push(point);
+ * acc = acc.add(point);
+ * if (window.length > 30) acc = acc.remove(window.shift()!);
+ * }
+ *
+ * @example
+ * // Combining accumulators built in parallel
+ * const combined = linearAccumulator().merge(januaryAcc).merge(februaryAcc);
+ *
+ * @description
+ * **Insights derived from Streaming Regression:**
+ * - **Live Trends:** Keeps the trend, its significance and its bands current as data arrives, at constant cost per point.
+ * - **Rolling Trends:** Sliding windows reveal whether the recent trend differs from the long-run trend.
+ * - **Precision:** Centred updates avoid the catastrophic cancellation that affects raw sums of large x-values.
+ */
+export const linearAccumulator = (suppliedOptions: Partial<RegressionOptions> = {}): LinearAccumulator =>
+  createAccumulator({ ...DEFAULT_OPTIONS, ...suppliedOptions }, EMPTY_STATE);
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { logarithmic } from "./logarithmic";
+import type { DataPoint } from "./types";
+
+describe("logarithmic", () => {
+  it("should fit a perfect logarithmic curve", () => {
+    const data: DataPoint[] = [1, 2, 4, 8, 16].map((x): DataPoint => [x, 2 + 3 * Math.log(x)]);
+    const result = logarithmic({ precision: 4 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.method).toBe("logarithmic");
+    expect(result.coefficients[0]).toBeCloseTo(2); // a
+    expect(result.coefficients[1]).toBeCloseTo(3); // b
+    expect(result.m).toBeCloseTo(3);
+    expect(result.b).toBeCloseTo(2);
+    expect(result.rSquared).toBeCloseTo(1);
+    expect(result.predict(32)[1]).toBeCloseTo(2 + 3 * Math.log(32), 3);
+  });
+
+  it("should return an error for non-positive x-values", () => {
+    const data: DataPoint[] = [
+      [0, 1],
+      [1, 2],
+      [2, 3],
+    ];
+    const result = logarithmic({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("index 0 has a non-positive x-value (0)");
+  });
+
+  it("should return an error for insufficient data", () => {
+    const result = logarithmic({}, []);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error when all x-values are identical", () => {
+    const data: DataPoint[] = [
+      [2, 1],
+      [2, 2],
+    ];
+    const result = logarithmic({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+});
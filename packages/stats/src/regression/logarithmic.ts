@@ -0,0 +1,127 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_OPTIONS } from "./const";
+import type {
+  DataPoint,
+  PredictedPoint,
+  RegressionOptions,
+  RegressionResult,
+} from "./types";
+import { rSquared, round, findInvalidPoint, leastSquares, withMissingValuePolicy } from "./util";
+
+/**
+ * Performs logarithmic regression, fitting a curve of the form `y = a + b·ln(x)` to the data points.
+ * The curve is found by fitting a least squares line to `y` against `ln(x)`, so every x-value must be positive.
+ *
+ * @param {Partial<RegressionOptions>} [suppliedOptions] - Optional regression options to override defaults, such as `precision`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least two data points with positive, distinct x-values.
+ * @returns {RegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), `coefficients` holds `[a, b]`, `m` is `b` (the change in y per unit of `ln(x)`) and `b` is `a`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * const data = [[1, 2], [2, 3.39], [4, 4.77], [8, 6.16]];
+ * const result = logarithmic({}, data);
+ * if (result.ok) {
+ * console.log(result.coefficients); // [2, 2] => y = 2 + 2·ln(x)
+ * }
+ *
+ * @example
+ * // Handling non-positive x-values
+ * const data = [[0, 1], [1, 2], [2, 3]];
+ * const result = logarithmic({}, data);
+ * // result.ok will be false, result.errorType will be "InvalidInput"
+ *
+ * @description
+ * **Insights derived from Logarithmic Regression:**
+ * - **Diminishing Returns:** Describes metrics that grow quickly at first and then level off, such as learning curves or saturation of a market.
+ * - **Proportional Effect:** Each doubling of x adds a constant `b·ln(2)` to y.
+ */
+export const logarithmic = curry(withMissingValuePolicy((
+  suppliedOptions: Partial<RegressionOptions>,
+  data: DataPoint[]
+): RegressionResult => {
+  const options: RegressionOptions = {
+    ...DEFAULT_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  if (data.length < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Logarithmic regression requires at least 2 valid data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = findInvalidPoint(data);
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Logarithmic regression requires finite numerical inputs.`,
+    };
+  }
+
+  const nonPositiveIndex = data.findIndex((point) => point[0] <= 0);
+  if (nonPositiveIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${nonPositiveIndex} has a non-positive x-value (${data[nonPositiveIndex][0]}). Logarithmic regression requires all x-values to be greater than zero.`,
+    };
+  }
+
+  const fit = leastSquares(data.map(([x, y]): DataPoint => [Math.log(x), y]));
+
+  if (fit === null) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message:
+        "Cannot perform logarithmic regression: all x-values are identical, resulting in a vertical line.",
+    };
+  }
+
+  const a = round(fit.intercept, options.precision);
+  const scale = round(fit.gradient, options.precision);
+
+  if (!Number.isFinite(a) || !Number.isFinite(scale)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Logarithmic regression resulted in non-finite coefficients (NaN or Infinity). This can occur with extremely large values.",
+    };
+  }
+
+  const predict = (x: number): PredictedPoint => [
+    round(x, options.precision),
+    round(a + scale * Math.log(x), options.precision),
+  ];
+
+  const points = data.map((point) => predict(point[0]));
+
+  const r2 = rSquared(data, points);
+
+  if (isNaN(r2)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "R-squared calculation failed or resulted in NaN. This can occur if the dependent variable (y) has no variance or due to other mathematical issues.",
+    };
+  }
+
+  return {
+    ok: true,
+    points,
+    predict,
+    m: scale,
+    b: a,
+    coefficients: [a, scale],
+    rSquared: round(r2, options.precision),
+    method: "logarithmic",
+  };
+}));
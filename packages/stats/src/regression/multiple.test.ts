@@ -0,0 +1,252 @@
+import { describe, it, expect } from "vitest";
+import { multiple } from "./multiple";
+
+describe("multiple", () => {
+  // Wire bond pull strength (y) against wire length and die height, Montgomery & Runger,
+  // Applied Statistics and Probability for Engineers, Table 12-2 / Example 12-1.
+  const wireBond = {
+    length: [2, 8, 11, 10, 8, 4, 2, 2, 9, 8, 4, 11, 12, 2, 4, 4, 20, 1, 10, 15, 15, 16, 17, 6, 5],
+    height: [
+      50, 110, 120, 550, 295, 200, 375, 52, 100, 300, 412, 400, 500, 360, 205, 400, 600, 585, 540, 250, 290, 510,
+      590, 100, 400,
+    ],
+    strength: [
+      9.95, 24.45, 31.75, 35, 25.02, 16.86, 14.38, 9.6, 24.35, 27.5, 17.08, 37, 41.95, 11.66, 21.65, 17.89, 69,
+      10.3, 34.93, 46.59, 44.88, 54.12, 56.63, 22.13, 21.15,
+    ],
+  };
+
+  it("should match the textbook coefficients and fit statistics", () => {
+    const result = multiple(
+      { precision: 5 },
+      { features: { length: wireBond.length, height: wireBond.height }, y: wireBond.strength }
+    );
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    const [intercept, length, height] = result.coefficients;
+    expect(result.method).toBe("multiple");
+    expect(intercept.name).toBe("(intercept)");
+    expect(intercept.estimate).toBeCloseTo(2.26379, 5);
+    expect(length.name).toBe("length");
+    expect(length.estimate).toBeCloseTo(2.74427, 5);
+    expect(height.estimate).toBeCloseTo(0.01253, 5);
+    expect(length.standardError).toBeCloseTo(0.09352, 4);
+    expect(height.standardError).toBeCloseTo(0.0028, 4);
+    expect(result.df).toBe(22);
+    expect(result.residualStandardError ** 2).toBeCloseTo(5.2352, 3);
+    expect(result.rSquared).toBeCloseTo(0.98114, 4);
+    expect(result.adjustedRSquared).toBeCloseTo(0.97942, 4);
+  });
+
+  it("should report significance and confidence intervals per coefficient", () => {
+    const result = multiple(
+      { precision: 5 },
+      { features: { length: wireBond.length, height: wireBond.height }, y: wireBond.strength }
+    );
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    const [, length, height] = result.coefficients;
+    // t = 2.74427 / 0.09352 ≈ 29.34, t = 0.01253 / 0.0028 ≈ 4.48
+    expect(length.t).toBeCloseTo(29.34, 1);
+    expect(height.t).toBeCloseTo(4.48, 1);
+    expect(length.pValue).toBeLessThan(1e-10);
+    expect(height.pValue).toBeLessThan(0.001);
+    // t(0.975, 22) = 2.074
+    expect(length.ci[0]).toBeCloseTo(2.74427 - 2.074 * 0.09352, 3);
+    expect(length.ci[1]).toBeCloseTo(2.74427 + 2.074 * 0.09352, 3);
+  });
+
+  it("should accept a design matrix and predict from arrays or named features", () => {
+    const result = multiple(
+      { precision: 5 },
+      {
+        matrix: wireBond.length.map((length, i) => [length, wireBond.height[i]]),
+        y: wireBond.strength,
+        names: ["length", "height"],
+      }
+    );
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    // Textbook prediction at x₁ = 8, x₂ = 275: ŷ = 27.66
+    expect(result.predict([8, 275])).toBeCloseTo(27.66, 1);
+    expect(result.predict({ length: 8, height: 275 })).toBeCloseTo(27.66, 1);
+    expect(result.fitted).toHaveLength(25);
+  });
+
+  it("should predict from unrounded coefficients on a timestamp-scale predictor", () => {
+    // Daily timestamps in epoch milliseconds: y grows by 2 a day, a coefficient of about 2.3e-8 per millisecond.
+    const start = Date.UTC(2024, 0, 1);
+    const day = 86_400_000;
+    const time = Array.from({ length: 10 }, (_, i) => start + i * day);
+    const wobble = [0.3, -0.2, 0.1, -0.3, 0.2, 0, -0.1, 0.25, -0.15, 0.05];
+    const y = time.map((t, i) => 100 + (2 * (t - start)) / day + wobble[i]);
+    const result = multiple({}, { features: { time }, y });
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.coefficients[1].estimate).toBe(0);
+    expect(result.coefficients[1].pValue).toBeGreaterThan(0);
+    result.fitted.forEach((value, i) => expect(value).toBeCloseTo(y[i], 0));
+    expect(result.predict({ time: start + 10 * day })).toBeCloseTo(120, 0);
+  });
+
+  it("should throw when a prediction does not match the predictors", () => {
+    const result = multiple({}, { features: { length: wireBond.length, height: wireBond.height }, y: wireBond.strength });
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(() => result.predict({ length: 8 })).toThrow('Prediction requires a value for predictor "height".');
+    expect(() => result.predict({ length: 8, height: 275, width: 2 })).toThrow('"width" is not a predictor of this model.');
+    expect(() => result.predict([8])).toThrow("Prediction requires 2 predictor values. Received 1.");
+  });
+
+  it("should name design matrix columns x1, x2, … by default", () => {
+    const result = multiple({}, {
+      matrix: [
+        [1, 0],
+        [0, 1],
+        [1, 1],
+        [2, 1],
+        [1, 3],
+      ],
+      y: [3, 4, 6, 8, 12],
+    });
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.coefficients.map((c) => c.name)).toEqual(["(intercept)", "x1", "x2"]);
+    expect(result.coefficients[0].estimate).toBeCloseTo(1);
+    expect(result.coefficients[1].estimate).toBeCloseTo(2);
+    expect(result.coefficients[2].estimate).toBeCloseTo(3);
+    expect(result.rSquared).toBeCloseTo(1);
+  });
+
+  it("should fit through the origin when intercept is false", () => {
+    const result = multiple({ intercept: false }, {
+      matrix: [[1], [2], [3], [4]],
+      y: [2.1, 3.9, 6.1, 7.9],
+    });
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.coefficients).toHaveLength(1);
+    expect(result.coefficients[0].name).toBe("x1");
+    expect(result.coefficients[0].estimate).toBeCloseTo(1.99, 2);
+    expect(result.df).toBe(3);
+  });
+
+  it("should return a RankDeficient error for collinear predictors", () => {
+    const result = multiple({}, {
+      features: { a: [1, 2, 3, 4], b: [2, 4, 6, 8] },
+      y: [1, 2, 3, 5],
+    });
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("RankDeficient");
+    expect(result.message).toContain('predictor "b" is collinear');
+  });
+
+  it("should return a RankDeficient error for a constant predictor alongside the intercept", () => {
+    const result = multiple({}, {
+      features: { constant: [5, 5, 5, 5] },
+      y: [1, 2, 3, 5],
+    });
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("RankDeficient");
+    expect(result.message).toContain('"constant"');
+  });
+
+  it("should return an error when there are fewer observations than coefficients", () => {
+    const result = multiple({}, {
+      features: { a: [1, 2], b: [3, 1] },
+      y: [1, 2],
+    });
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+    expect(result.message).toContain("at least 3 observations");
+  });
+
+  it("should return an error for mismatched or non-finite inputs", () => {
+    const mismatched = multiple({}, { features: { a: [1, 2, 3] }, y: [1, 2] });
+    const ragged = multiple({}, { matrix: [[1, 2], [3], [4, 5]], y: [1, 2, 3] });
+    const nonFinite = multiple({}, { features: { a: [1, NaN, 3, 4] }, y: [1, 2, 3, 4] });
+    const empty = multiple({}, { features: {}, y: [1, 2, 3] });
+
+    for (const result of [mismatched, ragged, nonFinite, empty]) {
+      if (result.ok) {
+        throw new Error("Expected result to be unsuccessful");
+      }
+      expect(result.errorType).toBe("InvalidInput");
+    }
+  });
+
+  describe("missing values", () => {
+    const features = { x: [1, 2, 3, 4, 5, 6, 7, 8], z: [3, 1, 4, 1, 5, NaN, 2, 6] };
+    const y = [9.1, 7.9, 14.2, 11.8, 18.1, 20, NaN, 24.9];
+
+    it("should reject missing values by default", () => {
+      const result = multiple({}, { features, y });
+
+      if (result.ok) {
+        throw new Error("Expected regression to fail");
+      }
+      expect(result.errorType).toBe("InvalidInput");
+      expect(result).not.toHaveProperty("missing");
+    });
+
+    it("should drop observations with a missing value and report them", () => {
+      const result = multiple({ missing: "drop" }, { features, y });
+      const complete = multiple({}, {
+        features: { x: [1, 2, 3, 4, 5, 8], z: [3, 1, 4, 1, 5, 6] },
+        y: [9.1, 7.9, 14.2, 11.8, 18.1, 24.9],
+      });
+
+      if (!result.ok || !complete.ok) {
+        throw new Error("Expected successful regression result");
+      }
+      expect(result.coefficients).toEqual(complete.coefficients);
+      expect(result.fitted).toHaveLength(6);
+      expect(result.missing).toEqual({ policy: "drop", imputation: null, droppedIndices: [5, 6], imputedIndices: [] });
+    });
+
+    it("should impute a missing y from its neighbours in input order, dropping observations with a missing predictor", () => {
+      const result = multiple({ missing: "impute", imputation: "forwardFill" }, { features, y });
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+      expect(result.fitted).toHaveLength(7);
+      expect(result.missing).toEqual({
+        policy: "impute",
+        imputation: "forwardFill",
+        droppedIndices: [5],
+        imputedIndices: [6],
+      });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_MULTIPLE_OPTIONS } from "./const";
+import type {
+  MultipleRegressionInput,
+  MultipleRegressionOptions,
+  MultipleRegressionResult,
+  RegressionCoefficient,
+} from "./types";
+import { round, isValid, twoSidedTPValue } from "./util";
+import { applyMissingPolicy } from "../missing/util";
+import { qr, applyQTranspose, solveUpperTriangular, invertUpperTriangular } from "../linalg";
+import { studentTQuantile } from "../distribution";
+
+/**
+ * The name given to the intercept coefficient.
+ */
+const INTERCEPT_NAME = "(intercept)";
+
+/**
+ * The smallest ratio of a diagonal entry of R to the norm of its column before the column is treated
+ * as a linear combination of the columns before it.
+ */
+const RANK_TOLERANCE = 1e-10;
+
+/**
+ * Performs multiple linear regression, modelling y as a linear combination of several predictors:
+ * `y = β₀ + β₁·x₁ + … + βₖ·xₖ`. Coefficients are found by QR decomposition of the design matrix,
+ * which avoids the loss of precision that comes from solving the normal equations directly.
+ *
+ * @param {Partial<MultipleRegressionOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `precision`, `confidenceLevel`, `intercept` and the `missing` value policy.
+ * @param {MultipleRegressionInput} data - Either `{ matrix, y, names? }`, a design matrix with one row per observation,
+ * or `{ features, y }`, one named column per predictor.
+ * Expects more observations than coefficients and predictors that are not linear combinations of each other.
+ * @returns {MultipleRegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), it returns each coefficient with its standard error, t statistic, p-value and
+ * confidence interval, along with `rSquared`, `adjustedRSquared` and a `predict(features)` function.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "RankDeficient", "InsufficientData") and a `message`.
+ *
+ * @example
+ * // Modelling traffic against day-of-week and price
+ * const result = multiple({}, {
+ * features: { dayOfWeek: [1, 2, 3, 4, 5, 6], price: [10, 12, 11, 9, 14, 13] },
+ * y: [200, 230, 250, 240, 300, 310],
+ * });
+ * if (result.ok) {
+ * console.log(result.coefficients.map((c) => `${c.name}: ${c.estimate} (p = ${c.pValue})`));
+ * console.log(result.predict({ dayOfWeek: 7, price: 12 }));
+ * }
+ *
+ * @example
+ * // Leaving out observations with a missing value rather than failing
+ * const result = multiple({ missing: "drop" }, {
+ * features: { dayOfWeek: [1, 2, 3, 4, 5, 6], price: [10, NaN, 11, 9, 14, 13] },
+ * y: [200, 230, 250, null, 300, 310],
+ * });
+ * // result.missing.droppedIndices is [1, 3]
+ *
+ * @example
+ * // Handling collinear predictors
+ * const result = multiple({}, { matrix: [[1, 2], [2, 4], [3, 6], [4, 8]], y: [1, 2, 3, 4] });
+ * // result.ok will be false, result.errorType will be "RankDeficient"
+ *
+ * @description
+ * **Insights derived from Multiple Regression:**
+ * - **Isolated Effects:** Each coefficient estimates the effect of one predictor while holding the others constant.
+ * - **Driver Significance:** Per-coefficient p-values show which predictors have a statistically significant effect.
+ * - **Model Fit:** `adjustedRSquared` penalises predictors that do not improve the fit, so it can be compared across models.
+ */
+export const multiple = curry((
+  suppliedOptions: Partial<MultipleRegressionOptions>,
+  data: MultipleRegressionInput
+): MultipleRegressionResult => {
+  const options: MultipleRegressionOptions = {
+    ...DEFAULT_MULTIPLE_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  if (!(options.confidenceLevel > 0 && options.confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${options.confidenceLevel}.`,
+    };
+  }
+
+  let { y } = data;
+  let rows: number[][];
+  let names: string[];
+
+  if ("features" in data) {
+    names = Object.keys(data.features);
+    const mismatched = names.find((name) => data.features[name].length !== y.length);
+    if (mismatched !== undefined) {
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: `Feature "${mismatched}" has ${data.features[mismatched].length} values but y has ${y.length}. All feature columns must be the same length as y.`,
+      };
+    }
+    rows = y.map((_, i) => names.map((name) => data.features[name][i]));
+  } else {
+    rows = data.matrix;
+    const width = rows.length > 0 ? rows[0].length : 0;
+    names = data.names ?? Array.from({ length: width }, (_, j) => `x${j + 1}`);
+    if (rows.length !== y.length) {
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: `The design matrix has ${rows.length} rows but y has ${y.length} values. Each observation needs one row.`,
+      };
+    }
+    const ragged = rows.findIndex((row) => row.length !== names.length);
+    if (ragged !== -1) {
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: `Row ${ragged} of the design matrix has ${rows[ragged].length} values but ${names.length} predictors were expected.`,
+      };
+    }
+  }
+
+  if (names.length === 0) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: "Multiple regression requires at least one predictor.",
+    };
+  }
+
+  // Each observation is treated as the point [index, y, ...predictors], so that an observation with a missing
+  // predictor is dropped and a missing y is dropped or imputed from its neighbours in input order.
+  const prepared = applyMissingPolicy(options, y.map((value, i) => [i, value, ...rows[i]]));
+  if (options.missing !== "reject") {
+    y = prepared.data.map((point) => point[1]);
+    rows = prepared.data.map((point) => point.slice(2));
+  }
+
+  const invalidIndex = y.findIndex((value, i) => !isValid(value) || !rows[i].every(isValid));
+  if (invalidIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Observation at index ${invalidIndex} contains non-finite values. Multiple regression requires finite numerical inputs.`,
+    };
+  }
+
+  const coefficientNames = options.intercept ? [INTERCEPT_NAME, ...names] : names;
+  const design = options.intercept ? rows.map((row) => [1, ...row]) : rows;
+  const n = y.length;
+  const p = coefficientNames.length;
+
+  if (n < p) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Multiple regression with ${p} coefficients requires at least ${p} observations. Received ${n}.`,
+    };
+  }
+
+  const decomposition = qr(design);
+  const { r } = decomposition;
+
+  for (let j = 0; j < p; j++) {
+    const columnNorm = Math.sqrt(design.reduce((sum, row) => sum + row[j] * row[j], 0));
+    if (columnNorm === 0 || Math.abs(r[j][j]) <= RANK_TOLERANCE * columnNorm) {
+      const name = coefficientNames[j];
+      return {
+        ok: false,
+        errorType: "RankDeficient",
+        message:
+          columnNorm === 0
+            ? `Cannot perform multiple regression: predictor "${name}" is always zero.`
+            : `Cannot perform multiple regression: predictor "${name}" is collinear with ${j === 0 ? "the intercept" : "the predictors before it"} (a linear combination of them), so its effect cannot be separated.`,
+      };
+    }
+  }
+
+  const qty = applyQTranspose(decomposition, y);
+  const beta = solveUpperTriangular(r, qty);
+
+  if (beta.some((value) => !Number.isFinite(value))) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Multiple regression resulted in non-finite coefficients (NaN or Infinity). This can occur with extremely large values.",
+    };
+  }
+
+  const rawFitted = design.map((row) => row.reduce((sum, value, j) => sum + value * beta[j], 0));
+  const sse = y.reduce((sum, value, i) => sum + (value - rawFitted[i]) ** 2, 0);
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+  // Without an intercept R² is measured against zero rather than the mean, matching the usual convention.
+  const sst = y.reduce((sum, value) => sum + (options.intercept ? value - meanY : value) ** 2, 0);
+  const rSquared = sst === 0 ? (sse === 0 ? 1 : NaN) : 1 - sse / sst;
+  const df = n - p;
+  const residualVariance = df > 0 ? sse / df : NaN;
+  const adjustedRSquared = 1 - ((1 - rSquared) * (options.intercept ? n - 1 : n)) / df;
+
+  // Var(β) = s²·(RᵀR)⁻¹ = s²·R⁻¹R⁻ᵀ, whose diagonal is the row sums of squares of R⁻¹.
+  const rInverse = invertUpperTriangular(r);
+  const tCritical = studentTQuantile({ df }, 1 - (1 - options.confidenceLevel) / 2);
+
+  const coefficients: RegressionCoefficient[] = coefficientNames.map((name, j) => {
+    const standardError = Math.sqrt(
+      residualVariance * rInverse[j].reduce((sum, value) => sum + value * value, 0)
+    );
+    const t = beta[j] / standardError;
+    return {
+      name,
+      estimate: round(beta[j], options.precision),
+      standardError: round(standardError, options.precision),
+      t: round(t, options.precision),
+      pValue: twoSidedTPValue(df, t),
+      ci: [
+        round(beta[j] - tCritical * standardError, options.precision),
+        round(beta[j] + tCritical * standardError, options.precision),
+      ],
+    };
+  });
+
+  // Predictions use the unrounded coefficients, so that a predictor on a large scale, such as a timestamp, keeps a
+  // coefficient too small to survive rounding; only the predicted value is rounded.
+  const linearPredictor = (values: number[]): number => {
+    const row = options.intercept ? [1, ...values] : values;
+    return row.reduce((sum, value, j) => sum + value * beta[j], 0);
+  };
+
+  const predict = (features: number[] | Record<string, number>): number => {
+    if (Array.isArray(features)) {
+      if (features.length !== names.length) {
+        throw new RangeError(`Prediction requires ${names.length} predictor values. Received ${features.length}.`);
+      }
+      return round(linearPredictor(features), options.precision);
+    }
+    const missingName = names.find((name) => !(name in features));
+    if (missingName !== undefined) {
+      throw new RangeError(`Prediction requires a value for predictor "${missingName}".`);
+    }
+    const unknownName = Object.keys(features).find((name) => !names.includes(name));
+    if (unknownName !== undefined) {
+      throw new RangeError(`"${unknownName}" is not a predictor of this model. Expected ${names.map((name) => `"${name}"`).join(", ")}.`);
+    }
+    return round(linearPredictor(names.map((name) => features[name])), options.precision);
+  };
+
+  return {
+    ok: true,
+    method: "multiple",
+    coefficients,
+    rSquared: round(rSquared, options.precision),
+    adjustedRSquared: round(adjustedRSquared, options.precision),
+    df,
+    residualStandardError: round(Math.sqrt(residualVariance), options.precision),
+    fitted: rawFitted.map((value) => round(value, options.precision)),
+    predict,
+    ...(options.missing === "reject" ? {} : { missing: prepared.report }),
+  };
+});
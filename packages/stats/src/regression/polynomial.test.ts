@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { polynomial } from "./polynomial";
+import type { DataPoint } from "./types";
+
+describe("polynomial", () => {
+  it("should fit a perfect quadratic using the default order", () => {
+    const data: DataPoint[] = [
+      [0, 1],
+      [1, 2],
+      [2, 5],
+      [3, 10],
+      [4, 17],
+    ];
+    const result = polynomial({}, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.method).toBe("polynomial");
+    expect(result.coefficients[0]).toBeCloseTo(1);
+    expect(result.coefficients[1]).toBeCloseTo(0);
+    expect(result.coefficients[2]).toBeCloseTo(1);
+    expect(result.m).toBeCloseTo(0); // linear term
+    expect(result.b).toBeCloseTo(1); // constant term
+    expect(result.rSquared).toBeCloseTo(1);
+    expect(result.predict(5)[1]).toBeCloseTo(26);
+    expect(result.points).toEqual(data);
+  });
+
+  it("should fit a cubic when order is 3", () => {
+    const data: DataPoint[] = [-2, -1, 0, 1, 2, 3].map((x): DataPoint => [
+      x,
+      2 * x ** 3 - x ** 2 + 3,
+    ]);
+    const result = polynomial({ order: 3 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.coefficients).toHaveLength(4);
+    expect(result.coefficients[0]).toBeCloseTo(2);
+    expect(result.coefficients[1]).toBeCloseTo(-1);
+    expect(result.coefficients[2]).toBeCloseTo(0);
+    expect(result.coefficients[3]).toBeCloseTo(3);
+    expect(result.predict(4)[1]).toBeCloseTo(115);
+  });
+
+  it("should match the least squares quadratic for scattered data", () => {
+    const data: DataPoint[] = [
+      [1, 1],
+      [2, 4.2],
+      [3, 8.8],
+      [4, 16.1],
+      [5, 24.9],
+    ];
+    const result = polynomial({ precision: 4 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    // Least squares solution: y = 0.992857x² + 0.012857x + 0.04
+    expect(result.coefficients[0]).toBeCloseTo(0.9929, 4);
+    expect(result.coefficients[1]).toBeCloseTo(0.0129, 4);
+    expect(result.coefficients[2]).toBeCloseTo(0.04, 4);
+    expect(result.rSquared).toBeGreaterThan(0.99);
+  });
+
+  it("should recover the coefficients on year-scale x-values", () => {
+    const years = (from: number, count: number): DataPoint[] =>
+      Array.from({ length: count }, (_, i): DataPoint => [from + i, 3 * (from + i) ** 2 - 2 * (from + i) + 5]);
+
+    for (const data of [years(1000, 20), years(2000, 21)]) {
+      const result = polynomial({ order: 2, precision: 6 }, data);
+
+      if (!result.ok) {
+        throw new Error("Expected successful regression result");
+      }
+      expect(result.coefficients[0]).toBeCloseTo(3, 6);
+      expect(result.coefficients[1]).toBeCloseTo(-2, 4);
+      expect(result.coefficients[2]).toBeCloseTo(5, 2);
+      expect(result.predict(2025)[1]).toBeCloseTo(3 * 2025 ** 2 - 2 * 2025 + 5, 4);
+      expect(result.points).toEqual(data);
+    }
+  });
+
+  it("should reduce to linear regression when order is 1", () => {
+    const data: DataPoint[] = [
+      [1, 2],
+      [2, 3],
+      [3, 4],
+      [4, 5],
+    ];
+    const result = polynomial({ order: 1 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.coefficients[0]).toBeCloseTo(1);
+    expect(result.coefficients[1]).toBeCloseTo(1);
+    expect(result.m).toBeCloseTo(1);
+    expect(result.b).toBeCloseTo(1);
+  });
+
+  it("should return an error for an invalid order", () => {
+    const data: DataPoint[] = [
+      [1, 2],
+      [2, 3],
+      [3, 4],
+    ];
+    const result = polynomial({ order: 1.5 }, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("positive integer");
+  });
+
+  it("should return an error when there are fewer points than order + 1", () => {
+    const data: DataPoint[] = [
+      [1, 2],
+      [2, 3],
+    ];
+    const result = polynomial({ order: 2 }, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+    expect(result.message).toContain("at least 3 valid data points");
+  });
+
+  it("should return an error when there are too few distinct x-values", () => {
+    const data: DataPoint[] = [
+      [1, 2],
+      [1, 3],
+      [2, 4],
+      [2, 5],
+    ];
+    const result = polynomial({ order: 2 }, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+    expect(result.message).toContain("only 2 distinct x-values");
+  });
+
+  it("should return an error on bad numerical values", () => {
+    const data: DataPoint[] = [
+      [1, 2],
+      [2, Infinity],
+      [3, 4],
+    ];
+    const result = polynomial({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("Data point at index 1 contains non-finite values (2, Infinity)");
+  });
+});
@@ -0,0 +1,175 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_OPTIONS } from "./const";
+import type {
+  DataPoint,
+  PredictedPoint,
+  RegressionOptions,
+  RegressionResult,
+} from "./types";
+import { rSquared, round, findInvalidPoint, withMissingValuePolicy } from "./util";
+import { qr, applyQTranspose, solveUpperTriangular } from "../linalg";
+
+/**
+ * The relative size of a diagonal entry of R below which the centred Vandermonde matrix is treated as singular.
+ */
+const RANK_TOLERANCE = 1e-10;
+
+/**
+ * Performs polynomial regression, fitting a curve of the form `y = cₙ·xⁿ + … + c₁·x + c₀` to the data points.
+ * The coefficients minimise the sum of squared residuals and are found by QR decomposition of the Vandermonde matrix
+ * of the centred and scaled x-values, so that fits stay accurate on year-scale or timestamp-scale x.
+ *
+ * @param {Partial<RegressionOptions>} [suppliedOptions] - Optional regression options to override defaults, such as `order` and `precision`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least `order + 1` data points with at least `order + 1` distinct x-values.
+ * @returns {RegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), `coefficients` holds `[cₙ, …, c₁, c₀]` (highest order first), `m` is the linear term `c₁`
+ * and `b` is the constant term `c₀`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // Fitting a parabola
+ * const data = [[0, 1], [1, 2], [2, 5], [3, 10]];
+ * const result = polynomial({ order: 2 }, data);
+ * if (result.ok) {
+ * console.log(result.coefficients); // [1, 0, 1] => y = x² + 1
+ * console.log(`Predicted Y for X=4: ${result.predict(4)[1]}`); // 17
+ * }
+ *
+ * @example
+ * // Handling too few distinct x-values for the requested order
+ * const data = [[1, 2], [1, 3], [2, 4]];
+ * const result = polynomial({ order: 2 }, data);
+ * // result.ok will be false, result.errorType will be "DegenerateInput"
+ *
+ * @description
+ * **Insights derived from Polynomial Regression:**
+ * - **Curvature:** Captures trends that accelerate, decelerate or change direction, which a straight line cannot describe.
+ * - **Turning Points:** A quadratic fit reveals whether a metric has peaked (negative `c₂`) or bottomed out (positive `c₂`).
+ * - **Caution:** High orders can overfit the data and extrapolate poorly beyond the observed x range.
+ */
+export const polynomial = curry(withMissingValuePolicy((
+  suppliedOptions: Partial<RegressionOptions>,
+  data: DataPoint[]
+): RegressionResult => {
+  const options: RegressionOptions = {
+    ...DEFAULT_OPTIONS,
+    ...suppliedOptions,
+  };
+  const { order } = options;
+
+  if (!Number.isInteger(order) || order < 1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Polynomial regression requires the order to be a positive integer. Received ${order}.`,
+    };
+  }
+
+  if (data.length < order + 1) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Polynomial regression of order ${order} requires at least ${order + 1} valid data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = findInvalidPoint(data);
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Polynomial regression requires finite numerical inputs.`,
+    };
+  }
+
+  const distinctX = new Set(data.map((point) => point[0])).size;
+  if (distinctX < order + 1) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message: `Cannot perform polynomial regression of order ${order}: only ${distinctX} distinct x-values were provided, at least ${order + 1} are required.`,
+    };
+  }
+
+  // Centre and scale x to u = (x - centre) / scale in [-1, 1] before building the Vandermonde matrix, so that
+  // year-scale or timestamp-scale x-values do not make its columns nearly collinear, and solve by QR rather than the
+  // normal equations, which would square its condition number.
+  const size = order + 1;
+  const xs = data.map(([x]) => x);
+  const centre = xs.reduce((sum, x) => sum + x, 0) / data.length;
+  const scale = Math.max(...xs.map((x) => Math.abs(x - centre)));
+  const design = xs.map((x) => {
+    const u = (x - centre) / scale;
+    return Array.from({ length: size }, (_, k) => u ** k);
+  });
+
+  const decomposition = qr(design);
+  const { r } = decomposition;
+  for (let k = 0; k < size; k++) {
+    const columnNorm = Math.sqrt(design.reduce((sum, row) => sum + row[k] * row[k], 0));
+    if (Math.abs(r[k][k]) <= RANK_TOLERANCE * columnNorm) {
+      return {
+        ok: false,
+        errorType: "NumericalStability",
+        message: `Polynomial regression of order ${order} could not be solved: the design matrix is too ill-conditioned.`,
+      };
+    }
+  }
+
+  // Coefficients of the polynomial in u, lowest order first.
+  const centred = solveUpperTriangular(r, applyQTranspose(decomposition, data.map(([, y]) => y)));
+
+  // Expand Σ γₖ·((x - centre) / scale)ᵏ into coefficients of x, lowest order first.
+  const solution: number[] = new Array(size).fill(0);
+  centred.forEach((gamma, k) => {
+    let binomial = 1;
+    for (let j = 0; j <= k; j++) {
+      solution[j] += (gamma / scale ** k) * binomial * (-centre) ** (k - j);
+      binomial = (binomial * (k - j)) / (j + 1);
+    }
+  });
+
+  if ([...centred, ...solution].some((c) => !Number.isFinite(c))) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Polynomial regression resulted in non-finite coefficients (NaN or Infinity). This can occur with extremely large values or a very high order.",
+    };
+  }
+
+  // Predictions use the unrounded centred polynomial, which is accurate far from x = 0; only the outputs are rounded.
+  const predict = (x: number): PredictedPoint => [
+    round(x, options.precision),
+    round(
+      centred.reduceRight((sum, c) => sum * ((x - centre) / scale) + c, 0),
+      options.precision
+    ),
+  ];
+
+  const points = data.map((point) => predict(point[0]));
+
+  const r2 = rSquared(data, points);
+
+  if (isNaN(r2)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "R-squared calculation failed or resulted in NaN. This can occur if the dependent variable (y) has no variance or due to other mathematical issues.",
+    };
+  }
+
+  return {
+    ok: true,
+    points,
+    predict,
+    m: round(solution[1], options.precision),
+    b: round(solution[0], options.precision),
+    coefficients: [...solution].reverse().map((c) => round(c, options.precision)),
+    rSquared: round(r2, options.precision),
+    method: "polynomial",
+  };
+}));
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { power } from "./power";
+import type { DataPoint } from "./types";
+
+describe("power", () => {
+  it("should fit a perfect power curve", () => {
+    const data: DataPoint[] = [
+      [1, 3],
+      [2, 12],
+      [3, 27],
+      [4, 48],
+    ];
+    const result = power({}, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.method).toBe("power");
+    expect(result.coefficients[0]).toBeCloseTo(3); // a
+    expect(result.coefficients[1]).toBeCloseTo(2); // b
+    expect(result.m).toBeCloseTo(2);
+    expect(result.b).toBeCloseTo(Math.log(3));
+    expect(result.rSquared).toBeCloseTo(1);
+    expect(result.predict(5)[1]).toBeCloseTo(75);
+  });
+
+  it("should fit a fractional exponent", () => {
+    const data: DataPoint[] = [1, 4, 9, 16, 25].map((x): DataPoint => [x, 5 * Math.sqrt(x)]);
+    const result = power({ precision: 4 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.coefficients[0]).toBeCloseTo(5);
+    expect(result.coefficients[1]).toBeCloseTo(0.5);
+  });
+
+  it("should return an error for non-positive x-values", () => {
+    const data: DataPoint[] = [
+      [-1, 1],
+      [1, 2],
+      [2, 3],
+    ];
+    const result = power({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("index 0 has a non-positive value (-1, 1)");
+  });
+
+  it("should return an error for non-positive y-values", () => {
+    const data: DataPoint[] = [
+      [1, 1],
+      [2, -2],
+    ];
+    const result = power({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+  });
+
+  it("should return an error when all x-values are identical", () => {
+    const data: DataPoint[] = [
+      [3, 1],
+      [3, 2],
+    ];
+    const result = power({}, data);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+});
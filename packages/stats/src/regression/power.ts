@@ -0,0 +1,129 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_OPTIONS } from "./const";
+import type {
+  DataPoint,
+  PredictedPoint,
+  RegressionOptions,
+  RegressionResult,
+} from "./types";
+import { rSquared, round, findInvalidPoint, leastSquares, withMissingValuePolicy } from "./util";
+
+/**
+ * Performs power regression, fitting a curve of the form `y = a·x^b` to the data points.
+ * The curve is found by fitting a least squares line to `ln(y)` against `ln(x)`, so every x- and y-value must be positive.
+ *
+ * @param {Partial<RegressionOptions>} [suppliedOptions] - Optional regression options to override defaults, such as `precision`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least two data points with positive values and distinct x-values.
+ * @returns {RegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), `coefficients` holds `[a, b]`, `m` is the exponent `b` and `b` is `ln(a)`,
+ * the slope and intercept of the log-log fit.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * const data = [[1, 3], [2, 12], [3, 27], [4, 48]];
+ * const result = power({}, data);
+ * if (result.ok) {
+ * console.log(result.coefficients); // [3, 2] => y = 3·x²
+ * }
+ *
+ * @example
+ * // Handling non-positive values
+ * const data = [[-1, 1], [1, 2], [2, 3]];
+ * const result = power({}, data);
+ * // result.ok will be false, result.errorType will be "InvalidInput"
+ *
+ * @description
+ * **Insights derived from Power Regression:**
+ * - **Scaling Laws:** Describes relationships where y scales with a power of x, such as area against length or cost against volume.
+ * - **Elasticity:** The exponent `b` is the percentage change in y for a one percent change in x.
+ */
+export const power = curry(withMissingValuePolicy((
+  suppliedOptions: Partial<RegressionOptions>,
+  data: DataPoint[]
+): RegressionResult => {
+  const options: RegressionOptions = {
+    ...DEFAULT_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  if (data.length < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Power regression requires at least 2 valid data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = findInvalidPoint(data);
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Power regression requires finite numerical inputs.`,
+    };
+  }
+
+  const nonPositiveIndex = data.findIndex((point) => point[0] <= 0 || point[1] <= 0);
+  if (nonPositiveIndex !== -1) {
+    const [x, y] = data[nonPositiveIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${nonPositiveIndex} has a non-positive value (${x}, ${y}). Power regression requires all x- and y-values to be greater than zero.`,
+    };
+  }
+
+  const fit = leastSquares(data.map(([x, y]): DataPoint => [Math.log(x), Math.log(y)]));
+
+  if (fit === null) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message:
+        "Cannot perform power regression: all x-values are identical, resulting in a vertical line.",
+    };
+  }
+
+  const a = round(Math.exp(fit.intercept), options.precision);
+  const exponent = round(fit.gradient, options.precision);
+
+  if (!Number.isFinite(a) || !Number.isFinite(exponent)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Power regression resulted in non-finite coefficients (NaN or Infinity). This can occur with extremely large or small values.",
+    };
+  }
+
+  const predict = (x: number): PredictedPoint => [
+    round(x, options.precision),
+    round(a * Math.pow(x, exponent), options.precision),
+  ];
+
+  const points = data.map((point) => predict(point[0]));
+
+  const r2 = rSquared(data, points);
+
+  if (isNaN(r2)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "R-squared calculation failed or resulted in NaN. This can occur if the dependent variable (y) has no variance or due to other mathematical issues.",
+    };
+  }
+
+  return {
+    ok: true,
+    points,
+    predict,
+    m: exponent,
+    b: round(fit.intercept, options.precision),
+    coefficients: [a, exponent],
+    rSquared: round(r2, options.precision),
+    method: "power",
+  };
+}));
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { compareSlopes } from "./slopes";
+import type { DataPoint } from "./types";
+
+const fast: DataPoint[] = [[1, 10], [2, 14], [3, 17.5], [4, 22], [5, 26]];
+const slow: DataPoint[] = [[1, 12], [2, 14], [3, 16.5], [4, 18], [5, 20]];
+const slowest: DataPoint[] = [[1, 3], [2, 5.5], [3, 6], [4, 8.5], [5, 9]];
+
+describe("compareSlopes", () => {
+  it("should fit a line to each series and test whether their slopes differ", () => {
+    const result = compareSlopes({}, [fast, slow]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.slopes).toMatchObject([
+      { m: 4, b: 5.9, seM: 0.08, n: 5 },
+      { m: 2, b: 10.1, seM: 0.08, n: 5 },
+    ]);
+    // t = 2 / 0.0816 on 6 degrees of freedom.
+    expect(result.slopes[1].pValueM).toBeCloseTo(3.044e-7, 9);
+    expect(result.commonSlope).toBe(3);
+    expect(result.statistic).toBe(300);
+    expect(result.df).toEqual([1, 6]);
+    expect(result.pValue).toBeCloseTo(2.3733e-6, 9);
+  });
+
+  it("should give a t-test of the difference between two slopes, agreeing with the F test", () => {
+    const result = compareSlopes({ precision: 4 }, [fast, slow]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.difference).toMatchObject({
+      estimate: 2,
+      standardError: 0.1155,
+      statistic: 17.3205,
+      df: 6,
+      ci: [1.7175, 2.2825],
+    });
+    expect(result.difference!.pValue).toBeCloseTo(result.pValue, 12);
+  });
+
+  it("should widen the interval at a higher confidence level", () => {
+    const result = compareSlopes({ confidenceLevel: 0.99 }, [fast, slow]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.difference!.ci).toEqual([1.57, 2.43]);
+  });
+
+  it("should compare more than two series in a single test", () => {
+    const result = compareSlopes({}, [fast, slow, slowest]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.slopes.map((slope) => slope.m)).toEqual([4, 2, 1.5]);
+    expect(result.commonSlope).toBe(2.5);
+    expect(result.statistic).toBe(98.44);
+    expect(result.df).toEqual([2, 9]);
+    expect(result.pValue).toBeLessThan(1e-5);
+    expect(result.difference).toBeUndefined();
+  });
+
+  it("should not reject parallel lines", () => {
+    const lower: DataPoint[] = [[1, 1], [2, 2.2], [3, 2.9], [4, 4.1], [5, 5]];
+    const upper: DataPoint[] = [[1, 3.1], [2, 3.9], [3, 5.2], [4, 5.8], [5, 7.1]];
+    const result = compareSlopes({}, [lower, upper]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.statistic).toBe(0);
+    expect(result.pValue).toBeCloseTo(1, 10);
+    expect(result.difference!.estimate).toBe(0);
+  });
+
+  it("should not round the results at an infinite precision", () => {
+    const result = compareSlopes({ precision: Infinity }, [fast, slowest]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.slopes[0].seM).toBeCloseTo(Math.sqrt(1.4 / 6 / 10), 12);
+    expect(result.difference!.estimate).toBeCloseTo(2.5, 12);
+  });
+
+  it("should return InvalidInput for fewer than two series", () => {
+    const result = compareSlopes({}, [fast]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errorType).toBe("InvalidInput");
+    }
+  });
+
+  it("should return InsufficientData for a series with fewer than three points", () => {
+    const result = compareSlopes({}, [fast, [[1, 2], [2, 3]]]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errorType).toBe("InsufficientData");
+      expect(result.message).toContain("Series 1");
+    }
+  });
+
+  it("should return InvalidInput for non-finite values", () => {
+    const result = compareSlopes({}, [fast, [[1, 2], [2, NaN], [3, 4]]]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errorType).toBe("InvalidInput");
+    }
+  });
+
+  it("should return InvalidInput for a confidence level outside (0, 1)", () => {
+    const result = compareSlopes({ confidenceLevel: 1 }, [fast, slow]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errorType).toBe("InvalidInput");
+    }
+  });
+
+  it("should return DegenerateInput when a series has identical x-values", () => {
+    const result = compareSlopes({}, [fast, [[2, 1], [2, 2], [2, 3]]]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errorType).toBe("DegenerateInput");
+    }
+  });
+
+  it("should return DegenerateInput when every series lies exactly on its line", () => {
+    const result = compareSlopes({}, [[[1, 2], [2, 4], [3, 6]], [[1, 1], [2, 2], [3, 3]]]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errorType).toBe("DegenerateInput");
+    }
+  });
+
+  describe("missing values", () => {
+    const gappy: DataPoint[] = [[1, 12], [2, NaN], [3, 16.5], [4, 18], [5, 20], [NaN, 3]];
+
+    it("should reject missing values by default", () => {
+      const result = compareSlopes({}, [fast, gappy]);
+
+      if (result.ok) {
+        throw new Error("Expected comparison to fail");
+      }
+      expect(result.errorType).toBe("InvalidInput");
+    });
+
+    it("should treat missing values in each series and report them per series", () => {
+      const result = compareSlopes({ missing: "drop" }, [fast, gappy]);
+      const complete = compareSlopes({}, [fast, [[1, 12], [3, 16.5], [4, 18], [5, 20]]]);
+
+      if (!result.ok || !complete.ok) {
+        throw new Error("Expected successful result");
+      }
+      expect(result.slopes).toEqual(complete.slopes);
+      expect(result.pValue).toBe(complete.pValue);
+      expect(result.missing).toEqual([
+        { policy: "drop", imputation: null, droppedIndices: [], imputedIndices: [] },
+        { policy: "drop", imputation: null, droppedIndices: [1, 5], imputedIndices: [] },
+      ]);
+      expect(complete).not.toHaveProperty("missing");
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_SLOPE_COMPARISON_OPTIONS, DEGENERATE_TOLERANCE } from "./const";
+import type {
+  DataPoint,
+  SlopeComparisonOptions,
+  SlopeComparisonResult,
+  SlopeDifference,
+  SlopeEstimate,
+} from "./types";
+import { round, findInvalidPoint, twoSidedTPValue } from "./util";
+import { applyMissingPolicy } from "../missing/util";
+import { regularizedIncompleteBeta, studentTQuantile } from "../distribution";
+
+/**
+ * The centred sums of one series, before rounding.
+ */
+interface SeriesSums {
+  n: number;
+  meanX: number;
+  meanY: number;
+  sxx: number;
+  sxy: number;
+}
+
+/**
+ * Sum the squared deviations of each series from the line through its means with the given gradient.
+ */
+const residualSumOfSquares = (series: DataPoint[][], sums: SeriesSums[], gradient: (i: number) => number): number =>
+  series.reduce((total, data, i) => {
+    const { meanX, meanY } = sums[i];
+    const m = gradient(i);
+    return total + data.reduce((sse, [x, y]) => sse + (y - meanY - m * (x - meanX)) ** 2, 0);
+  }, 0);
+
+/**
+ * Compares the slopes of straight lines fitted to several series, testing whether the series trend at the same rate.
+ * This is the interaction test of an analysis of covariance (ANCOVA): a model with a separate line for each series is
+ * compared with one where the lines share a slope but keep their own intercepts.
+ *
+ * @param {Partial<SlopeComparisonOptions>} [suppliedOptions] - Optional options to override defaults, such as `precision`,
+ * the `confidenceLevel` of the slope difference's interval and the `missing` value policy.
+ * @param {DataPoint[][]} suppliedSeries - Two or more series, each an array of `[x, y]` data points with at least 3 valid
+ * points. Missing values are treated by the `missing` policy in each series separately.
+ * @returns {SlopeComparisonResult} A discriminant union representing the success or failure of the comparison.
+ * - If successful (`ok: true`), it returns the line fitted to each series (`slopes`), the `commonSlope` of the
+ * parallel-lines model, and the F `statistic`, degrees of freedom (`df`) and `pValue` for the hypothesis that all slopes
+ * are equal. With exactly two series, `difference` gives a t-test and confidence interval for the first slope minus the
+ * second. Standard errors use the residual variance pooled across all series, as in ANCOVA.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // Is region A growing faster than region B?
+ * const a = [[1, 10], [2, 14], [3, 17.5], [4, 22], [5, 26]];
+ * const b = [[1, 12], [2, 14], [3, 16.5], [4, 18], [5, 20]];
+ * const result = compareSlopes({}, [a, b]);
+ * if (result.ok && result.pValue < 0.05) {
+ * console.log(`A grows ${result.difference!.estimate} per unit faster, 95% CI ${result.difference!.ci}`);
+ * }
+ *
+ * @example
+ * // Comparing several groups at once
+ * const result = compareSlopes({ precision: 4 }, [north, south, east, west]);
+ * // result.df is [3, points - 8]
+ *
+ * @example
+ * // Leaving out missing values in any series
+ * const result = compareSlopes({ missing: "drop" }, [[[1, 2], [2, NaN], [3, 4], [4, 5.5]], b]);
+ * // result.missing[0].droppedIndices is [1]
+ *
+ * @example
+ * // Handling a series that is too short
+ * const result = compareSlopes({}, [[[1, 2], [2, 3]], b]);
+ * // result.ok will be false, result.errorType will be "InsufficientData"
+ *
+ * @description
+ * **Insights derived from Slope Comparison:**
+ * - **Relative Growth:** The ratio of two slopes tells whether one series is growing faster than another, e.g. one region growing twice as fast as another.
+ * - **Statistical Significance:** The `pValue` shows whether differences between the slopes could plausibly be due to chance, so small differences in noisy data are not over-interpreted.
+ * - **Magnitude of Difference:** With two series, `difference.ci` bounds the plausible range of how much faster one series is changing than the other.
+ * - **Convergence:** When the slopes differ, the lines cross where their predictions are equal; a crossing beyond the data suggests one series is projected to overtake the other.
+ */
+export const compareSlopes = curry((
+  suppliedOptions: Partial<SlopeComparisonOptions>,
+  suppliedSeries: DataPoint[][]
+): SlopeComparisonResult => {
+  const options: SlopeComparisonOptions = {
+    ...DEFAULT_SLOPE_COMPARISON_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  if (!(options.confidenceLevel > 0 && options.confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${options.confidenceLevel}.`,
+    };
+  }
+
+  const prepared = suppliedSeries.map((data) => applyMissingPolicy(options, data));
+  const series = prepared.map(({ data }) => data);
+
+  if (series.length < 2) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Slope comparison requires at least 2 series. Received ${series.length}.`,
+    };
+  }
+
+  const sums: SeriesSums[] = [];
+  for (let i = 0; i < series.length; i++) {
+    const data = series[i];
+    if (data.length < 3) {
+      return {
+        ok: false,
+        errorType: "InsufficientData",
+        message: `Slope comparison requires at least 3 data points in each series. Series ${i} has ${data.length}.`,
+      };
+    }
+
+    const invalid = findInvalidPoint(data);
+    if (invalid !== -1) {
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: `Data point at index ${invalid} of series ${i} contains non-finite values (${data[invalid][0]}, ${data[invalid][1]}). Slope comparison requires finite numerical inputs.`,
+      };
+    }
+
+    const n = data.length;
+    const meanX = data.reduce((total, point) => total + point[0], 0) / n;
+    const meanY = data.reduce((total, point) => total + point[1], 0) / n;
+    let sxx = 0;
+    let sxy = 0;
+    for (const [x, y] of data) {
+      sxx += (x - meanX) ** 2;
+      sxy += (x - meanX) * (y - meanY);
+    }
+
+    if (sxx <= n * (DEGENERATE_TOLERANCE * meanX) ** 2) {
+      return {
+        ok: false,
+        errorType: "DegenerateInput",
+        message: `Cannot compare slopes: all x-values in series ${i} are identical, so no slope can be fitted.`,
+      };
+    }
+
+    sums.push({ n, meanX, meanY, sxx, sxy });
+  }
+
+  const k = series.length;
+  const total = sums.reduce((count, s) => count + s.n, 0);
+  const gradients = sums.map((s) => s.sxy / s.sxx);
+  const commonSlope = sums.reduce((t, s) => t + s.sxy, 0) / sums.reduce((t, s) => t + s.sxx, 0);
+
+  const sseFull = residualSumOfSquares(series, sums, (i) => gradients[i]);
+  const sseReduced = residualSumOfSquares(series, sums, () => commonSlope);
+  const d1 = k - 1;
+  const d2 = total - 2 * k;
+  const variance = sseFull / d2;
+
+  const fit = sums.reduce((t, s) => t + s.sxy ** 2 / s.sxx, 0);
+  if (!(sseFull > Number.EPSILON * fit)) {
+    // Every series lies exactly on its line, so there is no residual variance to test the slopes against.
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message: "Cannot compare slopes: every series fits its line exactly, leaving no residual variance.",
+    };
+  }
+
+  const statistic = Math.max(0, (sseReduced - sseFull) / d1) / variance;
+  const pValue = statistic === 0 ? 1 : regularizedIncompleteBeta(d2 / 2, d1 / 2, d2 / (d2 + d1 * statistic));
+
+  if (!isFinite(statistic) || isNaN(pValue)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Slope comparison resulted in a non-finite test statistic. This can occur with extremely large values or an unhandled mathematical edge case.",
+    };
+  }
+
+  const slopes: SlopeEstimate[] = sums.map((s, i) => {
+    const seM = Math.sqrt(variance / s.sxx);
+    return {
+      m: round(gradients[i], options.precision),
+      b: round(s.meanY - gradients[i] * s.meanX, options.precision),
+      seM: round(seM, options.precision),
+      pValueM: twoSidedTPValue(d2, gradients[i] / seM),
+      n: s.n,
+    };
+  });
+
+  let difference: SlopeDifference | undefined;
+  if (k === 2) {
+    const estimate = gradients[0] - gradients[1];
+    const standardError = Math.sqrt(variance * (1 / sums[0].sxx + 1 / sums[1].sxx));
+    const t = estimate / standardError;
+    const critical = studentTQuantile({ df: d2 }, 1 - (1 - options.confidenceLevel) / 2);
+    difference = {
+      estimate: round(estimate, options.precision),
+      standardError: round(standardError, options.precision),
+      statistic: round(t, options.precision),
+      df: d2,
+      pValue: twoSidedTPValue(d2, t),
+      ci: [
+        round(estimate - critical * standardError, options.precision),
+        round(estimate + critical * standardError, options.precision),
+      ],
+    };
+  }
+
+  return {
+    ok: true,
+    slopes,
+    commonSlope: round(commonSlope, options.precision),
+    statistic: round(statistic, options.precision),
+    df: [d1, d2],
+    pValue,
+    ...(difference ? { difference } : {}),
+    ...(options.missing === "reject" ? {} : { missing: prepared.map(({ report }) => report) }),
+  };
+});
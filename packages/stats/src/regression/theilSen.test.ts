@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { theilSen } from "./theilSen";
+import { linear } from "./linear";
+import type { DataPoint } from "./types";
+
+describe("theilSen", () => {
+  it("should fit a perfect line exactly", () => {
+    const data: DataPoint[] = [
+      [1, 3],
+      [2, 5],
+      [3, 7],
+      [4, 9],
+    ];
+    const result = theilSen({}, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.method).toBe("theilSen");
+    expect(result.m).toBeCloseTo(2);
+    expect(result.b).toBeCloseTo(1);
+    expect(result.rSquared).toBeCloseTo(1);
+    expect(result.diagnostics?.downWeighted).toBe(0);
+  });
+
+  it("should not let a single bad reading flip the slope", () => {
+    const data: DataPoint[] = [
+      [1, 1],
+      [2, 2],
+      [3, 3],
+      [4, 4],
+      [5, -50],
+    ];
+    const result = theilSen({}, data);
+    const ols = linear({}, data);
+
+    if (!result.ok || !ols.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(ols.m).toBeLessThan(0);
+    expect(result.m).toBeCloseTo(1);
+    expect(result.b).toBeCloseTo(0);
+    expect(result.diagnostics?.downWeighted).toBe(1);
+  });
+
+  it("should use the median of pairwise slopes for noisy data", () => {
+    const data: DataPoint[] = [
+      [1, 2],
+      [2, 3],
+      [3, 7],
+      [4, 8],
+    ];
+    const result = theilSen({ precision: 4 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    // Pairwise slopes: 1, 2.5, 2, 4, 2.5, 1 => median 2.25
+    expect(result.m).toBeCloseTo(2.25);
+    // Intercepts y - 2.25x: -0.25, -1.5, 0.25, -1 => median -0.625
+    expect(result.b).toBeCloseTo(-0.625);
+    expect(result.diagnostics?.scale).toBeGreaterThan(0);
+  });
+
+  it("should flag outliers using the configured threshold", () => {
+    const data: DataPoint[] = [
+      [1, 1.1],
+      [2, 1.9],
+      [3, 3.2],
+      [4, 3.8],
+      [5, 5.1],
+      [6, 8],
+    ];
+    const strict = theilSen({ outlierThreshold: 2 }, data);
+    const lenient = theilSen({ outlierThreshold: 100 }, data);
+
+    if (!strict.ok || !lenient.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(strict.diagnostics?.downWeighted).toBe(1);
+    expect(lenient.diagnostics?.downWeighted).toBe(0);
+  });
+
+  it("should return an error for insufficient data", () => {
+    const result = theilSen({}, [[1, 1]]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error when all x-values are identical", () => {
+    const result = theilSen({}, [
+      [1, 1],
+      [1, 2],
+      [1, 3],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+});
@@ -0,0 +1,135 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_OPTIONS } from "./const";
+import type {
+  DataPoint,
+  PredictedPoint,
+  RegressionOptions,
+  RegressionResult,
+} from "./types";
+import { rSquared, round, findInvalidPoint, median, robustScale, residualTolerance, withMissingValuePolicy } from "./util";
+
+/**
+ * Performs Theil–Sen robust linear regression, fitting `y = m·x + b` where the slope is the median of the
+ * slopes between every pair of points and the intercept is the median of `y - m·x`.
+ * Up to roughly 29% of the points can be arbitrarily corrupted without moving the fit significantly.
+ *
+ * @param {Partial<RegressionOptions>} [suppliedOptions] - Optional regression options to override defaults, such as `precision` and `outlierThreshold`.
+ * @param {DataPoint[]} data - An array of data points, where each `DataPoint` is a tuple `[x, y]`.
+ * Expects at least two data points with at least two distinct x-values.
+ * @returns {RegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), `diagnostics.downWeighted` counts the points lying more than `outlierThreshold`
+ * robust standard deviations (`diagnostics.scale`) from the line.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // A single bad sensor reading does not flip the slope
+ * const data = [[1, 1], [2, 2], [3, 3], [4, 4], [5, -50]];
+ * const result = theilSen({}, data);
+ * // result.m is 1; result.diagnostics.downWeighted is 1
+ *
+ * @description
+ * **Insights derived from Theil–Sen Regression:**
+ * - **Robust Trends:** Reports the trend followed by the bulk of the data, unaffected by a few extreme readings.
+ * - **Outlier Count:** `diagnostics.downWeighted` indicates how many points disagree strongly with that trend.
+ * - **Cost:** Considers every pair of points, so runs in O(n²) time; prefer `huber` for very large inputs.
+ */
+export const theilSen = curry(withMissingValuePolicy((
+  suppliedOptions: Partial<RegressionOptions>,
+  data: DataPoint[]
+): RegressionResult => {
+  const options: RegressionOptions = {
+    ...DEFAULT_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  if (data.length < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Theil–Sen regression requires at least 2 valid data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = findInvalidPoint(data);
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Theil–Sen regression requires finite numerical inputs.`,
+    };
+  }
+
+  const slopes: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    for (let j = i + 1; j < data.length; j++) {
+      const run = data[j][0] - data[i][0];
+      if (run !== 0) {
+        slopes.push((data[j][1] - data[i][1]) / run);
+      }
+    }
+  }
+
+  if (slopes.length === 0) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message:
+        "Cannot perform Theil–Sen regression: all x-values are identical, resulting in a vertical line.",
+    };
+  }
+
+  const rawGradient = median(slopes);
+  const rawIntercept = median(data.map(([x, y]) => y - rawGradient * x));
+  const gradient = round(rawGradient, options.precision);
+  const intercept = round(rawIntercept, options.precision);
+
+  if (!Number.isFinite(gradient) || !Number.isFinite(intercept)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Theil–Sen regression resulted in non-finite coefficients (NaN or Infinity). This can occur with extremely large values.",
+    };
+  }
+
+  const predict = (x: number): PredictedPoint => [
+    round(x, options.precision),
+    round(gradient * x + intercept, options.precision),
+  ];
+
+  const points = data.map((point) => predict(point[0]));
+
+  const r2 = rSquared(data, points);
+
+  if (isNaN(r2)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "R-squared calculation failed or resulted in NaN. This can occur if the dependent variable (y) has no variance or due to other mathematical issues.",
+    };
+  }
+
+  const residuals = data.map(([x, y]) => y - (rawGradient * x + rawIntercept));
+  const scale = robustScale(residuals);
+  // With a zero scale the majority of points lie exactly on the line, so any non-negligible residual marks an outlier.
+  const tolerance = residualTolerance(data);
+  const threshold = scale > tolerance ? options.outlierThreshold * scale : tolerance;
+  const downWeighted = residuals.filter((r) => Math.abs(r) > threshold).length;
+
+  return {
+    ok: true,
+    points,
+    predict,
+    m: gradient,
+    b: intercept,
+    coefficients: [gradient, intercept],
+    rSquared: round(r2, options.precision),
+    method: "theilSen",
+    diagnostics: {
+      downWeighted,
+      scale: round(scale, options.precision),
+    },
+  };
+}));
@@ -1,3 +1,6 @@
+import type { MissingValueOptions, MissingValueReport } from "../missing/types";
+import type { TimeUnit } from "../time/types";
+
 /**
  * Common interface for the successful output of all regression methods.
  */
@@ -6,13 +9,27 @@ export interface RegressionSuccess {
   /**
    * The slope (gradient) of the fitted linear regression line.
    * Represents the change in the dependent variable (Y) for a one-unit change in the independent variable (X).
+   * For non-linear methods this is the slope of the fit in its linearised space
+   * (e.g. ln(y) against x for `exponential`), or the linear term for `polynomial`.
    */
   m: number;
   /**
    * The Y-intercept of the fitted linear regression line.
    * Represents the expected value of the dependent variable (Y) when the independent variable (X) is zero.
+   * For non-linear methods this is the intercept of the fit in its linearised space
+   * (e.g. ln(a) for `exponential`), or the constant term for `polynomial`.
    */
   b: number;
+  /**
+   * The method-specific coefficients of the fitted equation:
+   * - `linear`: `[m, b]` for `y = m·x + b`
+   * - `exponential`: `[a, b]` for `y = a·e^(b·x)`
+   * - `logarithmic`: `[a, b]` for `y = a + b·ln(x)`
+   * - `power`: `[a, b]` for `y = a·x^b`
+   * - `polynomial`: `[cₙ, …, c₁, c₀]` for `y = cₙ·xⁿ + … + c₁·x + c₀`, highest order first
+   * - `weighted`, `theilSen`, `huber`: `[m, b]` for `y = m·x + b`
+   */
+  coefficients: number[];
   /**
    * The R-squared value, a statistical measure that represents the proportion of the variance
    * for a dependent variable that's explained by an independent variable or variables in a regression model.
@@ -22,7 +39,15 @@ export interface RegressionSuccess {
   /**
    * The method used for the statistical calculation, providing context for interpretation.
    */
-  method: "linear" | "logarithmic" | "exponential" | "power" | "polynomial";
+  method:
+    | "linear"
+    | "logarithmic"
+    | "exponential"
+    | "power"
+    | "polynomial"
+    | "weighted"
+    | "theilSen"
+    | "huber";
   /**
    * An array of [x, y] points representing the fitted regression line,
    * generated from the input data points based on the calculated equation.
@@ -31,9 +56,103 @@ export interface RegressionSuccess {
   points: PredictedPoint[];
   /**
    * A function that takes an x-value and returns its predicted y-value
-   * based on the calculated linear regression equation (y = mx + b).
+   * based on the fitted regression equation.
    */
   predict: (x: number) => PredictedPoint;
+  /**
+   * The standard error of the slope `m`. Only provided by `linear` and `linearAccumulator`.
+   */
+  seM?: number;
+  /**
+   * The standard error of the intercept `b`. Only provided by `linear` and `linearAccumulator`.
+   */
+  seB?: number;
+  /**
+   * The t statistic for the null hypothesis that the slope is zero (`m / seM`). Only provided by `linear` and `linearAccumulator`.
+   */
+  tM?: number;
+  /**
+   * The t statistic for the null hypothesis that the intercept is zero (`b / seB`). Only provided by `linear` and `linearAccumulator`.
+   */
+  tB?: number;
+  /**
+   * The residual degrees of freedom (`n - 2` for simple linear regression). Only provided by `linear` and `linearAccumulator`.
+   */
+  df?: number;
+  /**
+   * The two-sided p-value for the slope. A small value (e.g. below 0.05) indicates
+   * the trend is statistically significant. Only provided by `linear` and `linearAccumulator`.
+   */
+  pValueM?: number;
+  /**
+   * The two-sided p-value for the intercept. Only provided by `linear` and `linearAccumulator`.
+   */
+  pValueB?: number;
+  /**
+   * The `[lower, upper]` confidence interval for the slope at `RegressionOptions.confidenceLevel`. Only provided by `linear` and `linearAccumulator`.
+   */
+  ciM?: [number, number];
+  /**
+   * The `[lower, upper]` confidence interval for the intercept at `RegressionOptions.confidenceLevel`. Only provided by `linear` and `linearAccumulator`.
+   */
+  ciB?: [number, number];
+  /**
+   * Returns the confidence band for the mean response at `x` as `[x, lower, upper]`,
+   * at `RegressionOptions.confidenceLevel`. The band is narrowest at the mean of the input x-values.
+   * Only provided by `linear` and `linearAccumulator`.
+   */
+  confidenceBand?: (x: number) => BandPoint;
+  /**
+   * Returns the prediction interval for a single new observation at `x` as `[x, lower, upper]`,
+   * at `RegressionOptions.confidenceLevel`. Always wider than the confidence band.
+   * Only provided by `linear` and `linearAccumulator`.
+   */
+  predictionBand?: (x: number) => BandPoint;
+  /**
+   * Samples the confidence and prediction bands at `samples` evenly spaced x-values
+   * spanning the input x range (inclusive), ready to be drawn as shaded areas around the trend line.
+   * Throws a `RangeError` if `samples` is less than 2. Only provided by `linear`.
+   */
+  sampleBands?: (samples?: number) => RegressionBands;
+  /**
+   * Diagnostics describing how a weighted or robust fit treated individual points.
+   * Only provided by `weighted`, `theilSen` and `huber`.
+   */
+  diagnostics?: RobustDiagnostics;
+  /**
+   * The points that were dropped or imputed before fitting. Only provided when the `missing` policy is `drop` or
+   * `impute`; `points` then has one entry per point that was fitted, in input order.
+   */
+  missing?: MissingValueReport;
+  /**
+   * The unit of time of the gradient `m`. Only provided by `linearOverTime`, whose x-values are times.
+   */
+  unit?: TimeUnit;
+}
+
+/**
+ * Diagnostics for weighted and robust regression fits.
+ */
+export interface RobustDiagnostics {
+  /**
+   * The number of points given less influence than in an ordinary least squares fit.
+   * For `theilSen`, which has no explicit weights, this is the number of points lying more than
+   * `outlierThreshold` robust standard deviations from the fitted line.
+   */
+  downWeighted: number;
+  /**
+   * The final weight of each point relative to the most heavily weighted point, from 0 to 1.
+   * Not provided by `theilSen`.
+   */
+  weights?: number[];
+  /**
+   * The number of reweighting iterations performed. Only provided by iterative methods such as `huber`.
+   */
+  iterations?: number;
+  /**
+   * The robust (MAD-based) estimate of the residual standard deviation.
+   */
+  scale?: number;
 }
 
 /**
@@ -46,7 +165,9 @@ export interface RegressionError {
     | "DegenerateInput"
     | "MathError"
     | "InvalidInput"
-    | "NumericalStability";
+    | "NumericalStability"
+    | "ConvergenceFailure"
+    | "RankDeficient";
   message: string;
 }
 
@@ -61,17 +182,603 @@ export type RegressionResult = RegressionSuccess | RegressionError;
  */
 export type PredictedPoint = [number, number];
 
+/**
+ * Represents an interval around a regression line at a given x value, as `[x, lower, upper]`.
+ */
+export type BandPoint = [number, number, number];
+
+/**
+ * The confidence and prediction bands of a regression line, sampled over the input x range.
+ */
+export interface RegressionBands {
+  /**
+   * The confidence band for the mean response.
+   */
+  confidence: BandPoint[];
+  /**
+   * The prediction interval band for individual observations.
+   */
+  prediction: BandPoint[];
+}
+
 /**
  * Represents a data point with an x and y value.
  */
 export type DataPoint = [number, number];
 
 /**
- * Options interface for regression methods.
+ * Represents a data point with an x and y value and a non-negative weight,
+ * for weighted regression. Points with larger weights have more influence on the fit.
+ */
+export type WeightedDataPoint = [number, number, number];
+
+/**
+ * Options interface for regression methods. `missing` and `imputation` control how points with a missing or
+ * non-finite value are treated; by default they are rejected with an `InvalidInput` error.
+ */
+export interface RegressionOptions extends MissingValueOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The order (degree) of the fitted polynomial. Only used by `polynomial`.
+   */
+  order: number;
+  /**
+   * The seasonal period of the data, or `null` when the data has no known seasonality.
+   */
+  period: number | null;
+  /**
+   * The confidence level for confidence intervals, between 0 and 1 (e.g. 0.95 for 95% intervals).
+   */
+  confidenceLevel: number;
+  /**
+   * The maximum number of iterations for iterative methods such as `huber`.
+   */
+  maxIterations: number;
+  /**
+   * The largest change in fitted values between iterations, relative to the magnitude of the y-values,
+   * below which an iterative method is considered converged.
+   */
+  tolerance: number;
+  /**
+   * The Huber tuning constant, in robust standard deviations of the residuals.
+   * Residuals larger than this are down-weighted by `huber`. The default of 1.345 gives
+   * 95% efficiency on normally distributed data.
+   */
+  huberK: number;
+  /**
+   * The number of robust standard deviations beyond which `theilSen` reports a point as an outlier.
+   */
+  outlierThreshold: number;
+}
+
+
+/**
+ * The running statistics held by a `LinearAccumulator`. Sums of squares and cross-products are
+ * centred on the running means, so they stay accurate when x-values are large (e.g. timestamps).
+ */
+export interface LinearAccumulatorState {
+  /**
+   * The number of data points currently accumulated.
+   */
+  count: number;
+  /**
+   * The mean of the accumulated x-values.
+   */
+  meanX: number;
+  /**
+   * The mean of the accumulated y-values.
+   */
+  meanY: number;
+  /**
+   * The sum of squared deviations of x from `meanX`.
+   */
+  sxx: number;
+  /**
+   * The sum of squared deviations of y from `meanY`.
+   */
+  syy: number;
+  /**
+   * The sum of the products of the x and y deviations from their means.
+   */
+  sxy: number;
+}
+
+/**
+ * The successful output of `LinearAccumulator.result()`: a `RegressionSuccess` without `points` or `sampleBands`,
+ * which need the individual data points that the accumulator does not retain. Use `predict` to plot the line.
+ */
+export type LinearAccumulatorSuccess = Omit<RegressionSuccess, "points" | "sampleBands">;
+
+/**
+ * Result type for `LinearAccumulator.result()`.
+ */
+export type LinearAccumulatorResult = LinearAccumulatorSuccess | RegressionError;
+
+/**
+ * An immutable, incrementally updated simple linear regression. Every update returns a new accumulator
+ * in O(1) time, leaving the original unchanged.
+ */
+export interface LinearAccumulator {
+  /**
+   * The running statistics summarising the accumulated data points.
+   */
+  readonly state: LinearAccumulatorState;
+  /**
+   * Returns a new accumulator including `point`. Throws a `RangeError` if the point is not finite.
+   */
+  add: (point: DataPoint) => LinearAccumulator;
+  /**
+   * Returns a new accumulator excluding a previously added `point`, e.g. when it leaves a sliding window.
+   * Throws a `RangeError` if the point is not finite, the accumulator is empty, or the point cannot have been added
+   * because removing it would leave a negative sum of squares. Other points that were never added are not detected.
+   */
+  remove: (point: DataPoint) => LinearAccumulator;
+  /**
+   * Returns a new accumulator holding the data points of both accumulators, keeping this accumulator's options.
+   */
+  merge: (other: LinearAccumulator) => LinearAccumulator;
+  /**
+   * Fits the regression line to the accumulated data points.
+   */
+  result: () => LinearAccumulatorResult;
+}
+
+/**
+ * Input for multiple regression given as a design matrix: one row of predictor values per observation.
+ */
+export interface DesignMatrixInput {
+  /**
+   * One row per observation, each holding the value of every predictor. Do not include a column of ones;
+   * the intercept is added automatically unless `intercept` is `false`.
+   */
+  matrix: number[][];
+  /**
+   * The observed response for each row.
+   */
+  y: number[];
+  /**
+   * Optional names for the predictor columns. Defaults to `x1`, `x2`, ….
+   */
+  names?: string[];
+}
+
+/**
+ * Input for multiple regression given as named feature columns, e.g. `{ dayOfWeek: [...], price: [...] }`.
+ */
+export interface FeatureColumnsInput {
+  /**
+   * One column of values per named predictor. All columns must be the same length as `y`.
+   */
+  features: Record<string, number[]>;
+  /**
+   * The observed response for each observation.
+   */
+  y: number[];
+}
+
+/**
+ * Input for multiple regression.
  */
-export interface RegressionOptions {
+export type MultipleRegressionInput = DesignMatrixInput | FeatureColumnsInput;
+
+/**
+ * Options for multiple regression. `missing` and `imputation` control how observations with a missing or non-finite
+ * value are treated; by default they are rejected with an `InvalidInput` error.
+ */
+export interface MultipleRegressionOptions extends MissingValueOptions {
   /**
    * The precision for rounding numerical results.
    */
   precision: number;
+  /**
+   * The confidence level for coefficient confidence intervals, between 0 and 1.
+   */
+  confidenceLevel: number;
+  /**
+   * Whether to fit an intercept term. Defaults to `true`.
+   */
+  intercept: boolean;
+}
+
+/**
+ * An estimated coefficient of a multiple regression model with its inferential statistics.
+ */
+export interface RegressionCoefficient {
+  /**
+   * The predictor name, or `"(intercept)"` for the intercept term.
+   */
+  name: string;
+  /**
+   * The estimated coefficient.
+   */
+  estimate: number;
+  /**
+   * The standard error of the estimate.
+   */
+  standardError: number;
+  /**
+   * The t statistic for the null hypothesis that the coefficient is zero.
+   */
+  t: number;
+  /**
+   * The two-sided p-value of the t statistic. Not rounded.
+   */
+  pValue: number;
+  /**
+   * The `[lower, upper]` confidence interval at `confidenceLevel`.
+   */
+  ci: [number, number];
 }
+
+/**
+ * The successful output of multiple regression.
+ */
+export interface MultipleRegressionSuccess {
+  ok: true;
+  method: "multiple";
+  /**
+   * The fitted coefficients, intercept first (when fitted) and then in predictor order.
+   */
+  coefficients: RegressionCoefficient[];
+  /**
+   * The proportion of the variance in y explained by the model.
+   */
+  rSquared: number;
+  /**
+   * R-squared adjusted for the number of predictors, `1 - (1 - R²)(n - 1) / df`.
+   * Prefer this when comparing models with different numbers of predictors.
+   */
+  adjustedRSquared: number;
+  /**
+   * The residual degrees of freedom, `n - p`, where p counts the fitted coefficients.
+   */
+  df: number;
+  /**
+   * The residual standard error, an estimate of the standard deviation of the noise.
+   */
+  residualStandardError: number;
+  /**
+   * The fitted value for each observation.
+   */
+  fitted: number[];
+  /**
+   * Predicts y for a new observation, given predictor values in column order or by name.
+   * Throws a `RangeError` when the number of values or the predictor names do not match the model.
+   */
+  predict: (features: number[] | Record<string, number>) => number;
+  /**
+   * The observations that were dropped or imputed before fitting. Only provided when the `missing` policy is `drop`
+   * or `impute`; `fitted` then has one entry per observation that was fitted, in input order.
+   */
+  missing?: MissingValueReport;
+}
+
+/**
+ * Discriminant union type for the result of multiple regression.
+ */
+export type MultipleRegressionResult = MultipleRegressionSuccess | RegressionError;
+
+/**
+ * A regression method that `compareModels` can fit as a candidate.
+ */
+export type ComparableMethod =
+  | "linear"
+  | "exponential"
+  | "logarithmic"
+  | "power"
+  | "polynomial"
+  | "theilSen"
+  | "huber";
+
+/**
+ * The measure by which `compareModels` ranks the candidates:
+ * - `aic`: Akaike's information criterion, lowest first. Balances fit against the number of coefficients.
+ * - `bic`: The Bayesian information criterion, lowest first. Penalises extra coefficients more heavily than AIC.
+ * - `adjustedRSquared`: R-squared adjusted for the number of coefficients, highest first.
+ * - `cvRmse`: The k-fold cross-validated root mean squared error, lowest first. Measures how well each model predicts
+ * points it was not fitted to.
+ */
+export type ModelSelectionCriterion = "aic" | "bic" | "adjustedRSquared" | "cvRmse";
+
+/**
+ * Options interface for model comparison. The regression options are passed on to every candidate.
+ */
+export interface ModelComparisonOptions extends RegressionOptions {
+  /**
+   * The candidate methods, in order of preference when they tie.
+   */
+  methods: ComparableMethod[];
+  /**
+   * The measure by which the candidates are ranked.
+   */
+  criterion: ModelSelectionCriterion;
+  /**
+   * The number of folds for cross-validation, capped at the number of data points (leave-one-out).
+   */
+  folds: number;
+}
+
+/**
+ * One row of the comparison table produced by `compareModels`.
+ */
+export interface ModelComparison {
+  method: ComparableMethod;
+  /**
+   * The number of fitted coefficients, e.g. 2 for `linear` and `order + 1` for `polynomial`.
+   */
+  parameters: number;
+  /**
+   * R-squared on the original scale of y, so that it is comparable across methods.
+   */
+  rSquared: number;
+  /**
+   * R-squared penalised for the number of coefficients, `1 - (1 - R²)·(n - 1) / (n - k)`.
+   */
+  adjustedRSquared: number;
+  /**
+   * Akaike's information criterion, `n·ln(SSE / n) + 2·(k + 1)`, counting the residual variance as a parameter.
+   */
+  aic: number;
+  /**
+   * The Bayesian information criterion, `n·ln(SSE / n) + (k + 1)·ln(n)`.
+   */
+  bic: number;
+  /**
+   * The root mean squared error of predicting each fold from a fit to the others, or NaN if a fold could not be fitted.
+   */
+  cvRmse: number;
+  /**
+   * The AIC difference from the lowest AIC among the candidates. Differences above 2 favour the lower model;
+   * above 10 the higher model has essentially no support.
+   */
+  deltaAic: number;
+  /**
+   * The Akaike weight, the relative likelihood that this is the best of the candidates. Weights sum to 1.
+   */
+  aicWeight: number;
+  /**
+   * The fitted model, at the requested precision.
+   */
+  fit: RegressionSuccess;
+}
+
+/**
+ * A candidate that `compareModels` could not fit, such as `exponential` for data with negative y-values.
+ */
+export interface ExcludedModel {
+  method: ComparableMethod;
+  errorType: RegressionError["errorType"];
+  message: string;
+}
+
+/**
+ * Interface for the successful output of `compareModels`.
+ */
+export interface ModelComparisonSuccess {
+  ok: true;
+  /**
+   * The points that were dropped or imputed before the comparison. Only provided when the `missing` policy is `drop`
+   * or `impute`.
+   */
+  missing?: MissingValueReport;
+  /**
+   * The measure by which the candidates were ranked.
+   */
+  criterion: ModelSelectionCriterion;
+  /**
+   * The best candidate by `criterion`, the first row of `models`.
+   */
+  best: ModelComparison;
+  /**
+   * The comparison table, best first.
+   */
+  models: ModelComparison[];
+  /**
+   * The candidates that could not be fitted, with the reason.
+   */
+  excluded: ExcludedModel[];
+}
+
+/**
+ * Discriminant union type for the result of model comparison.
+ */
+export type ModelComparisonResult = ModelComparisonSuccess | RegressionError;
+
+/**
+ * Options interface for regression diagnostics.
+ */
+export interface DiagnosticsOptions {
+  /**
+   * The precision for rounding numerical results. p-values are not rounded.
+   */
+  precision: number;
+}
+
+/**
+ * The outcome of a test on the residuals of a fit.
+ */
+export interface DiagnosticTest {
+  /**
+   * The test statistic.
+   */
+  statistic: number;
+  /**
+   * The degrees of freedom of the statistic's chi-squared reference distribution.
+   */
+  df: number;
+  /**
+   * The probability of a statistic at least this large if the assumption being tested holds.
+   */
+  pValue: number;
+}
+
+/**
+ * Interface for the successful output of `regressionDiagnostics`. Per-point arrays are in input order.
+ */
+export interface RegressionDiagnosticsSuccess {
+  ok: true;
+  /**
+   * The observed minus the fitted y-values.
+   */
+  residuals: number[];
+  /**
+   * The residuals divided by their estimated standard deviation, `eᵢ / (s·√(1 - hᵢ))` (internally studentized).
+   */
+  standardizedResiduals: number[];
+  /**
+   * The residuals divided by the residual standard deviation of the fit without that point (externally studentized),
+   * which follow a t distribution with `n - p - 1` degrees of freedom.
+   */
+  studentizedResiduals: number[];
+  /**
+   * The leverage (hat value) of each point, how strongly its x-value lets it pull the fit towards itself.
+   * Leverages sum to the number of coefficients p; values above `2p / n` are conventionally high.
+   */
+  leverage: number[];
+  /**
+   * Cook's distance of each point, how far the fitted values would move if the point were removed.
+   */
+  cooksDistance: number[];
+  /**
+   * The root mean squared error, `√(Σeᵢ² / n)`, in the units of y.
+   */
+  rmse: number;
+  /**
+   * The mean absolute error, `Σ|eᵢ| / n`, in the units of y.
+   */
+  mae: number;
+  /**
+   * The mean absolute percentage error, `100·Σ|eᵢ / yᵢ| / n`, or NaN if any y-value is zero.
+   */
+  mape: number;
+  /**
+   * The Durbin–Watson statistic for lag-one autocorrelation of the residuals in input order, between 0 and 4.
+   * Values near 2 indicate independent residuals; values towards 0 indicate positive autocorrelation.
+   */
+  durbinWatson: number;
+  /**
+   * Koenker's studentized Breusch–Pagan test, which is significant when the spread of the residuals changes with x
+   * (heteroscedasticity).
+   */
+  breuschPagan: DiagnosticTest;
+  /**
+   * The Jarque–Bera test, which is significant when the skewness or kurtosis of the residuals departs from a normal
+   * distribution. Needs around 30 or more points to be reliable.
+   */
+  normality: DiagnosticTest;
+}
+
+/**
+ * Discriminant union type for the result of regression diagnostics.
+ */
+export type RegressionDiagnosticsResult = RegressionDiagnosticsSuccess | RegressionError;
+
+/**
+ * Options for comparing the slopes of several series. `missing` and `imputation` control how points with a missing or
+ * non-finite value are treated in each series; by default they are rejected with an `InvalidInput` error.
+ */
+export interface SlopeComparisonOptions extends MissingValueOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The confidence level for the interval of the slope difference, between 0 and 1.
+   */
+  confidenceLevel: number;
+}
+
+/**
+ * The straight line fitted to one series in a slope comparison.
+ */
+export interface SlopeEstimate {
+  /**
+   * The gradient of the series' line.
+   */
+  m: number;
+  /**
+   * The intercept of the series' line.
+   */
+  b: number;
+  /**
+   * The standard error of `m`, from the residual variance pooled across all series.
+   */
+  seM: number;
+  /**
+   * The two-sided p-value for the null hypothesis that the series has no trend (`m = 0`), from the pooled residual
+   * variance. Not rounded.
+   */
+  pValueM: number;
+  /**
+   * The number of points in the series.
+   */
+  n: number;
+}
+
+/**
+ * The t-test of the difference between two slopes.
+ */
+export interface SlopeDifference {
+  /**
+   * The first slope minus the second.
+   */
+  estimate: number;
+  standardError: number;
+  /**
+   * The t statistic, `estimate / standardError`. Its square equals the F statistic of the comparison.
+   */
+  statistic: number;
+  df: number;
+  /**
+   * The two-sided p-value. Not rounded, so small values remain distinguishable.
+   */
+  pValue: number;
+  /**
+   * The `[lower, upper]` confidence interval for `estimate` at `confidenceLevel`.
+   */
+  ci: [number, number];
+}
+
+/**
+ * Interface for the successful output of `compareSlopes`.
+ */
+export interface SlopeComparisonSuccess {
+  ok: true;
+  /**
+   * The line fitted to each series, in input order.
+   */
+  slopes: SlopeEstimate[];
+  /**
+   * The slope shared by all series under the null hypothesis of parallel lines.
+   */
+  commonSlope: number;
+  /**
+   * The F statistic of the ANCOVA test that the series share a slope (the group-by-x interaction).
+   */
+  statistic: number;
+  /**
+   * The degrees of freedom `[series - 1, points - 2 × series]`.
+   */
+  df: [number, number];
+  /**
+   * The p-value for the null hypothesis that all slopes are equal. Not rounded.
+   */
+  pValue: number;
+  /**
+   * The t-test of the first slope minus the second. Only provided when comparing two series.
+   */
+  difference?: SlopeDifference;
+  /**
+   * The points that were dropped or imputed in each series before fitting, in series order. Only provided when the
+   * `missing` policy is `drop` or `impute`.
+   */
+  missing?: MissingValueReport[];
+}
+
+/**
+ * Discriminant union type for the result of a slope comparison.
+ */
+export type SlopeComparisonResult = SlopeComparisonSuccess | RegressionError;
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { leastSquares, twoSidedTPValue } from "./util";
+import type { DataPoint } from "./types";
+
+describe("leastSquares", () => {
+  it("should fit a line through the points without rounding", () => {
+    const fit = leastSquares([[1, 2], [2, 4.5], [3, 5.5], [4, 8]]);
+
+    expect(fit!.gradient).toBeCloseTo(1.9, 12);
+    expect(fit!.intercept).toBeCloseTo(0.25, 12);
+  });
+
+  it("should keep its precision for large x-values such as epoch-millisecond timestamps", () => {
+    // One point a second from 2023-11-14, rising by 0.002 a second with a small alternating wobble.
+    const start = 1.7e12;
+    const data: DataPoint[] = Array.from({ length: 20 }, (_, i) => [start + i * 1000, 3 + 0.002 * i + (i % 2 ? 0.01 : -0.01)]);
+    const fit = leastSquares(data);
+
+    expect(fit!.gradient * 1000).toBeCloseTo(0.00215038, 8);
+    // The fitted value at the first timestamp.
+    expect(fit!.gradient * start + fit!.intercept).toBeCloseTo(2.99857, 4);
+  });
+
+  it("should return null when every x-value is the same", () => {
+    expect(leastSquares([[1e9 + 0.1, 1], [1e9 + 0.1, 2], [1e9 + 0.1, 3]])).toBeNull();
+  });
+});
+
+describe("twoSidedTPValue", () => {
+  it("should match the closed form of the t(1) distribution", () => {
+    // With one degree of freedom t is Cauchy, so P(|T| ≥ t) = 2·atan(1 / t) / π.
+    expect(twoSidedTPValue(1, 1)).toBeCloseTo(0.5, 12);
+    expect(twoSidedTPValue(1, -3)).toBeCloseTo((2 * Math.atan(1 / 3)) / Math.PI, 12);
+  });
+
+  it("should not cancel to zero for a large t", () => {
+    const p = twoSidedTPValue(1, 1e10);
+
+    expect(p).toBeGreaterThan(0);
+    expect(p / ((2 * Math.atan(1e-10)) / Math.PI)).toBeCloseTo(1, 8);
+  });
+
+  it("should return NaN without degrees of freedom", () => {
+    expect(twoSidedTPValue(0, 2)).toBeNaN();
+    expect(twoSidedTPValue(3, NaN)).toBeNaN();
+  });
+});
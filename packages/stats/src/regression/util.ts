@@ -1,4 +1,23 @@
-import type { DataPoint, PredictedPoint } from "./types";
+import type { DataPoint, PredictedPoint, RegressionOptions, RegressionResult } from "./types";
+import { DEGENERATE_TOLERANCE } from "./const";
+import { DEFAULT_MISSING_VALUE_OPTIONS } from "../missing/const";
+import { applyMissingPolicy } from "../missing/util";
+import { regularizedIncompleteBeta } from "../distribution";
+
+/**
+ * The two-sided p-value of a t statistic, `P(|T| ≥ |t|)`. Computed as the tail of the incomplete beta function
+ * rather than `2·(1 - cdf)`, which cancels to exactly 0 for large t.
+ *
+ * @param {number} df - The degrees of freedom.
+ * @param {number} t - The t statistic.
+ * @returns {number} - The p-value, or NaN if `df` is not positive or `t` is NaN.
+ */
+export function twoSidedTPValue(df: number, t: number): number {
+  if (!(df > 0) || isNaN(t)) {
+    return NaN;
+  }
+  return regularizedIncompleteBeta(df / 2, 0.5, df / (df + t * t));
+}
 
 /**
  * Round a number to a specified precision (number of decimal places).
@@ -22,34 +41,23 @@ export function round(number: number, precision: number): number {
  *
  * @param {DataPoint[]} data - Pairs of observed x-y values.
  * @param {PredictedPoint[]} results - Pairs of observed predicted x-y values.
- * @returns {number} - The r^2 value, or NaN if one cannot be calculated (e.g., no valid observations, or no variance in observed y).
+ * @returns {number} - The r^2 value, or NaN if one cannot be calculated (e.g., no observations, or no variance in observed y).
+ * Every value must be finite; the regression methods apply their `missing` policy before fitting.
  */
 export function rSquared(data: DataPoint[], results: PredictedPoint[]): number {
-  const observations: [number, number][] = [];
-  const predictions: PredictedPoint[] = [];
-
-  data.forEach((d, i) => {
-    if (d[1] !== null) {
-      observations.push([d[0], d[1] as number]);
-      predictions.push(results[i]);
-    }
-  });
-
-  if (observations.length === 0) {
-    return NaN; // Cannot calculate r^2 with no valid observations
+  if (data.length === 0) {
+    return NaN; // Cannot calculate r^2 with no observations
   }
 
-  const sumY = observations.reduce((a, observation) => a + observation[1], 0);
-  const meanY = sumY / observations.length;
+  const meanY = data.reduce((a, observation) => a + observation[1], 0) / data.length;
 
-  const ssyy = observations.reduce((a, observation) => {
+  const ssyy = data.reduce((a, observation) => {
     const difference = observation[1] - meanY;
     return a + (difference * difference);
   }, 0);
 
-  const sse = observations.reduce((accum, observation, index) => {
-    const prediction = predictions[index];
-    const residual = observation[1] - prediction[1];
+  const sse = data.reduce((accum, observation, index) => {
+    const residual = observation[1] - results[index][1];
     return accum + (residual * residual);
   }, 0);
 
@@ -65,4 +73,159 @@ export function rSquared(data: DataPoint[], results: PredictedPoint[]): number {
 
 export function isValid(value: number): boolean {
   return value !== null && !isNaN(value) && isFinite(value);
-}
\ No newline at end of file
+}
+
+/**
+ * Find the first data point with a non-finite x or y value.
+ *
+ * @param {DataPoint[]} data - Pairs of x-y values.
+ * @returns {number} - The index of the first invalid point, or -1 if every point is valid.
+ */
+export function findInvalidPoint(data: DataPoint[]): number {
+  return data.findIndex((point) => !isValid(point[0]) || !isValid(point[1]));
+}
+
+/**
+ * Fit an ordinary least squares line through a set of points without rounding.
+ * Used by the regression methods that linearise their data before fitting.
+ *
+ * @param {DataPoint[]} data - Pairs of x-y values, assumed finite.
+ * @returns {{ gradient: number; intercept: number } | null} - The unrounded gradient and intercept,
+ * or `null` if the x values have no spread (to within rounding of their mean) and no line can be fitted.
+ */
+export function leastSquares(data: DataPoint[]): { gradient: number; intercept: number } | null {
+  const len = data.length;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (let n = 0; n < len; n++) {
+    sumX += data[n][0];
+    sumY += data[n][1];
+  }
+
+  // Sums of squares are centred on the means, as in `linear`, so large x-values such as millisecond timestamps
+  // do not lose precision to cancellation.
+  const meanX = sumX / len;
+  const meanY = sumY / len;
+  let sxx = 0;
+  let sxy = 0;
+  for (let n = 0; n < len; n++) {
+    const dx = data[n][0] - meanX;
+    sxx += dx * dx;
+    sxy += dx * (data[n][1] - meanY);
+  }
+
+  if (sxx <= len * (DEGENERATE_TOLERANCE * meanX) ** 2) {
+    return null;
+  }
+
+  const gradient = sxy / sxx;
+  return { gradient, intercept: meanY - gradient * meanX };
+}
+
+/**
+ * Fit a weighted least squares line through a set of points without rounding.
+ * Sums are centred on the weighted means to limit cancellation error.
+ *
+ * @param {DataPoint[]} data - Pairs of x-y values, assumed finite.
+ * @param {number[]} weights - A non-negative weight for each point.
+ * @returns {{ gradient: number; intercept: number } | null} - The unrounded gradient and intercept,
+ * or `null` if the weighted x values have no spread and no line can be fitted.
+ */
+export function weightedLeastSquares(
+  data: DataPoint[],
+  weights: number[]
+): { gradient: number; intercept: number } | null {
+  let sumW = 0;
+  let sumWX = 0;
+  let sumWY = 0;
+
+  for (let n = 0; n < data.length; n++) {
+    sumW += weights[n];
+    sumWX += weights[n] * data[n][0];
+    sumWY += weights[n] * data[n][1];
+  }
+
+  if (sumW === 0) {
+    return null;
+  }
+
+  const meanX = sumWX / sumW;
+  const meanY = sumWY / sumW;
+  let sxx = 0;
+  let sxy = 0;
+
+  for (let n = 0; n < data.length; n++) {
+    const dx = data[n][0] - meanX;
+    sxx += weights[n] * dx * dx;
+    sxy += weights[n] * dx * (data[n][1] - meanY);
+  }
+
+  if (sxx === 0) {
+    return null;
+  }
+
+  const gradient = sxy / sxx;
+  return { gradient, intercept: meanY - gradient * meanX };
+}
+
+/**
+ * Find the median of a list of numbers.
+ *
+ * @param {number[]} values - The values. Not modified.
+ * @returns {number} - The median, or NaN if `values` is empty.
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    return NaN;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Estimate the standard deviation of residuals robustly from their median absolute deviation (MAD).
+ * The MAD is scaled by 1.4826 so the estimate is consistent for normally distributed residuals.
+ *
+ * @param {number[]} residuals - The residuals of a fit.
+ * @returns {number} - The robust scale estimate.
+ */
+export function robustScale(residuals: number[]): number {
+  const centre = median(residuals);
+  return 1.4826 * median(residuals.map((r) => Math.abs(r - centre)));
+}
+
+/**
+ * The magnitude below which a residual is treated as zero, relative to the scale of the y-values.
+ * Guards robust methods against floating point noise when most points lie exactly on the fitted line.
+ *
+ * @param {DataPoint[]} data - Pairs of x-y values.
+ * @returns {number} - The residual tolerance.
+ */
+export function residualTolerance(data: DataPoint[]): number {
+  return 1e-9 * Math.max(1, ...data.map((point) => Math.abs(point[1])));
+}
+
+/**
+ * Wrap a regression method so that it applies the `missing` policy before fitting, and reports the points it dropped
+ * or imputed as `missing` on a successful result. Under the default `reject` policy the method is called unchanged
+ * and validates the data itself.
+ *
+ * @param {Function} fit - The regression method, taking options and data points.
+ * @returns {Function} - The method with the policy applied. It keeps the two-argument arity that `curry` relies on.
+ */
+export function withMissingValuePolicy<T extends number[]>(
+  fit: (suppliedOptions: Partial<RegressionOptions>, data: T[]) => RegressionResult
+): (suppliedOptions: Partial<RegressionOptions>, data: T[]) => RegressionResult {
+  return (suppliedOptions, data) => {
+    const options = { ...DEFAULT_MISSING_VALUE_OPTIONS, ...suppliedOptions };
+    if (options.missing === "reject") {
+      return fit(suppliedOptions, data);
+    }
+
+    const prepared = applyMissingPolicy(options, data);
+    const result = fit(suppliedOptions, prepared.data);
+    return result.ok ? { ...result, missing: prepared.report } : result;
+  };
+}
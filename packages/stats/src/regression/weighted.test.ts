@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { weighted } from "./weighted";
+import { linear } from "./linear";
+import type { DataPoint, WeightedDataPoint } from "./types";
+
+describe("weighted", () => {
+  it("should match ordinary least squares when all weights are equal", () => {
+    const data: DataPoint[] = [
+      [1, 1],
+      [2, 2.5],
+      [3, 2.8],
+      [4, 4.2],
+      [5, 5.1],
+    ];
+    const result = weighted({}, data.map(([x, y]): WeightedDataPoint => [x, y, 3]));
+    const ols = linear({}, data);
+
+    if (!result.ok || !ols.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.method).toBe("weighted");
+    expect(result.m).toBeCloseTo(ols.m);
+    expect(result.b).toBeCloseTo(ols.b);
+    expect(result.rSquared).toBeCloseTo(ols.rSquared!);
+    expect(result.diagnostics).toEqual({ downWeighted: 0, weights: [1, 1, 1, 1, 1] });
+  });
+
+  it("should reduce the influence of a down-weighted outlier", () => {
+    const data: WeightedDataPoint[] = [
+      [1, 2, 1],
+      [2, 4, 1],
+      [3, 6, 1],
+      [4, 20, 0.001],
+    ];
+    const result = weighted({}, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.m).toBeCloseTo(2, 1);
+    expect(result.diagnostics?.downWeighted).toBe(1);
+    expect(result.diagnostics?.weights).toEqual([1, 1, 1, 0.001]);
+  });
+
+  it("should ignore points with zero weight", () => {
+    const data: WeightedDataPoint[] = [
+      [1, 3, 2],
+      [2, 5, 2],
+      [3, 100, 0],
+      [4, 9, 2],
+    ];
+    const result = weighted({}, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    expect(result.m).toBeCloseTo(2);
+    expect(result.b).toBeCloseTo(1);
+    expect(result.predict(5)[1]).toBeCloseTo(11);
+  });
+
+  it("should match the closed-form weighted least squares solution", () => {
+    const data: WeightedDataPoint[] = [
+      [0, 1, 1],
+      [1, 3, 2],
+      [2, 4, 1],
+    ];
+    const result = weighted({ precision: 4 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful regression result");
+    }
+
+    // Weighted means x̄ = 1, ȳ = 2.75; Sxy = 3, Sxx = 2
+    expect(result.m).toBeCloseTo(1.5);
+    expect(result.b).toBeCloseTo(1.25);
+  });
+
+  it("should return an error for negative or non-finite weights", () => {
+    const negative = weighted({}, [
+      [1, 1, 1],
+      [2, 2, -1],
+    ]);
+    const infinite = weighted({}, [
+      [1, 1, Infinity],
+      [2, 2, 1],
+    ]);
+
+    if (negative.ok || infinite.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(negative.errorType).toBe("InvalidInput");
+    expect(negative.message).toContain("index 1 has an invalid weight (-1)");
+    expect(infinite.errorType).toBe("InvalidInput");
+  });
+
+  it("should drop points with a missing weight under the drop policy", () => {
+    const data: WeightedDataPoint[] = [
+      [1, 2, 1],
+      [2, 4, NaN],
+      [3, 6, 1],
+      [4, 8, 1],
+    ];
+    const result = weighted({ missing: "drop" }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.m).toBe(2);
+    expect(result.missing?.droppedIndices).toEqual([1]);
+  });
+
+  it("should return an error when fewer than two points have positive weight", () => {
+    const result = weighted({}, [
+      [1, 1, 1],
+      [2, 2, 0],
+      [3, 3, 0],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InsufficientData");
+  });
+
+  it("should return an error when all weighted x-values are identical", () => {
+    const result = weighted({}, [
+      [1, 1, 1],
+      [1, 2, 1],
+      [2, 3, 0],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("DegenerateInput");
+  });
+
+  it("should return an error on bad numerical values", () => {
+    const result = weighted({}, [
+      [1, NaN, 1],
+      [2, 2, 1],
+    ]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("index 0 contains non-finite values");
+  });
+});
@@ -0,0 +1,135 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_OPTIONS } from "./const";
+import type {
+  DataPoint,
+  PredictedPoint,
+  RegressionOptions,
+  RegressionResult,
+  WeightedDataPoint,
+} from "./types";
+import { rSquared, round, isValid, findInvalidPoint, weightedLeastSquares, withMissingValuePolicy } from "./util";
+
+/**
+ * Performs weighted least squares (WLS) linear regression, fitting `y = m·x + b` while giving each point
+ * an influence proportional to its weight. Useful when some observations are known to be less reliable,
+ * such as readings from a noisier sensor or averages built from fewer samples.
+ *
+ * @param {Partial<RegressionOptions>} [suppliedOptions] - Optional regression options to override defaults, such as `precision`.
+ * @param {WeightedDataPoint[]} data - An array of weighted data points, where each point is a tuple `[x, y, weight]`.
+ * Weights must be finite and non-negative; a weight of zero excludes the point from the fit.
+ * Expects at least two points with positive weight.
+ * @returns {RegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), `diagnostics.weights` holds each weight relative to the largest weight and
+ * `diagnostics.downWeighted` counts the points whose relative weight is below 1.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * // Down-weighting an unreliable reading
+ * const data = [[1, 2, 1], [2, 4, 1], [3, 6, 1], [4, 20, 0.01]];
+ * const result = weighted({}, data);
+ * // result.m is close to 2; result.diagnostics.downWeighted is 1
+ *
+ * @description
+ * **Insights derived from Weighted Regression:**
+ * - **Reliability-Aware Trends:** Trends reflect trustworthy observations rather than being pulled by noisy ones.
+ * - **Heteroscedastic Data:** With weights of `1 / variance`, WLS gives the best linear unbiased estimate when noise varies across x.
+ */
+export const weighted = curry(withMissingValuePolicy((
+  suppliedOptions: Partial<RegressionOptions>,
+  data: WeightedDataPoint[]
+): RegressionResult => {
+  const options: RegressionOptions = {
+    ...DEFAULT_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const points: DataPoint[] = data.map(([x, y]) => [x, y]);
+  const weights = data.map((point) => point[2]);
+
+  const invalidIndex = findInvalidPoint(points);
+  if (invalidIndex !== -1) {
+    const [x, y] = points[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). Weighted regression requires finite numerical inputs.`,
+    };
+  }
+
+  const invalidWeightIndex = weights.findIndex((w) => !isValid(w) || w < 0);
+  if (invalidWeightIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidWeightIndex} has an invalid weight (${weights[invalidWeightIndex]}). Weights must be finite and non-negative.`,
+    };
+  }
+
+  const weightedCount = weights.filter((w) => w > 0).length;
+  if (weightedCount < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `Weighted regression requires at least 2 data points with a positive weight. Received ${weightedCount}.`,
+    };
+  }
+
+  const fit = weightedLeastSquares(points, weights);
+
+  if (fit === null) {
+    return {
+      ok: false,
+      errorType: "DegenerateInput",
+      message:
+        "Cannot perform weighted regression: all weighted x-values are identical, resulting in a vertical line.",
+    };
+  }
+
+  const gradient = round(fit.gradient, options.precision);
+  const intercept = round(fit.intercept, options.precision);
+
+  if (!Number.isFinite(gradient) || !Number.isFinite(intercept)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Weighted regression resulted in non-finite coefficients (NaN or Infinity). This can occur with extremely large values or weights.",
+    };
+  }
+
+  const predict = (x: number): PredictedPoint => [
+    round(x, options.precision),
+    round(gradient * x + intercept, options.precision),
+  ];
+
+  const fitted = points.map((point) => predict(point[0]));
+
+  const r2 = rSquared(points, fitted);
+
+  if (isNaN(r2)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "R-squared calculation failed or resulted in NaN. This can occur if the dependent variable (y) has no variance or due to other mathematical issues.",
+    };
+  }
+
+  const maxWeight = Math.max(...weights);
+  const relativeWeights = weights.map((w) => w / maxWeight);
+
+  return {
+    ok: true,
+    points: fitted,
+    predict,
+    m: gradient,
+    b: intercept,
+    coefficients: [gradient, intercept],
+    rSquared: round(r2, options.precision),
+    method: "weighted",
+    diagnostics: {
+      downWeighted: relativeWeights.filter((w) => w < 1).length,
+      weights: relativeWeights,
+    },
+  };
+}));
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { bootstrap } from "./bootstrap";
+import { median } from "../descriptive";
+import { linear } from "../regression";
+import { createRandom } from "../random";
+
+const random = createRandom(11);
+const skewed = Array.from({ length: 40 }, () => Math.exp(random.normal()));
+const line: [number, number][] = Array.from({ length: 30 }, (_, i) => [i, 2 * i + 5 + 3 * random.normal()]);
+
+describe("bootstrap", () => {
+  it("should give a confidence interval for the median", () => {
+    const result = bootstrap(median({ precision: 10 }), { seed: 1, resamples: 1000 }, skewed);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    const [lower, upper] = result.intervals[0];
+    expect(result.method).toBe("bca");
+    expect(result.resamples).toBe(1000);
+    expect(result.failures).toBe(0);
+    expect(lower).toBeLessThan(result.estimates[0]);
+    expect(upper).toBeGreaterThan(result.estimates[0]);
+    expect(result.standardErrors[0]).toBeGreaterThan(0);
+  });
+
+  it("should work directly with linear regression", () => {
+    const result = bootstrap(linear({ precision: 10 }), { seed: 2, resamples: 500, precision: 3 }, line);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.estimates).toHaveLength(2);
+    expect(result.intervals).toHaveLength(2);
+    const [[gradientLower, gradientUpper]] = result.intervals;
+    expect(gradientLower).toBeLessThan(2);
+    expect(gradientUpper).toBeGreaterThan(2);
+  });
+
+  it("should be reproducible from a seed", () => {
+    const run = bootstrap(median({ precision: 10 }), { seed: 3, resamples: 200 });
+
+    expect(run(skewed)).toEqual(run(skewed));
+    expect(run(skewed)).not.toEqual(bootstrap(median({ precision: 10 }), { seed: 4, resamples: 200 }, skewed));
+  });
+
+  it("should agree with the percentile method when the statistic is unbiased and symmetric", () => {
+    const symmetric = Array.from({ length: 50 }, (_, i) => i);
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const percentile = bootstrap(mean, { seed: 5, method: "percentile" }, symmetric);
+    const bca = bootstrap(mean, { seed: 5, method: "bca" }, symmetric);
+
+    if (!percentile.ok || !bca.ok) {
+      throw new Error("Expected successful results");
+    }
+    expect(percentile.method).toBe("percentile");
+    expect(Math.abs(percentile.intervals[0][0] - bca.intervals[0][0])).toBeLessThan(0.5);
+    expect(Math.abs(percentile.intervals[0][1] - bca.intervals[0][1])).toBeLessThan(0.5);
+  });
+
+  it("should count resamples on which the statistic fails", () => {
+    const tiny: [number, number][] = [[1, 1], [2, 3], [3, 2]];
+    const result = bootstrap(linear({ precision: 10 }), { seed: 6, resamples: 200, method: "percentile" }, tiny);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.failures).toBeGreaterThan(0);
+    expect(result.resamples + result.failures).toBe(200);
+  });
+
+  it("should return errors for too little data, invalid options and failed statistics", () => {
+    const tooFew = bootstrap(median({}), {}, [1]);
+    const badLevel = bootstrap(median({}), { confidenceLevel: 1 }, skewed);
+    const badCount = bootstrap(median({}), { resamples: 0 }, skewed);
+    const failed = bootstrap(linear({}), {}, [[1, 1], [1, 2]]);
+
+    if (tooFew.ok || badLevel.ok || badCount.ok || failed.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(tooFew.errorType).toBe("InsufficientData");
+    expect(badLevel.errorType).toBe("InvalidInput");
+    expect(badCount.errorType).toBe("InvalidInput");
+    expect(failed.errorType).toBe("StatisticFailed");
+  });
+});
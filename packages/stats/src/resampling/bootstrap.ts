@@ -0,0 +1,190 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_BOOTSTRAP_OPTIONS } from "./const";
+import type { Bootstrap, BootstrapOptions, BootstrapResult, Statistic } from "./types";
+import { estimatesOf, failureReason, validateCount } from "./util";
+import { round } from "../regression/util";
+import { arithmeticMean, quantileOfSorted, varianceOf } from "../descriptive/util";
+import { normalCdf, normalQuantile } from "../distribution";
+import { createRandom } from "../random";
+
+const STANDARD_NORMAL = { mean: 0, standardDeviation: 1 };
+
+/**
+ * Compute the BCa acceleration from the jackknife (leave-one-out) estimates, `Σd³ / (6·(Σd²)^(3/2))` for the
+ * deviations d of each estimate from their mean.
+ */
+const acceleration = (jackknife: number[]): number => {
+  if (jackknife.length < 2) {
+    return 0;
+  }
+  const mean = arithmeticMean(jackknife);
+  let squares = 0;
+  let cubes = 0;
+  for (const value of jackknife) {
+    const d = mean - value;
+    squares += d * d;
+    cubes += d * d * d;
+  }
+  return squares === 0 ? 0 : cubes / (6 * squares ** 1.5);
+};
+
+/**
+ * Find the percentiles of the replicates that bound a BCa interval.
+ */
+const bcaLevels = (
+  replicates: number[],
+  estimate: number,
+  jackknife: number[],
+  confidenceLevel: number
+): [number, number] => {
+  // Ties count half, so replicates that all equal the estimate give no bias correction. The proportion is kept
+  // half a replicate away from 0 and 1 so that the correction stays finite.
+  const b = replicates.length;
+  let below = 0;
+  for (const value of replicates) {
+    below += value < estimate ? 1 : value === estimate ? 0.5 : 0;
+  }
+  const z0 = normalQuantile(STANDARD_NORMAL, Math.min(b - 0.5, Math.max(0.5, below)) / b);
+  const a = acceleration(jackknife);
+  const adjust = (p: number): number => {
+    const z = z0 + normalQuantile(STANDARD_NORMAL, p);
+    return normalCdf(STANDARD_NORMAL, z0 + z / (1 - a * z));
+  };
+  const tail = (1 - confidenceLevel) / 2;
+  return [adjust(tail), adjust(1 - tail)];
+};
+
+const runBootstrap = <T>(
+  statistic: Statistic<T>,
+  suppliedOptions: Partial<BootstrapOptions>,
+  data: T[]
+): BootstrapResult => {
+  const options: BootstrapOptions = { ...DEFAULT_BOOTSTRAP_OPTIONS, ...suppliedOptions };
+
+  if (!(options.confidenceLevel > 0 && options.confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${options.confidenceLevel}.`,
+    };
+  }
+  const countError = validateCount(options.resamples, "resamples");
+  if (countError) {
+    return countError;
+  }
+  if (data.length < 2) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `The bootstrap requires at least 2 observations. Received ${data.length}.`,
+    };
+  }
+
+  const full = statistic(data);
+  const estimates = estimatesOf(full);
+  if (!estimates) {
+    return {
+      ok: false,
+      errorType: "StatisticFailed",
+      message: `The statistic could not be computed on the full data: ${failureReason(full)}`,
+    };
+  }
+
+  const random = options.random ?? createRandom(options.seed);
+  const n = data.length;
+  const k = estimates.length;
+  const replicates: number[][] = estimates.map(() => []);
+  let failures = 0;
+
+  for (let r = 0; r < options.resamples; r++) {
+    const sample = Array.from({ length: n }, () => data[random.integer(n)]);
+    const values = estimatesOf(statistic(sample));
+    if (!values || values.length !== k) {
+      failures++;
+      continue;
+    }
+    values.forEach((value, j) => replicates[j].push(value));
+  }
+
+  const successes = replicates[0].length;
+  if (successes < 2) {
+    return {
+      ok: false,
+      errorType: "StatisticFailed",
+      message: `The statistic failed on ${failures} of ${options.resamples} resamples, leaving too few to estimate its distribution.`,
+    };
+  }
+
+  const jackknife: number[][] = estimates.map(() => []);
+  if (options.method === "bca") {
+    for (let i = 0; i < n; i++) {
+      const values = estimatesOf(statistic([...data.slice(0, i), ...data.slice(i + 1)]));
+      if (values && values.length === k) {
+        values.forEach((value, j) => jackknife[j].push(value));
+      }
+    }
+  }
+
+  const tail = (1 - options.confidenceLevel) / 2;
+  const intervals = estimates.map((estimate, j): [number, number] => {
+    const sorted = [...replicates[j]].sort((a, b) => a - b);
+    const [lower, upper] =
+      options.method === "bca"
+        ? bcaLevels(replicates[j], estimate, jackknife[j], options.confidenceLevel)
+        : [tail, 1 - tail];
+    return [
+      round(quantileOfSorted(sorted, lower, "linear"), options.precision),
+      round(quantileOfSorted(sorted, upper, "linear"), options.precision),
+    ];
+  });
+
+  return {
+    ok: true,
+    method: options.method,
+    estimates: estimates.map((estimate) => round(estimate, options.precision)),
+    standardErrors: replicates.map((values) => round(Math.sqrt(varianceOf(values, true)), options.precision)),
+    bias: replicates.map((values, j) => round(arithmeticMean(values) - estimates[j], options.precision)),
+    intervals,
+    resamples: successes,
+    failures,
+  };
+};
+
+/**
+ * Estimates confidence intervals for any statistic by bootstrap resampling: the data is resampled with replacement
+ * many times, the statistic recomputed on each resample, and the spread of those replicates used in place of a
+ * closed-form standard error. Works for statistics with no formula for their uncertainty, such as the median or
+ * a Theil–Sen slope.
+ *
+ * @param {Statistic<T>} statistic - The statistic to bootstrap. It may return a number, an array of numbers, or a
+ * `@facta` result such as those of `linear`, `median` or `pearson`, whose coefficients or value are bootstrapped.
+ * Round as little as possible inside the statistic (e.g. pass a high `precision`), or the replicates will be coarse.
+ * @param {Partial<BootstrapOptions>} [suppliedOptions] - Optional options to override defaults, such as `method`,
+ * `resamples`, `confidenceLevel`, `seed` and `precision`.
+ * @param {T[]} data - The observations, such as numbers or `[x, y]` data points. Expects at least two.
+ * @returns {BootstrapResult} A discriminant union representing the success or failure of the bootstrap.
+ * - If successful (`ok: true`), it returns the `estimates` on the full data with their bootstrap `standardErrors`,
+ * `bias` and confidence `intervals`, in the order the statistic returns them, and counts the resamples on which the
+ * statistic succeeded and failed. Failed resamples are left out, which can narrow the intervals if failures are common.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "StatisticFailed") and a `message`.
+ *
+ * @example
+ * // A confidence interval for the median, which has no simple formula
+ * const result = bootstrap(median({ precision: 10 }), { seed: 42 }, orderValues);
+ * if (result.ok) {
+ * console.log(`Median ${result.estimates[0]}, 95% CI ${result.intervals[0]}`);
+ * }
+ *
+ * @example
+ * // Intervals for the slope and intercept of a fitted line, reproducible from the seed
+ * const result = bootstrap(linear({ precision: 10 }), { seed: 1, resamples: 5000 }, data);
+ * // result.intervals[0] is the interval for m, result.intervals[1] the interval for b
+ *
+ * @description
+ * **Insights derived from the Bootstrap:**
+ * - **Uncertainty Anywhere:** Error bars for medians, percentiles, robust slopes and other statistics without formulas.
+ * - **Assumption-Light:** Does not assume normality, so intervals follow any skew in the data.
+ * - **Caution:** Assumes the observations are independent; resampling individual points of a time series with
+ * strong autocorrelation understates the uncertainty.
+ */
+export const bootstrap = curry(runBootstrap) as Bootstrap;
@@ -0,0 +1,20 @@
+import type { BootstrapOptions, PermutationOptions } from "./types";
+
+/**
+ * Default options for `bootstrap`.
+ */
+export const DEFAULT_BOOTSTRAP_OPTIONS: BootstrapOptions = {
+  precision: 2,
+  confidenceLevel: 0.95,
+  method: "bca",
+  resamples: 2000,
+};
+
+/**
+ * Default options for `permutationTest`.
+ */
+export const DEFAULT_PERMUTATION_OPTIONS: PermutationOptions = {
+  precision: 2,
+  alternative: "twoSided",
+  permutations: 9999,
+};
@@ -0,0 +1,3 @@
+export * from "./bootstrap";
+export * from "./permutation";
+export * from "./types";
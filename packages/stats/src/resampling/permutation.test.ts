@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { permutationTest } from "./permutation";
+
+const meanOf = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const difference = (a: number[], b: number[]) => meanOf(b) - meanOf(a);
+
+const control = [12, 15, 11, 14, 13, 12, 16, 14];
+const treatment = [18, 17, 20, 16, 19, 21, 18, 17];
+
+describe("permutationTest", () => {
+  it("should find a clear difference significant", () => {
+    const result = permutationTest(difference, { seed: 1, permutations: 2000 }, [control, treatment]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    // Means 13.375 and 18.25
+    expect(result.statistic).toBe(4.88);
+    expect(result.permutations).toBe(2000);
+    expect(result.pValue).toBeLessThan(0.005);
+    expect(result.pValue).toBeGreaterThanOrEqual(1 / 2001);
+  });
+
+  it("should respect the alternative", () => {
+    const greater = permutationTest(difference, { seed: 2, alternative: "greater", permutations: 500 }, [control, treatment]);
+    const less = permutationTest(difference, { seed: 2, alternative: "less", permutations: 500 }, [control, treatment]);
+
+    if (!greater.ok || !less.ok) {
+      throw new Error("Expected successful results");
+    }
+    expect(greater.pValue).toBeLessThan(0.01);
+    expect(less.pValue).toBeGreaterThan(0.99);
+  });
+
+  it("should not find a difference between samples from the same population", () => {
+    const result = permutationTest(difference, { seed: 3 }, [[3, 5, 4, 6, 5], [4, 6, 3, 5, 5]]);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.pValue).toBeGreaterThan(0.5);
+  });
+
+  it("should be reproducible from a seed", () => {
+    const samples: [number[], number[]] = [[1, 4, 2, 5], [3, 6, 4, 7]];
+    const run = permutationTest(difference, { seed: 4, permutations: 300 });
+
+    expect(run(samples)).toEqual(run(samples));
+  });
+
+  it("should return errors for empty samples, invalid options and failed statistics", () => {
+    const empty = permutationTest(difference, {}, [[], [1, 2]]);
+    const badCount = permutationTest(difference, { permutations: 1.5 }, [control, treatment]);
+    const failed = permutationTest(() => NaN, {}, [control, treatment]);
+
+    if (empty.ok || badCount.ok || failed.ok) {
+      throw new Error("Expected results to be unsuccessful");
+    }
+    expect(empty.errorType).toBe("InsufficientData");
+    expect(badCount.errorType).toBe("InvalidInput");
+    expect(failed.errorType).toBe("StatisticFailed");
+  });
+});
@@ -0,0 +1,96 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_PERMUTATION_OPTIONS } from "./const";
+import type { PermutationOptions, PermutationResult, PermutationTest, TwoSampleStatistic } from "./types";
+import { validateCount } from "./util";
+import { round } from "../regression/util";
+import { createRandom } from "../random";
+
+/**
+ * The relative tolerance within which a permuted statistic counts as equal to the observed one, so that rounding
+ * differences in the statistic do not change the p-value.
+ */
+const TIE_TOLERANCE = 1e-12;
+
+const runPermutationTest = <T>(
+  statistic: TwoSampleStatistic<T>,
+  suppliedOptions: Partial<PermutationOptions>,
+  samples: [T[], T[]]
+): PermutationResult => {
+  const options: PermutationOptions = { ...DEFAULT_PERMUTATION_OPTIONS, ...suppliedOptions };
+  const [a, b] = samples;
+
+  const countError = validateCount(options.permutations, "permutations");
+  if (countError) {
+    return countError;
+  }
+  if (a.length < 1 || b.length < 1) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `A permutation test requires at least one observation in each sample. Received ${a.length} and ${b.length}.`,
+    };
+  }
+
+  const observed = statistic(a, b);
+  if (!Number.isFinite(observed)) {
+    return {
+      ok: false,
+      errorType: "StatisticFailed",
+      message: `The statistic could not be computed on the observed samples: it returned ${observed}.`,
+    };
+  }
+
+  const random = options.random ?? createRandom(options.seed);
+  const pooled = [...a, ...b];
+  const tolerance = TIE_TOLERANCE * Math.max(1, Math.abs(observed));
+  const isExtreme = (value: number): boolean =>
+    options.alternative === "greater"
+      ? value >= observed - tolerance
+      : options.alternative === "less"
+        ? value <= observed + tolerance
+        : Math.abs(value) >= Math.abs(observed) - tolerance;
+
+  let extreme = 0;
+  for (let i = 0; i < options.permutations; i++) {
+    const shuffled = random.shuffle(pooled);
+    // A statistic that cannot be computed on a relabelling counts as extreme, which keeps the p-value conservative.
+    const value = statistic(shuffled.slice(0, a.length), shuffled.slice(a.length));
+    if (!Number.isFinite(value) || isExtreme(value)) {
+      extreme++;
+    }
+  }
+
+  return {
+    ok: true,
+    statistic: round(observed, options.precision),
+    pValue: (extreme + 1) / (options.permutations + 1),
+    permutations: options.permutations,
+  };
+};
+
+/**
+ * Performs a two-sample permutation test: how often would randomly relabelling the pooled observations produce a
+ * statistic as extreme as the one observed? It makes no assumption about the distribution of the data, so it suits
+ * any statistic, such as a difference in medians or in conversion rates.
+ *
+ * @param {TwoSampleStatistic<T>} statistic - The statistic comparing the samples, such as `(a, b) => mean(a) - mean(b)`.
+ * @param {Partial<PermutationOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `alternative`, `permutations`, `seed` and `precision`.
+ * @param {[T[], T[]]} samples - The two samples, `[a, b]`. Each needs at least one observation.
+ * @returns {PermutationResult} A discriminant union representing the success or failure of the test.
+ * - If successful (`ok: true`), it returns the observed `statistic` and the Monte Carlo `pValue`, which counts the
+ * observed labelling among the permutations so it is never zero.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "StatisticFailed") and a `message`.
+ *
+ * @example
+ * // Is the average order value higher for variant B?
+ * const meanOf = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+ * const result = permutationTest((a, b) => meanOf(b) - meanOf(a), { alternative: "greater", seed: 7 }, [variantA, variantB]);
+ *
+ * @description
+ * **Insights derived from Permutation Tests:**
+ * - **Any Statistic:** Significance for differences in medians, percentiles or ratios, which have no standard test.
+ * - **Exactness:** The p-value is valid for small samples and any distribution, given enough permutations.
+ * - **Caution:** Tests whether the labels matter at all, so a difference in spread alone can make it significant.
+ */
+export const permutationTest = curry(runPermutationTest) as PermutationTest;
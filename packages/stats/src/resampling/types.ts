@@ -0,0 +1,189 @@
+import type { Alternative } from "../hypothesis/types";
+import type { Random } from "../random/types";
+
+/**
+ * The bootstrap confidence interval methods.
+ * - `percentile`: The quantiles of the bootstrap replicates.
+ * - `bca`: Bias-corrected and accelerated (Efron, 1987), which adjusts the percentiles for the bias and skewness
+ * of the replicates. More accurate, at the cost of one extra evaluation of the statistic per observation.
+ */
+export type BootstrapMethod = "percentile" | "bca";
+
+/**
+ * The values a statistic may return to be resampled: a number, an array of numbers, or the result of a `@facta`
+ * function. Successful results contribute their `value` (descriptive statistics), `coefficient` (correlations) or
+ * `coefficients` (regressions); unsuccessful results mark the resample as failed.
+ */
+export type StatisticValue =
+  | number
+  | number[]
+  | { ok: false }
+  | { ok: true; value: number }
+  | { ok: true; coefficient: number }
+  | { ok: true; coefficients: (number | { estimate: number })[] };
+
+/**
+ * A statistic computed from a sample of observations.
+ */
+export type Statistic<T> = (sample: T[]) => StatisticValue;
+
+/**
+ * A statistic comparing two samples, such as the difference in their means.
+ */
+export type TwoSampleStatistic<T> = (a: T[], b: T[]) => number;
+
+/**
+ * Options shared by the resampling methods.
+ */
+interface ResamplingOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The seed of the random number generator; the same seed always gives the same result.
+   * When omitted, a seed is chosen at random.
+   */
+  seed?: number;
+  /**
+   * A generator to draw from instead of seeding a new one. Takes precedence over `seed`.
+   */
+  random?: Random;
+}
+
+/**
+ * Options for `bootstrap`.
+ */
+export interface BootstrapOptions extends ResamplingOptions {
+  /**
+   * The confidence level for the intervals, between 0 and 1.
+   */
+  confidenceLevel: number;
+  /**
+   * The confidence interval method.
+   */
+  method: BootstrapMethod;
+  /**
+   * The number of bootstrap resamples to draw.
+   */
+  resamples: number;
+}
+
+/**
+ * Options for `permutationTest`.
+ */
+export interface PermutationOptions extends ResamplingOptions {
+  /**
+   * The alternative hypothesis: whether the statistic is expected to be larger (`greater`), smaller (`less`) or
+   * either (`twoSided`) than under random labelling.
+   */
+  alternative: Alternative;
+  /**
+   * The number of random relabellings to draw.
+   */
+  permutations: number;
+}
+
+/**
+ * The successful output of `bootstrap`. Each array has one entry per estimate returned by the statistic, in order.
+ */
+export interface BootstrapSuccess {
+  ok: true;
+  method: BootstrapMethod;
+  /**
+   * The statistic computed on the full data.
+   */
+  estimates: number[];
+  /**
+   * The bootstrap standard error of each estimate, the standard deviation of its replicates.
+   */
+  standardErrors: number[];
+  /**
+   * The bootstrap estimate of bias, the mean of the replicates minus the estimate.
+   */
+  bias: number[];
+  /**
+   * The `[lower, upper]` confidence interval for each estimate at `confidenceLevel`.
+   */
+  intervals: [number, number][];
+  /**
+   * The number of resamples on which the statistic succeeded and contributed to the results.
+   */
+  resamples: number;
+  /**
+   * The number of resamples on which the statistic failed, such as those with too little variation to fit a line.
+   */
+  failures: number;
+}
+
+/**
+ * The successful output of `permutationTest`.
+ */
+export interface PermutationSuccess {
+  ok: true;
+  /**
+   * The statistic computed on the observed labelling.
+   */
+  statistic: number;
+  /**
+   * The Monte Carlo p-value, `(r + 1) / (permutations + 1)` where r relabellings gave a statistic at least as extreme.
+   * Never zero, and not rounded.
+   */
+  pValue: number;
+  /**
+   * The number of relabellings drawn.
+   */
+  permutations: number;
+}
+
+/**
+ * Interface for an unsuccessful resampling method, with the same shape as `RegressionError`.
+ */
+export interface ResamplingError {
+  ok: false;
+  /**
+   * The type of error that occurred.
+   * - `InsufficientData`: Too few observations to resample.
+   * - `InvalidInput`: An option is out of range.
+   * - `StatisticFailed`: The statistic failed or returned non-finite values on the full data, or on every resample.
+   */
+  errorType: "InsufficientData" | "InvalidInput" | "StatisticFailed";
+  /**
+   * A message describing the error.
+   */
+  message: string;
+}
+
+/**
+ * Discriminant union type for the result of `bootstrap`.
+ */
+export type BootstrapResult = BootstrapSuccess | ResamplingError;
+
+/**
+ * Discriminant union type for the result of `permutationTest`.
+ */
+export type PermutationResult = PermutationSuccess | ResamplingError;
+
+/**
+ * The curried signature of `bootstrap`, which keeps the statistic's observation type through partial application.
+ */
+export interface Bootstrap {
+  <T>(statistic: Statistic<T>, suppliedOptions: Partial<BootstrapOptions>, data: T[]): BootstrapResult;
+  <T>(statistic: Statistic<T>, suppliedOptions: Partial<BootstrapOptions>): (data: T[]) => BootstrapResult;
+  <T>(statistic: Statistic<T>): {
+    (suppliedOptions: Partial<BootstrapOptions>, data: T[]): BootstrapResult;
+    (suppliedOptions: Partial<BootstrapOptions>): (data: T[]) => BootstrapResult;
+  };
+}
+
+/**
+ * The curried signature of `permutationTest`, which keeps the statistic's observation type through partial application.
+ */
+export interface PermutationTest {
+  <T>(statistic: TwoSampleStatistic<T>, suppliedOptions: Partial<PermutationOptions>, samples: [T[], T[]]): PermutationResult;
+  <T>(statistic: TwoSampleStatistic<T>, suppliedOptions: Partial<PermutationOptions>): (samples: [T[], T[]]) => PermutationResult;
+  <T>(statistic: TwoSampleStatistic<T>): {
+    (suppliedOptions: Partial<PermutationOptions>, samples: [T[], T[]]): PermutationResult;
+    (suppliedOptions: Partial<PermutationOptions>): (samples: [T[], T[]]) => PermutationResult;
+  };
+}
@@ -0,0 +1,58 @@
+import type { ResamplingError, StatisticValue } from "./types";
+
+/**
+ * Extract the estimates from the value returned by a statistic.
+ *
+ * @param {StatisticValue} value - The value returned by the statistic.
+ * @returns {number[] | null} - The estimates, or null if the statistic failed or returned non-finite values.
+ */
+export function estimatesOf(value: StatisticValue): number[] | null {
+  let estimates: number[];
+  if (typeof value === "number") {
+    estimates = [value];
+  } else if (Array.isArray(value)) {
+    estimates = value;
+  } else if (!value.ok) {
+    return null;
+  } else if ("coefficients" in value) {
+    estimates = value.coefficients.map((coefficient) =>
+      typeof coefficient === "number" ? coefficient : coefficient.estimate
+    );
+  } else if ("coefficient" in value) {
+    estimates = [value.coefficient];
+  } else {
+    estimates = [value.value];
+  }
+  return estimates.length > 0 && estimates.every(Number.isFinite) ? estimates : null;
+}
+
+/**
+ * Describe why a statistic failed, using its own message when it provides one.
+ *
+ * @param {StatisticValue} value - The value returned by the statistic.
+ * @returns {string} - The reason, suitable for appending to an error message.
+ */
+export function failureReason(value: StatisticValue): string {
+  if (typeof value === "object" && !Array.isArray(value) && !value.ok && "message" in value) {
+    return String(value.message);
+  }
+  return "it returned no finite estimates.";
+}
+
+/**
+ * Check that a count option, such as the number of resamples, is a positive integer.
+ *
+ * @param {number} count - The count.
+ * @param {string} name - The name of the option, used in the error message.
+ * @returns {ResamplingError | null} - The error to return, or null if the count is valid.
+ */
+export function validateCount(count: number, name: string): ResamplingError | null {
+  if (!Number.isInteger(count) || count < 1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The number of ${name} must be a positive integer. Received ${count}.`,
+    };
+  }
+  return null;
+}
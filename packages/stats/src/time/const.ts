@@ -0,0 +1,24 @@
+import { DEFAULT_OPTIONS } from "../regression/const";
+import type { TimeRegressionOptions, TimeUnit } from "./types";
+
+/**
+ * The length of each time unit in milliseconds.
+ */
+export const UNIT_MILLISECONDS: Record<TimeUnit, number> = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: (365.2425 / 12) * 24 * 60 * 60 * 1000,
+  year: 365.2425 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Default options for time-aware regression.
+ */
+export const DEFAULT_TIME_REGRESSION_OPTIONS: TimeRegressionOptions = {
+  ...DEFAULT_OPTIONS,
+  unit: "day",
+};
@@ -0,0 +1,3 @@
+export * from "./linearOverTime";
+export * from "./timestamp";
+export * from "./types";
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { linearOverTime } from "./linearOverTime";
+import { linear } from "../regression/linear";
+import type { TimeDataPoint } from "./types";
+
+const DAY = 86_400_000;
+
+const signUps: TimeDataPoint[] = [
+  ["2024-03-04", 120],
+  ["2024-03-11", 131],
+  ["2024-03-18", 145],
+  ["2024-03-25", 155],
+];
+
+describe("linearOverTime", () => {
+  it("should report the gradient per chosen unit of time", () => {
+    const result = linearOverTime({ unit: "week" }, signUps);
+
+    if (!result.ok) {
+      throw new Error("Expected result to be successful");
+    }
+    expect(result.m).toBe(11.9);
+    expect(result.b).toBe(119.9);
+    expect(result.unit).toBe("week");
+    expect(result.origin).toBe(Date.UTC(2024, 2, 4));
+    expect(result).toMatchObject({ rSquared: 1 });
+    expect(linear({}, [[0, 120], [1, 131], [2, 145], [3, 155]])).toMatchObject({ rSquared: result.rSquared });
+  });
+
+  it("should default to a rate per day", () => {
+    const result = linearOverTime({ precision: 4 }, signUps);
+
+    if (!result.ok) {
+      throw new Error("Expected result to be successful");
+    }
+    expect(result.unit).toBe("day");
+    expect(result.m).toBe(1.7);
+  });
+
+  it("should accept dates, ISO strings and epoch milliseconds alike", () => {
+    const mixed: TimeDataPoint[] = [
+      [new Date("2024-03-04"), 120],
+      ["2024-03-11T00:00:00Z", 131],
+      [Date.UTC(2024, 2, 18), 145],
+      ["2024-03-25", 155],
+    ];
+
+    expect(linearOverTime({ unit: "week" }, mixed)).toMatchObject({ ok: true, m: 11.9, b: 119.9 });
+  });
+
+  it("should give points and predictions in epoch milliseconds", () => {
+    const result = linearOverTime({ unit: "week" }, signUps);
+
+    if (!result.ok) {
+      throw new Error("Expected result to be successful");
+    }
+    expect(result.points[0]).toEqual([Date.UTC(2024, 2, 4), 119.9]);
+    expect(result.predict("2024-04-01")).toEqual([Date.UTC(2024, 3, 1), 167.5]);
+    expect(result.predict(new Date("2024-04-01"))).toEqual(result.predict(Date.UTC(2024, 3, 1)));
+  });
+
+  it("should sample bands across the observed time range", () => {
+    const result = linearOverTime({ unit: "week" }, signUps);
+
+    if (!result.ok) {
+      throw new Error("Expected result to be successful");
+    }
+    const { confidence, prediction } = result.sampleBands(4);
+    expect(confidence.map(([x]) => x)).toEqual([0, 7, 14, 21].map((days) => Date.UTC(2024, 2, 4) + days * DAY));
+    confidence.forEach(([, lower, upper], i) => {
+      expect(lower).toBeLessThan(upper);
+      expect(prediction[i][1]).toBeLessThanOrEqual(lower);
+      expect(prediction[i][2]).toBeGreaterThanOrEqual(upper);
+    });
+    expect(result.confidenceBand("2024-03-11")).toEqual(confidence[1]);
+  });
+
+  it("should keep full precision for hourly data far from the epoch", () => {
+    const start = Date.UTC(2030, 0, 1);
+    const data: TimeDataPoint[] = Array.from({ length: 24 }, (_, hour) => [start + hour * 3_600_000, 50 + 0.25 * hour]);
+    const result = linearOverTime({ unit: "hour", precision: 10 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected result to be successful");
+    }
+    expect(result.m).toBe(0.25);
+    expect(result.b).toBe(50);
+    expect(result.rSquared).toBe(1);
+  });
+
+  it("should reject a time that cannot be parsed", () => {
+    const result = linearOverTime({}, [...signUps, ["next Tuesday", 160]]);
+
+    if (result.ok) {
+      throw new Error("Expected result to be unsuccessful");
+    }
+    expect(result.errorType).toBe("InvalidInput");
+    expect(result.message).toContain("index 4");
+  });
+
+  it("should drop unparseable times and missing values under the drop policy", () => {
+    const gappy: TimeDataPoint[] = [...signUps.slice(0, 2), ["next Tuesday", 140], ["2024-03-15", NaN], ...signUps.slice(2)];
+    const result = linearOverTime({ unit: "week", missing: "drop" }, gappy);
+
+    if (!result.ok) {
+      throw new Error("Expected result to be successful");
+    }
+    expect(result.m).toBe(11.9);
+    expect(result.points).toHaveLength(4);
+    expect(result.missing?.droppedIndices).toEqual([2, 3]);
+  });
+
+  it("should reject an unknown unit", () => {
+    const result = linearOverTime({ unit: "fortnight" as "week" }, signUps);
+
+    expect(result).toMatchObject({ ok: false, errorType: "InvalidInput" });
+  });
+
+  it("should fail when every point is at the same time", () => {
+    const result = linearOverTime({}, [["2024-03-04", 1], ["2024-03-04T00:00:00Z", 2]]);
+
+    expect(result).toMatchObject({ ok: false, errorType: "DegenerateInput" });
+  });
+});
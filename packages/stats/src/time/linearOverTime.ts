@@ -0,0 +1,125 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_TIME_REGRESSION_OPTIONS, UNIT_MILLISECONDS } from "./const";
+import type { TimeDataPoint, TimeRegressionOptions, TimeRegressionResult, TimeValue } from "./types";
+import { toTimestamp } from "./timestamp";
+import { DEFAULT_BAND_SAMPLES } from "../regression/const";
+import type { BandPoint, DataPoint, PredictedPoint, RegressionBands } from "../regression/types";
+import { round } from "../regression/util";
+import { linear } from "../regression/linear";
+import { applyMissingPolicy } from "../missing/util";
+
+/**
+ * Performs simple linear regression against time, for data whose x-values are dates: `Date` objects, ISO 8601
+ * strings or epoch-millisecond timestamps. Times are shifted to start at the earliest time and scaled to the chosen
+ * `unit` before fitting, so the gradient is reported as a rate per day, week or month, and the huge x-values of
+ * millisecond timestamps do not cost precision.
+ *
+ * @param {Partial<TimeRegressionOptions>} [suppliedOptions] - Optional options to override defaults, such as `unit`
+ * (defaults to `day`), `precision`, `confidenceLevel` and the `missing` policy.
+ * @param {TimeDataPoint[]} data - An array of data points, where each `TimeDataPoint` is a tuple `[time, y]`.
+ * Expects at least two valid data points at different times.
+ * @returns {TimeRegressionResult} A discriminant union representing the success or failure of the regression.
+ * - If successful (`ok: true`), it returns the same statistics as `linear`, with `m` (and `seM`, `ciM`) per `unit`
+ * of time and `b` (and `seB`, `ciB`) the fitted value at `origin`, the earliest time. x-values in `points`,
+ * predictions and bands are epoch milliseconds, and `predict`, `confidenceBand` and `predictionBand` accept any time value.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput", "DegenerateInput") and a `message`.
+ *
+ * @example
+ * const signUps = [["2024-03-04", 120], ["2024-03-11", 131], ["2024-03-18", 145], ["2024-03-25", 155]];
+ * const result = linearOverTime({ unit: "week" }, signUps);
+ * if (result.ok) {
+ * console.log(result.m); // 11.9 sign-ups per week
+ * console.log(result.predict("2024-04-01")); // [1711929600000, 167.5]
+ * }
+ *
+ * @description
+ * **Insights derived from Regression over Time:**
+ * - **Rate of Change:** Expresses the trend in the units people reason about, such as "12 more sign-ups per week".
+ * - **Forecasting:** `predict` and `predictionBand` project the trend to a future date.
+ * - **Caution:** A rate per month uses the average month length, so calendar months of 28 to 31 days differ slightly.
+ */
+export const linearOverTime = curry((
+  suppliedOptions: Partial<TimeRegressionOptions>,
+  data: TimeDataPoint[]
+): TimeRegressionResult => {
+  const options: TimeRegressionOptions = { ...DEFAULT_TIME_REGRESSION_OPTIONS, ...suppliedOptions };
+  const unitMs = UNIT_MILLISECONDS[options.unit];
+
+  if (unitMs === undefined) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The time unit must be one of ${Object.keys(UNIT_MILLISECONDS).join(", ")}. Received ${options.unit}.`,
+    };
+  }
+
+  const timestamps = data.map(([time]) => toTimestamp(time));
+
+  if (options.missing === "reject") {
+    const invalidIndex = timestamps.findIndex((timestamp) => !Number.isFinite(timestamp));
+    if (invalidIndex !== -1) {
+      return {
+        ok: false,
+        errorType: "InvalidInput",
+        message: `Data point at index ${invalidIndex} has an invalid time (${String(data[invalidIndex][0])}). Times must be Date objects, ISO 8601 strings or epoch milliseconds.`,
+      };
+    }
+  }
+
+  const valid = timestamps.filter((timestamp) => Number.isFinite(timestamp));
+  const origin = valid.length > 0 ? Math.min(...valid) : 0;
+  const toUnits = (time: TimeValue): number => (toTimestamp(time) - origin) / unitMs;
+
+  // The policy is applied here rather than by `linear`, so that the scaled times of the fitted points are known exactly.
+  const prepared = applyMissingPolicy(
+    options,
+    data.map(([, y], i): DataPoint => [(timestamps[i] - origin) / unitMs, y])
+  );
+  const result = linear({ ...options, missing: "reject" }, prepared.data);
+
+  if (!result.ok) {
+    return result;
+  }
+
+  const toMilliseconds = (units: number): number => round(origin + units * unitMs, options.precision);
+
+  const predict = (time: TimeValue): PredictedPoint => {
+    const units = toUnits(time);
+    return [toMilliseconds(units), result.predict(units)[1]];
+  };
+
+  const timeBand = (band: ((x: number) => BandPoint) | undefined) => (time: TimeValue): BandPoint => {
+    const units = toUnits(time);
+    const [, lower, upper] = band ? band(units) : [units, NaN, NaN];
+    return [toMilliseconds(units), lower, upper];
+  };
+  const confidenceBand = timeBand(result.confidenceBand);
+  const predictionBand = timeBand(result.predictionBand);
+
+  const fittedUnits = prepared.data.map(([units]) => units);
+  const [first, last] = [Math.min(...fittedUnits), Math.max(...fittedUnits)];
+
+  const sampleBands = (samples: number = DEFAULT_BAND_SAMPLES): RegressionBands => {
+    if (!Number.isInteger(samples) || samples < 2) {
+      throw new RangeError(`Regression bands require an integer number of samples of at least 2. Received ${samples}.`);
+    }
+    const step = (last - first) / (samples - 1);
+    const times = Array.from({ length: samples }, (_, i) => origin + (i === samples - 1 ? last : first + i * step) * unitMs);
+    return {
+      confidence: times.map(confidenceBand),
+      prediction: times.map(predictionBand),
+    };
+  };
+
+  return {
+    ...result,
+    points: fittedUnits.map((units) => predict(origin + units * unitMs)),
+    predict,
+    confidenceBand,
+    predictionBand,
+    sampleBands,
+    unit: options.unit,
+    origin,
+    ...(options.missing === "reject" ? {} : { missing: prepared.report }),
+  };
+});
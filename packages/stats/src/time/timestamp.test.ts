@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { toTimestamp } from "./timestamp";
+
+describe("toTimestamp", () => {
+  it("should convert dates, ISO strings and epoch milliseconds to the same timestamp", () => {
+    const expected = 1709251200000;
+
+    expect(toTimestamp(new Date(Date.UTC(2024, 2, 1)))).toBe(expected);
+    expect(toTimestamp("2024-03-01")).toBe(expected);
+    expect(toTimestamp("2024-03-01T00:00:00Z")).toBe(expected);
+    expect(toTimestamp(expected)).toBe(expected);
+  });
+
+  it("should give NaN for a time that cannot be parsed", () => {
+    expect(toTimestamp("not a date")).toBeNaN();
+    expect(toTimestamp(new Date("invalid"))).toBeNaN();
+  });
+});
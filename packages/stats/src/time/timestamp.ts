@@ -0,0 +1,23 @@
+import type { TimeValue } from "./types";
+
+/**
+ * Converts a `Date`, ISO 8601 string or epoch-millisecond number to milliseconds since the Unix epoch.
+ * Strings are parsed by `Date.parse`, so a date-only string such as `"2024-03-01"` is midnight UTC, while a date-time
+ * without an offset is in local time; include a `Z` or offset for unambiguous times.
+ *
+ * @param {TimeValue} value - The time to convert.
+ * @returns {number} The epoch milliseconds, or NaN if the value is not a valid time.
+ *
+ * @example
+ * toTimestamp("2024-03-01"); // 1709251200000
+ * toTimestamp(new Date(Date.UTC(2024, 2, 1))); // 1709251200000
+ */
+export const toTimestamp = (value: TimeValue): number => {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === "string") {
+    return Date.parse(value);
+  }
+  return typeof value === "number" ? value : NaN;
+};
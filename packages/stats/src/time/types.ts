@@ -0,0 +1,53 @@
+import type { BandPoint, PredictedPoint, RegressionBands, RegressionError, RegressionOptions, RegressionSuccess } from "../regression/types";
+
+/**
+ * A point in time: a `Date`, an ISO 8601 string such as `"2024-03-01"` or `"2024-03-01T09:30:00Z"`, or a number of
+ * milliseconds since the Unix epoch.
+ */
+export type TimeValue = Date | string | number;
+
+/**
+ * Represents a single data point in a time series, a tuple of a time and a y-value.
+ */
+export type TimeDataPoint = [TimeValue, number];
+
+/**
+ * The unit of time in which a rate of change is reported. Months and years have their average Gregorian lengths,
+ * 30.436875 and 365.2425 days.
+ */
+export type TimeUnit = "millisecond" | "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/**
+ * Options interface for time-aware regression.
+ */
+export interface TimeRegressionOptions extends RegressionOptions {
+  /**
+   * The unit of time in which the gradient is reported, e.g. `week` for a change per week.
+   */
+  unit: TimeUnit;
+}
+
+/**
+ * Interface for the successful output of `linearOverTime`. The gradient `m` is the change in y per `unit` of time and
+ * the intercept `b` is the fitted value at `origin`. x-values in `points`, predictions and bands are epoch milliseconds,
+ * ready for a time axis, and the prediction and band functions also accept a `Date` or ISO string.
+ */
+export interface TimeRegressionSuccess extends RegressionSuccess {
+  /**
+   * The unit of time of the gradient.
+   */
+  unit: TimeUnit;
+  /**
+   * The time at which the intercept `b` is measured, the earliest time in the data, in epoch milliseconds.
+   */
+  origin: number;
+  predict: (x: TimeValue) => PredictedPoint;
+  confidenceBand: (x: TimeValue) => BandPoint;
+  predictionBand: (x: TimeValue) => BandPoint;
+  sampleBands: (samples?: number) => RegressionBands;
+}
+
+/**
+ * Discriminant union type for the result of time-aware regression.
+ */
+export type TimeRegressionResult = TimeRegressionSuccess | RegressionError;
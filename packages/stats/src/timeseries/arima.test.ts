@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { arima, autoArima } from "./arima";
+import type { DataPoint } from "../regression/types";
+
+// A small deterministic generator of standard normal noise (mulberry32 with Box–Muller).
+const normalNoise = (seed: number, count: number): number[] => {
+  let state = seed;
+  const uniform = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: count }, () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform()));
+};
+
+const noise = normalNoise(7, 300);
+
+// y_t − 50 = 0.6·(y_(t−1) − 50) + e_t
+const ar1: DataPoint[] = [];
+// y_t = 20 + e_t + 0.5·e_(t−1)
+const ma1: DataPoint[] = [];
+// y_t = y_(t−1) + 0.3 + e_t
+const drift: DataPoint[] = [];
+let level = 0;
+let walk = 100;
+noise.forEach((e, t) => {
+  level = 0.6 * level + e;
+  walk += 0.3 + e;
+  ar1.push([t, 50 + level]);
+  ma1.push([t, 20 + e + 0.5 * (t > 0 ? noise[t - 1] : 0)]);
+  drift.push([t, walk]);
+});
+
+describe("arima", () => {
+  it("should estimate the coefficient and mean of an AR(1) series", () => {
+    const result = arima({ order: [1, 0, 0], precision: 4 }, ar1);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.method).toBe("arima");
+    expect(result.order).toEqual([1, 0, 0]);
+    // Conditional least squares for an AR(1) is the regression of y_t on y_(t−1).
+    const xs = ar1.slice(0, -1).map(([, y]) => y);
+    const ys = ar1.slice(1).map(([, y]) => y);
+    const meanX = xs.reduce((a, b) => a + b) / xs.length;
+    const meanY = ys.reduce((a, b) => a + b) / ys.length;
+    const slope =
+      xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    expect(result.ar[0]).toBeCloseTo(slope, 3);
+    expect(result.ar[0]).toBeCloseTo(0.6, 0);
+    expect(result.ma).toEqual([]);
+    expect(result.mean).toBeCloseTo(50, 0);
+    expect(result.sigma2).toBeCloseTo(1, 0);
+    expect(result.fitted).toHaveLength(299);
+    expect(result.fitted[0][0]).toBe(1);
+  });
+
+  it("should estimate the coefficient of an MA(1) series", () => {
+    const result = arima({ order: [0, 0, 1], precision: 4 }, ma1);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.ma[0]).toBeCloseTo(0.5, 1);
+    expect(result.mean).toBeCloseTo(20, 0);
+  });
+
+  it("should forecast a random walk with drift with widening intervals", () => {
+    const result = arima({ order: [0, 1, 0], includeMean: true, horizon: 4, precision: 6 }, drift);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    const last = drift[drift.length - 1][1];
+    const mean = result.mean as number;
+    expect(mean).toBeCloseTo(0.3, 0);
+    result.forecast.forEach(([x, y], h) => {
+      expect(x).toBe(300 + h);
+      expect(y).toBeCloseTo(last + (h + 1) * mean, 4);
+    });
+    // The forecast error variance of a random walk grows linearly, so the interval width grows with √h.
+    const width = (h: number) => result.upper[h][1] - result.lower[h][1];
+    expect(width(3) / width(0)).toBeCloseTo(2, 4);
+    expect(width(0) / 2).toBeCloseTo(1.959964 * Math.sqrt(result.sigma2), 3);
+  });
+
+  it("should keep forecasts of a stationary series within bounds that level off", () => {
+    const result = arima({ order: [1, 0, 0], horizon: 30 }, ar1);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.forecast[29][1]).toBeCloseTo(result.mean as number, 0);
+    const width = (h: number) => result.upper[h][1] - result.lower[h][1];
+    expect(width(29)).toBeLessThan(2 * width(0));
+  });
+
+  it("should prefer the true order by AIC", () => {
+    const fits = [[1, 0, 0], [0, 0, 1], [0, 0, 0]].map((order) => arima({ order: order as [number, number, number] }, ar1));
+
+    if (!fits.every((fit) => fit.ok)) throw new Error("Expected successful results");
+    const aics = fits.map((fit) => (fit.ok ? fit.aic : NaN));
+    expect(aics[0]).toBeLessThan(aics[1]);
+    expect(aics[0]).toBeLessThan(aics[2]);
+  });
+
+  it("should return errors for invalid orders and too little data", () => {
+    expect(arima({ order: [-1, 0, 0] }, ar1)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(arima({ order: [3, 1, 3] }, ar1.slice(0, 8))).toMatchObject({ ok: false, errorType: "InsufficientData" });
+    expect(arima({ horizon: 0 }, ar1)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+  });
+});
+
+describe("autoArima", () => {
+  it("should difference a random walk once", () => {
+    const result = autoArima({ maxOrder: [2, 2, 2] }, drift);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.order[1]).toBe(1);
+  });
+
+  it("should leave a stationary autoregression undifferenced", () => {
+    const result = autoArima({ maxOrder: [2, 2, 2] }, ar1);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.order[1]).toBe(0);
+    expect(result.order[0] + result.order[2]).toBeGreaterThan(0);
+  });
+});
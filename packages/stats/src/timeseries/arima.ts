@@ -0,0 +1,360 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_ARIMA_OPTIONS } from "./const";
+import type { DataPoint, PredictedPoint } from "../regression/types";
+import type { ArimaOptions, ArimaResult, ArimaSuccess } from "./types";
+import { autocorrelations, partialAutocorrelations, seriesStep, validateHorizon, validateSeries } from "./util";
+import { augmentedDickeyFuller } from "./stationarity";
+import { round } from "../regression/util";
+import { nelderMead } from "../optimize";
+import { normalQuantile } from "../distribution";
+
+/**
+ * The largest partial autocorrelation used for starting values, keeping them away from the non-stationary boundary.
+ */
+const MAX_START_PARTIAL = 0.9;
+
+/**
+ * The iteration limit for estimating ARIMA coefficients, which can need many more steps than the optimizer's default
+ * when there are several coefficients.
+ */
+const MAX_ITERATIONS = 5000;
+
+const difference = (values: number[]): number[] => values.slice(1).map((value, i) => value - values[i]);
+
+/**
+ * Map partial autocorrelations in (-1, 1) to the coefficients of a stationary autoregression (Jones, 1980), so that
+ * searching over partial autocorrelations only ever visits stationary AR and invertible MA polynomials.
+ */
+const coefficientsFromPartials = (partials: number[]): number[] =>
+  partials.reduce<number[]>(
+    (coefficients, partial, k) => [...coefficients.map((c, j) => c - partial * coefficients[k - 1 - j]), partial],
+    []
+  );
+
+/**
+ * The one-step-ahead errors of an ARMA model for a (differenced) series, conditioning on the values before `start`
+ * and treating earlier errors as zero.
+ */
+const armaErrors = (w: number[], ar: number[], ma: number[], mean: number, start: number): number[] => {
+  const errors = w.map(() => 0);
+  for (let t = start; t < w.length; t++) {
+    let prediction = mean;
+    ar.forEach((phi, i) => {
+      prediction += phi * (w[t - 1 - i] - mean);
+    });
+    ma.forEach((theta, j) => {
+      if (t - 1 - j >= 0) {
+        prediction += theta * errors[t - 1 - j];
+      }
+    });
+    errors[t] = w[t] - prediction;
+  }
+  return errors;
+};
+
+/**
+ * The ψ-weights of the model's infinite moving-average form, including the differencing, from which the variance of
+ * an h-step forecast error is `σ² Σ_(j<h) ψ_j²`.
+ */
+const psiWeights = (ar: number[], ma: number[], d: number, count: number): number[] => {
+  // Multiply φ(B) = 1 − φ₁B − … by (1 − B)^d.
+  let polynomial = [1, ...ar.map((phi) => -phi)];
+  for (let i = 0; i < d; i++) {
+    polynomial = [...polynomial, 0].map((c, j) => c - (j > 0 ? polynomial[j - 1] : 0));
+  }
+  const phiStar = polynomial.slice(1).map((c) => -c);
+  const psi = [1];
+  for (let j = 1; j < count; j++) {
+    let value = j <= ma.length ? ma[j - 1] : 0;
+    for (let i = 1; i <= Math.min(j, phiStar.length); i++) {
+      value += phiStar[i - 1] * psi[j - i];
+    }
+    psi.push(value);
+  }
+  return psi;
+};
+
+/**
+ * Fit an ARIMA model by conditional sum of squares, conditioning on the first `conditioning` differenced values.
+ */
+const fitArima = (
+  data: DataPoint[],
+  options: ArimaOptions,
+  [p, d, q]: [number, number, number],
+  conditioning: number
+): ArimaResult => {
+  const ys = data.map((point) => point[1]);
+  const levels = [ys];
+  for (let i = 0; i < d; i++) {
+    levels.push(difference(levels[i]));
+  }
+  const w = levels[d];
+  const includeMean = options.includeMean ?? d === 0;
+  const parameterCount = p + q + (includeMean ? 1 : 0) + 1;
+  const effective = w.length - conditioning;
+
+  if (effective < parameterCount + 1) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `ARIMA(${p}, ${d}, ${q}) requires at least ${conditioning + d + parameterCount + 1} data points. Received ${ys.length}.`,
+    };
+  }
+
+  const sampleMean = w.reduce((sum, value) => sum + value, 0) / w.length;
+  const scale = Math.sqrt(w.reduce((sum, value) => sum + (value - sampleMean) ** 2, 0) / w.length) || 1;
+
+  const unpack = (parameters: number[]) => ({
+    ar: coefficientsFromPartials(parameters.slice(0, p).map(Math.tanh)),
+    // Negating maps the stationary polynomial 1 − Σ cⱼBʲ to the invertible MA polynomial 1 + Σ θⱼBʲ.
+    ma: coefficientsFromPartials(parameters.slice(p, p + q).map(Math.tanh)).map((c) => -c),
+    mean: includeMean ? sampleMean + scale * parameters[p + q] : 0,
+  });
+  const sse = (parameters: number[]): number => {
+    const { ar, ma, mean } = unpack(parameters);
+    return armaErrors(w, ar, ma, mean, conditioning)
+      .slice(conditioning)
+      .reduce((sum, error) => sum + error * error, 0);
+  };
+
+  const startPartials = p > 0 ? partialAutocorrelations(autocorrelations(w, p)) : [];
+  const start = [
+    ...startPartials.map((partial) =>
+      Math.atanh(Math.max(-MAX_START_PARTIAL, Math.min(MAX_START_PARTIAL, Number.isFinite(partial) ? partial : 0)))
+    ),
+    ...Array.from({ length: q }, () => 0),
+    ...(includeMean ? [0] : []),
+  ];
+
+  let parameters = start;
+  if (start.length > 0) {
+    const search = nelderMead(sse, start, { maxIterations: MAX_ITERATIONS });
+    if (!search.converged) {
+      return {
+        ok: false,
+        errorType: "ConvergenceFailure",
+        message: `ARIMA(${p}, ${d}, ${q}) coefficients did not converge within ${MAX_ITERATIONS} iterations. Try a lower order.`,
+      };
+    }
+    parameters = search.point;
+  }
+
+  const { ar, ma, mean } = unpack(parameters);
+  const errors = armaErrors(w, ar, ma, mean, conditioning);
+  const sigma2 = errors.slice(conditioning).reduce((sum, error) => sum + error * error, 0) / effective;
+
+  if (!(sigma2 > 0) || !Number.isFinite(sigma2)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "ARIMA estimation resulted in a zero or non-finite error variance. This can occur when the series is constant or exactly deterministic.",
+    };
+  }
+
+  const logLikelihood = (-effective / 2) * (Math.log(2 * Math.PI * sigma2) + 1);
+
+  // Forecast the differenced series with future errors set to zero, then undo the differencing.
+  const extended = [...w];
+  const extendedErrors = [...errors];
+  for (let h = 0; h < options.horizon; h++) {
+    const t = extended.length;
+    let prediction = mean;
+    ar.forEach((phi, i) => {
+      prediction += phi * (extended[t - 1 - i] - mean);
+    });
+    ma.forEach((theta, j) => {
+      prediction += theta * extendedErrors[t - 1 - j];
+    });
+    extended.push(prediction);
+    extendedErrors.push(0);
+  }
+  let forecasts = extended.slice(w.length);
+  for (let level = d - 1; level >= 0; level--) {
+    let previous = levels[level][levels[level].length - 1];
+    forecasts = forecasts.map((change) => {
+      previous += change;
+      return previous;
+    });
+  }
+
+  const psi = psiWeights(ar, ma, d, options.horizon);
+  const z = normalQuantile({ mean: 0, standardDeviation: 1 }, 1 - (1 - options.confidenceLevel) / 2);
+  const step = seriesStep(data);
+  const lastX = data[data.length - 1][0];
+  const { precision } = options;
+  let cumulative = 0;
+  const halfWidths = forecasts.map((_, h) => {
+    cumulative += psi[h] * psi[h];
+    return z * Math.sqrt(sigma2 * cumulative);
+  });
+  const forecastPoints = (offset: (h: number) => number): PredictedPoint[] =>
+    forecasts.map((value, h) => [round(lastX + (h + 1) * step, precision), round(value + offset(h), precision)]);
+
+  const result: ArimaSuccess = {
+    ok: true,
+    method: "arima",
+    order: [p, d, q],
+    ar: ar.map((phi) => round(phi, precision)),
+    ma: ma.map((theta) => round(theta, precision)),
+    mean: includeMean ? round(mean, precision) : null,
+    sigma2: round(sigma2, precision),
+    logLikelihood: round(logLikelihood, precision),
+    aic: round(-2 * logLikelihood + 2 * parameterCount, precision),
+    // The one-step prediction of y equals y minus the one-step error of the differenced series.
+    fitted: errors
+      .slice(conditioning)
+      .map((error, i): PredictedPoint => {
+        const [x, y] = data[conditioning + d + i];
+        return [round(x, precision), round(y - error, precision)];
+      }),
+    forecast: forecastPoints(() => 0),
+    lower: forecastPoints((h) => -halfWidths[h]),
+    upper: forecastPoints((h) => halfWidths[h]),
+  };
+
+  if (![...result.forecast, ...result.lower, ...result.upper].every(([, y]) => Number.isFinite(y))) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message: "ARIMA forecasting resulted in non-finite values (NaN or Infinity). This can occur with extremely large values.",
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Validate the options and data shared by `arima` and `autoArima`.
+ */
+const validateArima = (data: DataPoint[], options: ArimaOptions, order: number[], name: string) => {
+  if (!order.every((value) => Number.isInteger(value) && value >= 0)) {
+    return {
+      ok: false as const,
+      errorType: "InvalidInput" as const,
+      message: `${name} orders must be non-negative integers. Received [${order.join(", ")}].`,
+    };
+  }
+  if (!(options.confidenceLevel > 0 && options.confidenceLevel < 1)) {
+    return {
+      ok: false as const,
+      errorType: "InvalidInput" as const,
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${options.confidenceLevel}.`,
+    };
+  }
+  return validateHorizon(options.horizon) ?? validateSeries(data, name, 3);
+};
+
+/**
+ * Fits an ARIMA(p, d, q) model to an evenly spaced series and forecasts it. The series is differenced `d` times; the
+ * differences are modelled as `p` autoregressive terms (dependence on past values) plus `q` moving-average terms
+ * (dependence on past forecast errors). Coefficients are estimated by conditional sum of squares, restricted to
+ * stationary and invertible models.
+ *
+ * @param {Partial<ArimaOptions>} [suppliedOptions] - Optional options to override defaults, such as `order`,
+ * `includeMean`, `horizon`, `confidenceLevel` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects enough points to leave more observations than parameters after differencing.
+ * @returns {ArimaResult} A discriminant union representing the success or failure of the fit.
+ * - If successful (`ok: true`), it returns the `ar` and `ma` coefficients, `mean`, `sigma2`, `aic`, the in-sample
+ * `fitted` values, and the `forecast` with `lower` and `upper` prediction interval bounds as `[x, y]` points.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "ConvergenceFailure") and a
+ * `message`.
+ *
+ * @example
+ * const result = arima({ order: [1, 1, 1], horizon: 7 }, dailyRevenue);
+ * if (result.ok) {
+ * chart.line(result.forecast);
+ * chart.area(result.lower, result.upper);
+ * }
+ *
+ * @description
+ * **Insights derived from ARIMA:**
+ * - **Forecasts with Uncertainty:** Prediction intervals widen with the horizon, showing how far ahead forecasts can be trusted.
+ * - **Momentum and Mean Reversion:** A positive AR coefficient means deviations persist; a negative one means they reverse.
+ * - **Caution:** Assumes the dynamics stay the same over time; seasonal series are better handled by `holtWinters`
+ * or by modelling the output of `stl`.
+ */
+export const arima = curry((
+  suppliedOptions: Partial<ArimaOptions>,
+  data: DataPoint[]
+): ArimaResult => {
+  const options: ArimaOptions = {
+    ...DEFAULT_ARIMA_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const error = validateArima(data, options, options.order, "ARIMA");
+  if (error !== null) {
+    return error;
+  }
+
+  return fitArima(data, options, options.order, options.order[0]);
+});
+
+/**
+ * Selects and fits an ARIMA model automatically. The number of differences `d` is the smallest for which the augmented
+ * Dickey–Fuller test rejects a unit root at the 5% level (up to `maxOrder[1]`); then every `p` and `q` up to
+ * `maxOrder[0]` and `maxOrder[2]` is fitted on the same observations, and the model with the lowest AIC is returned.
+ *
+ * @param {Partial<ArimaOptions>} [suppliedOptions] - Optional options to override defaults, such as `maxOrder`,
+ * `horizon`, `confidenceLevel` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * @returns {ArimaResult} The selected model, in the same form as `arima`; its `order` reports the choice.
+ *
+ * @example
+ * const result = autoArima({ horizon: 12 }, monthlyUsers);
+ * if (result.ok) {
+ * console.log(`Selected ARIMA(${result.order.join(", ")})`, result.forecast);
+ * }
+ *
+ * @description
+ * **Insights derived from Automatic ARIMA:**
+ * - **Hands-Off Forecasting:** Produces a reasonable forecast without choosing an order by hand.
+ * - **Series Character:** The selected `d` shows whether the series is stationary (0), trending (1) or accelerating (2).
+ */
+export const autoArima = curry((
+  suppliedOptions: Partial<ArimaOptions>,
+  data: DataPoint[]
+): ArimaResult => {
+  const options: ArimaOptions = {
+    ...DEFAULT_ARIMA_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const [maxP, maxD, maxQ] = options.maxOrder;
+  const error = validateArima(data, options, options.maxOrder, "Automatic ARIMA");
+  if (error !== null) {
+    return error;
+  }
+
+  let d = 0;
+  let differenced = data;
+  while (d < maxD) {
+    const test = augmentedDickeyFuller({}, differenced);
+    if (!test.ok || test.pValue < 0.05) {
+      break;
+    }
+    differenced = differenced.slice(1).map(([x, y], i) => [x, y - differenced[i][1]]);
+    d++;
+  }
+
+  // Condition every candidate on the same observations so that their AICs are comparable.
+  const conditioning = Math.min(maxP, Math.max(0, Math.floor((data.length - d) / 2) - 1));
+  const candidates: ArimaResult[] = [];
+  for (let p = 0; p <= conditioning; p++) {
+    for (let q = 0; q <= maxQ; q++) {
+      candidates.push(fitArima(data, options, [p, d, q], conditioning));
+    }
+  }
+
+  const best = candidates.reduce<ArimaSuccess | null>(
+    (selected, candidate) => (candidate.ok && (selected === null || candidate.aic < selected.aic) ? candidate : selected),
+    null
+  );
+  if (best === null) {
+    return candidates[0];
+  }
+
+  return fitArima(data, options, best.order, best.order[0]);
+});
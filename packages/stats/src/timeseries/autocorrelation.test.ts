@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { acf, pacf, ljungBox } from "./autocorrelation";
+import type { DataPoint } from "../regression/types";
+
+// A small deterministic generator of standard normal noise (mulberry32 with Box–Muller).
+const normalNoise = (seed: number, count: number): number[] => {
+  let state = seed;
+  const uniform = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: count }, () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform()));
+};
+
+const ramp: DataPoint[] = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 5]];
+
+describe("acf", () => {
+  it("should compute the autocorrelation at each lag", () => {
+    const result = acf({}, ramp);
+
+    expect(result).toEqual({
+      ok: true,
+      lags: [1, 2, 3, 4],
+      values: [0.4, -0.1, -0.4, -0.4],
+      bound: 0.88,
+    });
+  });
+
+  it("should respect maxLag and confidenceLevel", () => {
+    const result = acf({ maxLag: 2, confidenceLevel: 0.99 }, ramp);
+
+    expect(result).toMatchObject({ ok: true, lags: [1, 2], bound: 1.15 });
+  });
+
+  it("should return errors for constant series and invalid lags", () => {
+    expect(acf({}, [[1, 2], [2, 2], [3, 2]])).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(acf({ maxLag: 5 }, ramp)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(acf({}, [[1, 1], [3, 2], [4, 3]])).toMatchObject({ ok: false, errorType: "IrregularSeries" });
+  });
+});
+
+describe("pacf", () => {
+  it("should remove the effect of shorter lags", () => {
+    const result = pacf({ maxLag: 2 }, ramp);
+
+    // φ₂₂ = (r₂ − r₁²) / (1 − r₁²) = (−0.1 − 0.16) / 0.84
+    expect(result).toEqual({ ok: true, lags: [1, 2], values: [0.4, -0.31], bound: 0.88 });
+  });
+
+  it("should cut off after the order of an autoregression", () => {
+    // y_t = 0.8·y_(t−1) + e_t
+    const noise = normalNoise(3, 200);
+    const data: DataPoint[] = [];
+    let y = 0;
+    for (let t = 0; t < 200; t++) {
+      y = 0.8 * y + noise[t];
+      data.push([t, y]);
+    }
+    const result = pacf({ maxLag: 5 }, data);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.values[0]).toBeGreaterThan(0.6);
+    result.values.slice(1).forEach((value) => expect(Math.abs(value)).toBeLessThan(result.bound));
+  });
+});
+
+describe("ljungBox", () => {
+  it("should compute the Q statistic and its chi-squared p-value", () => {
+    const result = ljungBox({ lags: 2 }, ramp);
+
+    // Q = 5·7·(0.4²/4 + 0.1²/3); with 2 degrees of freedom p = exp(−Q/2)
+    expect(result).toMatchObject({ ok: true, statistic: 1.52, df: 2, lags: 2 });
+    if (result.ok) {
+      expect(result.pValue).toBeCloseTo(Math.exp(-35 * (0.04 + 0.01 / 3) / 2), 10);
+    }
+  });
+
+  it("should reject white noise for a strongly autocorrelated series", () => {
+    const data: DataPoint[] = Array.from({ length: 40 }, (_, t) => [t, Math.sin(t / 3)]);
+    const result = ljungBox({}, data);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.lags).toBe(8);
+    expect(result.pValue).toBeLessThan(0.001);
+  });
+
+  it("should subtract fitted parameters from the degrees of freedom", () => {
+    expect(ljungBox({ lags: 3, fittedParameters: 1 }, ramp)).toMatchObject({ ok: true, df: 2 });
+    expect(ljungBox({ lags: 2, fittedParameters: 2 }, ramp)).toMatchObject({ ok: false, errorType: "InsufficientData" });
+  });
+});
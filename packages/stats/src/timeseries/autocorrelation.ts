@@ -0,0 +1,228 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_AUTOCORRELATION_OPTIONS, DEFAULT_LJUNG_BOX_OPTIONS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type {
+  AutocorrelationOptions,
+  AutocorrelationResult,
+  LjungBoxOptions,
+  LjungBoxResult,
+  TimeSeriesError,
+} from "./types";
+import { autocorrelations, partialAutocorrelations, validateSeries } from "./util";
+import { round } from "../regression/util";
+import { normalQuantile, regularizedUpperGamma } from "../distribution";
+
+/**
+ * Validate the input shared by `acf` and `pacf` and resolve the largest lag.
+ */
+const resolveMaxLag = (
+  data: DataPoint[],
+  name: string,
+  options: AutocorrelationOptions
+): number | TimeSeriesError => {
+  if (!(options.confidenceLevel > 0 && options.confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${options.confidenceLevel}.`,
+    };
+  }
+
+  const error = validateSeries(data, name, 3);
+  if (error !== null) {
+    return error;
+  }
+
+  const n = data.length;
+  const maxLag = options.maxLag ?? Math.min(Math.floor(10 * Math.log10(n)), n - 1);
+  if (!(Number.isInteger(maxLag) && maxLag >= 1 && maxLag < n)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The maximum lag must be an integer between 1 and ${n - 1}. Received ${options.maxLag}.`,
+    };
+  }
+
+  if (data.every((point) => point[1] === data[0][1])) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `${name} is undefined for a constant series.`,
+    };
+  }
+
+  return maxLag;
+};
+
+/**
+ * Computes the sample autocorrelation function (ACF) of an evenly spaced series: the correlation between the series
+ * and itself shifted by each lag.
+ *
+ * @param {Partial<AutocorrelationOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `maxLag`, `confidenceLevel` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least three points that are not all equal.
+ * @returns {AutocorrelationResult} A discriminant union representing the success or failure of the computation.
+ * - If successful (`ok: true`), it returns the `lags`, the autocorrelation `values` and the significance `bound`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "IrregularSeries", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const result = acf({ maxLag: 14 }, dailyVisits);
+ * // A spike at lag 7 above result.bound indicates a weekly pattern
+ *
+ * @description
+ * **Insights derived from the ACF:**
+ * - **Memory:** Slowly decaying autocorrelations indicate a trend or a non-stationary series that should be differenced.
+ * - **Seasonality:** Peaks at regular lags reveal the length of a cycle.
+ * - **Model Identification:** An ACF that cuts off after lag q suggests an MA(q) model.
+ */
+export const acf = curry((
+  suppliedOptions: Partial<AutocorrelationOptions>,
+  data: DataPoint[]
+): AutocorrelationResult => {
+  const options: AutocorrelationOptions = {
+    ...DEFAULT_AUTOCORRELATION_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const maxLag = resolveMaxLag(data, "The autocorrelation function", options);
+  if (typeof maxLag !== "number") {
+    return maxLag;
+  }
+
+  const values = autocorrelations(data.map((point) => point[1]), maxLag).slice(1);
+  const z = normalQuantile({ mean: 0, standardDeviation: 1 }, 1 - (1 - options.confidenceLevel) / 2);
+
+  return {
+    ok: true,
+    lags: values.map((_, i) => i + 1),
+    values: values.map((value) => round(value, options.precision)),
+    bound: round(z / Math.sqrt(data.length), options.precision),
+  };
+});
+
+/**
+ * Computes the sample partial autocorrelation function (PACF) of an evenly spaced series: the correlation between the
+ * series and itself at each lag after removing the effect of the shorter lags, found by the Durbin–Levinson recursion.
+ *
+ * @param {Partial<AutocorrelationOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `maxLag`, `confidenceLevel` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least three points that are not all equal.
+ * @returns {AutocorrelationResult} A discriminant union representing the success or failure of the computation.
+ * - If successful (`ok: true`), it returns the `lags`, the partial autocorrelation `values` and the significance `bound`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` and a `message`.
+ *
+ * @example
+ * const result = pacf({ maxLag: 10 }, series);
+ * // Values beyond result.bound at lags 1 and 2 only suggest an AR(2) model
+ *
+ * @description
+ * **Insights derived from the PACF:**
+ * - **Model Identification:** A PACF that cuts off after lag p suggests an AR(p) model.
+ * - **Direct Dependence:** Shows how much each past value matters once the values in between are known.
+ */
+export const pacf = curry((
+  suppliedOptions: Partial<AutocorrelationOptions>,
+  data: DataPoint[]
+): AutocorrelationResult => {
+  const options: AutocorrelationOptions = {
+    ...DEFAULT_AUTOCORRELATION_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const maxLag = resolveMaxLag(data, "The partial autocorrelation function", options);
+  if (typeof maxLag !== "number") {
+    return maxLag;
+  }
+
+  const values = partialAutocorrelations(autocorrelations(data.map((point) => point[1]), maxLag));
+  const z = normalQuantile({ mean: 0, standardDeviation: 1 }, 1 - (1 - options.confidenceLevel) / 2);
+
+  return {
+    ok: true,
+    lags: values.map((_, i) => i + 1),
+    values: values.map((value) => round(value, options.precision)),
+    bound: round(z / Math.sqrt(data.length), options.precision),
+  };
+});
+
+/**
+ * Performs the Ljung–Box portmanteau test of whether a series is white noise, by combining its autocorrelations at
+ * lags `1…lags` into `Q = n(n + 2) Σ r_k² / (n − k)`, which is approximately chi-squared under the null hypothesis.
+ * Usually applied to the residuals of a fitted model, with `fittedParameters` set to the number of model parameters.
+ *
+ * @param {Partial<LjungBoxOptions>} [suppliedOptions] - Optional options to override defaults, such as `lags`,
+ * `fittedParameters` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects more points than `lags`, not all equal.
+ * @returns {LjungBoxResult} A discriminant union representing the success or failure of the test.
+ * - If successful (`ok: true`), it returns the `statistic`, `df`, `pValue` and the number of `lags` tested.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData") and a `message`.
+ *
+ * @example
+ * // Residuals of an ARIMA(1, 0, 1) model
+ * const result = ljungBox({ lags: 10, fittedParameters: 2 }, residuals);
+ * // result.pValue > 0.05: no evidence that the model missed any autocorrelation
+ *
+ * @description
+ * **Insights derived from the Ljung–Box Test:**
+ * - **Model Adequacy:** A small p-value for model residuals means the model has left predictable structure behind.
+ * - **Randomness:** A small p-value for raw data means past values help predict future ones.
+ */
+export const ljungBox = curry((
+  suppliedOptions: Partial<LjungBoxOptions>,
+  data: DataPoint[]
+): LjungBoxResult => {
+  const options: LjungBoxOptions = {
+    ...DEFAULT_LJUNG_BOX_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const error = validateSeries(data, "The Ljung–Box test", 3);
+  if (error !== null) {
+    return error;
+  }
+
+  const n = data.length;
+  const lags = options.lags ?? Math.max(1, Math.min(10, Math.floor(n / 5)));
+  if (!(Number.isInteger(lags) && lags >= 1 && lags < n)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The number of lags must be an integer between 1 and ${n - 1}. Received ${options.lags}.`,
+    };
+  }
+
+  const df = lags - options.fittedParameters;
+  if (!(Number.isInteger(options.fittedParameters) && options.fittedParameters >= 0) || df < 1) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `The Ljung–Box test needs more lags (${lags}) than fitted parameters (${options.fittedParameters}).`,
+    };
+  }
+
+  if (data.every((point) => point[1] === data[0][1])) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: "The Ljung–Box test is undefined for a constant series.",
+    };
+  }
+
+  const r = autocorrelations(data.map((point) => point[1]), lags);
+  let sum = 0;
+  for (let k = 1; k <= lags; k++) {
+    sum += (r[k] * r[k]) / (n - k);
+  }
+  const statistic = n * (n + 2) * sum;
+
+  return {
+    ok: true,
+    statistic: round(statistic, options.precision),
+    df,
+    pValue: regularizedUpperGamma(df / 2, statistic / 2),
+    lags,
+  };
+});
@@ -0,0 +1,76 @@
+import type {
+  ArimaOptions,
+  AutocorrelationOptions,
+  DecompositionOptions,
+  DickeyFullerOptions,
+  LjungBoxOptions,
+  TimeSeriesOptions,
+} from "./types";
+
+/**
+ * Default options for time-series methods.
+ */
+export const DEFAULT_TIMESERIES_OPTIONS: TimeSeriesOptions = {
+  precision: 2,
+  window: 3,
+  weights: null,
+  alpha: null,
+  beta: null,
+  gamma: null,
+  period: null,
+  seasonality: "additive",
+  horizon: 1,
+};
+
+/**
+ * Default options for seasonal decomposition and period detection.
+ */
+export const DEFAULT_DECOMPOSITION_OPTIONS: DecompositionOptions = {
+  precision: 2,
+  period: null,
+  seasonality: "additive",
+  seasonalWindow: 7,
+  trendWindow: null,
+  robust: false,
+  maxPeriod: null,
+  confidenceLevel: 0.95,
+};
+
+/**
+ * Default options for `acf` and `pacf`.
+ */
+export const DEFAULT_AUTOCORRELATION_OPTIONS: AutocorrelationOptions = {
+  precision: 2,
+  maxLag: null,
+  confidenceLevel: 0.95,
+};
+
+/**
+ * Default options for the Ljung–Box test.
+ */
+export const DEFAULT_LJUNG_BOX_OPTIONS: LjungBoxOptions = {
+  precision: 2,
+  lags: null,
+  fittedParameters: 0,
+};
+
+/**
+ * Default options for the augmented Dickey–Fuller test.
+ */
+export const DEFAULT_DICKEY_FULLER_OPTIONS: DickeyFullerOptions = {
+  precision: 2,
+  lags: null,
+  regression: "constant",
+};
+
+/**
+ * Default options for ARIMA models.
+ */
+export const DEFAULT_ARIMA_OPTIONS: ArimaOptions = {
+  precision: 2,
+  order: [1, 0, 0],
+  includeMean: null,
+  confidenceLevel: 0.95,
+  horizon: 1,
+  maxOrder: [3, 2, 3],
+};
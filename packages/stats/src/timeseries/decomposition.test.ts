@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { classicalDecomposition } from "./decomposition";
+import type { DataPoint } from "../regression/types";
+
+const pattern = [3, -1, -2, 0];
+
+// Three years of quarterly values: a linear trend plus a fixed seasonal pattern.
+const additive: DataPoint[] = Array.from({ length: 12 }, (_, t) => [t, 10 + 0.5 * t + pattern[t % 4]]);
+
+describe("classicalDecomposition", () => {
+  it("should separate an exact additive series into trend and season", () => {
+    const result = classicalDecomposition({ period: 4 }, additive);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.method).toBe("classical");
+    expect(result.period).toBe(4);
+    expect(result.seasonalIndices).toEqual(pattern);
+    expect(result.trend.slice(2, 10)).toEqual(additive.slice(2, 10).map(([x]) => [x, 10 + 0.5 * x]));
+    expect(result.remainder.slice(2, 10).every(([, y]) => y === 0)).toBe(true);
+    expect(result.seasonalStrength).toBe(1);
+    expect(result.trendStrength).toBe(1);
+  });
+
+  it("should leave the trend and remainder undefined for the first and last half period", () => {
+    const result = classicalDecomposition({ period: 4 }, additive);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.trend[0][1]).toBeNaN();
+    expect(result.trend[1][1]).toBeNaN();
+    expect(result.trend[10][1]).toBeNaN();
+    expect(result.remainder[11][1]).toBeNaN();
+    expect(result.seasonal.map(([, y]) => y)).toEqual(additive.map((_, t) => pattern[t % 4]));
+  });
+
+  it("should use a plain centred average for an odd period", () => {
+    const data: DataPoint[] = Array.from({ length: 9 }, (_, t) => [t, [1, 4, 7][t % 3] + t]);
+    const result = classicalDecomposition({ period: 3 }, data);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.seasonalIndices).toEqual([-3, 0, 3]);
+    expect(result.trend[1]).toEqual([1, 5]);
+  });
+
+  it("should express multiplicative seasonality as ratios averaging one", () => {
+    const factors = [1.2, 0.9, 0.7, 1.2];
+    const data: DataPoint[] = Array.from({ length: 16 }, (_, t) => [t, 100 * factors[t % 4]]);
+    const result = classicalDecomposition({ period: 4, seasonality: "multiplicative" }, data);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.seasonalIndices).toEqual(factors);
+    expect(result.trend[5]).toEqual([5, 100]);
+    expect(result.remainder[5]).toEqual([5, 1]);
+  });
+
+  it("should detect the period when none is supplied", () => {
+    const result = classicalDecomposition({}, additive.concat(additive.map(([x, y]) => [x + 12, y + 6])));
+
+    expect(result).toMatchObject({ ok: true, period: 4 });
+  });
+
+  it("should return errors for too few periods, non-positive multiplicative data and undetectable periods", () => {
+    expect(classicalDecomposition({ period: 4 }, additive.slice(0, 7))).toMatchObject({
+      ok: false,
+      errorType: "InsufficientData",
+    });
+    expect(
+      classicalDecomposition({ period: 4, seasonality: "multiplicative" }, additive.map(([x, y]) => [x, y - 10]))
+    ).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(classicalDecomposition({}, additive.map(([x]) => [x, x]))).toMatchObject({
+      ok: false,
+      errorType: "NoSeasonality",
+    });
+    expect(classicalDecomposition({ period: 2.5 }, additive)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+  });
+});
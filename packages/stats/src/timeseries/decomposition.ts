@@ -0,0 +1,100 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DECOMPOSITION_OPTIONS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type { DecompositionOptions, DecompositionResult } from "./types";
+import { decompositionResult, resolvePeriod, validateSeries } from "./util";
+
+/**
+ * Estimate the trend with a centred moving average spanning exactly one period. An even period uses a 2×period
+ * average, which gives the two outermost values half weight. The first and last half period are NaN.
+ */
+const centredMovingAverage = (ys: number[], period: number): number[] => {
+  const half = Math.floor(period / 2);
+  const even = period % 2 === 0;
+  return ys.map((_, t) => {
+    if (t < half || t >= ys.length - half) {
+      return NaN;
+    }
+    let sum = 0;
+    for (let j = -half; j <= half; j++) {
+      sum += (even && Math.abs(j) === half ? 0.5 : 1) * ys[t + j];
+    }
+    return sum / period;
+  });
+};
+
+/**
+ * Performs classical seasonal decomposition of an evenly spaced series into trend, seasonal and remainder components.
+ * The trend is a centred moving average over one period; the seasonal component repeats, for every cycle, the average
+ * detrended value at each position in the cycle; the remainder is what is left.
+ *
+ * @param {Partial<DecompositionOptions>} [suppliedOptions] - Optional options to override defaults, such as `period`
+ * (detected from the data when null), `seasonality` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least two full periods, and positive values for multiplicative seasonality.
+ * @returns {DecompositionResult} A discriminant union representing the success or failure of the decomposition.
+ * - If successful (`ok: true`), it returns the `trend`, `seasonal` and `remainder` components, the `seasonalIndices`
+ * and the `seasonalStrength` and `trendStrength`. The trend and remainder are NaN for the first and last half period.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "NoSeasonality", "InsufficientData") and a `message`.
+ *
+ * @example
+ * const result = classicalDecomposition({ period: 12 }, monthlySales);
+ * if (result.ok) {
+ * console.log(result.seasonalIndices); // the typical effect of each month
+ * }
+ *
+ * @description
+ * **Insights derived from Classical Decomposition:**
+ * - **Seasonal Pattern:** `seasonalIndices` shows when in the cycle values peak and trough, and by how much.
+ * - **Seasonally Adjusted Trend:** The trend component shows the direction of the series with the cycle removed.
+ * - **Caution:** Assumes the seasonal pattern is identical in every cycle; use `stl` when it evolves or when
+ * outliers are present.
+ */
+export const classicalDecomposition = curry((
+  suppliedOptions: Partial<DecompositionOptions>,
+  data: DataPoint[]
+): DecompositionResult => {
+  const options: DecompositionOptions = {
+    ...DEFAULT_DECOMPOSITION_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const period = resolvePeriod(data, options);
+  if (typeof period !== "number") {
+    return period;
+  }
+
+  const error = validateSeries(data, "Classical decomposition", 2 * period);
+  if (error !== null) {
+    return error;
+  }
+
+  const multiplicative = options.seasonality === "multiplicative";
+  const ys = data.map((point) => point[1]);
+  const nonPositiveIndex = ys.findIndex((y) => y <= 0);
+  if (multiplicative && nonPositiveIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Multiplicative seasonality requires positive values, but the value at index ${nonPositiveIndex} is ${ys[nonPositiveIndex]}. Use additive seasonality instead.`,
+    };
+  }
+
+  const trend = centredMovingAverage(ys, period);
+  const detrended = ys.map((y, t) => (multiplicative ? y / trend[t] : y - trend[t]));
+
+  const rawIndices = Array.from({ length: period }, (_, phase) => {
+    const values = detrended.filter((value, t) => t % period === phase && Number.isFinite(value));
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  });
+  // Centre the indices so the seasonal component does not shift the level of the series.
+  const centre = rawIndices.reduce((sum, value) => sum + value, 0) / period;
+  const indices = rawIndices.map((value) => (multiplicative ? value / centre : value - centre));
+
+  const seasonal = ys.map((_, t) => indices[t % period]);
+  const remainder = ys.map((y, t) =>
+    multiplicative ? y / (trend[t] * seasonal[t]) : y - trend[t] - seasonal[t]
+  );
+
+  return decompositionResult("classical", data, period, trend, seasonal, remainder, options);
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { exponentialMovingAverage, holt } from "./exponential";
+import type { DataPoint } from "../regression/types";
+
+describe("exponentialMovingAverage", () => {
+  const series: DataPoint[] = [[1, 10], [2, 12], [3, 11], [4, 15]];
+
+  it("should smooth with a supplied alpha", () => {
+    const result = exponentialMovingAverage({ alpha: 0.5 }, series);
+
+    expect(result).toEqual({
+      ok: true,
+      method: "exponentialMovingAverage",
+      smoothed: [[1, 10], [2, 11], [3, 11], [4, 13]],
+      forecast: [[5, 13]],
+      parameters: { alpha: 0.5 },
+      rmse: 2.58,
+    });
+  });
+
+  it("should fit alpha close to 1 for a random walk", () => {
+    const walk: DataPoint[] = [0, 2, 5, 4, 7, 9, 8, 11, 13, 12].map((y, i) => [i, y]);
+    const result = exponentialMovingAverage({}, walk);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.parameters.alpha).toBeGreaterThan(0.9);
+  });
+
+  it("should fit a small alpha for noise around a constant mean", () => {
+    const noise: DataPoint[] = [10, 12, 8, 11, 9, 12, 8, 10, 11, 9, 12, 8].map((y, i) => [i, y]);
+    const result = exponentialMovingAverage({}, noise);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.parameters.alpha).toBeLessThan(0.2);
+  });
+
+  it("should return errors for an invalid alpha and too few points", () => {
+    expect(exponentialMovingAverage({ alpha: 1.5 }, series)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(exponentialMovingAverage({}, [[1, 10]])).toMatchObject({ ok: false, errorType: "InsufficientData" });
+  });
+});
+
+describe("holt", () => {
+  it("should follow a straight line exactly and extend it", () => {
+    const line: DataPoint[] = [[1, 10], [2, 12], [3, 14], [4, 16]];
+    const result = holt({ horizon: 2 }, line);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.method).toBe("holt");
+    expect(result.smoothed).toEqual(line);
+    expect(result.forecast).toEqual([[5, 18], [6, 20]]);
+    expect(result.parameters.trend).toBe(2);
+    expect(result.rmse).toBe(0);
+  });
+
+  it("should smooth with supplied parameters", () => {
+    const data: DataPoint[] = [[0, 1], [1, 3], [2, 4], [3, 7]];
+    const result = holt({ alpha: 0.5, beta: 0.5 }, data);
+
+    // level: 1, 3, 4.5, 6.625; trend: 2, 2, 1.75, 1.9375
+    expect(result).toEqual({
+      ok: true,
+      method: "holt",
+      smoothed: [[0, 1], [1, 3], [2, 4.5], [3, 6.63]],
+      forecast: [[4, 8.56]],
+      parameters: { alpha: 0.5, beta: 0.5, trend: 1.94 },
+      rmse: 0.88,
+    });
+  });
+
+  it("should return an error for fewer than three points", () => {
+    expect(holt({}, [[1, 10], [2, 12]])).toMatchObject({ ok: false, errorType: "InsufficientData" });
+  });
+});
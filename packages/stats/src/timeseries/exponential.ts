@@ -0,0 +1,157 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_TIMESERIES_OPTIONS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type { TimeSeriesOptions, TimeSeriesResult } from "./types";
+import { fitSmoothing, seriesResult, validateHorizon, validateSeries, validateSmoothing } from "./util";
+
+/**
+ * Run simple exponential smoothing, starting the level at the first value.
+ */
+const smoothLevel = (ys: number[], alpha: number): { levels: number[]; errors: number[] } => {
+  const levels = [ys[0]];
+  const errors: number[] = [];
+  for (let t = 1; t < ys.length; t++) {
+    const error = ys[t] - levels[t - 1];
+    errors.push(error);
+    levels.push(levels[t - 1] + alpha * error);
+  }
+  return { levels, errors };
+};
+
+/**
+ * Run Holt's linear trend method, starting the level at the first value and the trend at the first difference.
+ */
+const smoothTrend = (
+  ys: number[],
+  alpha: number,
+  beta: number
+): { levels: number[]; trend: number; errors: number[] } => {
+  const levels = [ys[0]];
+  let trend = ys[1] - ys[0];
+  const errors: number[] = [];
+  for (let t = 1; t < ys.length; t++) {
+    const previous = levels[t - 1];
+    // The initial trend is fitted to the second value, so its one-step error is always zero and is not counted.
+    if (t > 1) {
+      errors.push(ys[t] - (previous + trend));
+    }
+    const level = alpha * ys[t] + (1 - alpha) * (previous + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+    levels.push(level);
+  }
+  return { levels, trend, errors };
+};
+
+const sumOfSquares = (errors: number[]): number => errors.reduce((sum, error) => sum + error * error, 0);
+
+/**
+ * Computes the exponential moving average (simple exponential smoothing) of an evenly spaced series:
+ * `level_t = α·y_t + (1 − α)·level_(t−1)`, so the weight of each past value decays geometrically.
+ * Every forecast is the final level, as the method assumes no trend.
+ *
+ * @param {Partial<TimeSeriesOptions>} [suppliedOptions] - Optional options to override defaults, such as `alpha`,
+ * `horizon` and `precision`. When `alpha` is null it is fitted by minimising the one-step-ahead squared error.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least two points.
+ * @returns {TimeSeriesResult} A discriminant union representing the success or failure of the smoothing.
+ * - If successful (`ok: true`), it returns the `smoothed` levels, the `forecast`, `parameters.alpha` and the `rmse`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "IrregularSeries", "InvalidInput") and a `message`.
+ *
+ * @example
+ * const data = [[1, 10], [2, 12], [3, 11], [4, 15]];
+ * const result = exponentialMovingAverage({ alpha: 0.5 }, data);
+ * // result.smoothed is [[1, 10], [2, 11], [3, 11], [4, 13]]; result.forecast is [[5, 13]]
+ *
+ * @description
+ * **Insights derived from Exponential Moving Averages:**
+ * - **Current Level:** The final level is a noise-resistant estimate of where the series stands now.
+ * - **Responsiveness:** A fitted `alpha` near 1 indicates a series that behaves like a random walk, while a value near 0
+ * indicates a stable mean with noise around it.
+ */
+export const exponentialMovingAverage = curry((
+  suppliedOptions: Partial<TimeSeriesOptions>,
+  data: DataPoint[]
+): TimeSeriesResult => {
+  const options: TimeSeriesOptions = {
+    ...DEFAULT_TIMESERIES_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const error =
+    validateHorizon(options.horizon) ??
+    validateSmoothing("alpha", options.alpha) ??
+    validateSeries(data, "Exponential moving average", 2);
+  if (error !== null) {
+    return error;
+  }
+
+  const ys = data.map((point) => point[1]);
+  const [alpha] = fitSmoothing(([a]) => sumOfSquares(smoothLevel(ys, a).errors), [options.alpha]);
+  const { levels, errors } = smoothLevel(ys, alpha);
+  const last = levels[levels.length - 1];
+
+  return seriesResult("exponentialMovingAverage", data, 0, levels, () => last, { alpha }, errors, options);
+});
+
+/**
+ * Applies Holt's linear trend method (double exponential smoothing) to an evenly spaced series, smoothing both a
+ * level and a trend: `level_t = α·y_t + (1 − α)·(level_(t−1) + trend_(t−1))` and
+ * `trend_t = β·(level_t − level_(t−1)) + (1 − β)·trend_(t−1)`. Forecasts extend the final trend from the final level.
+ *
+ * @param {Partial<TimeSeriesOptions>} [suppliedOptions] - Optional options to override defaults, such as `alpha`,
+ * `beta`, `horizon` and `precision`. Parameters left null are fitted by minimising the one-step-ahead squared error.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least three points.
+ * @returns {TimeSeriesResult} A discriminant union representing the success or failure of the smoothing.
+ * - If successful (`ok: true`), it returns the `smoothed` levels, the `forecast`, `parameters.alpha`,
+ * `parameters.beta`, `parameters.trend` (the final trend per step) and the `rmse`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData") and a `message`.
+ *
+ * @example
+ * const data = [[1, 10], [2, 12], [3, 14], [4, 16]];
+ * const result = holt({ horizon: 2 }, data);
+ * // result.forecast is [[5, 18], [6, 20]]
+ *
+ * @description
+ * **Insights derived from Holt's Method:**
+ * - **Local Trend:** `parameters.trend` is the current rate of change, which can differ from a global regression slope.
+ * - **Trend Stability:** A small fitted `beta` means the trend has been steady; a large one means it keeps shifting.
+ * - **Short-Term Forecasts:** Suited to trending series without a seasonal cycle; use `holtWinters` for those.
+ */
+export const holt = curry((
+  suppliedOptions: Partial<TimeSeriesOptions>,
+  data: DataPoint[]
+): TimeSeriesResult => {
+  const options: TimeSeriesOptions = {
+    ...DEFAULT_TIMESERIES_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const error =
+    validateHorizon(options.horizon) ??
+    validateSmoothing("alpha", options.alpha) ??
+    validateSmoothing("beta", options.beta) ??
+    validateSeries(data, "Holt's method", 3);
+  if (error !== null) {
+    return error;
+  }
+
+  const ys = data.map((point) => point[1]);
+  const [alpha, beta] = fitSmoothing(
+    ([a, b]) => sumOfSquares(smoothTrend(ys, a, b).errors),
+    [options.alpha, options.beta]
+  );
+  const { levels, trend, errors } = smoothTrend(ys, alpha, beta);
+  const last = levels[levels.length - 1];
+
+  return seriesResult(
+    "holt",
+    data,
+    0,
+    levels,
+    (step) => last + step * trend,
+    { alpha, beta, trend },
+    errors,
+    options
+  );
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { holtWinters } from "./holtWinters";
+import type { DataPoint } from "../regression/types";
+
+const pattern = [3, -1, -2, 0];
+
+// A linear trend plus a quarterly cycle, with no noise.
+const additive: DataPoint[] = Array.from({ length: 16 }, (_, t) => [t, 10 + 0.5 * t + pattern[t % 4]]);
+
+// Quarterly sales whose seasonal swing grows with the level.
+const factors = [1.2, 0.9, 0.7, 1.2];
+const multiplicative: DataPoint[] = Array.from({ length: 16 }, (_, t) => [t, (100 + 5 * t) * factors[t % 4]]);
+
+describe("holtWinters", () => {
+  it("should reproduce an exact additive seasonal series and forecast the next season", () => {
+    const result = holtWinters({ period: 4, horizon: 4 }, additive);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.method).toBe("holtWinters");
+    expect(result.smoothed).toEqual(additive.slice(4));
+    expect(result.forecast).toEqual([[16, 21], [17, 17.5], [18, 17], [19, 19.5]]);
+    expect(result.parameters).toMatchObject({ period: 4, trend: 0.5 });
+    expect(result.rmse).toBe(0);
+  });
+
+  it("should keep seasonal swings proportional to the level with multiplicative seasonality", () => {
+    const result = holtWinters({ period: 4, horizon: 4, seasonality: "multiplicative" }, multiplicative);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    const expected = [16, 17, 18, 19].map((t) => (100 + 5 * t) * factors[t % 4]);
+    result.forecast.forEach(([, y], i) => expect(y).toBeCloseTo(expected[i], 0));
+  });
+
+  it("should fit multiplicative data better with multiplicative seasonality", () => {
+    const asAdditive = holtWinters({ period: 4 }, multiplicative);
+    const asMultiplicative = holtWinters({ period: 4, seasonality: "multiplicative" }, multiplicative);
+
+    if (!asAdditive.ok || !asMultiplicative.ok) {
+      throw new Error("Expected successful results");
+    }
+    expect(asMultiplicative.rmse).toBeLessThan(asAdditive.rmse);
+  });
+
+  it("should use supplied smoothing parameters", () => {
+    const result = holtWinters({ period: 4, alpha: 0.3, beta: 0.1, gamma: 0.2 }, additive);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.parameters).toMatchObject({ alpha: 0.3, beta: 0.1, gamma: 0.2 });
+  });
+
+  it("should return an error without a valid period", () => {
+    expect(holtWinters({}, additive)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(holtWinters({ period: 1 }, additive)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+  });
+
+  it("should return an error for fewer than two seasons", () => {
+    expect(holtWinters({ period: 4 }, additive.slice(0, 7))).toMatchObject({
+      ok: false,
+      errorType: "InsufficientData",
+    });
+  });
+
+  it("should return an error for non-positive values with multiplicative seasonality", () => {
+    expect(holtWinters({ period: 4, seasonality: "multiplicative" }, additive.map(([x, y]) => [x, y - 12]))).toMatchObject({
+      ok: false,
+      errorType: "InvalidInput",
+    });
+  });
+});
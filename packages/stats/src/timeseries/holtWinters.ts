@@ -0,0 +1,153 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_TIMESERIES_OPTIONS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type { TimeSeriesOptions, TimeSeriesResult } from "./types";
+import { fitSmoothing, seriesResult, validateHorizon, validateSeries, validateSmoothing } from "./util";
+
+interface SeasonalState {
+  smoothed: number[];
+  level: number;
+  trend: number;
+  seasons: number[];
+  errors: number[];
+}
+
+/**
+ * Run the Holt–Winters recursions after the first season. The trend starts at the change in mean between the first
+ * two seasons per step, and the level at the mean of the first season projected along that trend to its last value.
+ * Each seasonal index starts at a value of the first season relative to the trend line through that mean.
+ */
+const smoothSeasonal = (
+  ys: number[],
+  period: number,
+  multiplicative: boolean,
+  alpha: number,
+  beta: number,
+  gamma: number
+): SeasonalState => {
+  const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const firstSeason = mean(ys.slice(0, period));
+  const secondSeason = mean(ys.slice(period, 2 * period));
+  const combine = (level: number, season: number): number => (multiplicative ? level * season : level + season);
+  const remove = (value: number, season: number): number => (multiplicative ? value / season : value - season);
+
+  let trend = (secondSeason - firstSeason) / period;
+  // The mean of the first season estimates the level at its midpoint, (period - 1) / 2.
+  let level = firstSeason + (trend * (period - 1)) / 2;
+  const seasons = ys
+    .slice(0, period)
+    .map((value, i) => remove(value, firstSeason + trend * (i - (period - 1) / 2)));
+  const smoothed: number[] = [];
+  const errors: number[] = [];
+
+  for (let t = period; t < ys.length; t++) {
+    const season = seasons[t - period];
+    errors.push(ys[t] - combine(level + trend, season));
+    const nextLevel = alpha * remove(ys[t], season) + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    level = nextLevel;
+    seasons.push(gamma * remove(ys[t], level) + (1 - gamma) * season);
+    smoothed.push(combine(level, seasons[t]));
+  }
+
+  return { smoothed, level, trend, seasons, errors };
+};
+
+/**
+ * Applies the Holt–Winters method (triple exponential smoothing) to an evenly spaced series with a repeating cycle of
+ * `period` observations, smoothing a level, a trend and one seasonal index per position in the cycle. With additive
+ * seasonality the cycle adds a fixed amount to the level; with multiplicative seasonality it scales the level.
+ * Forecasts extend the final trend and repeat the final seasonal indices.
+ *
+ * @param {Partial<TimeSeriesOptions>} [suppliedOptions] - Options including the required `period`, plus `seasonality`,
+ * `alpha`, `beta`, `gamma`, `horizon` and `precision`. Smoothing parameters left null are fitted by minimising the
+ * one-step-ahead squared error.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least two full seasons, which are used to initialise the level and trend, and positive values for
+ * multiplicative seasonality.
+ * @returns {TimeSeriesResult} A discriminant union representing the success or failure of the smoothing.
+ * - If successful (`ok: true`), it returns the `smoothed` series (level and season combined) from the second season
+ * onwards, the `forecast`, `parameters.alpha`, `parameters.beta`, `parameters.gamma`, `parameters.period`,
+ * `parameters.trend` and the `rmse`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData" for fewer than two seasons)
+ * and a `message`.
+ *
+ * @example
+ * // Quarterly sales with a yearly cycle
+ * const result = holtWinters({ period: 4, horizon: 4 }, quarterlySales);
+ * if (result.ok) {
+ * console.log(result.forecast); // the next four quarters
+ * }
+ *
+ * @example
+ * // Seasonal swings that grow with the level
+ * const result = holtWinters({ period: 12, seasonality: "multiplicative" }, monthlyRevenue);
+ *
+ * @description
+ * **Insights derived from Holt–Winters:**
+ * - **Seasonal Forecasts:** Forecasts keep the shape of the cycle, so they do not flatten out like `holt` forecasts.
+ * - **Seasonal Drift:** A large fitted `gamma` means the shape of the cycle changes from season to season.
+ * - **Additive or Multiplicative:** Comparing the `rmse` of both seasonality types shows whether swings grow with the level.
+ */
+export const holtWinters = curry((
+  suppliedOptions: Partial<TimeSeriesOptions>,
+  data: DataPoint[]
+): TimeSeriesResult => {
+  const options: TimeSeriesOptions = {
+    ...DEFAULT_TIMESERIES_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const { period } = options;
+  if (period === null || !(Number.isInteger(period) && period >= 2)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Holt–Winters requires a seasonal period that is an integer of at least 2. Received ${period}.`,
+    };
+  }
+
+  const error =
+    validateHorizon(options.horizon) ??
+    validateSmoothing("alpha", options.alpha) ??
+    validateSmoothing("beta", options.beta) ??
+    validateSmoothing("gamma", options.gamma) ??
+    validateSeries(data, "Holt–Winters", 2 * period);
+  if (error !== null) {
+    return error;
+  }
+
+  const multiplicative = options.seasonality === "multiplicative";
+  const nonPositiveIndex = data.findIndex((point) => point[1] <= 0);
+  if (multiplicative && nonPositiveIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Multiplicative seasonality requires positive values, but the value at index ${nonPositiveIndex} is ${data[nonPositiveIndex][1]}. Use additive seasonality instead.`,
+    };
+  }
+
+  const ys = data.map((point) => point[1]);
+  const [alpha, beta, gamma] = fitSmoothing(
+    ([a, b, g]) =>
+      smoothSeasonal(ys, period, multiplicative, a, b, g).errors.reduce((sum, e) => sum + e * e, 0),
+    [options.alpha, options.beta, options.gamma]
+  );
+  const { smoothed, level, trend, seasons, errors } = smoothSeasonal(ys, period, multiplicative, alpha, beta, gamma);
+
+  const forecast = (step: number): number => {
+    const season = seasons[seasons.length - period + ((step - 1) % period)];
+    return multiplicative ? (level + step * trend) * season : level + step * trend + season;
+  };
+
+  return seriesResult(
+    "holtWinters",
+    data,
+    period,
+    smoothed,
+    forecast,
+    { alpha, beta, gamma, period, trend },
+    errors,
+    options
+  );
+});
@@ -0,0 +1,10 @@
+export * from "./movingAverage";
+export * from "./exponential";
+export * from "./holtWinters";
+export * from "./period";
+export * from "./decomposition";
+export * from "./stl";
+export * from "./autocorrelation";
+export * from "./stationarity";
+export * from "./arima";
+export * from "./types";
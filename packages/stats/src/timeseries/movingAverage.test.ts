@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { simpleMovingAverage, weightedMovingAverage } from "./movingAverage";
+import type { DataPoint } from "../regression/types";
+
+const series: DataPoint[] = [[1, 10], [2, 12], [3, 11], [4, 15], [5, 14]];
+
+describe("simpleMovingAverage", () => {
+  it("should average each trailing window and forecast the last average", () => {
+    const result = simpleMovingAverage({ window: 3, horizon: 2 }, series);
+
+    expect(result).toEqual({
+      ok: true,
+      method: "simpleMovingAverage",
+      smoothed: [[3, 11], [4, 12.67], [5, 13.33]],
+      forecast: [[6, 13.33], [7, 13.33]],
+      parameters: { window: 3 },
+      rmse: 2.98,
+    });
+  });
+
+  it("should continue the spacing of the x-values in forecasts", () => {
+    const day = 86_400_000;
+    const data: DataPoint[] = [0, 1, 2, 3].map((i) => [i * day, i]);
+    const result = simpleMovingAverage({ window: 2, precision: 1 }, data);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.forecast).toEqual([[4 * day, 2.5]]);
+  });
+
+  it("should report an undefined rmse when the window covers the whole series", () => {
+    const result = simpleMovingAverage({ window: 5 }, series);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.smoothed).toEqual([[5, 12.4]]);
+    expect(result.rmse).toBeNaN();
+  });
+
+  it("should return an error for a series shorter than the window", () => {
+    const result = simpleMovingAverage({ window: 6 }, series);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errorType).toBe("InsufficientData");
+    }
+  });
+
+  it("should return an error for unevenly spaced or unordered x-values", () => {
+    const gap = simpleMovingAverage({}, [[1, 10], [2, 12], [4, 11], [5, 15]]);
+    const unordered = simpleMovingAverage({}, [[3, 10], [2, 12], [1, 11]]);
+
+    expect(gap).toMatchObject({ ok: false, errorType: "IrregularSeries" });
+    expect(unordered).toMatchObject({ ok: false, errorType: "IrregularSeries" });
+  });
+
+  it("should return errors for invalid values and options", () => {
+    expect(simpleMovingAverage({}, [[1, 10], [2, NaN], [3, 11]])).toMatchObject({
+      ok: false,
+      errorType: "InvalidInput",
+    });
+    expect(simpleMovingAverage({ window: 0 }, series)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(simpleMovingAverage({ horizon: 1.5 }, series)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+  });
+});
+
+describe("weightedMovingAverage", () => {
+  it("should weight recent values linearly by default", () => {
+    const result = weightedMovingAverage({ window: 3 }, series);
+
+    expect(result).toEqual({
+      ok: true,
+      method: "weightedMovingAverage",
+      smoothed: [[3, 11.17], [4, 13.17], [5, 13.83]],
+      forecast: [[6, 13.83]],
+      parameters: { window: 3 },
+      rmse: 2.77,
+    });
+  });
+
+  it("should use custom weights and take the window from them", () => {
+    const result = weightedMovingAverage({ window: 3, weights: [1, 1] }, series);
+
+    if (!result.ok) {
+      throw new Error("Expected successful result");
+    }
+    expect(result.parameters).toEqual({ window: 2 });
+    expect(result.smoothed).toEqual([[2, 11], [3, 11.5], [4, 13], [5, 14.5]]);
+  });
+
+  it("should return an error for negative or all-zero weights", () => {
+    expect(weightedMovingAverage({ weights: [1, -1] }, series)).toMatchObject({
+      ok: false,
+      errorType: "InvalidInput",
+    });
+    expect(weightedMovingAverage({ weights: [0, 0] }, series)).toMatchObject({
+      ok: false,
+      errorType: "InvalidInput",
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_TIMESERIES_OPTIONS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type { TimeSeriesOptions, TimeSeriesResult } from "./types";
+import { seriesResult, validateHorizon, validateSeries } from "./util";
+
+/**
+ * Average each trailing window of the series with the given weights, oldest first.
+ * Returns the smoothed values and the one-step-ahead errors of using each window's average to forecast the next value.
+ */
+const trailingAverages = (ys: number[], weights: number[]): { averages: number[]; errors: number[] } => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const averages: number[] = [];
+  const errors: number[] = [];
+  for (let end = weights.length; end <= ys.length; end++) {
+    const average = weights.reduce((sum, weight, j) => sum + weight * ys[end - weights.length + j], 0) / total;
+    averages.push(average);
+    if (end < ys.length) {
+      errors.push(ys[end] - average);
+    }
+  }
+  return { averages, errors };
+};
+
+/**
+ * Computes the simple moving average of an evenly spaced series: the mean of each run of `window` consecutive values.
+ * The smoothed series starts at the end of the first full window, and every forecast is the mean of the last window.
+ *
+ * @param {Partial<TimeSeriesOptions>} [suppliedOptions] - Optional options to override defaults, such as `window`,
+ * `horizon` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least `window` points, and at least two so that the spacing of the forecasts is known.
+ * @returns {TimeSeriesResult} A discriminant union representing the success or failure of the smoothing.
+ * - If successful (`ok: true`), it returns the `smoothed` series, the `forecast`, `parameters.window` and the `rmse`
+ * of forecasting each value from the window before it.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "IrregularSeries", "InsufficientData") and a `message`.
+ *
+ * @example
+ * const data = [[1, 10], [2, 12], [3, 11], [4, 15], [5, 14]];
+ * const result = simpleMovingAverage({ window: 3 }, data);
+ * // result.smoothed is [[3, 11], [4, 12.67], [5, 13.33]]; result.forecast is [[6, 13.33]]
+ *
+ * @description
+ * **Insights derived from Simple Moving Averages:**
+ * - **Underlying Trend:** Smooths away short-term noise so the direction of a noisy series is easier to see.
+ * - **Seasonality Removal:** A window equal to the seasonal period averages out a regular cycle entirely.
+ * - **Caution:** The average lags behind a trending series by about half the window.
+ */
+export const simpleMovingAverage = curry((
+  suppliedOptions: Partial<TimeSeriesOptions>,
+  data: DataPoint[]
+): TimeSeriesResult => {
+  const options: TimeSeriesOptions = {
+    ...DEFAULT_TIMESERIES_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  if (!(Number.isInteger(options.window) && options.window >= 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The moving average window must be a positive integer. Received ${options.window}.`,
+    };
+  }
+
+  const error =
+    validateHorizon(options.horizon) ?? validateSeries(data, "Simple moving average", Math.max(2, options.window));
+  if (error !== null) {
+    return error;
+  }
+
+  const weights = Array.from({ length: options.window }, () => 1);
+  const { averages, errors } = trailingAverages(data.map((point) => point[1]), weights);
+  const last = averages[averages.length - 1];
+
+  return seriesResult(
+    "simpleMovingAverage",
+    data,
+    options.window - 1,
+    averages,
+    () => last,
+    { window: options.window },
+    errors,
+    options
+  );
+});
+
+/**
+ * Computes a weighted moving average of an evenly spaced series. By default the weights rise linearly across the
+ * window (`1, 2, …, window`), so recent values count most and the average lags less than a simple moving average.
+ *
+ * @param {Partial<TimeSeriesOptions>} [suppliedOptions] - Optional options to override defaults, such as `window`,
+ * `weights` (oldest first, one per value in the window), `horizon` and `precision`. When `weights` is given, its
+ * length sets the window.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least as many points as the window, and at least two.
+ * @returns {TimeSeriesResult} A discriminant union representing the success or failure of the smoothing.
+ * - If successful (`ok: true`), it returns the `smoothed` series, the `forecast`, `parameters.window` and the `rmse`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InvalidInput" for negative weights) and a `message`.
+ *
+ * @example
+ * const data = [[1, 10], [2, 12], [3, 11], [4, 15], [5, 14]];
+ * const result = weightedMovingAverage({ window: 3 }, data);
+ * // result.smoothed[0] is [3, 11.17]: (1·10 + 2·12 + 3·11) / 6
+ *
+ * @example
+ * // Custom weights
+ * const result = weightedMovingAverage({ weights: [0.2, 0.3, 0.5] }, data);
+ *
+ * @description
+ * **Insights derived from Weighted Moving Averages:**
+ * - **Responsive Trend:** Follows turning points sooner than a simple moving average of the same window.
+ * - **Custom Emphasis:** Weights can encode domain knowledge, such as discounting older readings.
+ */
+export const weightedMovingAverage = curry((
+  suppliedOptions: Partial<TimeSeriesOptions>,
+  data: DataPoint[]
+): TimeSeriesResult => {
+  const options: TimeSeriesOptions = {
+    ...DEFAULT_TIMESERIES_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const window = options.weights !== null ? options.weights.length : options.window;
+  if (!(Number.isInteger(window) && window >= 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The moving average window must be a positive integer. Received ${window}.`,
+    };
+  }
+
+  const weights = options.weights ?? Array.from({ length: window }, (_, i) => i + 1);
+  if (!weights.every((weight) => weight >= 0 && Number.isFinite(weight)) || !weights.some((weight) => weight > 0)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: "Moving average weights must be finite, non-negative and not all zero.",
+    };
+  }
+
+  const error = validateHorizon(options.horizon) ?? validateSeries(data, "Weighted moving average", Math.max(2, window));
+  if (error !== null) {
+    return error;
+  }
+
+  const { averages, errors } = trailingAverages(data.map((point) => point[1]), weights);
+  const last = averages[averages.length - 1];
+
+  return seriesResult(
+    "weightedMovingAverage",
+    data,
+    window - 1,
+    averages,
+    () => last,
+    { window },
+    errors,
+    options
+  );
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { detectPeriod } from "./period";
+import { createRandom } from "../random";
+import type { DataPoint } from "../regression/types";
+
+const weekly = [5, 3, 2, 2, 3, 8, 9];
+
+// Six weeks of daily values with a rising trend and a little noise.
+const noise = [0.3, -0.2, 0.1, -0.4, 0.2, 0, -0.1];
+const daily: DataPoint[] = Array.from({ length: 42 }, (_, t) => [t, 20 + 0.2 * t + weekly[t % 7] + noise[(t * 3) % 7]]);
+
+describe("detectPeriod", () => {
+  it("should find a weekly cycle despite a trend", () => {
+    const result = detectPeriod({}, daily);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.period).toBe(7);
+      expect(result.autocorrelation).toBeGreaterThan(0.5);
+    }
+  });
+
+  it("should not report a multiple of the period", () => {
+    const result = detectPeriod({ maxPeriod: 21 }, daily);
+
+    expect(result).toMatchObject({ ok: true, period: 7 });
+  });
+
+  it("should keep the period when noise makes a multiple of it peak higher", () => {
+    // Eight weeks of a weekly pattern buried in noise; the autocorrelation at lag 14 is higher than at lag 7.
+    const random = createRandom(17);
+    const noisy: DataPoint[] = Array.from({ length: 56 }, (_, t) => [t, 20 + weekly[t % 7] + 3 * random.normal()]);
+
+    expect(detectPeriod({}, noisy)).toMatchObject({ ok: true, period: 7 });
+  });
+
+  it("should report no seasonality for a straight line or constant data", () => {
+    const line: DataPoint[] = Array.from({ length: 30 }, (_, t) => [t, 3 * t + 1]);
+    const constant: DataPoint[] = Array.from({ length: 30 }, (_, t) => [t, 4]);
+
+    expect(detectPeriod({}, line)).toMatchObject({ ok: false, errorType: "NoSeasonality" });
+    expect(detectPeriod({}, constant)).toMatchObject({ ok: false, errorType: "NoSeasonality" });
+  });
+
+  it("should only consider periods up to maxPeriod", () => {
+    expect(detectPeriod({ maxPeriod: 5 }, daily)).toMatchObject({ ok: false, errorType: "NoSeasonality" });
+  });
+
+  it("should return errors for short, irregular or invalid input", () => {
+    expect(detectPeriod({}, daily.slice(0, 5))).toMatchObject({ ok: false, errorType: "InsufficientData" });
+    expect(detectPeriod({}, daily.filter((_, t) => t !== 10))).toMatchObject({
+      ok: false,
+      errorType: "IrregularSeries",
+    });
+    expect(detectPeriod({ maxPeriod: 1 }, daily)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(detectPeriod({ confidenceLevel: 1 }, daily)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+  });
+});
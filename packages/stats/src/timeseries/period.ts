@@ -0,0 +1,45 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DECOMPOSITION_OPTIONS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type { DecompositionOptions, PeriodResult } from "./types";
+import { seasonalPeriod } from "./util";
+
+/**
+ * Detects the seasonal period of an evenly spaced series from its autocorrelation function. The series is first
+ * detrended with a straight line, so that a trend does not mask the cycle; the period is then the shortest lag with
+ * an autocorrelation peak that is significant at `confidenceLevel` against white noise (`z / √n`) and whose multiples
+ * within `maxPeriod` also peak.
+ *
+ * @param {Partial<DecompositionOptions>} [suppliedOptions] - Optional options to override defaults, such as
+ * `maxPeriod`, `confidenceLevel` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least six points; a period can only be detected when the series covers at least two cycles.
+ * @returns {PeriodResult} A discriminant union representing the success or failure of the detection.
+ * - If successful (`ok: true`), it returns the `period` in observations and its `autocorrelation`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` ("NoSeasonality" when no significant cycle is found)
+ * and a `message`.
+ *
+ * @example
+ * // Daily visits with a weekly pattern
+ * const result = detectPeriod({}, dailyVisits);
+ * // result.period is 7
+ *
+ * @description
+ * **Insights derived from Period Detection:**
+ * - **Hidden Cycles:** Finds regular cycles, such as weekly or yearly patterns, without being told where to look.
+ * - **Decomposition Input:** Supplies the `period` for `classicalDecomposition`, `stl` and `holtWinters`.
+ * - **Caution:** Multiples of the period also have high autocorrelation, and in a noisy series one of them can
+ * peak higher than the period itself; requiring the multiples to peak keeps the fundamental period, but a cycle
+ * with two similar halves can be reported as half its length.
+ */
+export const detectPeriod = curry((
+  suppliedOptions: Partial<DecompositionOptions>,
+  data: DataPoint[]
+): PeriodResult => {
+  const options: DecompositionOptions = {
+    ...DEFAULT_DECOMPOSITION_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  return seasonalPeriod(data, options);
+});
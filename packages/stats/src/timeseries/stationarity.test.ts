@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { augmentedDickeyFuller } from "./stationarity";
+import type { DataPoint } from "../regression/types";
+
+// A small deterministic generator of standard normal noise (mulberry32 with Box–Muller).
+const normalNoise = (seed: number, count: number): number[] => {
+  let state = seed;
+  const uniform = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: count }, () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform()));
+};
+
+const noise = normalNoise(42, 200);
+const stationary: DataPoint[] = [];
+const randomWalk: DataPoint[] = [];
+let ar = 0;
+let walk = 0;
+noise.forEach((e, t) => {
+  ar = 0.5 * ar + e;
+  walk += e;
+  stationary.push([t, 10 + ar]);
+  randomWalk.push([t, walk]);
+});
+
+describe("augmentedDickeyFuller", () => {
+  it("should reject a unit root for a stationary autoregression", () => {
+    const result = augmentedDickeyFuller({}, stationary);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.statistic).toBeLessThan(result.criticalValues["1%"]);
+    expect(result.pValue).toBeLessThan(0.01);
+    expect(result.regression).toBe("constant");
+  });
+
+  it("should not reject a unit root for a random walk", () => {
+    const result = augmentedDickeyFuller({}, randomWalk);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    expect(result.pValue).toBeGreaterThan(0.1);
+  });
+
+  it("should use MacKinnon's finite-sample critical values", () => {
+    const result = augmentedDickeyFuller({ lags: 0 }, stationary.slice(0, 101));
+
+    // 100 observations in the test regression: −2.86154 − 2.8903/100 − 4.234/100² − 40.04/100³
+    expect(result).toMatchObject({ ok: true, lags: 0, criticalValues: { "1%": -3.5, "5%": -2.89, "10%": -2.58 } });
+  });
+
+  it("should give p-values consistent with the critical values", () => {
+    const regressions = ["none", "constant", "trend"] as const;
+    regressions.forEach((regression) => {
+      const result = augmentedDickeyFuller({ regression, precision: 6 }, stationary);
+      if (!result.ok) throw new Error("Expected successful result");
+      expect(result.pValue < 0.05).toBe(result.statistic < result.criticalValues["5%"]);
+    });
+  });
+
+  it("should choose the number of lags by AIC when not supplied", () => {
+    const result = augmentedDickeyFuller({}, stationary);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    // At most 12·(200/100)^¼ = 14 lags are considered.
+    expect(result.lags).toBeGreaterThanOrEqual(0);
+    expect(result.lags).toBeLessThanOrEqual(14);
+  });
+
+  it("should return errors for short series, invalid lags and constant series", () => {
+    expect(augmentedDickeyFuller({}, stationary.slice(0, 5))).toMatchObject({
+      ok: false,
+      errorType: "InsufficientData",
+    });
+    expect(augmentedDickeyFuller({ lags: 10 }, stationary.slice(0, 20))).toMatchObject({
+      ok: false,
+      errorType: "InsufficientData",
+    });
+    expect(augmentedDickeyFuller({ lags: -1 }, stationary)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(augmentedDickeyFuller({ lags: 0 }, stationary.map(([x]) => [x, 3]))).toMatchObject({
+      ok: false,
+      errorType: "MathError",
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DICKEY_FULLER_OPTIONS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type { DickeyFullerOptions, DickeyFullerRegression, DickeyFullerResult } from "./types";
+import { leastSquares, validateSeries } from "./util";
+import { round } from "../regression/util";
+import { normalCdf } from "../distribution";
+
+/**
+ * MacKinnon (1994) response surface coefficients for the p-value of τ with one variable, and the range of τ over
+ * which they apply. Below `star` the small-p polynomial is used, above it the large-p polynomial.
+ */
+const P_VALUE_SURFACES: Record<
+  DickeyFullerRegression,
+  { min: number; max: number; star: number; small: number[]; large: number[] }
+> = {
+  none: {
+    min: -19.04,
+    max: Infinity,
+    star: -1.04,
+    small: [0.6344, 1.2378, 3.2496e-2],
+    large: [0.4797, 9.3557e-1, -0.6999e-1, 3.3066e-2],
+  },
+  constant: {
+    min: -18.83,
+    max: 2.74,
+    star: -1.61,
+    small: [2.1659, 1.4412, 3.8269e-2],
+    large: [1.7339, 9.3202e-1, -1.2745e-1, -1.0368e-2],
+  },
+  trend: {
+    min: -16.18,
+    max: 0.7,
+    star: -2.89,
+    small: [3.2512, 1.6047, 4.9588e-2],
+    large: [2.5261, 6.1654e-1, -3.7956e-1, -6.0285e-2],
+  },
+};
+
+/**
+ * MacKinnon (2010) response surface coefficients for the 1%, 5% and 10% critical values of τ with one variable:
+ * `c = β∞ + β₁/T + β₂/T² + β₃/T³`.
+ */
+const CRITICAL_VALUE_SURFACES: Record<DickeyFullerRegression, number[][]> = {
+  none: [
+    [-2.56574, -2.2358, -3.627, 0],
+    [-1.941, -0.2686, -3.365, 31.223],
+    [-1.61682, 0.2656, -2.714, 25.364],
+  ],
+  constant: [
+    [-3.43035, -6.5393, -16.786, -79.433],
+    [-2.86154, -2.8903, -4.234, -40.04],
+    [-2.56677, -1.5384, -2.809, 0],
+  ],
+  trend: [
+    [-3.95877, -9.0531, -28.428, -134.155],
+    [-3.41049, -4.3904, -9.036, -45.374],
+    [-3.12705, -2.5856, -3.925, -22.38],
+  ],
+};
+
+const polynomial = (coefficients: number[], x: number): number =>
+  coefficients.reduce((sum, coefficient, power) => sum + coefficient * x ** power, 0);
+
+const mackinnonPValue = (tau: number, regression: DickeyFullerRegression): number => {
+  const surface = P_VALUE_SURFACES[regression];
+  if (tau > surface.max) {
+    return 1;
+  }
+  if (tau < surface.min) {
+    return 0;
+  }
+  return normalCdf({ mean: 0, standardDeviation: 1 }, polynomial(tau <= surface.star ? surface.small : surface.large, tau));
+};
+
+/**
+ * Build the test regression of Δy_t on y_(t−1), the deterministic terms and `lags` lagged differences, using the
+ * observations from index `start` onwards.
+ */
+const testRegression = (
+  ys: number[],
+  lags: number,
+  start: number,
+  regression: DickeyFullerRegression
+): { rows: number[][]; response: number[] } => {
+  const rows: number[][] = [];
+  const response: number[] = [];
+  for (let t = start; t < ys.length; t++) {
+    const row = [ys[t - 1]];
+    if (regression !== "none") {
+      row.push(1);
+    }
+    if (regression === "trend") {
+      row.push(t);
+    }
+    for (let i = 1; i <= lags; i++) {
+      row.push(ys[t - i] - ys[t - i - 1]);
+    }
+    rows.push(row);
+    response.push(ys[t] - ys[t - 1]);
+  }
+  return { rows, response };
+};
+
+/**
+ * Performs the augmented Dickey–Fuller test for a unit root in an evenly spaced series. The null hypothesis is that
+ * the series has a unit root (it wanders like a random walk and should be differenced before modelling); a small
+ * p-value is evidence that it is stationary, around a constant or a trend depending on `regression`.
+ *
+ * @param {Partial<DickeyFullerOptions>} [suppliedOptions] - Optional options to override defaults, such as `lags`
+ * (chosen by AIC when null), `regression` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects enough points to estimate the test regression with at least one degree of freedom.
+ * @returns {DickeyFullerResult} A discriminant union representing the success or failure of the test.
+ * - If successful (`ok: true`), it returns the τ `statistic`, MacKinnon's approximate `pValue`, the number of `lags`
+ * used and the `criticalValues`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "InsufficientData", "MathError") and a `message`.
+ *
+ * @example
+ * const result = augmentedDickeyFuller({}, dailyPrices);
+ * if (result.ok && result.pValue > 0.05) {
+ * // Cannot reject a unit root: model the differences, e.g. arima({ order: [1, 1, 0] }, dailyPrices)
+ * }
+ *
+ * @description
+ * **Insights derived from the Augmented Dickey–Fuller Test:**
+ * - **Stationarity:** Shows whether shocks fade (stationary) or persist indefinitely (unit root).
+ * - **Differencing:** Decides the `d` of an ARIMA model; `autoArima` differences until the test rejects.
+ * - **Caution:** The test has low power in short series, so failing to reject is weak evidence of a unit root.
+ */
+export const augmentedDickeyFuller = curry((
+  suppliedOptions: Partial<DickeyFullerOptions>,
+  data: DataPoint[]
+): DickeyFullerResult => {
+  const options: DickeyFullerOptions = {
+    ...DEFAULT_DICKEY_FULLER_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const error = validateSeries(data, "The augmented Dickey–Fuller test", 6);
+  if (error !== null) {
+    return error;
+  }
+
+  const ys = data.map((point) => point[1]);
+  const n = ys.length;
+  const deterministic = options.regression === "none" ? 0 : options.regression === "constant" ? 1 : 2;
+  // Keep at least two residual degrees of freedom after the lagged level, deterministic terms and lags.
+  const largestLag = Math.floor((n - deterministic - 4) / 2);
+
+  if (options.lags !== null && !(Number.isInteger(options.lags) && options.lags >= 0)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The number of lags must be a non-negative integer. Received ${options.lags}.`,
+    };
+  }
+
+  let lags = options.lags ?? Math.min(Math.floor(12 * (n / 100) ** 0.25), largestLag);
+  if (lags > largestLag || lags < 0) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `The augmented Dickey–Fuller test with ${Math.max(lags, 0)} lags requires at least ${2 * Math.max(lags, 0) + deterministic + 4} data points. Received ${n}.`,
+    };
+  }
+
+  if (options.lags === null) {
+    // Compare every lag length on the same observations, then refit the best on all available observations.
+    const maxLag = lags;
+    let bestAic = Infinity;
+    for (let candidate = 0; candidate <= maxLag; candidate++) {
+      const { rows, response } = testRegression(ys, candidate, maxLag + 1, options.regression);
+      const fit = leastSquares(rows, response);
+      if (fit !== null) {
+        const aic = response.length * Math.log(fit.sse / response.length) + 2 * rows[0].length;
+        if (aic < bestAic) {
+          bestAic = aic;
+          lags = candidate;
+        }
+      }
+    }
+  }
+
+  const { rows, response } = testRegression(ys, lags, lags + 1, options.regression);
+  const fit = leastSquares(rows, response);
+  const statistic = fit === null ? NaN : fit.beta[0] / fit.standardErrors[0];
+
+  if (!Number.isFinite(statistic)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "The augmented Dickey–Fuller statistic is undefined. This can occur when the series is constant or follows its deterministic terms exactly.",
+    };
+  }
+
+  const nobs = response.length;
+  const [one, five, ten] = CRITICAL_VALUE_SURFACES[options.regression].map((coefficients) =>
+    round(polynomial(coefficients, 1 / nobs), options.precision)
+  );
+
+  return {
+    ok: true,
+    statistic: round(statistic, options.precision),
+    pValue: mackinnonPValue(statistic, options.regression),
+    lags,
+    regression: options.regression,
+    criticalValues: { "1%": one, "5%": five, "10%": ten },
+  };
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { stl } from "./stl";
+import type { DataPoint } from "../regression/types";
+
+const pattern = [4, 1, -1, -2, -3, 0, 1];
+
+// Eight weeks of daily values: a gentle curve plus a weekly pattern and a little noise.
+const noise = [0.2, -0.1, 0.15, -0.2, 0.05, -0.05, 0.1, -0.15, 0];
+const daily: DataPoint[] = Array.from({ length: 56 }, (_, t) => [
+  t,
+  50 + 0.3 * t + 0.002 * t * t + pattern[t % 7] + noise[t % 9],
+]);
+
+const values = (points: [number, number][]): number[] => points.map(([, y]) => y);
+
+describe("stl", () => {
+  it("should recover the weekly pattern and a smooth trend", () => {
+    const result = stl({ period: 7, precision: 6 }, daily);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.method).toBe("stl");
+    result.seasonalIndices.forEach((index, phase) => expect(index).toBeCloseTo(pattern[phase], 0));
+    values(result.trend).forEach((trend, t) => expect(Math.abs(trend - (50 + 0.3 * t + 0.002 * t * t))).toBeLessThan(0.5));
+    expect(result.seasonalStrength).toBeGreaterThan(0.9);
+    expect(result.trendStrength).toBeGreaterThan(0.9);
+  });
+
+  it("should decompose the series exactly into its components", () => {
+    const result = stl({ period: 7, precision: 10 }, daily);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    daily.forEach(([x, y], t) => {
+      expect(result.trend[t][0]).toBe(x);
+      expect(result.trend[t][1] + result.seasonal[t][1] + result.remainder[t][1]).toBeCloseTo(y, 8);
+    });
+  });
+
+  it("should keep an outlier in the remainder when robust", () => {
+    const spiked = daily.map(([x, y], t): DataPoint => [x, t === 30 ? y + 40 : y]);
+    const plain = stl({ period: 7 }, spiked);
+    const robust = stl({ period: 7, robust: true }, spiked);
+
+    if (!plain.ok || !robust.ok) throw new Error("Expected successful results");
+    expect(robust.remainder[30][1]).toBeGreaterThan(38);
+    expect(robust.remainder[30][1]).toBeGreaterThan(plain.remainder[30][1]);
+    robust.seasonalIndices.forEach((index, phase) => expect(index).toBeCloseTo(pattern[phase], 0));
+  });
+
+  it("should multiply the components with multiplicative seasonality", () => {
+    const factors = [1.3, 1, 0.8, 0.9];
+    const data: DataPoint[] = Array.from({ length: 24 }, (_, t) => [t, (100 + 4 * t) * factors[t % 4]]);
+    const result = stl({ period: 4, seasonality: "multiplicative", precision: 10 }, data);
+
+    if (!result.ok) throw new Error("Expected successful result");
+    data.forEach(([, y], t) => {
+      expect(result.trend[t][1] * result.seasonal[t][1] * result.remainder[t][1]).toBeCloseTo(y, 6);
+    });
+    result.seasonalIndices.forEach((index, phase) => expect(index).toBeCloseTo(factors[phase], 1));
+  });
+
+  it("should detect the period when none is supplied", () => {
+    expect(stl({}, daily)).toMatchObject({ ok: true, period: 7 });
+  });
+
+  it("should return errors for invalid windows and too few periods", () => {
+    expect(stl({ period: 7, seasonalWindow: 8 }, daily)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(stl({ period: 7, trendWindow: 4 }, daily)).toMatchObject({ ok: false, errorType: "InvalidInput" });
+    expect(stl({ period: 7 }, daily.slice(0, 13))).toMatchObject({ ok: false, errorType: "InsufficientData" });
+  });
+});
@@ -0,0 +1,222 @@
+import { curry } from "@facta/fp";
+import { DEFAULT_DECOMPOSITION_OPTIONS } from "./const";
+import type { DataPoint } from "../regression/types";
+import type { DecompositionOptions, DecompositionResult } from "./types";
+import { decompositionResult, resolvePeriod, validateSeries } from "./util";
+
+/**
+ * The number of robustness iterations when `robust` is set, as recommended by Cleveland et al. (1990).
+ */
+const ROBUST_ITERATIONS = 15;
+
+const nextOdd = (value: number): number => {
+  const whole = Math.ceil(value);
+  return whole % 2 === 0 ? whole + 1 : whole;
+};
+
+const tricube = (u: number): number => (u < 1 ? (1 - u * u * u) ** 3 : 0);
+
+/**
+ * Evaluate a locally linear loess fit of `ys` (at positions 0, 1, …) at position `x`, using the `span` nearest
+ * values with tricube distance weights multiplied by `weights`. Positions outside the data extrapolate the local line.
+ */
+const loessAt = (ys: number[], weights: number[], span: number, x: number): number => {
+  const n = ys.length;
+  const width = Math.min(span, n);
+  const left = Math.min(Math.max(0, Math.round(x - (width - 1) / 2)), n - width);
+  const right = left + width - 1;
+  // When the span exceeds the data, widen the neighbourhood as if the missing points were present.
+  const radius = Math.max(x - left, right - x, 1) + (span > n ? Math.floor((span - n) / 2) : 0);
+
+  let total = 0;
+  let meanX = 0;
+  const local: number[] = [];
+  for (let i = left; i <= right; i++) {
+    const weight = tricube(Math.abs(i - x) / (radius * (1 + 1e-10))) * weights[i];
+    local.push(weight);
+    total += weight;
+    meanX += weight * i;
+  }
+  if (total <= 0) {
+    // Every neighbour was rejected as an outlier; fall back to the unweighted neighbourhood.
+    return weights.every((weight) => weight === 1) ? NaN : loessAt(ys, ys.map(() => 1), span, x);
+  }
+  meanX /= total;
+
+  let spread = 0;
+  for (let i = left; i <= right; i++) {
+    spread += local[i - left] * (i - meanX) ** 2;
+  }
+  const slopeFactor = spread > 1e-12 * radius * radius * total ? (x - meanX) / spread : 0;
+
+  let fitted = 0;
+  for (let i = left; i <= right; i++) {
+    fitted += local[i - left] * (1 / total + slopeFactor * (i - meanX)) * ys[i];
+  }
+  return fitted;
+};
+
+const movingAverage = (values: number[], window: number): number[] =>
+  Array.from({ length: values.length - window + 1 }, (_, i) => {
+    let sum = 0;
+    for (let j = i; j < i + window; j++) {
+      sum += values[j];
+    }
+    return sum / window;
+  });
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Run the STL inner loop: alternately estimate the seasonal component by smoothing each cycle-subseries and the
+ * trend by smoothing the deseasonalised series.
+ */
+const innerLoop = (
+  ys: number[],
+  period: number,
+  spans: { seasonal: number; trend: number; lowPass: number },
+  weights: number[],
+  iterations: number,
+  start: { trend: number[] }
+): { trend: number[]; seasonal: number[] } => {
+  const n = ys.length;
+  let trend = start.trend;
+  let seasonal = ys.map(() => 0);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const detrended = ys.map((y, t) => y - trend[t]);
+
+    // Smooth each cycle-subseries, extended by one cycle at each end. cycle[i] is the value at time i − period.
+    const cycle: number[] = Array.from({ length: n + 2 * period }, () => 0);
+    for (let phase = 0; phase < period; phase++) {
+      const times: number[] = [];
+      for (let t = phase; t < n; t += period) {
+        times.push(t);
+      }
+      const values = times.map((t) => detrended[t]);
+      const subseriesWeights = times.map((t) => weights[t]);
+      for (let j = -1; j <= times.length; j++) {
+        cycle[phase + (j + 1) * period] = loessAt(values, subseriesWeights, spans.seasonal, j);
+      }
+    }
+
+    // Low-pass filter the smoothed cycle-subseries so that the seasonal component carries no trend.
+    const filtered = movingAverage(movingAverage(movingAverage(cycle, period), period), 3);
+    const ones = filtered.map(() => 1);
+    const lowPass = filtered.map((_, t) => loessAt(filtered, ones, spans.lowPass, t));
+    seasonal = ys.map((_, t) => cycle[t + period] - lowPass[t]);
+
+    const deseasonalised = ys.map((y, t) => y - seasonal[t]);
+    trend = ys.map((_, t) => loessAt(deseasonalised, weights, spans.trend, t));
+  }
+
+  return { trend, seasonal };
+};
+
+/**
+ * Performs STL (Seasonal-Trend decomposition using Loess; Cleveland et al., 1990) of an evenly spaced series into
+ * trend, seasonal and remainder components. Unlike classical decomposition, the seasonal pattern may change gradually
+ * from cycle to cycle, the trend is estimated all the way to the ends of the series, and the optional robust mode
+ * keeps outliers out of the trend and seasonal components.
+ *
+ * Multiplicative seasonality is handled by decomposing the logarithm of the series and exponentiating the components.
+ *
+ * @param {Partial<DecompositionOptions>} [suppliedOptions] - Optional options to override defaults, such as `period`
+ * (detected from the data when null), `seasonality`, `seasonalWindow`, `trendWindow`, `robust` and `precision`.
+ * @param {DataPoint[]} data - The series as `[x, y]` points with x-values increasing in equal steps.
+ * Expects at least two full periods, and positive values for multiplicative seasonality.
+ * @returns {DecompositionResult} A discriminant union representing the success or failure of the decomposition.
+ * - If successful (`ok: true`), it returns the `trend`, `seasonal` and `remainder` components, the `seasonalIndices`
+ * (the seasonal component averaged over cycles) and the `seasonalStrength` and `trendStrength`.
+ * - If unsuccessful (`ok: false`), it provides an `errorType` (e.g., "NoSeasonality", "InvalidInput") and a `message`.
+ *
+ * @example
+ * // Weekly pattern in daily sign-ups, resistant to launch-day spikes
+ * const result = stl({ period: 7, robust: true }, dailySignups);
+ * if (result.ok && result.seasonalStrength > 0.6) {
+ * console.log("Strong weekly pattern", result.seasonalIndices);
+ * }
+ *
+ * @description
+ * **Insights derived from STL:**
+ * - **Seasonal Strength:** `seasonalStrength` near 1 means the cycle dominates the noise, so a straight trend line
+ * will understate how well the data can be explained.
+ * - **Evolving Seasonality:** The seasonal component shows whether peaks are growing, shrinking or shifting.
+ * - **Anomalies:** Large values in the robust `remainder` are unusual even after allowing for trend and season.
+ */
+export const stl = curry((
+  suppliedOptions: Partial<DecompositionOptions>,
+  data: DataPoint[]
+): DecompositionResult => {
+  const options: DecompositionOptions = {
+    ...DEFAULT_DECOMPOSITION_OPTIONS,
+    ...suppliedOptions,
+  };
+
+  const period = resolvePeriod(data, options);
+  if (typeof period !== "number") {
+    return period;
+  }
+
+  const error = validateSeries(data, "STL decomposition", 2 * period);
+  if (error !== null) {
+    return error;
+  }
+
+  const { seasonalWindow } = options;
+  if (!(Number.isInteger(seasonalWindow) && seasonalWindow >= 7 && seasonalWindow % 2 === 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The seasonal window must be an odd integer of at least 7. Received ${seasonalWindow}.`,
+    };
+  }
+
+  const trendWindow = options.trendWindow ?? nextOdd((1.5 * period) / (1 - 1.5 / seasonalWindow));
+  if (!(Number.isInteger(trendWindow) && trendWindow >= 3 && trendWindow % 2 === 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The trend window must be an odd integer of at least 3. Received ${trendWindow}.`,
+    };
+  }
+
+  const multiplicative = options.seasonality === "multiplicative";
+  const nonPositiveIndex = data.findIndex((point) => point[1] <= 0);
+  if (multiplicative && nonPositiveIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Multiplicative seasonality requires positive values, but the value at index ${nonPositiveIndex} is ${data[nonPositiveIndex][1]}. Use additive seasonality instead.`,
+    };
+  }
+
+  const ys = data.map((point) => (multiplicative ? Math.log(point[1]) : point[1]));
+  const spans = { seasonal: seasonalWindow, trend: trendWindow, lowPass: nextOdd(period) };
+  const innerIterations = options.robust ? 1 : 2;
+  const outerIterations = options.robust ? ROBUST_ITERATIONS : 0;
+
+  let weights = ys.map(() => 1);
+  let components = innerLoop(ys, period, spans, weights, innerIterations, { trend: ys.map(() => 0) });
+
+  for (let iteration = 0; iteration < outerIterations; iteration++) {
+    const residuals = ys.map((y, t) => Math.abs(y - components.trend[t] - components.seasonal[t]));
+    const cutoff = 6 * median(residuals);
+    if (cutoff === 0) {
+      break;
+    }
+    // Bisquare weights: residuals beyond six median absolute residuals get no weight.
+    weights = residuals.map((residual) => (residual < cutoff ? (1 - (residual / cutoff) ** 2) ** 2 : 0));
+    components = innerLoop(ys, period, spans, weights, innerIterations, components);
+  }
+
+  const { trend, seasonal } = components;
+  const remainder = ys.map((y, t) => y - trend[t] - seasonal[t]);
+  const restore = (values: number[]): number[] => (multiplicative ? values.map(Math.exp) : values);
+
+  return decompositionResult("stl", data, period, restore(trend), restore(seasonal), restore(remainder), options);
+});
@@ -0,0 +1,460 @@
+import type { PredictedPoint } from "../regression/types";
+
+/**
+ * The time-series smoothing methods.
+ */
+export type TimeSeriesMethod =
+  | "simpleMovingAverage"
+  | "weightedMovingAverage"
+  | "exponentialMovingAverage"
+  | "holt"
+  | "holtWinters";
+
+/**
+ * The successful output of a time-series smoothing method.
+ */
+export interface TimeSeriesSuccess {
+  ok: true;
+  method: TimeSeriesMethod;
+  /**
+   * The smoothed series as `[x, y]` points: the model's estimate of the underlying value at each observation after
+   * taking that observation into account. Moving averages start once a full window is available.
+   */
+  smoothed: PredictedPoint[];
+  /**
+   * Forecasts for the `horizon` steps after the last observation, at x-values continuing the series' spacing.
+   */
+  forecast: PredictedPoint[];
+  /**
+   * The parameters used, e.g. `{ window }` for moving averages or `{ alpha, beta, gamma }` for exponential smoothing.
+   * Smoothing parameters that were not supplied are fitted by minimising the one-step-ahead squared error.
+   */
+  parameters: Record<string, number>;
+  /**
+   * The root mean squared error of the in-sample one-step-ahead forecasts, for comparing methods and parameters.
+   * NaN when the series is too short to make any one-step-ahead forecast.
+   */
+  rmse: number;
+}
+
+/**
+ * Interface for an unsuccessful time-series method, with the same shape as `RegressionError`.
+ */
+export interface TimeSeriesError {
+  ok: false;
+  /**
+   * The type of error that occurred.
+   * - `InsufficientData`: The series is too short for the method, e.g. shorter than two seasons for Holt–Winters.
+   * - `InvalidInput`: A value is not finite, or an option is out of range.
+   * - `IrregularSeries`: The x-values are not strictly increasing at a constant spacing.
+   * - `NoSeasonality`: No seasonal period was supplied and none could be detected.
+   * - `ConvergenceFailure`: The model parameters could not be estimated.
+   * - `MathError`: The fit produced non-finite values.
+   */
+  errorType:
+    | "InsufficientData"
+    | "InvalidInput"
+    | "IrregularSeries"
+    | "NoSeasonality"
+    | "ConvergenceFailure"
+    | "MathError";
+  /**
+   * A message describing the error.
+   */
+  message: string;
+}
+
+/**
+ * Discriminant union type for the result of a time-series method.
+ */
+export type TimeSeriesResult = TimeSeriesSuccess | TimeSeriesError;
+
+/**
+ * Options for time-series methods.
+ */
+export interface TimeSeriesOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The number of observations averaged by moving averages.
+   */
+  window: number;
+  /**
+   * The weights of a weighted moving average, oldest first, one per observation in the window.
+   * `null` uses linearly increasing weights `1, 2, …, window`, so the most recent observation counts most.
+   */
+  weights: number[] | null;
+  /**
+   * The level smoothing parameter, between 0 and 1. Higher values react faster to recent observations.
+   * `null` fits it to the data.
+   */
+  alpha: number | null;
+  /**
+   * The trend smoothing parameter of `holt` and `holtWinters`, between 0 and 1. `null` fits it to the data.
+   */
+  beta: number | null;
+  /**
+   * The seasonal smoothing parameter of `holtWinters`, between 0 and 1. `null` fits it to the data.
+   */
+  gamma: number | null;
+  /**
+   * The number of observations in one seasonal cycle, e.g. 7 for daily data with a weekly pattern or 12 for monthly data.
+   * Required by `holtWinters`.
+   */
+  period: number | null;
+  /**
+   * Whether the seasonal pattern of `holtWinters` adds a fixed amount (`additive`) or scales with the level (`multiplicative`).
+   */
+  seasonality: "additive" | "multiplicative";
+  /**
+   * The number of steps ahead to forecast.
+   */
+  horizon: number;
+}
+
+/**
+ * The seasonal decomposition methods.
+ */
+export type DecompositionMethod = "classical" | "stl";
+
+/**
+ * The successful output of a seasonal decomposition. With additive seasonality `y = trend + seasonal + remainder`;
+ * with multiplicative seasonality `y = trend × seasonal × remainder`.
+ */
+export interface DecompositionSuccess {
+  ok: true;
+  method: DecompositionMethod;
+  /**
+   * The seasonal period used, either supplied or detected.
+   */
+  period: number;
+  seasonality: "additive" | "multiplicative";
+  /**
+   * The slowly varying trend component as `[x, y]` points. Classical decomposition cannot estimate the trend for the
+   * first and last half period, where it is NaN.
+   */
+  trend: PredictedPoint[];
+  /**
+   * The seasonal component as `[x, y]` points.
+   */
+  seasonal: PredictedPoint[];
+  /**
+   * What remains after removing the trend and seasonal components, as `[x, y]` points. NaN where the trend is NaN.
+   */
+  remainder: PredictedPoint[];
+  /**
+   * The average seasonal effect at each position in the cycle, where position `i` covers observations `i`,
+   * `i + period`, `i + 2·period`, …. Additive indices sum to zero; multiplicative indices average one.
+   */
+  seasonalIndices: number[];
+  /**
+   * The strength of seasonality, from 0 (none) to 1: `max(0, 1 − Var(remainder) / Var(seasonal + remainder))`.
+   * Multiplicative components are measured on the log scale.
+   */
+  seasonalStrength: number;
+  /**
+   * The strength of the trend, from 0 (none) to 1: `max(0, 1 − Var(remainder) / Var(trend + remainder))`.
+   */
+  trendStrength: number;
+}
+
+/**
+ * Discriminant union type for the result of a seasonal decomposition.
+ */
+export type DecompositionResult = DecompositionSuccess | TimeSeriesError;
+
+/**
+ * Options for seasonal decomposition and period detection.
+ */
+export interface DecompositionOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The number of observations in one seasonal cycle, as in `RegressionOptions`.
+   * `null` detects it from the data with `detectPeriod`.
+   */
+  period: number | null;
+  /**
+   * Whether the seasonal pattern adds a fixed amount (`additive`) or scales with the trend (`multiplicative`).
+   */
+  seasonality: "additive" | "multiplicative";
+  /**
+   * The span, in cycles, of the loess smoother applied to each position of the cycle by `stl`. An odd number of at
+   * least 7; larger values give a seasonal pattern that changes more slowly from cycle to cycle.
+   */
+  seasonalWindow: number;
+  /**
+   * The span, in observations, of the loess smoother that estimates the trend in `stl`. An odd number, or `null` for
+   * the smallest odd number of at least `1.5·period / (1 − 1.5 / seasonalWindow)`.
+   */
+  trendWindow: number | null;
+  /**
+   * Whether `stl` down-weights observations with large remainders, so that outliers do not distort the components.
+   */
+  robust: boolean;
+  /**
+   * The longest period `detectPeriod` considers, or `null` for half the length of the series.
+   */
+  maxPeriod: number | null;
+  /**
+   * The confidence level at which `detectPeriod` requires the autocorrelation at the period to be significant.
+   */
+  confidenceLevel: number;
+}
+
+/**
+ * The successful output of period detection.
+ */
+export interface PeriodSuccess {
+  ok: true;
+  /**
+   * The detected number of observations in one seasonal cycle.
+   */
+  period: number;
+  /**
+   * The autocorrelation of the detrended series at the detected period, between -1 and 1.
+   */
+  autocorrelation: number;
+}
+
+/**
+ * Discriminant union type for the result of period detection.
+ */
+export type PeriodResult = PeriodSuccess | TimeSeriesError;
+
+/**
+ * The successful output of `acf` or `pacf`.
+ */
+export interface AutocorrelationSuccess {
+  ok: true;
+  /**
+   * The lags, `1, 2, …, maxLag`.
+   */
+  lags: number[];
+  /**
+   * The (partial) autocorrelation at each lag, between -1 and 1.
+   */
+  values: number[];
+  /**
+   * The approximate significance bound `z / √n`: values outside `±bound` are significantly different from zero
+   * at `confidenceLevel` if the series is white noise.
+   */
+  bound: number;
+}
+
+/**
+ * Discriminant union type for the result of `acf` or `pacf`.
+ */
+export type AutocorrelationResult = AutocorrelationSuccess | TimeSeriesError;
+
+/**
+ * Options for `acf` and `pacf`.
+ */
+export interface AutocorrelationOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The largest lag to compute, or `null` for `min(10·log₁₀(n), n − 1)`.
+   */
+  maxLag: number | null;
+  /**
+   * The confidence level of the significance bound.
+   */
+  confidenceLevel: number;
+}
+
+/**
+ * The successful output of the Ljung–Box test.
+ */
+export interface LjungBoxSuccess {
+  ok: true;
+  /**
+   * The Q statistic, `n(n + 2) Σ r_k² / (n − k)` over lags `1…lags`.
+   */
+  statistic: number;
+  /**
+   * The degrees of freedom of the chi-squared reference distribution, `lags − fittedParameters`.
+   */
+  df: number;
+  /**
+   * The probability of autocorrelations at least this large if the series is white noise. Not rounded.
+   */
+  pValue: number;
+  /**
+   * The number of lags tested.
+   */
+  lags: number;
+}
+
+/**
+ * Discriminant union type for the result of the Ljung–Box test.
+ */
+export type LjungBoxResult = LjungBoxSuccess | TimeSeriesError;
+
+/**
+ * Options for the Ljung–Box test.
+ */
+export interface LjungBoxOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The number of lags to test, or `null` for `min(10, n / 5)`.
+   */
+  lags: number | null;
+  /**
+   * The number of parameters estimated by the model whose residuals are tested, e.g. `p + q` for ARIMA residuals.
+   * Subtracted from the degrees of freedom.
+   */
+  fittedParameters: number;
+}
+
+/**
+ * The deterministic terms included in the augmented Dickey–Fuller regression.
+ * - `none`: no constant, for series that fluctuate around zero.
+ * - `constant`: a constant, for series that fluctuate around a non-zero mean.
+ * - `trend`: a constant and a linear time trend, for series that may be stationary around a trend.
+ */
+export type DickeyFullerRegression = "none" | "constant" | "trend";
+
+/**
+ * The successful output of the augmented Dickey–Fuller test.
+ */
+export interface DickeyFullerSuccess {
+  ok: true;
+  /**
+   * The τ statistic: the t statistic of the lagged level in the test regression. More negative values are stronger
+   * evidence of stationarity.
+   */
+  statistic: number;
+  /**
+   * MacKinnon's approximate probability of a statistic this negative if the series has a unit root. Not rounded.
+   */
+  pValue: number;
+  /**
+   * The number of lagged differences included in the test regression.
+   */
+  lags: number;
+  regression: DickeyFullerRegression;
+  /**
+   * MacKinnon's finite-sample critical values of τ at the 1%, 5% and 10% levels.
+   */
+  criticalValues: { "1%": number; "5%": number; "10%": number };
+}
+
+/**
+ * Discriminant union type for the result of the augmented Dickey–Fuller test.
+ */
+export type DickeyFullerResult = DickeyFullerSuccess | TimeSeriesError;
+
+/**
+ * Options for the augmented Dickey–Fuller test.
+ */
+export interface DickeyFullerOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The number of lagged differences, or `null` to choose by AIC from up to `12·(n / 100)^¼` lags.
+   */
+  lags: number | null;
+  /**
+   * The deterministic terms of the test regression.
+   */
+  regression: DickeyFullerRegression;
+}
+
+/**
+ * The successful output of an ARIMA fit.
+ */
+export interface ArimaSuccess {
+  ok: true;
+  method: "arima";
+  /**
+   * The model order `[p, d, q]`: autoregressive terms, differences and moving-average terms.
+   */
+  order: [number, number, number];
+  /**
+   * The autoregressive coefficients φ₁…φₚ.
+   */
+  ar: number[];
+  /**
+   * The moving-average coefficients θ₁…θ_q.
+   */
+  ma: number[];
+  /**
+   * The mean of the (differenced) series, or `null` when the model has no mean.
+   */
+  mean: number | null;
+  /**
+   * The variance of the one-step-ahead errors.
+   */
+  sigma2: number;
+  /**
+   * The conditional Gaussian log-likelihood.
+   */
+  logLikelihood: number;
+  /**
+   * Akaike's information criterion; lower values indicate a better trade-off between fit and complexity.
+   */
+  aic: number;
+  /**
+   * The in-sample one-step-ahead predictions as `[x, y]` points, from the first observation the model can predict.
+   */
+  fitted: PredictedPoint[];
+  /**
+   * Point forecasts for the `horizon` steps after the last observation.
+   */
+  forecast: PredictedPoint[];
+  /**
+   * The lower bounds of the forecast prediction intervals at `confidenceLevel`.
+   */
+  lower: PredictedPoint[];
+  /**
+   * The upper bounds of the forecast prediction intervals at `confidenceLevel`.
+   */
+  upper: PredictedPoint[];
+}
+
+/**
+ * Discriminant union type for the result of an ARIMA fit.
+ */
+export type ArimaResult = ArimaSuccess | TimeSeriesError;
+
+/**
+ * Options for `arima` and `autoArima`.
+ */
+export interface ArimaOptions {
+  /**
+   * The precision for rounding numerical results.
+   */
+  precision: number;
+  /**
+   * The model order `[p, d, q]` fitted by `arima`.
+   */
+  order: [number, number, number];
+  /**
+   * Whether to estimate a mean for the differenced series, or `null` to include one only when `d` is 0.
+   */
+  includeMean: boolean | null;
+  /**
+   * The confidence level of the forecast prediction intervals.
+   */
+  confidenceLevel: number;
+  /**
+   * The number of steps ahead to forecast.
+   */
+  horizon: number;
+  /**
+   * The largest `p`, `d` and `q` considered by `autoArima`.
+   */
+  maxOrder: [number, number, number];
+}
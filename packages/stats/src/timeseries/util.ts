@@ -0,0 +1,466 @@
+import type { DataPoint, PredictedPoint } from "../regression/types";
+import type {
+  DecompositionMethod,
+  DecompositionOptions,
+  DecompositionResult,
+  PeriodResult,
+  TimeSeriesError,
+  TimeSeriesMethod,
+  TimeSeriesOptions,
+  TimeSeriesSuccess,
+} from "./types";
+import { round, isValid } from "../regression/util";
+import { nelderMead } from "../optimize";
+import { normalQuantile } from "../distribution";
+import { qr, applyQTranspose, solveUpperTriangular, invertUpperTriangular } from "../linalg";
+
+/**
+ * The largest deviation of a step between consecutive x-values from the average step, relative to the average step,
+ * before the series is treated as irregular. Allows for rounding in timestamps and decimal x-values.
+ */
+const STEP_TOLERANCE = 1e-6;
+
+/**
+ * The fewest observations from which a period can be detected: two cycles of the shortest period, 2, plus two more.
+ */
+const MINIMUM_PERIOD_POINTS = 6;
+
+/**
+ * Check that a forecast horizon is a positive integer.
+ *
+ * @param {number} horizon - The number of steps to forecast.
+ * @returns {TimeSeriesError | null} - The error to return, or null if the horizon is valid.
+ */
+export function validateHorizon(horizon: number): TimeSeriesError | null {
+  if (!(Number.isInteger(horizon) && horizon >= 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The forecast horizon must be a positive integer. Received ${horizon}.`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Check that a series is long enough, finite and evenly spaced.
+ *
+ * @param {DataPoint[]} data - The series.
+ * @param {string} name - The name of the method, used in messages.
+ * @param {number} minimum - The minimum number of points the method requires.
+ * @returns {TimeSeriesError | null} - The error to return, or null if the series is valid.
+ */
+export function validateSeries(data: DataPoint[], name: string, minimum: number): TimeSeriesError | null {
+  if (data.length < minimum) {
+    return {
+      ok: false,
+      errorType: "InsufficientData",
+      message: `${name} requires at least ${minimum} data points (x, y). Received ${data.length}.`,
+    };
+  }
+
+  const invalidIndex = data.findIndex(([x, y]) => !isValid(x) || !isValid(y));
+  if (invalidIndex !== -1) {
+    const [x, y] = data[invalidIndex];
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `Data point at index ${invalidIndex} contains non-finite values (${x}, ${y}). ${name} requires finite numerical inputs.`,
+    };
+  }
+
+  const step = seriesStep(data);
+  const irregularIndex = data.findIndex(
+    (point, i) => i > 0 && !(Math.abs(point[0] - data[i - 1][0] - step) <= STEP_TOLERANCE * step)
+  );
+  if (!(step > 0) || irregularIndex !== -1) {
+    return {
+      ok: false,
+      errorType: "IrregularSeries",
+      message: `${name} requires x-values that increase in equal steps${irregularIndex !== -1 ? `, but the step before index ${irregularIndex} differs from the others` : ""}. Fill gaps or resample the series to a regular interval first.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check that a supplied smoothing parameter lies between 0 and 1.
+ *
+ * @param {string} name - The name of the parameter.
+ * @param {number | null} value - The supplied value, or null if it is to be fitted.
+ * @returns {TimeSeriesError | null} - The error to return, or null if the parameter is valid.
+ */
+export function validateSmoothing(name: string, value: number | null): TimeSeriesError | null {
+  if (value !== null && !(value >= 0 && value <= 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The smoothing parameter ${name} must be between 0 and 1. Received ${value}.`,
+    };
+  }
+  return null;
+}
+
+/**
+ * The average spacing between consecutive x-values.
+ *
+ * @param {DataPoint[]} data - A series with at least two points.
+ * @returns {number} - The step between x-values.
+ */
+export function seriesStep(data: DataPoint[]): number {
+  return (data[data.length - 1][0] - data[0][0]) / (data.length - 1);
+}
+
+/**
+ * Fit the smoothing parameters that were not supplied by minimising an error function with Nelder–Mead.
+ * Free parameters are searched on the logit scale, so every candidate lies strictly between 0 and 1.
+ *
+ * @param {(parameters: number[]) => number} sse - The sum of squared one-step-ahead errors for a set of parameters.
+ * @param {(number | null)[]} supplied - The supplied parameters, with null for those to fit.
+ * @returns {number[]} - The supplied parameters with the fitted values filled in.
+ */
+export function fitSmoothing(sse: (parameters: number[]) => number, supplied: (number | null)[]): number[] {
+  const free = supplied.flatMap((value, i) => (value === null ? [i] : []));
+  if (free.length === 0) {
+    return supplied as number[];
+  }
+
+  const complete = (logits: number[]): number[] => {
+    const parameters = supplied.slice() as number[];
+    free.forEach((index, j) => {
+      parameters[index] = 1 / (1 + Math.exp(-logits[j]));
+    });
+    return parameters;
+  };
+
+  const { point } = nelderMead((logits) => sse(complete(logits)), free.map(() => 0), { step: 1 });
+  return complete(point);
+}
+
+/**
+ * Root mean squared error of a set of one-step-ahead forecast errors.
+ *
+ * @param {number[]} errors - The forecast errors.
+ * @returns {number} - The RMSE, or NaN when there are no errors.
+ */
+export function rootMeanSquare(errors: number[]): number {
+  return errors.length === 0
+    ? NaN
+    : Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length);
+}
+
+/**
+ * Round a fitted series and its forecasts into a successful result, or report a math error if any value is non-finite.
+ *
+ * @param {TimeSeriesMethod} method - The smoothing method.
+ * @param {DataPoint[]} data - The original series.
+ * @param {number} offset - The index of the first observation with a smoothed value.
+ * @param {number[]} smoothed - The smoothed values from `offset` onwards.
+ * @param {(step: number) => number} forecast - The forecast `step` steps after the last observation.
+ * @param {Record<string, number>} parameters - The parameters used.
+ * @param {number[]} errors - The in-sample one-step-ahead forecast errors.
+ * @param {TimeSeriesOptions} options - The resolved options.
+ * @returns {TimeSeriesSuccess | TimeSeriesError} - The result.
+ */
+export function seriesResult(
+  method: TimeSeriesMethod,
+  data: DataPoint[],
+  offset: number,
+  smoothed: number[],
+  forecast: (step: number) => number,
+  parameters: Record<string, number>,
+  errors: number[],
+  options: TimeSeriesOptions
+): TimeSeriesSuccess | TimeSeriesError {
+  const step = seriesStep(data);
+  const lastX = data[data.length - 1][0];
+  const forecasts = Array.from({ length: options.horizon }, (_, i) => forecast(i + 1));
+
+  if (!smoothed.every(Number.isFinite) || !forecasts.every(Number.isFinite)) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Smoothing resulted in non-finite values (NaN or Infinity). This can occur with extremely large values.",
+    };
+  }
+
+  const precision = options.precision;
+  return {
+    ok: true,
+    method,
+    smoothed: smoothed.map((value, i): PredictedPoint => [
+      round(data[offset + i][0], precision),
+      round(value, precision),
+    ]),
+    forecast: forecasts.map((value, i): PredictedPoint => [
+      round(lastX + (i + 1) * step, precision),
+      round(value, precision),
+    ]),
+    parameters: Object.fromEntries(
+      Object.entries(parameters).map(([name, value]) => [name, round(value, precision)])
+    ),
+    rmse: round(rootMeanSquare(errors), precision),
+  };
+}
+
+/**
+ * The sample autocorrelation function of a sequence of values, `r_k = Σ (y_t − ȳ)(y_(t+k) − ȳ) / Σ (y_t − ȳ)²`.
+ *
+ * @param {number[]} values - The values, in order.
+ * @param {number} maxLag - The largest lag to compute.
+ * @returns {number[]} - The autocorrelations at lags `0, 1, …, maxLag`; all NaN when the values are constant.
+ */
+export function autocorrelations(values: number[], maxLag: number): number[] {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const centred = values.map((value) => value - mean);
+  const denominator = centred.reduce((sum, value) => sum + value * value, 0);
+  return Array.from({ length: maxLag + 1 }, (_, lag) => {
+    let numerator = 0;
+    for (let t = 0; t + lag < centred.length; t++) {
+      numerator += centred[t] * centred[t + lag];
+    }
+    return denominator === 0 ? NaN : numerator / denominator;
+  });
+}
+
+/**
+ * Remove the least-squares straight line through a sequence of values indexed `0, 1, …`.
+ *
+ * @param {number[]} values - The values, in order.
+ * @returns {number[]} - The residuals from the line.
+ */
+export function detrend(values: number[]): number[] {
+  const n = values.length;
+  const meanT = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let stt = 0;
+  let sty = 0;
+  values.forEach((value, t) => {
+    stt += (t - meanT) ** 2;
+    sty += (t - meanT) * (value - meanY);
+  });
+  const slope = stt === 0 ? 0 : sty / stt;
+  return values.map((value, t) => value - meanY - slope * (t - meanT));
+}
+
+/**
+ * The population variance of the finite values in a sequence.
+ */
+const finiteVariance = (values: number[]): number => {
+  const finite = values.filter(Number.isFinite);
+  const mean = finite.reduce((sum, value) => sum + value, 0) / finite.length;
+  return finite.reduce((sum, value) => sum + (value - mean) ** 2, 0) / finite.length;
+};
+
+/**
+ * The strength of a component relative to the remainder, `max(0, 1 − Var(remainder) / Var(component + remainder))`.
+ */
+const componentStrength = (component: number[], remainder: number[]): number => {
+  const combined = finiteVariance(component.map((value, i) => value + remainder[i]));
+  return combined === 0 ? 0 : Math.max(0, 1 - finiteVariance(remainder) / combined);
+};
+
+/**
+ * Round the components of a decomposition into a successful result, computing the seasonal indices and strengths,
+ * or report a math error if a component that should be defined is not finite.
+ *
+ * @param {DecompositionMethod} method - The decomposition method.
+ * @param {DataPoint[]} data - The original series.
+ * @param {number} period - The seasonal period.
+ * @param {number[]} trend - The trend component, NaN where it is undefined.
+ * @param {number[]} seasonal - The seasonal component.
+ * @param {number[]} remainder - The remainder, NaN where the trend is undefined.
+ * @param {DecompositionOptions} options - The resolved options.
+ * @returns {DecompositionResult} - The result.
+ */
+export function decompositionResult(
+  method: DecompositionMethod,
+  data: DataPoint[],
+  period: number,
+  trend: number[],
+  seasonal: number[],
+  remainder: number[],
+  options: DecompositionOptions
+): DecompositionResult {
+  if (!seasonal.every(Number.isFinite) || trend.some((value, i) => Number.isFinite(value) !== Number.isFinite(remainder[i]))) {
+    return {
+      ok: false,
+      errorType: "MathError",
+      message:
+        "Decomposition resulted in non-finite values (NaN or Infinity). This can occur with extremely large values.",
+    };
+  }
+
+  const multiplicative = options.seasonality === "multiplicative";
+  const scale = (values: number[]): number[] => (multiplicative ? values.map(Math.log) : values);
+  const seasonalIndices = Array.from({ length: period }, (_, phase) => {
+    const values = seasonal.filter((_, t) => t % period === phase);
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  });
+  const { precision } = options;
+  const points = (values: number[]): PredictedPoint[] =>
+    values.map((value, t) => [round(data[t][0], precision), round(value, precision)]);
+
+  return {
+    ok: true,
+    method,
+    period,
+    seasonality: options.seasonality,
+    trend: points(trend),
+    seasonal: points(seasonal),
+    remainder: points(remainder),
+    seasonalIndices: seasonalIndices.map((value) => round(value, precision)),
+    seasonalStrength: round(componentStrength(scale(seasonal), scale(remainder)), precision),
+    trendStrength: round(componentStrength(scale(trend), scale(remainder)), precision),
+  };
+}
+
+/**
+ * Detect the seasonal period of a series from the shortest significant peak in the autocorrelation function of the
+ * detrended series whose multiples also peak. See `detectPeriod`.
+ *
+ * @param {DataPoint[]} data - The series.
+ * @param {DecompositionOptions} options - The resolved options.
+ * @returns {PeriodResult} - The detected period, or an error.
+ */
+export function seasonalPeriod(data: DataPoint[], options: DecompositionOptions): PeriodResult {
+  if (!(options.confidenceLevel > 0 && options.confidenceLevel < 1)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The confidence level must be between 0 and 1 (exclusive). Received ${options.confidenceLevel}.`,
+    };
+  }
+
+  const error = validateSeries(data, "Period detection", MINIMUM_PERIOD_POINTS);
+  if (error !== null) {
+    return error;
+  }
+
+  const n = data.length;
+  const maxPeriod = Math.min(options.maxPeriod ?? Math.floor(n / 2), n - 2);
+  if (!(Number.isInteger(maxPeriod) && maxPeriod >= 2)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The maximum period must be an integer of at least 2. Received ${options.maxPeriod}.`,
+    };
+  }
+
+  const acf = autocorrelations(detrend(data.map((point) => point[1])), maxPeriod + 1);
+  const threshold = normalQuantile({ mean: 0, standardDeviation: 1 }, 1 - (1 - options.confidenceLevel) / 2) / Math.sqrt(n);
+
+  // Multiples of the period also peak, and with noise one of them can peak higher than the period itself. The period is
+  // therefore the shortest significant peak whose multiples within range are also peaks of the autocorrelation,
+  // allowing them to drift by one lag.
+  const isPeak = (lag: number): boolean => acf[lag] > 0 && acf[lag] > acf[lag - 1] && acf[lag] >= acf[lag + 1];
+  const peaks: number[] = [];
+  for (let lag = 2; lag <= maxPeriod; lag++) {
+    if (isPeak(lag) && acf[lag] > threshold) {
+      peaks.push(lag);
+    }
+  }
+
+  const repeats = (lag: number): boolean => {
+    for (let multiple = 2 * lag; multiple < maxPeriod; multiple += lag) {
+      if (![multiple - 1, multiple, multiple + 1].some(isPeak)) {
+        return false;
+      }
+    }
+    return true;
+  };
+  const period = peaks.find(repeats) ?? 0;
+
+  if (period === 0) {
+    return {
+      ok: false,
+      errorType: "NoSeasonality",
+      message: `No seasonal cycle of up to ${maxPeriod} observations was found: no autocorrelation peak is significant at the ${options.confidenceLevel * 100}% level.`,
+    };
+  }
+
+  return {
+    ok: true,
+    period,
+    autocorrelation: round(acf[period], options.precision),
+  };
+}
+
+/**
+ * Validate the supplied period, or detect one when it is null.
+ *
+ * @param {DataPoint[]} data - The series.
+ * @param {DecompositionOptions} options - The resolved options.
+ * @returns {number | TimeSeriesError} - The period, or the error to return.
+ */
+export function resolvePeriod(data: DataPoint[], options: DecompositionOptions): number | TimeSeriesError {
+  if (options.period === null) {
+    const detected = seasonalPeriod(data, options);
+    return detected.ok ? detected.period : detected;
+  }
+  if (!(Number.isInteger(options.period) && options.period >= 2)) {
+    return {
+      ok: false,
+      errorType: "InvalidInput",
+      message: `The seasonal period must be an integer of at least 2. Received ${options.period}.`,
+    };
+  }
+  return options.period;
+}
+
+/**
+ * Partial autocorrelations from autocorrelations by the Durbin–Levinson recursion.
+ *
+ * @param {number[]} acf - The autocorrelations at lags `0, 1, …, maxLag`.
+ * @returns {number[]} - The partial autocorrelations at lags `1, …, maxLag`.
+ */
+export function partialAutocorrelations(acf: number[]): number[] {
+  const partials: number[] = [];
+  let previous: number[] = [];
+  for (let k = 1; k < acf.length; k++) {
+    let numerator = acf[k];
+    let denominator = 1;
+    previous.forEach((coefficient, j) => {
+      numerator -= coefficient * acf[k - 1 - j];
+      denominator -= coefficient * acf[j + 1];
+    });
+    const partial = numerator / denominator;
+    previous = [...previous.map((coefficient, j) => coefficient - partial * previous[k - 2 - j]), partial];
+    partials.push(partial);
+  }
+  return partials;
+}
+
+/**
+ * Fit an ordinary least-squares regression by QR decomposition.
+ *
+ * @param {number[][]} rows - The design matrix, one row per observation.
+ * @param {number[]} y - The response.
+ * @returns {{ beta: number[]; standardErrors: number[]; sse: number } | null} - The coefficients, their standard
+ * errors and the residual sum of squares, or null if the design matrix is rank deficient.
+ */
+export function leastSquares(
+  rows: number[][],
+  y: number[]
+): { beta: number[]; standardErrors: number[]; sse: number } | null {
+  const decomposition = qr(rows);
+  const { r } = decomposition;
+  const columns = rows[0].length;
+  for (let j = 0; j < columns; j++) {
+    const norm = Math.sqrt(rows.reduce((sum, row) => sum + row[j] * row[j], 0));
+    if (norm === 0 || Math.abs(r[j][j]) <= 1e-10 * norm) {
+      return null;
+    }
+  }
+  const beta = solveUpperTriangular(r, applyQTranspose(decomposition, y));
+  const sse = y.reduce((sum, value, i) => sum + (value - rows[i].reduce((fit, x, j) => fit + x * beta[j], 0)) ** 2, 0);
+  const variance = sse / (y.length - columns);
+  const rInverse = invertUpperTriangular(r);
+  return {
+    beta,
+    standardErrors: rInverse.map((row) => Math.sqrt(variance * row.reduce((sum, value) => sum + value * value, 0))),
+    sse,
+  };
+}